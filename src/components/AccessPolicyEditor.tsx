@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { ACCESS_POLICY_LISTS, AccessPolicy, AccessPolicyListField, describeAccessPolicy, normalizeAccessPolicy, parsePolicyList } from '../utils/accessPolicy';
+import { ShieldCheck } from 'lucide-react';
+
+interface AccessPolicyEditorProps {
+  policy: AccessPolicy | null;
+  onChange: (policy: AccessPolicy | null) => void;
+  // Shown under the title, e.g. how endpoint and project policies combine
+  description: string;
+  error?: string;
+}
+
+export const AccessPolicyEditor: React.FC<AccessPolicyEditorProps> = ({ policy, onChange, description, error }) => {
+  // Lists are edited as text so separators can be typed before the next entry
+  const [drafts, setDrafts] = useState<Record<AccessPolicyListField, string>>(() =>
+    Object.fromEntries(ACCESS_POLICY_LISTS.map(({ field }) => [field, (policy?.[field] || []).join('\n')])) as Record<AccessPolicyListField, string>
+  );
+  const summary = describeAccessPolicy(policy);
+
+  const updateList = (field: AccessPolicyListField, text: string) => {
+    setDrafts(prev => ({ ...prev, [field]: text }));
+    onChange(normalizeAccessPolicy({ ...policy, [field]: parsePolicyList(text) }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <ShieldCheck className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white">CORS & IP Restrictions</h3>
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400">{description}</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {ACCESS_POLICY_LISTS.map(list => (
+          <div key={list.field}>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{list.label}</label>
+            <textarea
+              value={drafts[list.field]}
+              onChange={(e) => updateList(list.field, e.target.value)}
+              placeholder={list.placeholder}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-mono bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            />
+            <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">{list.description}</p>
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={Boolean(policy?.allow_credentials)}
+          onChange={(e) => onChange(normalizeAccessPolicy({ ...policy, allow_credentials: e.target.checked }))}
+          className="w-4 h-4 text-blue-600"
+        />
+        <span>Allow credentials (cookies and Authorization) from allowed origins</span>
+      </label>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        {summary.length > 0 ? `Restricted to ${summary.join(', ')}. ` : 'No restrictions. '}
+        Blocked requests get <code>403 Forbidden</code> and are logged as <code>ip_blocked</code> or <code>origin_blocked</code>.
+      </p>
+    </div>
+  );
+};
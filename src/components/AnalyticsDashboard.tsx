@@ -1,6 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { useAnalytics, DashboardStats } from '../hooks/useAnalytics';
-import { BarChart3, TrendingUp, Globe, Clock, AlertCircle, Users, Zap, MapPin, Activity, Calendar } from 'lucide-react';
+import { BarChart3, TrendingUp, Globe, Clock, AlertCircle, Users, Zap, MapPin, Activity, Calendar, AlertTriangle, GitBranch } from 'lucide-react';
+
+// Error types recorded by the api-proxy function
+const ERROR_TYPES: Record<string, { label: string; description: string; color: string }> = {
+  rate_limited: { label: 'Rate limited', description: 'Clients over a rate limit (logged once per window)', color: 'from-yellow-500 to-orange-500' },
+  invalid_token: { label: 'Invalid tokens', description: 'Missing, expired or wrongly signed JWT bearer tokens', color: 'from-purple-500 to-pink-500' },
+  invalid_signature: { label: 'Invalid signatures', description: 'Missing, stale or wrong HMAC request signatures', color: 'from-fuchsia-500 to-purple-600' },
+  ip_blocked: { label: 'Blocked addresses', description: 'Clients outside the IP allowlist or on the denylist', color: 'from-slate-500 to-slate-700' },
+  origin_blocked: { label: 'Blocked origins', description: 'Browser requests from origins the CORS policy does not allow', color: 'from-cyan-500 to-blue-600' },
+  upstream_error: { label: 'Upstream errors', description: 'Upstream endpoints whose upstream could not be reached', color: 'from-teal-500 to-emerald-700' },
+  upstream_timeout: { label: 'Upstream timeouts', description: 'Upstreams that did not answer within the endpoint timeout', color: 'from-teal-400 to-cyan-600' },
+  no_recording: { label: 'Missing recordings', description: 'Replayed requests with nothing recorded to serve', color: 'from-emerald-400 to-teal-500' },
+  unknown_version: { label: 'Unknown versions', description: 'Requests for an endpoint version that was never published', color: 'from-indigo-400 to-indigo-600' },
+  version_sunset: { label: 'Retired versions', description: 'Requests for a version past its Sunset date', color: 'from-stone-400 to-stone-600' },
+  chaos: { label: 'Chaos', description: 'Failures injected by a chaos profile or X-Mock-Scenario', color: 'from-amber-400 to-amber-600' },
+  client_error: { label: 'Client errors', description: 'Bad requests, missing keys and unknown items', color: 'from-orange-500 to-red-500' },
+  server_error: { label: 'Server errors', description: 'Failures inside the proxy', color: 'from-red-500 to-red-700' },
+};
 
 interface AnalyticsDashboardProps {
   projectId: string;
@@ -361,6 +378,86 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
         </div>
       </div>
 
+      {/* Errors by Type */}
+      {stats.errorTypes.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Errors by Type</h3>
+            <AlertTriangle className="w-5 h-5 text-gray-500" />
+          </div>
+
+          <div className="space-y-4">
+            {stats.errorTypes.map(errorType => {
+              const info = ERROR_TYPES[errorType.type] || { label: errorType.type, description: '', color: 'from-gray-400 to-gray-600' };
+              const maxRequests = Math.max(...stats.errorTypes.map(e => e.requests));
+              const width = maxRequests > 0 ? (errorType.requests / maxRequests) * 100 : 0;
+
+              return (
+                <div key={errorType.type} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <div>
+                      <span className="font-medium text-gray-900 dark:text-white">{info.label}</span>
+                      {info.description && (
+                        <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">{info.description}</span>
+                      )}
+                    </div>
+                    <span className="text-gray-600 dark:text-gray-400">{formatNumber(errorType.requests)}</span>
+                  </div>
+                  <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                    <div
+                      className={`bg-gradient-to-r ${info.color} h-2 rounded-full transition-all duration-500`}
+                      style={{ width: `${width}%` }}
+                    ></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Traffic by Version */}
+      {stats.versionTraffic.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Traffic by Version</h3>
+            <GitBranch className="w-5 h-5 text-gray-500" />
+          </div>
+
+          <div className="space-y-4">
+            {stats.versionTraffic.map(entry => {
+              const endpointRequests = stats.versionTraffic
+                .filter(other => other.endpoint === entry.endpoint)
+                .reduce((sum, other) => sum + other.requests, 0);
+              const width = endpointRequests > 0 ? (entry.requests / endpointRequests) * 100 : 0;
+
+              return (
+                <div key={`${entry.endpoint} v${entry.version}`} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <code className="font-mono text-gray-900 dark:text-white truncate">{entry.endpoint}</code>
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200">
+                        v{entry.version}
+                      </span>
+                    </div>
+                    <span className="text-gray-600 dark:text-gray-400 ml-2">
+                      {formatNumber(entry.requests)}
+                      {entry.errors > 0 && <span className="text-red-600 dark:text-red-400"> ({formatNumber(entry.errors)} errors)</span>}
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                    <div
+                      className="bg-gradient-to-r from-indigo-500 to-purple-600 h-2 rounded-full transition-all duration-500"
+                      style={{ width: `${width}%` }}
+                    ></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Performance Insights */}
       {stats.totalRequests > 0 && (
         <div className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-xl border border-blue-200 dark:border-blue-800 p-6">
@@ -1,6 +1,14 @@
 import React, { useState } from 'react';
 import { ApiEndpoint } from '../hooks/useApis';
-import { Edit2, Trash2, Play, Copy, Check, Globe, ExternalLink, Lock, Unlock, Key, RefreshCw, Database, Code, AlertTriangle, FileText } from 'lucide-react';
+import { describeChaosProfile } from '../utils/chaosProfile';
+import { SESSION_HEADER, formatSessionTtl } from '../utils/mockSessions';
+import { describeStep } from '../utils/responseSequence';
+import { describeStream } from '../utils/streaming';
+import { describeCatcher } from '../utils/captures';
+import { ApiKeyManager } from './ApiKeyManager';
+import { RecordingsViewer } from './RecordingsViewer';
+import { EndpointVersions } from './EndpointVersions';
+import { Edit2, Trash2, Play, Copy, Check, Globe, ExternalLink, Lock, Unlock, Key, KeyRound, RefreshCw, Database, Code, AlertTriangle, FileText, Zap, Radio, GitBranch, Layers, ListOrdered, Activity, Inbox } from 'lucide-react';
 
 interface ApiCardProps {
   api: ApiEndpoint;
@@ -8,6 +16,8 @@ interface ApiCardProps {
   onDelete: (id: string) => void;
   onTest: (api: ApiEndpoint) => void;
   onRegenerateKey: (id: string) => void;
+  onPromoteRecording: (name: string, jsonData: unknown) => Promise<boolean>;
+  onSetCurrentVersion: (id: string, version: number | null) => Promise<boolean>;
 }
 
 export const ApiCard: React.FC<ApiCardProps> = ({
@@ -16,11 +26,16 @@ export const ApiCard: React.FC<ApiCardProps> = ({
   onDelete,
   onTest,
   onRegenerateKey,
+  onPromoteRecording,
+  onSetCurrentVersion,
 }) => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showApiKey, setShowApiKey] = useState(false);
   const [copied, setCopied] = useState(false);
   const [copiedKey, setCopiedKey] = useState(false);
+  const [showKeyManager, setShowKeyManager] = useState(false);
+  const [showRecordings, setShowRecordings] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
 
   const getApiUrl = () => {
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -77,6 +92,30 @@ export const ApiCard: React.FC<ApiCardProps> = ({
         bgColor: 'bg-purple-100',
         description: 'Dynamic data managed through the UI'
       };
+    } else if (api.data_type === 'upstream') {
+      return {
+        icon: Radio,
+        label: api.upstream_config?.mode === 'replay' ? 'Replay' : 'Recording',
+        color: 'text-teal-600',
+        bgColor: 'bg-teal-100',
+        description: 'Forwards to an upstream API'
+      };
+    } else if (api.data_type === 'stream') {
+      return {
+        icon: Activity,
+        label: 'Event Stream',
+        color: 'text-indigo-600',
+        bgColor: 'bg-indigo-100',
+        description: 'Server-Sent Events'
+      };
+    } else if (api.data_type === 'catcher') {
+      return {
+        icon: Inbox,
+        label: 'Catcher',
+        color: 'text-pink-600',
+        bgColor: 'bg-pink-100',
+        description: 'Captures incoming requests'
+      };
     } else if (api.template_id) {
       return {
         icon: FileText,
@@ -98,6 +137,7 @@ export const ApiCard: React.FC<ApiCardProps> = ({
 
   const dataTypeInfo = getDataTypeInfo();
   const DataTypeIcon = dataTypeInfo.icon;
+  const chaosSummary = describeChaosProfile(api.chaos_config);
 
   return (
     <>
@@ -114,6 +154,14 @@ export const ApiCard: React.FC<ApiCardProps> = ({
               <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
                 GET
               </span>
+              {api.data_type === 'schema' && (
+                <span
+                  className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+                  title="Also accepts POST, PUT, PATCH and DELETE"
+                >
+                  CRUD
+                </span>
+              )}
               {!api.is_public && (
                 <span className="px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200">
                   Private
@@ -122,6 +170,39 @@ export const ApiCard: React.FC<ApiCardProps> = ({
               <span className={`px-2 py-1 rounded-full text-xs font-medium ${dataTypeInfo.bgColor} ${dataTypeInfo.color} dark:bg-opacity-20`}>
                 {dataTypeInfo.label}
               </span>
+              {api.chaos_config?.enabled && (
+                <span className="flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                  <Zap className="w-3 h-3" />
+                  <span>Chaos</span>
+                </span>
+              )}
+              {api.response_sequence?.enabled && (
+                <span
+                  className="flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200"
+                  title={api.response_sequence.steps.map(describeStep).join(', ')}
+                >
+                  <ListOrdered className="w-3 h-3" />
+                  <span>Sequence ({api.response_sequence.steps.length})</span>
+                </span>
+              )}
+              {api.data_type === 'schema' && api.session_ttl_minutes != null && (
+                <span
+                  className="flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-cyan-100 text-cyan-800 dark:bg-cyan-900 dark:text-cyan-200"
+                  title={`Requests with an ${SESSION_HEADER} header get their own copy of the data, discarded after ${formatSessionTtl(api.session_ttl_minutes)} idle`}
+                >
+                  <Layers className="w-3 h-3" />
+                  <span>Sessions</span>
+                </span>
+              )}
+              {api.current_version != null && (
+                <span
+                  className="flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200"
+                  title="Version served to requests that don't name one"
+                >
+                  <GitBranch className="w-3 h-3" />
+                  <span>v{api.current_version}</span>
+                </span>
+              )}
             </div>
             
             <div className="flex items-center space-x-2 mb-2">
@@ -154,6 +235,16 @@ export const ApiCard: React.FC<ApiCardProps> = ({
               <strong>API URL:</strong> {getApiUrl()}
             </div>
 
+            {api.chaos_config?.enabled && (
+              <div className="flex items-start space-x-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded p-2 mb-2">
+                <Zap className="w-3 h-3 text-amber-600 mt-0.5" />
+                <p className="text-xs text-amber-800 dark:text-amber-200">
+                  <strong>Chaos profile active:</strong> {chaosSummary.length > 0 ? chaosSummary.join(', ') : 'no effects configured'}.
+                  {' '}Send <code>X-Mock-Scenario: off</code> to bypass.
+                </p>
+              </div>
+            )}
+
             {!api.is_public && api.api_key && (
               <div className="bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded p-2 mb-2">
                 <div className="flex items-center justify-between">
@@ -180,6 +271,13 @@ export const ApiCard: React.FC<ApiCardProps> = ({
                     >
                       <RefreshCw className="w-3 h-3" />
                     </button>
+                    <button
+                      onClick={() => setShowKeyManager(true)}
+                      className="text-orange-600 hover:text-orange-800 transition-colors"
+                      title="Manage Named Keys"
+                    >
+                      <KeyRound className="w-3 h-3" />
+                    </button>
                   </div>
                 </div>
                 {showApiKey && (
@@ -206,6 +304,18 @@ export const ApiCard: React.FC<ApiCardProps> = ({
             <p className="text-xs text-gray-600 dark:text-gray-400">
               Dynamic data managed through the UI
             </p>
+          ) : api.data_type === 'upstream' ? (
+            <p className="text-xs text-gray-600 dark:text-gray-400 font-mono break-all">
+              {api.upstream_config?.url}
+            </p>
+          ) : api.data_type === 'stream' ? (
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              {describeStream(api.stream_config)}
+            </p>
+          ) : api.data_type === 'catcher' ? (
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              {describeCatcher(api.catcher_config)}
+            </p>
           ) : (
             <pre className="text-xs text-gray-600 dark:text-gray-400 overflow-x-auto max-h-20">
               {formatJsonPreview(api.json_data)}
@@ -226,6 +336,24 @@ export const ApiCard: React.FC<ApiCardProps> = ({
             <Play className="w-4 h-4" />
             <span>Test</span>
           </button>
+
+          <button
+            onClick={() => setShowVersions(true)}
+            className="flex items-center justify-center bg-indigo-600 text-white px-3 py-2 rounded-lg hover:bg-indigo-700 transition-colors"
+            title="Version history"
+          >
+            <GitBranch className="w-4 h-4" />
+          </button>
+
+          {api.data_type === 'upstream' && (
+            <button
+              onClick={() => setShowRecordings(true)}
+              className="flex items-center justify-center bg-teal-600 text-white px-3 py-2 rounded-lg hover:bg-teal-700 transition-colors"
+              title="Recordings"
+            >
+              <Radio className="w-4 h-4" />
+            </button>
+          )}
           
           <button
             onClick={() => onEdit(api)}
@@ -243,6 +371,22 @@ export const ApiCard: React.FC<ApiCardProps> = ({
         </div>
       </div>
 
+      {showKeyManager && (
+        <ApiKeyManager api={api} onClose={() => setShowKeyManager(false)} />
+      )}
+
+      {showVersions && (
+        <EndpointVersions
+          api={api}
+          onSetCurrent={(version) => onSetCurrentVersion(api.id, version)}
+          onClose={() => setShowVersions(false)}
+        />
+      )}
+
+      {showRecordings && (
+        <RecordingsViewer api={api} onPromote={onPromoteRecording} onClose={() => setShowRecordings(false)} />
+      )}
+
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-md w-full mx-4 overflow-hidden">
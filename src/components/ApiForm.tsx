@@ -3,16 +3,46 @@ import { ApiEndpoint } from '../hooks/useApis';
 import { ApiSchema, useSchemas } from '../hooks/useSchemas';
 import { JsonTemplate, useJsonTemplates } from '../hooks/useJsonTemplates';
 import { useAuth } from '../hooks/useAuth';
-import { X, Save, Globe, Lock, Info, Database, FileText, Edit3, Key, RefreshCw } from 'lucide-react';
+import { ResponseRuleInput, toRuleInput, useResponseRules, validateRules } from '../hooks/useResponseRules';
+import { useUpstreamSecrets } from '../hooks/useUpstreamSecrets';
+import { ResponseRulesEditor } from './ResponseRulesEditor';
+import { ChaosProfileEditor } from './ChaosProfileEditor';
+import { ResponseSequenceEditor } from './ResponseSequenceEditor';
+import { RateLimitEditor } from './RateLimitEditor';
+import { JwtConfigEditor } from './JwtConfigEditor';
+import { SigningConfigEditor } from './SigningConfigEditor';
+import { AccessPolicyEditor } from './AccessPolicyEditor';
+import { UpstreamConfigEditor } from './UpstreamConfigEditor';
+import { StreamConfigEditor } from './StreamConfigEditor';
+import { CatcherConfigEditor } from './CatcherConfigEditor';
+import { ChaosConfig } from '../utils/chaosProfile';
+import { DEFAULT_JWT_CONFIG, JwtConfig, generateJwtSecret, validateJwtConfig } from '../utils/jwtAuth';
+import { AUTH_MODES, AuthMode, SigningConfig } from '../utils/endpointAuth';
+import { AccessPolicy, validateAccessPolicy } from '../utils/accessPolicy';
+import { DEFAULT_UPSTREAM_CONFIG, UpstreamConfig, UpstreamHeaders, validateUpstreamConfig } from '../utils/upstream';
+import { DEFAULT_STREAM_CONFIG, StreamConfig, validateStreamConfig } from '../utils/streaming';
+import { CatcherConfig, DEFAULT_CATCHER_CONFIG, validateCatcherConfig } from '../utils/captures';
+import { ResponseSequence, validateResponseSequence } from '../utils/responseSequence';
+import { DEFAULT_SESSION_TTL_MINUTES, MAX_SESSION_TTL_MINUTES, SESSION_HEADER, validateSessionTtl } from '../utils/mockSessions';
+import { CACHE_CONTROL_OPTIONS, COMMON_RESPONSE_HEADERS, CONTENT_TYPE_OPTIONS, DEFAULT_CONTENT_TYPE, RESPONSE_FORMATS, ResponseFormat, SUCCESS_STATUS_OPTIONS } from '../utils/responseSettings';
+import { getExampleRoute, getRouteParams, validateRoute } from '../utils/routeParams';
+import { X, Save, Globe, Lock, Info, Database, FileText, Edit3, Key, RefreshCw, Braces, Settings, GitBranch, Zap, Send, Plus, Trash2, Radio, ListOrdered, Activity, Inbox } from 'lucide-react';
 
 interface ApiFormProps {
   projectId: string;
   projectName: string;
   api?: ApiEndpoint;
-  onSave: (api: Omit<ApiEndpoint, 'id' | 'created_at' | 'updated_at' | 'user_id'>) => void;
+  // rules and upstreamHeaders are null when they were not changed
+  onSave: (
+    api: Omit<ApiEndpoint, 'id' | 'created_at' | 'updated_at' | 'user_id'>,
+    rules: ResponseRuleInput[] | null,
+    upstreamHeaders: UpstreamHeaders | null
+  ) => void;
   onCancel: () => void;
 }
 
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9\-_.]+$/;
+
 export const ApiForm: React.FC<ApiFormProps> = ({
   projectId,
   projectName,
@@ -23,6 +53,8 @@ export const ApiForm: React.FC<ApiFormProps> = ({
   const { isSchemaMode } = useAuth();
   const { getSchemasByProjectId } = useSchemas();
   const { getTemplatesByProjectId } = useJsonTemplates();
+  const { fetchRules } = useResponseRules();
+  const { fetchUpstreamHeaders } = useUpstreamSecrets();
   const projectSchemas = getSchemasByProjectId(projectId);
   const projectTemplates = getTemplatesByProjectId(projectId);
 
@@ -43,14 +75,83 @@ export const ApiForm: React.FC<ApiFormProps> = ({
     description: api?.description || '',
     is_public: api?.is_public ?? true,
     requires_auth: api?.requires_auth ?? false,
-    data_type: (api?.data_type as 'template' | 'schema') || 'template',
+    data_type: (api?.data_type as 'template' | 'schema' | 'upstream' | 'stream' | 'catcher') || 'template',
     schema_id: api?.schema_id || '',
     template_id: api?.template_id || '',
     api_key: api?.api_key || '', // Preserve existing API key
+    item_key_field: api?.item_key_field || '',
+    chaos_config: api?.chaos_config || null,
+    rate_limits: api?.rate_limits || null,
+    auth_mode: (api?.auth_mode || 'api_key') as AuthMode,
+    jwt_config: (api?.jwt_config || null) as JwtConfig | null,
+    signing_config: (api?.signing_config || null) as SigningConfig | null,
+    access_policy: (api?.access_policy || null) as AccessPolicy | null,
+    response_status: api?.response_status || 200,
+    content_type: api?.content_type || DEFAULT_CONTENT_TYPE,
+    cache_control: api?.cache_control || '',
+    response_formats: (api?.response_formats || null) as ResponseFormat[] | null,
+    upstream_config: (api?.upstream_config || DEFAULT_UPSTREAM_CONFIG) as UpstreamConfig,
+    stream_config: (api?.stream_config || DEFAULT_STREAM_CONFIG) as StreamConfig,
+    catcher_config: (api?.catcher_config || DEFAULT_CATCHER_CONFIG) as CatcherConfig,
+    session_ttl_minutes: (api?.session_ttl_minutes ?? null) as number | null,
+    response_sequence: (api?.response_sequence || null) as ResponseSequence | null,
   });
+  const [headerRows, setHeaderRows] = useState<{ name: string; value: string }[]>(
+    Object.entries(api?.response_headers || {}).map(([name, value]) => ({ name, value }))
+  );
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  // Streaming endpoints can take their events from the endpoint's template or schema
+  const streamSource = formData.data_type === 'stream' ? formData.stream_config.source : null;
+  const usesTemplate = formData.data_type === 'template' || streamSource === 'template';
+  const usesSchema = formData.data_type === 'schema' || streamSource === 'schema';
+  const [activeTab, setActiveTab] = useState<'general' | 'rules' | 'sequence' | 'chaos'>('general');
+  const [rules, setRules] = useState<ResponseRuleInput[]>([]);
+  const [rulesLoading, setRulesLoading] = useState(!!api?.id);
+  const [rulesChanged, setRulesChanged] = useState(false);
+
+  useEffect(() => {
+    if (!api?.id) return;
+    let mounted = true;
+    fetchRules(api.id).then(loadedRules => {
+      if (mounted) {
+        setRules(loadedRules.map(toRuleInput));
+        setRulesLoading(false);
+      }
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [api?.id, fetchRules]);
+
+  // Upstream headers are stored apart from the endpoint, so they are loaded like the rules
+  const [upstreamHeaders, setUpstreamHeaders] = useState<UpstreamHeaders>({});
+  const [upstreamHeadersLoading, setUpstreamHeadersLoading] = useState(api?.data_type === 'upstream');
+  const [upstreamHeadersChanged, setUpstreamHeadersChanged] = useState(false);
+
+  useEffect(() => {
+    if (!api?.id || api.data_type !== 'upstream') return;
+    let mounted = true;
+    fetchUpstreamHeaders(api.id).then(headers => {
+      if (mounted) {
+        setUpstreamHeaders(headers);
+        setUpstreamHeadersLoading(false);
+      }
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [api?.id, api?.data_type, fetchUpstreamHeaders]);
+
+  const handleRulesChange = (updatedRules: ResponseRuleInput[]) => {
+    setRules(updatedRules);
+    setRulesChanged(true);
+    if (errors.rules) {
+      setErrors(prev => ({ ...prev, rules: '' }));
+    }
+  };
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
@@ -67,9 +168,10 @@ export const ApiForm: React.FC<ApiFormProps> = ({
         route = '/' + route;
       }
       
-      // Validate route format
-      if (!/^\/[a-zA-Z0-9\-_\/]*$/.test(route)) {
-        newErrors.route = 'Route can only contain letters, numbers, hyphens, underscores, and forward slashes';
+      // Validate route format, including :params and * wildcards
+      const routeValidation = validateRoute(route);
+      if (!routeValidation.isValid) {
+        newErrors.route = routeValidation.error || 'Invalid route';
       }
     }
 
@@ -81,9 +183,79 @@ export const ApiForm: React.FC<ApiFormProps> = ({
       if (!formData.schema_id) {
         newErrors.schema_id = 'Please select a schema';
       }
+      const sessionError = validateSessionTtl(formData.session_ttl_minutes);
+      if (sessionError) {
+        newErrors.session_ttl_minutes = sessionError;
+      }
+    } else if (formData.data_type === 'upstream') {
+      const upstreamError = validateUpstreamConfig(formData.upstream_config);
+      if (upstreamError) {
+        newErrors.upstream_config = upstreamError;
+      }
+    } else if (formData.data_type === 'stream') {
+      const streamError = validateStreamConfig(formData.stream_config);
+      if (streamError) {
+        newErrors.stream_config = streamError;
+      }
+      if (streamSource === 'template' && !formData.template_id) {
+        newErrors.template_id = 'Please select a JSON template';
+      } else if (streamSource === 'schema' && !formData.schema_id) {
+        newErrors.schema_id = 'Please select a schema';
+      }
+    } else if (formData.data_type === 'catcher') {
+      const catcherError = validateCatcherConfig(formData.catcher_config);
+      if (catcherError) {
+        newErrors.catcher_config = catcherError;
+      }
+    }
+
+    const headerNames = headerRows.map(row => row.name.trim().toLowerCase()).filter(Boolean);
+    if (headerRows.some(row => row.name.trim() && !HEADER_NAME_PATTERN.test(row.name.trim()))) {
+      newErrors.response_headers = 'Header names may only contain letters, numbers and - _ . characters';
+    } else if (headerNames.includes('content-type')) {
+      newErrors.response_headers = 'Set the content type with the Content Type field instead';
+    } else if (headerNames.includes('cache-control')) {
+      newErrors.response_headers = 'Set caching with the Cache-Control field instead';
+    } else if (new Set(headerNames).size !== headerNames.length) {
+      newErrors.response_headers = 'Each header can only be declared once';
+    }
+
+    if (!formData.content_type.trim()) {
+      newErrors.content_type = 'Content type is required';
+    }
+
+    if (formData.response_formats?.length === 0) {
+      newErrors.response_formats = 'Serve at least one format';
+    }
+
+    if (!formData.is_public && formData.auth_mode === 'jwt') {
+      const jwtError = validateJwtConfig(formData.jwt_config);
+      if (jwtError) {
+        newErrors.jwt_config = jwtError;
+      }
+    }
+
+    const policyError = validateAccessPolicy(formData.access_policy);
+    if (policyError) {
+      newErrors.access_policy = policyError;
+    }
+
+    const rulesError = validateRules(rules);
+    if (rulesError) {
+      newErrors.rules = rulesError;
+    }
+
+    const sequenceError = validateResponseSequence(formData.response_sequence);
+    if (sequenceError) {
+      newErrors.response_sequence = sequenceError;
     }
 
     setErrors(newErrors);
+    if (rulesError && Object.keys(newErrors).length === 1) {
+      setActiveTab('rules');
+    } else if (sequenceError && Object.keys(newErrors).length === 1) {
+      setActiveTab('sequence');
+    }
     return Object.keys(newErrors).length === 0;
   };
 
@@ -110,7 +282,7 @@ export const ApiForm: React.FC<ApiFormProps> = ({
       // Prepare the data based on type
       let finalJsonData = formData.json_data;
       
-      if (formData.data_type === 'template' && formData.template_id) {
+      if (usesTemplate && formData.template_id) {
         const selectedTemplate = projectTemplates.find(t => t.id === formData.template_id);
         if (selectedTemplate) {
           finalJsonData = selectedTemplate.json_data;
@@ -135,9 +307,32 @@ export const ApiForm: React.FC<ApiFormProps> = ({
         json_data: finalJsonData,
         api_key: finalApiKey,
         // Clear irrelevant fields based on data type
-        schema_id: formData.data_type === 'schema' ? formData.schema_id : undefined,
-        template_id: formData.data_type === 'template' ? formData.template_id : undefined,
-      });
+        schema_id: usesSchema ? formData.schema_id : undefined,
+        template_id: usesTemplate ? formData.template_id : undefined,
+        item_key_field: formData.data_type === 'schema' && formData.item_key_field ? formData.item_key_field : null,
+        upstream_config: formData.data_type === 'upstream'
+          ? { ...formData.upstream_config, url: formData.upstream_config.url.trim() }
+          : null,
+        stream_config: formData.data_type === 'stream'
+          ? {
+              ...formData.stream_config,
+              event: formData.stream_config.event?.trim() || null,
+              generator: streamSource === 'generator' ? formData.stream_config.generator : undefined,
+            }
+          : null,
+        catcher_config: formData.data_type === 'catcher' ? formData.catcher_config : null,
+        session_ttl_minutes: formData.data_type === 'schema' ? formData.session_ttl_minutes : null,
+        content_type: formData.content_type.trim(),
+        cache_control: formData.cache_control.trim() || null,
+        response_headers: Object.fromEntries(
+          headerRows
+            .filter(row => row.name.trim())
+            .map(row => [row.name.trim(), row.value])
+        ),
+      }, rulesChanged ? rules : null, formData.data_type === 'upstream'
+        ? (upstreamHeadersChanged ? upstreamHeaders : null)
+        // Headers of an endpoint that no longer forwards are removed
+        : (api?.data_type === 'upstream' ? {} : null));
     }
   };
 
@@ -149,7 +344,17 @@ export const ApiForm: React.FC<ApiFormProps> = ({
     }
   };
 
-  const handleDataTypeChange = (newDataType: 'template' | 'schema') => {
+  const toggleResponseFormat = (format: ResponseFormat) => {
+    const current = formData.response_formats || RESPONSE_FORMATS.map(option => option.value);
+    const next = current.includes(format) ? current.filter(value => value !== format) : [...current, format];
+    // Store null when every format is served, so formats added later are served too
+    setFormData(prev => ({ ...prev, response_formats: next.length === RESPONSE_FORMATS.length ? null : next }));
+    if (errors.response_formats) {
+      setErrors(prev => ({ ...prev, response_formats: '' }));
+    }
+  };
+
+  const handleDataTypeChange = (newDataType: 'template' | 'schema' | 'upstream' | 'stream' | 'catcher') => {
     setFormData(prev => ({ 
       ...prev, 
       data_type: newDataType,
@@ -178,6 +383,16 @@ export const ApiForm: React.FC<ApiFormProps> = ({
     }));
   };
 
+  const handleAuthModeChange = (authMode: AuthMode) => {
+    setFormData(prev => ({
+      ...prev,
+      auth_mode: authMode,
+      jwt_config: authMode === 'jwt' && !prev.jwt_config
+        ? { ...DEFAULT_JWT_CONFIG, secret: generateJwtSecret() }
+        : prev.jwt_config,
+    }));
+  };
+
   const handleRegenerateApiKey = () => {
     const newApiKey = generateApiKey();
     setFormData(prev => ({ ...prev, api_key: newApiKey }));
@@ -196,6 +411,19 @@ export const ApiForm: React.FC<ApiFormProps> = ({
     return `${supabaseUrl}/functions/v1/api-proxy${fullRoute}`;
   };
 
+  const updateHeaderRow = (index: number, updates: Partial<{ name: string; value: string }>) => {
+    setHeaderRows(prev => prev.map((row, i) => i === index ? { ...row, ...updates } : row));
+    if (errors.response_headers) {
+      setErrors(prev => ({ ...prev, response_headers: '' }));
+    }
+  };
+
+  const routeParams = getRouteParams(formData.route);
+  const selectedSchema = projectSchemas.find(schema => schema.id === formData.schema_id);
+  const keyFieldOptions = (selectedSchema?.fields || []).filter(field =>
+    ['text', 'number', 'email', 'url'].includes(field.type)
+  );
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white dark:bg-gray-800 rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
@@ -214,302 +442,762 @@ export const ApiForm: React.FC<ApiFormProps> = ({
           </button>
         </div>
 
-        <form onSubmit={handleSubmit} className="p-6 space-y-6">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              API Name *
-            </label>
-            <input
-              type="text"
-              value={formData.name}
-              onChange={(e) => handleInputChange('name', e.target.value)}
-              placeholder="User Profile API"
-              className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-white ${
-                errors.name ? 'border-red-300 bg-red-50 dark:bg-red-900/20' : 'border-gray-300 dark:border-gray-600'
+        <div className="flex border-b border-gray-200 dark:border-gray-700 px-6">
+          {[
+            { id: 'general' as const, label: 'General', icon: Settings },
+            { id: 'rules' as const, label: `Response Rules${rules.length > 0 ? ` (${rules.length})` : ''}`, icon: GitBranch },
+            { id: 'sequence' as const, label: `Sequence${formData.response_sequence?.enabled ? ` (${formData.response_sequence.steps.length})` : ''}`, icon: ListOrdered },
+            { id: 'chaos' as const, label: `Chaos${formData.chaos_config?.enabled ? ' (on)' : ''}`, icon: Zap },
+          ].map(tab => (
+            <button
+              key={tab.id}
+              type="button"
+              onClick={() => setActiveTab(tab.id)}
+              className={`flex items-center space-x-2 px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === tab.id
+                  ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
               }`}
+            >
+              <tab.icon className="w-4 h-4" />
+              <span>{tab.label}</span>
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {activeTab === 'rules' && (
+            rulesLoading ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400 text-center py-6">Loading rules...</p>
+            ) : (
+              <ResponseRulesEditor
+                rules={rules}
+                onChange={handleRulesChange}
+                templates={projectTemplates}
+                routeParamNames={routeParams.map(param => param.name)}
+              />
+            )
+          )}
+          {activeTab === 'sequence' && (
+            <ResponseSequenceEditor
+              sequence={formData.response_sequence}
+              onChange={(sequence: ResponseSequence) => {
+                setFormData(prev => ({ ...prev, response_sequence: sequence }));
+                if (errors.response_sequence) {
+                  setErrors(prev => ({ ...prev, response_sequence: '' }));
+                }
+              }}
+              error={errors.response_sequence}
             />
-            {errors.name && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.name}</p>}
-          </div>
+          )}
+          {activeTab === 'chaos' && (
+            <ChaosProfileEditor
+              config={formData.chaos_config}
+              onChange={(chaosConfig: ChaosConfig) => setFormData(prev => ({ ...prev, chaos_config: chaosConfig }))}
+            />
+          )}
+          {errors.rules && <p className="text-sm text-red-600 dark:text-red-400">{errors.rules}</p>}
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Endpoint Route *
-            </label>
-            <div className="space-y-2">
-              <div className="flex items-center space-x-2">
-                <span className="px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
-                  GET
-                </span>
-                <div className="flex-1 flex items-center">
-                  <span className="px-3 py-2 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 text-sm border border-r-0 border-gray-300 dark:border-gray-600 rounded-l-lg">
-                    /{projectName.toLowerCase().replace(/\s+/g, '-')}
+          <div className={activeTab === 'general' ? 'space-y-6' : 'hidden'}>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                API Name *
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                placeholder="User Profile API"
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-white ${
+                  errors.name ? 'border-red-300 bg-red-50 dark:bg-red-900/20' : 'border-gray-300 dark:border-gray-600'
+                }`}
+              />
+              {errors.name && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.name}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Endpoint Route *
+              </label>
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <span className="px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                    GET
                   </span>
-                  <div className="relative flex-1">
-                    <Edit3 className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
-                    <input
-                      type="text"
-                      value={formData.route}
-                      onChange={(e) => handleInputChange('route', e.target.value)}
-                      placeholder="/users"
-                      className={`w-full pl-10 pr-3 py-2 border rounded-r-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-white ${
-                        errors.route ? 'border-red-300 bg-red-50 dark:bg-red-900/20' : 'border-gray-300 dark:border-gray-600'
-                      }`}
-                    />
+                  <div className="flex-1 flex items-center">
+                    <span className="px-3 py-2 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 text-sm border border-r-0 border-gray-300 dark:border-gray-600 rounded-l-lg">
+                      /{projectName.toLowerCase().replace(/\s+/g, '-')}
+                    </span>
+                    <div className="relative flex-1">
+                      <Edit3 className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                      <input
+                        type="text"
+                        value={formData.route}
+                        onChange={(e) => handleInputChange('route', e.target.value)}
+                        placeholder="/users"
+                        className={`w-full pl-10 pr-3 py-2 border rounded-r-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-white ${
+                          errors.route ? 'border-red-300 bg-red-50 dark:bg-red-900/20' : 'border-gray-300 dark:border-gray-600'
+                        }`}
+                      />
+                    </div>
                   </div>
                 </div>
-              </div>
-              {errors.route && <p className="text-sm text-red-600 dark:text-red-400">{errors.route}</p>}
+                {errors.route && <p className="text-sm text-red-600 dark:text-red-400">{errors.route}</p>}
               
-              <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3 border border-blue-200 dark:border-blue-800">
-                <p className="text-xs text-blue-800 dark:text-blue-200">
-                  <strong>Project Prefix:</strong> /{projectName.toLowerCase().replace(/\s+/g, '-')} (automatically added)
-                </p>
-                <p className="text-xs text-blue-800 dark:text-blue-200 mt-1">
-                  <strong>Full API URL:</strong> {getApiUrl()}
-                </p>
+                <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3 border border-blue-200 dark:border-blue-800">
+                  <p className="text-xs text-blue-800 dark:text-blue-200">
+                    <strong>Project Prefix:</strong> /{projectName.toLowerCase().replace(/\s+/g, '-')} (automatically added)
+                  </p>
+                  <p className="text-xs text-blue-800 dark:text-blue-200 mt-1">
+                    <strong>Full API URL:</strong> {getApiUrl()}
+                  </p>
+                </div>
+
+                {/* Route Parameters Preview */}
+                <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3 border border-gray-200 dark:border-gray-600">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <Braces className="w-4 h-4 text-purple-600" />
+                    <span className="text-xs font-medium text-gray-700 dark:text-gray-300">Route Parameters</span>
+                  </div>
+                  {routeParams.length > 0 ? (
+                    <div className="space-y-2">
+                      <div className="flex flex-wrap gap-2">
+                        {routeParams.map(param => (
+                          <span
+                            key={param.name}
+                            className="px-2 py-1 rounded text-xs font-mono bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200"
+                          >
+                            {param.wildcard ? '* (rest of path)' : `:${param.name}`}
+                          </span>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        <strong>Example:</strong> <code>/{projectName.toLowerCase().replace(/\s+/g, '-')}{getExampleRoute(formData.route.startsWith('/') ? formData.route : '/' + formData.route)}</code>
+                      </p>
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        Captured values are available in templates as <code>{'{{params.name}}'}</code>.
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                      No parameters. Use <code>:name</code> to capture a segment (e.g. <code>/products/:id</code>) or <code>*</code> to capture the rest of the path.
+                    </p>
+                  )}
+                </div>
               </div>
             </div>
-          </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Description
-            </label>
-            <textarea
-              value={formData.description}
-              onChange={(e) => handleInputChange('description', e.target.value)}
-              placeholder="Optional description of what this API returns..."
-              rows={2}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all resize-none bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-            />
-          </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Description
+              </label>
+              <textarea
+                value={formData.description}
+                onChange={(e) => handleInputChange('description', e.target.value)}
+                placeholder="Optional description of what this API returns..."
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all resize-none bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </div>
 
-          {/* Data Type Selection */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Data Type</h3>
+            {/* Data Type Selection */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">Data Type</h3>
             
-            <div className="space-y-3">
-              <div className="flex items-center space-x-3">
-                <input
-                  type="radio"
-                  id="template"
-                  name="dataType"
-                  checked={formData.data_type === 'template'}
-                  onChange={() => handleDataTypeChange('template')}
-                  className="w-4 h-4 text-blue-600"
-                />
-                <label htmlFor="template" className="flex items-center space-x-2">
-                  <FileText className="w-4 h-4 text-green-600" />
-                  <span className="text-sm font-medium text-gray-900 dark:text-white">JSON Template</span>
-                </label>
-              </div>
+              <div className="space-y-3">
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="radio"
+                    id="template"
+                    name="dataType"
+                    checked={formData.data_type === 'template'}
+                    onChange={() => handleDataTypeChange('template')}
+                    className="w-4 h-4 text-blue-600"
+                  />
+                  <label htmlFor="template" className="flex items-center space-x-2">
+                    <FileText className="w-4 h-4 text-green-600" />
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">JSON Template</span>
+                  </label>
+                </div>
               
-              {/* Only show schema option if schema mode is enabled */}
-              {isSchemaMode() && (
+                {/* Only show schema option if schema mode is enabled */}
+                {isSchemaMode() && (
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="radio"
+                      id="schema"
+                      name="dataType"
+                      checked={formData.data_type === 'schema'}
+                      onChange={() => handleDataTypeChange('schema')}
+                      className="w-4 h-4 text-blue-600"
+                    />
+                    <label htmlFor="schema" className="flex items-center space-x-2">
+                      <Database className="w-4 h-4 text-purple-600" />
+                      <span className="text-sm font-medium text-gray-900 dark:text-white">Schema-based Data</span>
+                    </label>
+                  </div>
+                )}
+
                 <div className="flex items-center space-x-3">
                   <input
                     type="radio"
-                    id="schema"
+                    id="upstream"
                     name="dataType"
-                    checked={formData.data_type === 'schema'}
-                    onChange={() => handleDataTypeChange('schema')}
+                    checked={formData.data_type === 'upstream'}
+                    onChange={() => handleDataTypeChange('upstream')}
                     className="w-4 h-4 text-blue-600"
                   />
-                  <label htmlFor="schema" className="flex items-center space-x-2">
-                    <Database className="w-4 h-4 text-purple-600" />
-                    <span className="text-sm font-medium text-gray-900 dark:text-white">Schema-based Data</span>
+                  <label htmlFor="upstream" className="flex items-center space-x-2">
+                    <Radio className="w-4 h-4 text-teal-600" />
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">Upstream (Record & Replay)</span>
                   </label>
                 </div>
-              )}
-            </div>
 
-            <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
-              <div className="flex items-start space-x-2">
-                <Info className="w-4 h-4 text-blue-600 mt-0.5" />
-                <div className="text-xs text-gray-600 dark:text-gray-400">
-                  <p className="font-medium mb-1">Data Types:</p>
-                  <ul className="space-y-1">
-                    <li><strong>JSON Template:</strong> Use a pre-created reusable JSON template</li>
-                    {isSchemaMode() && (
-                      <li><strong>Schema-based:</strong> Use structured data that you can manage through the UI</li>
-                    )}
-                  </ul>
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="radio"
+                    id="stream"
+                    name="dataType"
+                    checked={formData.data_type === 'stream'}
+                    onChange={() => handleDataTypeChange('stream')}
+                    className="w-4 h-4 text-blue-600"
+                  />
+                  <label htmlFor="stream" className="flex items-center space-x-2">
+                    <Activity className="w-4 h-4 text-indigo-600" />
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">Event Stream (SSE)</span>
+                  </label>
+                </div>
+
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="radio"
+                    id="catcher"
+                    name="dataType"
+                    checked={formData.data_type === 'catcher'}
+                    onChange={() => handleDataTypeChange('catcher')}
+                    className="w-4 h-4 text-blue-600"
+                  />
+                  <label htmlFor="catcher" className="flex items-center space-x-2">
+                    <Inbox className="w-4 h-4 text-pink-600" />
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">Webhook Catcher</span>
+                  </label>
+                </div>
+              </div>
+
+              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
+                <div className="flex items-start space-x-2">
+                  <Info className="w-4 h-4 text-blue-600 mt-0.5" />
+                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                    <p className="font-medium mb-1">Data Types:</p>
+                    <ul className="space-y-1">
+                      <li><strong>JSON Template:</strong> Use a pre-created reusable JSON template</li>
+                      {isSchemaMode() && (
+                        <li><strong>Schema-based:</strong> Use structured data that you can manage through the UI</li>
+                      )}
+                      <li><strong>Upstream:</strong> Forward requests to a real API and record the responses, then replay them without it</li>
+                      <li><strong>Event Stream:</strong> Send Server-Sent Events at an interval from a template, schema rows or a generator</li>
+                      <li><strong>Webhook Catcher:</strong> Accept any request, store it for the request inspector and answer with a fixed response</li>
+                    </ul>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
 
-          {/* Template Selection */}
-          {formData.data_type === 'template' && (
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Select JSON Template *
-              </label>
-              <select
-                value={formData.template_id}
-                onChange={(e) => handleTemplateChange(e.target.value)}
-                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-white ${
-                  errors.template_id ? 'border-red-300 bg-red-50 dark:bg-red-900/20' : 'border-gray-300 dark:border-gray-600'
-                }`}
-              >
-                <option value="">Choose a JSON template...</option>
-                {projectTemplates.map(template => (
-                  <option key={template.id} value={template.id}>
-                    {template.name}
-                  </option>
-                ))}
-              </select>
-              {errors.template_id && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.template_id}</p>}
+            {formData.data_type === 'stream' && (
+              <StreamConfigEditor
+                config={formData.stream_config}
+                onChange={(streamConfig) => {
+                  setFormData(prev => ({ ...prev, stream_config: streamConfig }));
+                  if (errors.stream_config) {
+                    setErrors(prev => ({ ...prev, stream_config: '' }));
+                  }
+                }}
+                allowSchema={isSchemaMode()}
+                error={errors.stream_config}
+              />
+            )}
+
+            {formData.data_type === 'catcher' && (
+              <CatcherConfigEditor
+                config={formData.catcher_config}
+                onChange={(catcherConfig) => {
+                  setFormData(prev => ({ ...prev, catcher_config: catcherConfig }));
+                  if (errors.catcher_config) {
+                    setErrors(prev => ({ ...prev, catcher_config: '' }));
+                  }
+                }}
+                error={errors.catcher_config}
+              />
+            )}
+
+            {/* Template Selection */}
+            {usesTemplate && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Select JSON Template *
+                </label>
+                <select
+                  value={formData.template_id}
+                  onChange={(e) => handleTemplateChange(e.target.value)}
+                  className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-white ${
+                    errors.template_id ? 'border-red-300 bg-red-50 dark:bg-red-900/20' : 'border-gray-300 dark:border-gray-600'
+                  }`}
+                >
+                  <option value="">Choose a JSON template...</option>
+                  {projectTemplates.map(template => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+                {errors.template_id && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.template_id}</p>}
               
-              {projectTemplates.length === 0 && (
-                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
-                  No JSON templates available. Create a template first in the JSON Templates section.
-                </p>
-              )}
-            </div>
-          )}
+                {projectTemplates.length === 0 && (
+                  <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    No JSON templates available. Create a template first in the JSON Templates section.
+                  </p>
+                )}
+              </div>
+            )}
 
-          {/* Schema Selection - Only show if schema mode is enabled */}
-          {formData.data_type === 'schema' && isSchemaMode() && (
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                Select Schema *
-              </label>
-              <select
-                value={formData.schema_id}
-                onChange={(e) => handleInputChange('schema_id', e.target.value)}
-                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-white ${
-                  errors.schema_id ? 'border-red-300 bg-red-50 dark:bg-red-900/20' : 'border-gray-300 dark:border-gray-600'
-                }`}
-              >
-                <option value="">Choose a schema...</option>
-                {projectSchemas.map(schema => (
-                  <option key={schema.id} value={schema.id}>
-                    {schema.name} ({schema.fields.length} fields)
-                  </option>
-                ))}
-              </select>
-              {errors.schema_id && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.schema_id}</p>}
+            {/* Schema Selection - Only show if schema mode is enabled */}
+            {usesSchema && isSchemaMode() && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Select Schema *
+                </label>
+                <select
+                  value={formData.schema_id}
+                  onChange={(e) => handleInputChange('schema_id', e.target.value)}
+                  className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-white ${
+                    errors.schema_id ? 'border-red-300 bg-red-50 dark:bg-red-900/20' : 'border-gray-300 dark:border-gray-600'
+                  }`}
+                >
+                  <option value="">Choose a schema...</option>
+                  {projectSchemas.map(schema => (
+                    <option key={schema.id} value={schema.id}>
+                      {schema.name} ({schema.fields.length} fields)
+                    </option>
+                  ))}
+                </select>
+                {errors.schema_id && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.schema_id}</p>}
               
-              {projectSchemas.length === 0 && (
-                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
-                  No schemas available. Create a schema first to use structured data.
-                </p>
-              )}
-            </div>
-          )}
+                {projectSchemas.length === 0 && (
+                  <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    No schemas available. Create a schema first to use structured data.
+                  </p>
+                )}
 
-          {/* JSON Preview for template */}
-          {formData.data_type === 'template' && formData.template_id && (
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Template Preview
-              </label>
-              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
-                <div className="p-4">
-                  <pre className="text-sm text-gray-800 dark:text-gray-200 overflow-x-auto whitespace-pre-wrap">
-                    {JSON.stringify(formData.json_data, null, 2)}
-                  </pre>
-                </div>
+                {selectedSchema && formData.data_type === 'schema' && (
+                  <div className="mt-4">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Item Key Field
+                    </label>
+                    <select
+                      value={formData.item_key_field}
+                      onChange={(e) => handleInputChange('item_key_field', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="">Entry ID (default)</option>
+                      {keyFieldOptions.map(field => (
+                        <option key={field.id} value={field.name}>
+                          {field.name}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                      Add <code>/:{formData.item_key_field || 'id'}</code> to the route to serve single items, or request <code>&lt;route&gt;/&lt;value&gt;</code> on the collection route.
+                    </p>
+                  </div>
+                )}
+
+                {selectedSchema && formData.data_type === 'schema' && (
+                  <div className="mt-4 space-y-2">
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.session_ttl_minutes !== null}
+                        onChange={(e) => {
+                          setFormData(prev => ({ ...prev, session_ttl_minutes: e.target.checked ? DEFAULT_SESSION_TTL_MINUTES : null }));
+                          if (errors.session_ttl_minutes) {
+                            setErrors(prev => ({ ...prev, session_ttl_minutes: '' }));
+                          }
+                        }}
+                        className="w-4 h-4 text-blue-600"
+                      />
+                      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Isolate clients in mock sessions</span>
+                    </label>
+                    {formData.session_ttl_minutes !== null && (
+                      <div className="flex items-center space-x-2 ml-6">
+                        <input
+                          type="number"
+                          min={1}
+                          max={MAX_SESSION_TTL_MINUTES}
+                          value={formData.session_ttl_minutes}
+                          onChange={(e) => {
+                            setFormData(prev => ({ ...prev, session_ttl_minutes: e.target.value === '' ? 0 : Number(e.target.value) }));
+                            if (errors.session_ttl_minutes) {
+                              setErrors(prev => ({ ...prev, session_ttl_minutes: '' }));
+                            }
+                          }}
+                          className={`w-24 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-white ${
+                            errors.session_ttl_minutes ? 'border-red-300 bg-red-50 dark:bg-red-900/20' : 'border-gray-300 dark:border-gray-600'
+                          }`}
+                        />
+                        <span className="text-sm text-gray-600 dark:text-gray-400">minutes idle before a session is discarded</span>
+                      </div>
+                    )}
+                    {errors.session_ttl_minutes && <p className="ml-6 text-sm text-red-600 dark:text-red-400">{errors.session_ttl_minutes}</p>}
+                    <p className="ml-6 text-xs text-gray-600 dark:text-gray-400">
+                      Requests with an <code>{SESSION_HEADER}</code> header (or <code>mock_session</code> cookie) read and write their own
+                      copy of the schema's data, made on first use. Requests without one share the data as usual.
+                    </p>
+                  </div>
+                )}
               </div>
-            </div>
-          )}
+            )}
 
-          {/* Access Control */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Access Control</h3>
-            
-            <div className="space-y-3">
-              <div className="flex items-center space-x-3">
-                <input
-                  type="radio"
-                  id="public"
-                  name="access"
-                  checked={formData.is_public}
-                  onChange={() => handleAccessTypeChange(true)}
-                  className="w-4 h-4 text-blue-600"
+            {formData.data_type === 'upstream' && (
+              upstreamHeadersLoading ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400 text-center py-6">Loading upstream settings...</p>
+              ) : (
+                <UpstreamConfigEditor
+                  config={formData.upstream_config}
+                  onChange={(upstreamConfig) => {
+                    setFormData(prev => ({ ...prev, upstream_config: upstreamConfig }));
+                    if (errors.upstream_config) {
+                      setErrors(prev => ({ ...prev, upstream_config: '' }));
+                    }
+                  }}
+                  headers={upstreamHeaders}
+                  onHeadersChange={(headers) => {
+                    setUpstreamHeaders(headers);
+                    setUpstreamHeadersChanged(true);
+                  }}
+                  error={errors.upstream_config}
                 />
-                <label htmlFor="public" className="flex items-center space-x-2">
-                  <Globe className="w-4 h-4 text-green-600" />
-                  <span className="text-sm font-medium text-gray-900 dark:text-white">Public Access</span>
+              )
+            )}
+
+            {/* JSON Preview for template */}
+            {usesTemplate && formData.template_id && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Template Preview
                 </label>
+                <div className="bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
+                  <div className="p-4">
+                    <pre className="text-sm text-gray-800 dark:text-gray-200 overflow-x-auto whitespace-pre-wrap">
+                      {JSON.stringify(formData.json_data, null, 2)}
+                    </pre>
+                  </div>
+                </div>
               </div>
-              
-              <div className="flex items-center space-x-3">
-                <input
-                  type="radio"
-                  id="private"
-                  name="access"
-                  checked={!formData.is_public}
-                  onChange={() => handleAccessTypeChange(false)}
-                  className="w-4 h-4 text-blue-600"
-                />
-                <label htmlFor="private" className="flex items-center space-x-2">
-                  <Lock className="w-4 h-4 text-orange-600" />
-                  <span className="text-sm font-medium text-gray-900 dark:text-white">Private (Requires API Key)</span>
-                </label>
+            )}
+
+            {/* Response Settings - upstream responses are passed through as the upstream sent them, streams are always
+                text/event-stream, and catchers answer with their own response */}
+            <div className={formData.data_type === 'upstream' || formData.data_type === 'stream' || formData.data_type === 'catcher' ? 'hidden' : 'space-y-4'}>
+              <div className="flex items-center space-x-2">
+                <Send className="w-5 h-5 text-blue-600" />
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">Response</h3>
               </div>
-            </div>
 
-            {/* API Key Management for Private Endpoints */}
-            {!formData.is_public && (
-              <div className="bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg p-4">
-                <div className="flex items-center space-x-2 mb-3">
-                  <Key className="w-4 h-4 text-orange-600" />
-                  <span className="text-sm font-medium text-orange-800 dark:text-orange-200">API Key Configuration</span>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Success Status
+                  </label>
+                  <select
+                    value={formData.response_status}
+                    onChange={(e) => setFormData(prev => ({ ...prev, response_status: parseInt(e.target.value, 10) }))}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    {SUCCESS_STATUS_OPTIONS.map(status => (
+                      <option key={status.code} value={status.code}>
+                        {status.code} {status.label}
+                      </option>
+                    ))}
+                  </select>
                 </div>
-                
-                {formData.api_key ? (
-                  <div className="space-y-3">
-                    <div>
-                      <label className="block text-xs font-medium text-orange-700 dark:text-orange-300 mb-1">
-                        Current API Key
-                      </label>
-                      <div className="flex items-center space-x-2">
-                        <code className="flex-1 text-xs bg-orange-100 dark:bg-orange-900/40 text-orange-800 dark:text-orange-200 px-2 py-1 rounded border">
-                          {formData.api_key}
-                        </code>
-                        <button
-                          type="button"
-                          onClick={handleRegenerateApiKey}
-                          className="flex items-center space-x-1 text-xs bg-orange-200 hover:bg-orange-300 dark:bg-orange-800 dark:hover:bg-orange-700 text-orange-800 dark:text-orange-200 px-2 py-1 rounded transition-colors"
-                        >
-                          <RefreshCw className="w-3 h-3" />
-                          <span>Regenerate</span>
-                        </button>
-                      </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Content Type
+                  </label>
+                  <input
+                    type="text"
+                    list="content-type-options"
+                    value={formData.content_type}
+                    onChange={(e) => handleInputChange('content_type', e.target.value)}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-white ${
+                      errors.content_type ? 'border-red-300 bg-red-50 dark:bg-red-900/20' : 'border-gray-300 dark:border-gray-600'
+                    }`}
+                  />
+                  <datalist id="content-type-options">
+                    {CONTENT_TYPE_OPTIONS.map(type => (
+                      <option key={type} value={type} />
+                    ))}
+                  </datalist>
+                  {errors.content_type && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.content_type}</p>}
+                </div>
+
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Cache-Control
+                  </label>
+                  <input
+                    type="text"
+                    list="cache-control-options"
+                    value={formData.cache_control}
+                    onChange={(e) => handleInputChange('cache_control', e.target.value)}
+                    placeholder={formData.is_public ? 'no-cache' : 'private, no-cache'}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                  <datalist id="cache-control-options">
+                    {CACHE_CONTROL_OPTIONS.map(option => (
+                      <option key={option} value={option} />
+                    ))}
+                  </datalist>
+                  <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                    Successful reads carry an <code>ETag</code> and <code>Last-Modified</code>; clients sending
+                    {' '}<code>If-None-Match</code> or <code>If-Modified-Since</code> get <code>304 Not Modified</code> when nothing changed.
+                    {' '}<code>no-store</code> also bypasses the proxy's own cache.
+                  </p>
+                </div>
+
+                {/[/+]json\b/i.test(formData.content_type) && (
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Formats
+                    </label>
+                    <div className="flex flex-wrap gap-4">
+                      {RESPONSE_FORMATS.map(format => (
+                        <label key={format.value} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={!formData.response_formats || formData.response_formats.includes(format.value)}
+                            onChange={() => toggleResponseFormat(format.value)}
+                            className="w-4 h-4 text-blue-600"
+                          />
+                          <span>{format.label}</span>
+                        </label>
+                      ))}
                     </div>
-                    <p className="text-xs text-orange-700 dark:text-orange-300">
-                      Include this key in the <code>x-api-key</code> header when making requests to this endpoint.
-                    </p>
-                  </div>
-                ) : (
-                  <div className="space-y-3">
-                    <p className="text-sm text-orange-800 dark:text-orange-200">
-                      An API key will be automatically generated for this private endpoint.
+                    <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                      Clients pick a format with <code>?format=</code> or the <code>Accept</code> header. CSV flattens nested objects into
+                      {' '}<code>parent.child</code> columns.
                     </p>
-                    <button
-                      type="button"
-                      onClick={handleRegenerateApiKey}
-                      className="flex items-center space-x-1 text-sm bg-orange-200 hover:bg-orange-300 dark:bg-orange-800 dark:hover:bg-orange-700 text-orange-800 dark:text-orange-200 px-3 py-1 rounded transition-colors"
-                    >
-                      <Key className="w-4 h-4" />
-                      <span>Generate API Key Now</span>
-                    </button>
+                    {errors.response_formats && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.response_formats}</p>}
                   </div>
                 )}
               </div>
-            )}
 
-            <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
-              <div className="flex items-start space-x-2">
-                <Info className="w-4 h-4 text-blue-600 mt-0.5" />
-                <div className="text-xs text-gray-600 dark:text-gray-400">
-                  <p className="font-medium mb-1">Access Types:</p>
-                  <ul className="space-y-1">
-                    <li><strong>Public:</strong> Anyone can access the API directly via URL</li>
-                    <li><strong>Private:</strong> Requires API key in <code>x-api-key</code> header</li>
-                  </ul>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Response Headers
+                </label>
+                <div className="space-y-2">
+                  {headerRows.map((row, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        list="response-header-options"
+                        value={row.name}
+                        onChange={(e) => updateHeaderRow(index, { name: e.target.value })}
+                        placeholder="Cache-Control"
+                        className="w-1/3 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      />
+                      <input
+                        type="text"
+                        value={row.value}
+                        onChange={(e) => updateHeaderRow(index, { value: e.target.value })}
+                        placeholder="public, max-age=60"
+                        className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setHeaderRows(prev => prev.filter((_, i) => i !== index))}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Remove header"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <datalist id="response-header-options">
+                    {COMMON_RESPONSE_HEADERS.map(header => (
+                      <option key={header} value={header} />
+                    ))}
+                  </datalist>
+                  <button
+                    type="button"
+                    onClick={() => setHeaderRows(prev => [...prev, { name: '', value: '' }])}
+                    className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add header</span>
+                  </button>
+                </div>
+                {errors.response_headers && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.response_headers}</p>}
+                {formData.response_status >= 300 && formData.response_status < 400 && formData.response_status !== 304 && !headerRows.some(row => row.name.trim().toLowerCase() === 'location') && (
+                  <p className="mt-1 text-xs text-amber-700 dark:text-amber-300">
+                    Redirect statuses usually need a <code>Location</code> header.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <RateLimitEditor
+              config={formData.rate_limits}
+              onChange={(rateLimits) => setFormData(prev => ({ ...prev, rate_limits: rateLimits }))}
+            />
+
+            <AccessPolicyEditor
+              policy={formData.access_policy}
+              onChange={(accessPolicy) => {
+                setFormData(prev => ({ ...prev, access_policy: accessPolicy }));
+                if (errors.access_policy) {
+                  setErrors(prev => ({ ...prev, access_policy: '' }));
+                }
+              }}
+              description="Applies to this endpoint only. Fields left empty fall back to the project's access policy."
+              error={errors.access_policy}
+            />
+
+            {/* Access Control */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">Access Control</h3>
+            
+              <div className="space-y-3">
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="radio"
+                    id="public"
+                    name="access"
+                    checked={formData.is_public}
+                    onChange={() => handleAccessTypeChange(true)}
+                    className="w-4 h-4 text-blue-600"
+                  />
+                  <label htmlFor="public" className="flex items-center space-x-2">
+                    <Globe className="w-4 h-4 text-green-600" />
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">Public Access</span>
+                  </label>
+                </div>
+              
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="radio"
+                    id="private"
+                    name="access"
+                    checked={!formData.is_public}
+                    onChange={() => handleAccessTypeChange(false)}
+                    className="w-4 h-4 text-blue-600"
+                  />
+                  <label htmlFor="private" className="flex items-center space-x-2">
+                    <Lock className="w-4 h-4 text-orange-600" />
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">Private (Requires API Key, JWT or Signature)</span>
+                  </label>
+                </div>
+              </div>
+
+              {!formData.is_public && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Authentication</label>
+                  <select
+                    value={formData.auth_mode}
+                    onChange={(e) => handleAuthModeChange(e.target.value as AuthMode)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {AUTH_MODES.map(mode => (
+                      <option key={mode.value} value={mode.value}>{mode.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {!formData.is_public && formData.auth_mode === 'jwt' && formData.jwt_config && (
+                <JwtConfigEditor
+                  config={formData.jwt_config}
+                  onChange={(jwtConfig) => {
+                    setFormData(prev => ({ ...prev, jwt_config: jwtConfig }));
+                    if (errors.jwt_config) {
+                      setErrors(prev => ({ ...prev, jwt_config: '' }));
+                    }
+                  }}
+                  error={errors.jwt_config}
+                />
+              )}
+
+              {!formData.is_public && formData.auth_mode === 'hmac' && (
+                <SigningConfigEditor
+                  config={formData.signing_config}
+                  onChange={(signingConfig) => setFormData(prev => ({ ...prev, signing_config: signingConfig }))}
+                />
+              )}
+
+              {/* API Key Management for Private Endpoints */}
+              {!formData.is_public && formData.auth_mode !== 'jwt' && (
+                <div className="bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg p-4">
+                  <div className="flex items-center space-x-2 mb-3">
+                    <Key className="w-4 h-4 text-orange-600" />
+                    <span className="text-sm font-medium text-orange-800 dark:text-orange-200">API Key Configuration</span>
+                  </div>
+                
+                  {formData.api_key ? (
+                    <div className="space-y-3">
+                      <div>
+                        <label className="block text-xs font-medium text-orange-700 dark:text-orange-300 mb-1">
+                          Current API Key
+                        </label>
+                        <div className="flex items-center space-x-2">
+                          <code className="flex-1 text-xs bg-orange-100 dark:bg-orange-900/40 text-orange-800 dark:text-orange-200 px-2 py-1 rounded border">
+                            {formData.api_key}
+                          </code>
+                          <button
+                            type="button"
+                            onClick={handleRegenerateApiKey}
+                            className="flex items-center space-x-1 text-xs bg-orange-200 hover:bg-orange-300 dark:bg-orange-800 dark:hover:bg-orange-700 text-orange-800 dark:text-orange-200 px-2 py-1 rounded transition-colors"
+                          >
+                            <RefreshCw className="w-3 h-3" />
+                            <span>Regenerate</span>
+                          </button>
+                        </div>
+                      </div>
+                      <p className="text-xs text-orange-700 dark:text-orange-300">
+                        {formData.auth_mode === 'hmac'
+                          ? <>Use this key as the signing secret with <code>X-Key-Id: endpoint</code>. It is never sent with requests.</>
+                          : <>Include this key in the <code>x-api-key</code> header when making requests to this endpoint.</>}
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      <p className="text-sm text-orange-800 dark:text-orange-200">
+                        An API key will be automatically generated for this private endpoint.
+                      </p>
+                      <button
+                        type="button"
+                        onClick={handleRegenerateApiKey}
+                        className="flex items-center space-x-1 text-sm bg-orange-200 hover:bg-orange-300 dark:bg-orange-800 dark:hover:bg-orange-700 text-orange-800 dark:text-orange-200 px-3 py-1 rounded transition-colors"
+                      >
+                        <Key className="w-4 h-4" />
+                        <span>Generate API Key Now</span>
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
+                <div className="flex items-start space-x-2">
+                  <Info className="w-4 h-4 text-blue-600 mt-0.5" />
+                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                    <p className="font-medium mb-1">Access Types:</p>
+                    <ul className="space-y-1">
+                      <li><strong>Public:</strong> Anyone can access the API directly via URL</li>
+                      <li><strong>Private:</strong> Requires an API key in the <code>x-api-key</code> header, a signed JWT in <code>Authorization: Bearer</code>, or an HMAC request signature</li>
+                    </ul>
+                  </div>
                 </div>
               </div>
             </div>
@@ -0,0 +1,320 @@
+import React, { useEffect, useState } from 'react';
+import { ApiEndpoint } from '../hooks/useApis';
+import { API_KEY_SCOPES, ApiKey, ApiKeyScope, CreatedApiKey, getApiKeyStatus, useApiKeys } from '../hooks/useApiKeys';
+import { KEY_EXPIRY_OPTIONS, KEY_STATUS_STYLES, expiryFromDays, formatKeyDate } from '../utils/apiKeys';
+import { NewApiKeyNotice } from './NewApiKeyNotice';
+import { X, KeyRound, Plus, RefreshCw, Ban, FolderOpen, Link, Copy } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ApiKeyManagerProps {
+  api: ApiEndpoint;
+  onClose: () => void;
+}
+
+const GRACE_OPTIONS: { label: string; hours: number }[] = [
+  { label: 'Immediately', hours: 0 },
+  { label: '1 hour', hours: 1 },
+  { label: '24 hours', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+];
+
+export const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ api, onClose }) => {
+  const { fetchKeys, createKey, rotateKey, revokeKey } = useApiKeys();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [projectWide, setProjectWide] = useState(false);
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['read']);
+  const [graceHours, setGraceHours] = useState(24);
+  const [newKey, setNewKey] = useState<CreatedApiKey | null>(null);
+  const [confirmRevokeId, setConfirmRevokeId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchKeys(api.id, api.project_id).then(loaded => {
+      if (!cancelled) {
+        setKeys(loaded);
+        setLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [api.id, api.project_id, fetchKeys]);
+
+  const reload = async () => {
+    setKeys(await fetchKeys(api.id, api.project_id));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Give the key a name');
+      return;
+    }
+    if (scopes.length === 0) {
+      toast.error('Choose at least one scope');
+      return;
+    }
+
+    setSaving(true);
+    const created = await createKey({
+      name: name.trim(),
+      target: projectWide ? { project_id: api.project_id, endpoint_ids: null } : { endpoint_id: api.id },
+      scopes,
+      expires_at: expiryFromDays(expiryDays),
+    });
+    setSaving(false);
+
+    if (!created) {
+      toast.error('Failed to create API key');
+      return;
+    }
+    setNewKey(created);
+    setName('');
+    await reload();
+  };
+
+  const handleRotate = async (key: ApiKey) => {
+    setSaving(true);
+    const created = await rotateKey(key, graceHours);
+    setSaving(false);
+
+    if (!created) {
+      toast.error('Failed to rotate API key');
+      return;
+    }
+    setNewKey(created);
+    await reload();
+  };
+
+  const handleRevoke = async (id: string) => {
+    const success = await revokeKey(id);
+    setConfirmRevokeId(null);
+    if (success) {
+      toast.success('API key revoked');
+      await reload();
+    } else {
+      toast.error('Failed to revoke API key');
+    }
+  };
+
+  const handleCopy = async (value: string, label: string) => {
+    await navigator.clipboard.writeText(value);
+    toast.success(`${label} copied`);
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(existing => existing !== scope) : [...prev, scope]);
+  };
+
+  // Signed endpoints identify keys by id and need each key's signing secret rather than the key itself
+  const signsRequests = !api.is_public && api.auth_mode === 'hmac';
+
+  const inputClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <KeyRound className="w-6 h-6 text-orange-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">API Keys</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Named keys for <code>{api.route}</code>, accepted alongside the endpoint's own key
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {newKey && <NewApiKeyNotice key={newKey.key.id} created={newKey} />}
+
+          <form onSubmit={handleCreate} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 space-y-3">
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white">Create Key</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Mobile app staging"
+                className={inputClass}
+              />
+              <select
+                value={projectWide ? 'project' : 'endpoint'}
+                onChange={(e) => setProjectWide(e.target.value === 'project')}
+                className={inputClass}
+              >
+                <option value="endpoint">This endpoint only</option>
+                <option value="project">Every endpoint in the project</option>
+              </select>
+              <select
+                value={expiryDays ?? ''}
+                onChange={(e) => setExpiryDays(e.target.value ? parseInt(e.target.value, 10) : null)}
+                className={inputClass}
+              >
+                {KEY_EXPIRY_OPTIONS.map(option => (
+                  <option key={option.label} value={option.days ?? ''}>Expires: {option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {API_KEY_SCOPES.map(scope => (
+                <label key={scope.value} className="flex items-center space-x-2 text-xs text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope.value)}
+                    onChange={() => toggleScope(scope.value)}
+                    className="w-4 h-4 text-blue-600"
+                  />
+                  <span><strong>{scope.label}</strong>: {scope.description}</span>
+                </label>
+              ))}
+            </div>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-1 bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Create Key</span>
+            </button>
+          </form>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white">Keys ({keys.length})</h4>
+              <label className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+                <span>Old key keeps working after rotation for</span>
+                <select
+                  value={graceHours}
+                  onChange={(e) => setGraceHours(parseInt(e.target.value, 10))}
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded text-xs bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  {GRACE_OPTIONS.map(option => (
+                    <option key={option.hours} value={option.hours}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {loading ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Loading keys...</p>
+            ) : keys.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No named keys yet. Create one per client so each can be rotated or revoked on its own.
+              </p>
+            ) : (
+              keys.map(key => {
+                const status = getApiKeyStatus(key);
+                const usable = status === 'active' || status === 'rotating';
+                return (
+                  <div key={key.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                    <div className="flex items-start justify-between">
+                      <div className="space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm font-medium text-gray-900 dark:text-white">{key.name}</span>
+                          <code className="text-xs text-gray-600 dark:text-gray-400">{key.key_prefix}…</code>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${KEY_STATUS_STYLES[status]}`}>{status}</span>
+                          {key.scopes.map(scope => (
+                            <span key={scope} className="px-2 py-0.5 rounded text-xs bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">{scope}</span>
+                          ))}
+                          <span className="flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400">
+                            {key.project_id ? <FolderOpen className="w-3 h-3" /> : <Link className="w-3 h-3" />}
+                            <span>{key.project_id ? (key.endpoint_ids ? `${key.endpoint_ids.length} project endpoints` : 'Project-wide') : 'This endpoint'}</span>
+                          </span>
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400 space-x-3">
+                          <span>Created: {formatKeyDate(key.created_at)}</span>
+                          <span>{status === 'expired' ? 'Expired' : 'Expires'}: {formatKeyDate(key.expires_at)}</span>
+                          <span>Last used: {formatKeyDate(key.last_used_at)}</span>
+                          {key.revoked_at && <span>Revoked: {formatKeyDate(key.revoked_at)}</span>}
+                        </div>
+                        {signsRequests && usable && (
+                          <div className="flex items-center space-x-3 text-xs">
+                            <button
+                              onClick={() => handleCopy(key.id, 'Key id')}
+                              className="flex items-center space-x-1 text-gray-600 dark:text-gray-400 hover:text-blue-600"
+                              title="Send as X-Key-Id"
+                            >
+                              <Copy className="w-3 h-3" />
+                              <span>Key id</span>
+                            </button>
+                            {key.signing_secret && (
+                              <button
+                                onClick={() => handleCopy(key.signing_secret as string, 'Signing secret')}
+                                className="flex items-center space-x-1 text-gray-600 dark:text-gray-400 hover:text-blue-600"
+                                title="HMAC-SHA256 secret for signing requests"
+                              >
+                                <Copy className="w-3 h-3" />
+                                <span>Signing secret</span>
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                      {usable && (
+                        <div className="flex items-center space-x-2">
+                          {status === 'active' && (
+                            <button
+                              onClick={() => handleRotate(key)}
+                              disabled={saving}
+                              className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                              title="Issue a replacement key"
+                            >
+                              <RefreshCw className="w-3 h-3" />
+                              <span>Rotate</span>
+                            </button>
+                          )}
+                          {confirmRevokeId === key.id ? (
+                            <>
+                              <button
+                                onClick={() => handleRevoke(key.id)}
+                                className="text-xs font-medium text-red-600 hover:text-red-800"
+                              >
+                                Confirm
+                              </button>
+                              <button
+                                onClick={() => setConfirmRevokeId(null)}
+                                className="text-xs text-gray-500 hover:text-gray-700"
+                              >
+                                Cancel
+                              </button>
+                            </>
+                          ) : (
+                            <button
+                              onClick={() => setConfirmRevokeId(key.id)}
+                              className="flex items-center space-x-1 text-xs text-red-600 hover:text-red-800"
+                              title="Reject this key immediately"
+                            >
+                              <Ban className="w-3 h-3" />
+                              <span>Revoke</span>
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {signsRequests
+              ? <>Sign requests with a key's signing secret and send its id in the <code>X-Key-Id</code> header.</>
+              : <>Send any of these keys in the <code>x-api-key</code> header.</>}
+            {' '}Revoking or expiring a key can take up to 30 seconds to reach the API.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,29 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { ApiEndpoint } from '../hooks/useApis';
-import { Play, X, Copy, Check, Globe, ExternalLink, Lock, Key } from 'lucide-react';
+import { useSequencePositions } from '../hooks/useSequencePositions';
+import { getRouteParams } from '../utils/routeParams';
+import { TOKEN_LIFETIMES, mintTestToken, readTokenSubject } from '../utils/jwtAuth';
+import { DEFAULT_SIGNATURE_SKEW_SECONDS, ENDPOINT_KEY_ID, signRequest } from '../utils/endpointAuth';
+import { SESSION_HEADER } from '../utils/mockSessions';
+import { SequencePosition, describeStep, getNextStepIndex, getSequenceClientKey } from '../utils/responseSequence';
+import { StreamEvent, parseEventStream } from '../utils/streaming';
+import { Play, X, Copy, Check, Globe, ExternalLink, Lock, Key, ShieldCheck, FileKey, Layers, ListOrdered, RotateCcw, Activity, Square } from 'lucide-react';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+const SCHEMA_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Older events are dropped from the stream view
+const MAX_SHOWN_EVENTS = 200;
+
+// Pretty-print JSON event data; anything else is shown as sent
+const formatEventData = (data: string) => {
+  try {
+    return JSON.stringify(JSON.parse(data), null, 2);
+  } catch {
+    return data;
+  }
+};
 
 interface ApiTesterProps {
   api: ApiEndpoint;
@@ -15,17 +38,101 @@ export const ApiTester: React.FC<ApiTesterProps> = ({
   const [loading, setLoading] = useState(false);
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [method, setMethod] = useState<HttpMethod>('GET');
+  const [itemId, setItemId] = useState('');
+  const [requestBody, setRequestBody] = useState('{\n  \n}');
+  const [paramValues, setParamValues] = useState<Record<string, string>>({});
+  const [bearerToken, setBearerToken] = useState('');
+  const [tokenClaims, setTokenClaims] = useState('{\n  "sub": "test-user"\n}');
+  const [tokenLifetime, setTokenLifetime] = useState(TOKEN_LIFETIMES[1].seconds);
+  const [mockSession, setMockSession] = useState('');
+  const [sequencePosition, setSequencePosition] = useState<SequencePosition | null>(null);
+  const [streamEvents, setStreamEvents] = useState<StreamEvent[]>([]);
+  const [streaming, setStreaming] = useState(false);
+  const [lastEventId, setLastEventId] = useState<string | null>(null);
+  const [streamEnded, setStreamEnded] = useState<string | null>(null);
+  const streamController = useRef<AbortController | null>(null);
+  const { fetchPosition, resetPosition } = useSequencePositions();
+  const isStream = api.data_type === 'stream';
+
+  const routeParams = getRouteParams(api.route);
+
+  // Sequences are tracked per mock session or per API key, so the tester shows its own position
+  const sequence = api.response_sequence?.enabled && api.response_sequence.steps.length > 0 ? api.response_sequence : null;
+  const sequenceClientKey = getSequenceClientKey(api, mockSession, readTokenSubject(bearerToken.trim()));
+  const nextStepIndex = sequence ? getNextStepIndex(sequence, sequencePosition) : 0;
+  const usesMockSession = !!sequence || (api.data_type === 'schema' && api.session_ttl_minutes != null);
+
+  const loadSequencePosition = useCallback(async () => {
+    if (!sequence) return;
+    setSequencePosition(await fetchPosition(api.id, sequenceClientKey));
+  }, [api.id, sequence, sequenceClientKey, fetchPosition]);
+
+  useEffect(() => {
+    loadSequencePosition();
+  }, [loadSequencePosition]);
+
+  // Close an open stream when the tester closes
+  useEffect(() => () => streamController.current?.abort(), []);
+
+  const handleResetSequence = async () => {
+    if (await resetPosition(api.id, sequenceClientKey)) {
+      setSequencePosition(null);
+    } else {
+      setError('Failed to reset the sequence');
+    }
+  };
+
+  const getSessionHeaders = (): Record<string, string> =>
+    usesMockSession && mockSession.trim() ? { [SESSION_HEADER]: mockSession.trim() } : {};
+
+  // JWT endpoints take a bearer token instead of the endpoint's API key
+  const usesJwt = !api.is_public && api.auth_mode === 'jwt';
+  // Tokens can only be minted here for HS256, where the endpoint holds the signing secret
+  const canMintToken = usesJwt && api.jwt_config?.algorithm === 'HS256' && !!api.jwt_config.secret;
+  // Signed endpoints are tested with the endpoint's own key as the signing secret
+  const signsRequests = !api.is_public && api.auth_mode === 'hmac';
 
-  const getApiUrl = () => {
-    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  // body must be exactly what is sent, since signatures cover it
+  const getAuthHeaders = async (body = ''): Promise<Record<string, string>> => {
+    if (usesJwt) {
+      return bearerToken.trim() ? { Authorization: `Bearer ${bearerToken.trim()}` } : {};
+    }
+    if (signsRequests) {
+      return api.api_key ? signRequest({ method, path: getApiPath(), body }, ENDPOINT_KEY_ID, api.api_key) : {};
+    }
+    return !api.is_public && api.api_key ? { 'x-api-key': api.api_key } : {};
+  };
+
+  // Schema-backed endpoints accept writes and catchers accept every method; template endpoints are read-only
+  const isCatcher = api.data_type === 'catcher';
+  const supportsWrites = api.data_type === 'schema' || isCatcher;
+  const sendsBody = method === 'POST' || method === 'PUT' || method === 'PATCH';
+
+  // Route with parameter values and item id filled in, as the proxy sees it
+  const getApiPath = () => {
     // Ensure the route starts with /
     let route = api.route;
     if (!route.startsWith('/')) {
       route = '/' + route;
     }
-    return `${supabaseUrl}/functions/v1/api-proxy${route}`;
+    // Substitute values for :params and * segments
+    route = route
+      .split('/')
+      .map(segment => {
+        const name = segment === '*' ? '*' : segment.startsWith(':') ? segment.substring(1) : null;
+        if (name === null || !paramValues[name]) return segment;
+        return name === '*' ? paramValues[name] : encodeURIComponent(paramValues[name]);
+      })
+      .join('/');
+    if (itemId.trim()) {
+      route += `/${encodeURIComponent(itemId.trim())}`;
+    }
+    return route;
   };
 
+  const getApiUrl = () => `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/api-proxy${getApiPath()}`;
+
   const handleTest = async () => {
     setLoading(true);
     setError(null);
@@ -35,26 +142,35 @@ export const ApiTester: React.FC<ApiTesterProps> = ({
       const apiUrl = getApiUrl();
       console.log('Testing API URL:', apiUrl);
       
+      let body: string | undefined;
+      if (sendsBody) {
+        try {
+          body = JSON.stringify(JSON.parse(requestBody));
+        } catch {
+          setError('Request body must be valid JSON');
+          return;
+        }
+      }
+
+      // Private endpoints get their API key, bearer token or request signature
       const headers: Record<string, string> = {
         'Content-Type': 'application/json',
+        ...await getAuthHeaders(body),
+        ...getSessionHeaders(),
       };
 
-      // Add API key header if this is a private endpoint
-      if (!api.is_public && api.api_key) {
-        headers['x-api-key'] = api.api_key;
-        console.log('Adding API key header for private endpoint');
-      }
-
       console.log('Request headers:', headers);
 
-      const res = await fetch(apiUrl, { headers });
-      const data = await res.json();
+      const res = await fetch(apiUrl, { method, headers, body });
+      // DELETE answers 204 No Content
+      const data = res.status === 204 ? { status: 204, message: 'No Content' } : await res.json();
       
       console.log('Response status:', res.status);
       console.log('Response data:', data);
       
       if (!res.ok) {
-        setError(`HTTP ${res.status}: ${data.error || data.message || 'Unknown error'}`);
+        const details = Array.isArray(data.details) ? ` (${data.details.join('; ')})` : '';
+        setError(`HTTP ${res.status}: ${data.error || data.message || 'Unknown error'}${details}`);
       } else {
         setResponse(data);
       }
@@ -63,9 +179,75 @@ export const ApiTester: React.FC<ApiTesterProps> = ({
       setError(err instanceof Error ? err.message : 'Network error occurred');
     } finally {
       setLoading(false);
+      loadSequencePosition();
     }
   };
 
+  // Streams are read with fetch rather than EventSource, which cannot send API keys or signatures.
+  // Resuming sends the last event id received, as EventSource does when it reconnects.
+  const handleOpenStream = async (resume: boolean) => {
+    const controller = new AbortController();
+    streamController.current = controller;
+    setError(null);
+    setStreamEnded(null);
+    setStreaming(true);
+    if (!resume) {
+      setStreamEvents([]);
+      setLastEventId(null);
+    }
+
+    try {
+      const headers: Record<string, string> = {
+        Accept: 'text/event-stream',
+        ...await getAuthHeaders(),
+        ...getSessionHeaders(),
+        ...(resume && lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+      };
+
+      const res = await fetch(getApiUrl(), { headers, signal: controller.signal });
+      if (res.status === 204) {
+        setStreamEnded('The stream has no more events.');
+        return;
+      }
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
+        setError(`HTTP ${res.status}: ${data.error || data.message || 'Unknown error'}`);
+        return;
+      }
+
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        const { events, rest } = parseEventStream(buffer + value);
+        buffer = rest;
+        if (events.length === 0) continue;
+
+        const receivedAt = Date.now();
+        setStreamEvents(prev => [...prev, ...events.map(event => ({ ...event, receivedAt }))].slice(-MAX_SHOWN_EVENTS));
+        const lastId = [...events].reverse().find(event => event.id !== null)?.id;
+        if (lastId) setLastEventId(lastId);
+      }
+      setStreamEnded('The server closed the stream.');
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setStreamEnded('Stopped.');
+      } else {
+        console.error('Stream error:', err);
+        setError(err instanceof Error ? err.message : 'Network error occurred');
+      }
+    } finally {
+      if (streamController.current === controller) streamController.current = null;
+      setStreaming(false);
+      loadSequencePosition();
+    }
+  };
+
+  const handleStopStream = () => {
+    streamController.current?.abort();
+  };
+
   const handleCopyResponse = async () => {
     if (response) {
       await navigator.clipboard.writeText(JSON.stringify(response, null, 2));
@@ -80,11 +262,30 @@ export const ApiTester: React.FC<ApiTesterProps> = ({
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleMintToken = async () => {
+    if (!api.jwt_config) return;
+    let claims: Record<string, unknown>;
+    try {
+      claims = JSON.parse(tokenClaims);
+    } catch {
+      setError('Token claims must be valid JSON');
+      return;
+    }
+    setError(null);
+    setBearerToken(await mintTestToken(api.jwt_config, claims, tokenLifetime));
+  };
+
   const handleCopyCurlCommand = async () => {
-    let curlCommand = `curl -X GET "${getApiUrl()}"`;
+    // -N prints events as they arrive instead of buffering them
+    let curlCommand = `curl ${isStream ? '-N ' : ''}-X ${method} "${getApiUrl()}"`;
+    const curlBody = sendsBody ? requestBody.replace(/\s*\n\s*/g, ' ') : '';
     
-    if (!api.is_public && api.api_key) {
-      curlCommand += ` -H "x-api-key: ${api.api_key}"`;
+    for (const [name, value] of Object.entries({ ...await getAuthHeaders(curlBody), ...getSessionHeaders() })) {
+      curlCommand += ` -H "${name}: ${value}"`;
+    }
+
+    if (sendsBody) {
+      curlCommand += ` -H "Content-Type: application/json" -d '${curlBody}'`;
     }
     
     await navigator.clipboard.writeText(curlCommand);
@@ -126,7 +327,7 @@ export const ApiTester: React.FC<ApiTesterProps> = ({
           <div className="bg-gray-50 rounded-lg p-4">
             <div className="flex items-center space-x-3 mb-2">
               <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                GET
+                {method}
               </span>
               <code className="bg-white px-2 py-1 rounded text-sm font-mono">
                 {api.route}
@@ -165,7 +366,75 @@ export const ApiTester: React.FC<ApiTesterProps> = ({
               )}
             </div>
 
-            {!api.is_public && api.api_key && (
+            {usesJwt && (
+              <div className="bg-orange-50 border border-orange-200 rounded p-3 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <ShieldCheck className="w-4 h-4 text-orange-600" />
+                  <span className="text-sm font-medium text-orange-800">Bearer Token Required</span>
+                </div>
+                <p className="text-xs text-orange-700">
+                  This endpoint accepts {api.jwt_config?.algorithm || 'JWT'} tokens
+                  {api.jwt_config?.issuer && <> from <code>{api.jwt_config.issuer}</code></>}
+                  {api.jwt_config?.audience && <> for <code>{api.jwt_config.audience}</code></>}
+                  {' '}in the <code>Authorization: Bearer</code> header.
+                </p>
+                {canMintToken ? (
+                  <div className="space-y-2">
+                    <label className="block text-xs font-medium text-orange-800">Test token claims</label>
+                    <textarea
+                      value={tokenClaims}
+                      onChange={(e) => setTokenClaims(e.target.value)}
+                      rows={3}
+                      className="w-full px-2 py-1 border border-orange-200 rounded text-xs font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <div className="flex items-center space-x-2">
+                      <select
+                        value={tokenLifetime}
+                        onChange={(e) => setTokenLifetime(parseInt(e.target.value, 10))}
+                        className="px-2 py-1 border border-orange-200 rounded text-xs"
+                      >
+                        {TOKEN_LIFETIMES.map(lifetime => (
+                          <option key={lifetime.label} value={lifetime.seconds}>Expires: {lifetime.label}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleMintToken}
+                        className="text-xs bg-orange-200 hover:bg-orange-300 text-orange-800 px-2 py-1 rounded transition-colors"
+                      >
+                        Mint Test Token
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-xs text-orange-700">
+                    Tokens for {api.jwt_config?.algorithm} endpoints must come from your identity provider; paste one below.
+                  </p>
+                )}
+                <textarea
+                  value={bearerToken}
+                  onChange={(e) => setBearerToken(e.target.value)}
+                  rows={3}
+                  placeholder="eyJhbGciOi..."
+                  className="w-full px-2 py-1 border border-orange-200 rounded text-xs font-mono break-all focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            )}
+
+            {signsRequests && (
+              <div className="bg-orange-50 border border-orange-200 rounded p-3">
+                <div className="flex items-center space-x-2 mb-2">
+                  <FileKey className="w-4 h-4 text-orange-600" />
+                  <span className="text-sm font-medium text-orange-800">Signed Requests</span>
+                </div>
+                <p className="text-xs text-orange-700">
+                  Test requests and copied cURL commands are signed with the endpoint's own key
+                  (<code>X-Key-Id: {ENDPOINT_KEY_ID}</code>). Copied signatures expire after
+                  {' '}{api.signing_config?.clock_skew_seconds || DEFAULT_SIGNATURE_SKEW_SECONDS} seconds.
+                </p>
+              </div>
+            )}
+
+            {!api.is_public && !usesJwt && !signsRequests && api.api_key && (
               <div className="bg-orange-50 border border-orange-200 rounded p-3">
                 <div className="flex items-center space-x-2 mb-2">
                   <Key className="w-4 h-4 text-orange-600" />
@@ -191,17 +460,182 @@ export const ApiTester: React.FC<ApiTesterProps> = ({
             </div>
           </div>
 
+          {/* Route Parameters */}
+          {routeParams.length > 0 && (
+            <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+              <h3 className="text-sm font-semibold text-gray-900">Route Parameters</h3>
+              {routeParams.map(param => (
+                <div key={param.name} className="flex items-center space-x-3">
+                  <code className="w-32 text-sm font-mono text-purple-700">
+                    {param.wildcard ? '*' : `:${param.name}`}
+                  </code>
+                  <input
+                    type="text"
+                    value={paramValues[param.name] || ''}
+                    onChange={(e) => setParamValues(prev => ({ ...prev, [param.name]: e.target.value }))}
+                    placeholder={param.wildcard ? 'path/to/resource' : param.name}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Request Builder - only schema and catcher endpoints accept writes */}
+          {supportsWrites && (
+            <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+              <div className="flex items-center space-x-3">
+                <select
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as HttpMethod)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {SCHEMA_METHODS.map(m => (
+                    <option key={m} value={m}>{m}</option>
+                  ))}
+                </select>
+                {isCatcher ? (
+                  <code className="flex-1 px-3 py-2 bg-gray-100 text-gray-600 text-sm border border-gray-300 rounded-lg">
+                    {api.route}
+                  </code>
+                ) : (
+                  <div className="flex-1 flex items-center">
+                    <span className="px-3 py-2 bg-gray-100 text-gray-600 text-sm border border-r-0 border-gray-300 rounded-l-lg font-mono">
+                      {api.route}/
+                    </span>
+                    <input
+                      type="text"
+                      value={itemId}
+                      onChange={(e) => setItemId(e.target.value)}
+                      placeholder={method === 'GET' || method === 'POST' ? 'item id (optional)' : 'item id'}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-r-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+              </div>
+              {sendsBody && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Request Body (JSON)</label>
+                  <textarea
+                    value={requestBody}
+                    onChange={(e) => setRequestBody(e.target.value)}
+                    rows={6}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                {isCatcher
+                  ? 'Every request is captured; watch it arrive in the project\'s Inspector tab.'
+                  : <>POST creates an item on the collection route. PUT, PATCH and DELETE target <code>{api.route}/:id</code>.</>}
+              </p>
+            </div>
+          )}
+
+          {usesMockSession && (
+            <div className="bg-gray-50 rounded-lg p-4 space-y-2">
+              <div className="flex items-center space-x-2">
+                <Layers className="w-4 h-4 text-cyan-600" />
+                <h3 className="text-sm font-semibold text-gray-900">Mock Session</h3>
+              </div>
+              <input
+                type="text"
+                value={mockSession}
+                onChange={(e) => setMockSession(e.target.value)}
+                placeholder="e.g. alice (optional)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500">
+                Sent as <code>{SESSION_HEADER}</code>.
+                {api.data_type === 'schema' && api.session_ttl_minutes != null && ' Requests in a session read and write their own copy of the data.'}
+                {sequence && ' The sequence position is tracked per session.'}
+              </p>
+            </div>
+          )}
+
+          {sequence && (
+            <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <ListOrdered className="w-4 h-4 text-purple-600" />
+                  <h3 className="text-sm font-semibold text-purple-900">Response Sequence</h3>
+                  <code className="text-xs text-purple-700">{sequenceClientKey}</code>
+                </div>
+                <button
+                  onClick={handleResetSequence}
+                  disabled={!sequencePosition}
+                  className="flex items-center space-x-1 text-xs text-purple-700 hover:text-purple-900 disabled:opacity-50"
+                  title="Start this client's sequence again from the first step"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  <span>Reset counter</span>
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {sequence.steps.map((step, index) => (
+                  <span
+                    key={index}
+                    className={`px-2 py-1 rounded text-xs font-mono ${
+                      index === nextStepIndex ? 'bg-purple-600 text-white' : 'bg-white text-purple-800 border border-purple-200'
+                    }`}
+                  >
+                    {describeStep(step, index)}
+                  </span>
+                ))}
+              </div>
+              <p className="text-xs text-purple-700">
+                Next call gets step {nextStepIndex + 1} of {sequence.steps.length}
+                {sequencePosition ? ` (${sequencePosition.calls} call${sequencePosition.calls === 1 ? '' : 's'} so far)` : ''}.
+                Response rules that match take precedence.
+              </p>
+            </div>
+          )}
+
           {/* Test Button */}
-          <div className="flex justify-center">
-            <button
-              onClick={handleTest}
-              disabled={loading}
-              className="flex items-center space-x-2 bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <Play className="w-5 h-5" />
-              <span>{loading ? 'Testing...' : 'Test Live API'}</span>
-            </button>
-          </div>
+          {isStream ? (
+            <div className="flex justify-center space-x-3">
+              {streaming ? (
+                <button
+                  onClick={handleStopStream}
+                  className="flex items-center space-x-2 bg-red-600 text-white px-6 py-3 rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  <Square className="w-5 h-5" />
+                  <span>Stop Stream</span>
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={() => handleOpenStream(false)}
+                    className="flex items-center space-x-2 bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors"
+                  >
+                    <Activity className="w-5 h-5" />
+                    <span>Open Stream</span>
+                  </button>
+                  {lastEventId && (
+                    <button
+                      onClick={() => handleOpenStream(true)}
+                      className="flex items-center space-x-2 border border-green-600 text-green-700 px-6 py-3 rounded-lg hover:bg-green-50 transition-colors"
+                      title="Reconnect with Last-Event-ID"
+                    >
+                      <RotateCcw className="w-5 h-5" />
+                      <span>Resume after #{lastEventId}</span>
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          ) : (
+            <div className="flex justify-center">
+              <button
+                onClick={handleTest}
+                disabled={loading}
+                className="flex items-center space-x-2 bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Play className="w-5 h-5" />
+                <span>{loading ? 'Testing...' : method === 'GET' ? 'Test Live API' : `Send ${method} Request`}</span>
+              </button>
+            </div>
+          )}
 
           {/* Error */}
           {error && (
@@ -210,12 +644,45 @@ export const ApiTester: React.FC<ApiTesterProps> = ({
               <p className="text-red-600">{error}</p>
               {!api.is_public && (
                 <p className="text-red-600 text-sm mt-2">
-                  Make sure you're including the correct API key in the x-api-key header.
+                  {usesJwt
+                    ? 'Make sure the bearer token is signed with the configured key, has not expired and carries the required iss and aud claims.'
+                    : signsRequests
+                      ? "Make sure your clock is correct; signatures are rejected outside the endpoint's clock skew window."
+                      : "Make sure you're including the correct API key in the x-api-key header."}
                 </p>
               )}
             </div>
           )}
 
+          {/* Stream events, newest last */}
+          {isStream && (streaming || streamEvents.length > 0 || streamEnded) && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-green-800">
+                  Events ({streamEvents.length}{streamEvents.length === MAX_SHOWN_EVENTS ? ' most recent' : ''})
+                </h3>
+                <span className="text-sm text-gray-600">
+                  {streaming ? 'Receiving...' : streamEnded}
+                </span>
+              </div>
+              <div className="border border-green-200 bg-green-50 rounded-lg max-h-96 overflow-y-auto divide-y divide-green-200">
+                {streamEvents.length === 0 && (
+                  <p className="p-4 text-sm text-gray-600">Waiting for the first event...</p>
+                )}
+                {streamEvents.map((event, index) => (
+                  <div key={`${event.id}-${index}`} className="p-3">
+                    <div className="flex items-center space-x-2 text-xs text-gray-600 mb-1">
+                      {event.id !== null && <span className="font-mono">#{event.id}</span>}
+                      <span className="px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-800 font-medium">{event.event}</span>
+                      <span>{new Date(event.receivedAt).toLocaleTimeString()}</span>
+                    </div>
+                    <pre className="text-sm text-gray-800 overflow-x-auto whitespace-pre-wrap">{formatEventData(event.data)}</pre>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Response */}
           {response && (
             <div className="space-y-4">
@@ -241,7 +708,7 @@ export const ApiTester: React.FC<ApiTesterProps> = ({
           )}
 
           {/* Expected Response Preview */}
-          <div className="space-y-4">
+          <div className={isStream ? 'hidden' : 'space-y-4'}>
             <h3 className="text-lg font-semibold">Expected Response</h3>
             <div className="bg-gray-50 rounded-lg border border-gray-200">
               <div className="p-4">
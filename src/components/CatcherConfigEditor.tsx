@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { CatcherConfig, MAX_CAPTURED_BYTES, formatBytes } from '../utils/captures';
+import { validateJson } from '../utils/jsonValidator';
+import { Inbox } from 'lucide-react';
+
+interface CatcherConfigEditorProps {
+  config: CatcherConfig;
+  onChange: (config: CatcherConfig) => void;
+  error?: string;
+}
+
+const toHeaderText = (headers: Record<string, string> | undefined) =>
+  Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+// One "Name: value" per line; lines without a colon are ignored
+const parseHeaderText = (text: string) => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    const name = line.slice(0, separator).trim();
+    if (separator > 0 && name) headers[name] = line.slice(separator + 1).trim();
+  }
+  return headers;
+};
+
+export const CatcherConfigEditor: React.FC<CatcherConfigEditorProps> = ({ config, onChange, error }) => {
+  // Body and headers are edited as text so they can be invalid while typing; an empty body
+  // answers with the default acknowledgement
+  const [bodyText, setBodyText] = useState(config.body === undefined ? '' : JSON.stringify(config.body, null, 2));
+  const [headerText, setHeaderText] = useState(toHeaderText(config.headers));
+  const bodyValidation = bodyText.trim() ? validateJson(bodyText) : { isValid: true, error: undefined };
+
+  const handleBodyChange = (text: string) => {
+    setBodyText(text);
+    if (!text.trim()) {
+      onChange({ ...config, body: undefined });
+    } else if (validateJson(text).isValid) {
+      onChange({ ...config, body: JSON.parse(text) });
+    }
+  };
+
+  const handleHeaderChange = (text: string) => {
+    setHeaderText(text);
+    onChange({ ...config, headers: parseHeaderText(text) });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-pink-50 dark:bg-pink-900/20 border border-pink-200 dark:border-pink-800 rounded-lg p-4 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Inbox className="w-4 h-4 text-pink-600" />
+        <span className="text-sm font-medium text-pink-800 dark:text-pink-200">Webhook Catcher</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-pink-700 dark:text-pink-300 mb-1">Response status *</label>
+          <input
+            type="number"
+            min={100}
+            max={599}
+            value={config.status ?? ''}
+            onChange={(e) => onChange({ ...config, status: parseInt(e.target.value, 10) || 0 })}
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-pink-700 dark:text-pink-300 mb-1">Response headers</label>
+          <textarea
+            value={headerText}
+            onChange={(e) => handleHeaderChange(e.target.value)}
+            rows={2}
+            spellCheck={false}
+            placeholder="X-Request-Accepted: true"
+            className={`${inputClass} font-mono resize-y`}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-pink-700 dark:text-pink-300 mb-1">Response body</label>
+        <textarea
+          value={bodyText}
+          onChange={(e) => handleBodyChange(e.target.value)}
+          rows={5}
+          spellCheck={false}
+          placeholder={'{ "received": true, "capture_id": "<id>" }'}
+          className={`${inputClass} font-mono resize-y ${bodyValidation.isValid ? '' : 'border-red-300 bg-red-50'}`}
+        />
+        {!bodyValidation.isValid && (
+          <p className="text-xs text-red-600 dark:text-red-400">Invalid JSON: {bodyValidation.error}</p>
+        )}
+        <p className="mt-1 text-xs text-pink-700 dark:text-pink-300">
+          Leave empty to acknowledge with the capture id. Bodies can use the same <code>{'{{placeholders}}'}</code> as
+          templates, including <code>{'{{request.body.field}}'}</code> from the received JSON.
+        </p>
+      </div>
+
+      <p className="text-xs text-pink-700 dark:text-pink-300">
+        Every method is accepted. Headers, query, body and client address of each request are stored and appear
+        live in the project's request inspector; bodies over {formatBytes(MAX_CAPTURED_BYTES)} are counted but not kept.
+        Each response carries an <code>X-Capture-Id</code> header. Response rules, sequences and chaos do not apply.
+      </p>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,343 @@
+import React, { useState } from 'react';
+import {
+  CHANNEL_FALLBACKS,
+  ChannelInput,
+  ChannelRule,
+  RULE_OPERATORS,
+  RuleOperator,
+  ScriptStep,
+  createChannelRule,
+  createScriptStep,
+  formatMessageText,
+  parseMessageText,
+  validateChannel,
+} from '../utils/channels';
+import { MessagesSquare, Plus, Trash2, Save, X } from 'lucide-react';
+
+interface ChannelEditorProps {
+  input: ChannelInput;
+  // Names of the project's other channels
+  takenNames: string[];
+  isNew: boolean;
+  onSave: (input: ChannelInput) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+const inputClass = 'px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+interface MessageFieldProps {
+  label: string;
+  message: unknown;
+  onChange: (message: unknown) => void;
+}
+
+// Keeps its own text so JSON can be typed without being reformatted on every keystroke
+const MessageField: React.FC<MessageFieldProps> = ({ label, message, onChange }) => {
+  const [text, setText] = useState(formatMessageText(message));
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          onChange(parseMessageText(e.target.value));
+        }}
+        rows={3}
+        spellCheck={false}
+        className={`w-full font-mono resize-y ${inputClass}`}
+      />
+    </div>
+  );
+};
+
+export const ChannelEditor: React.FC<ChannelEditorProps> = ({ input, takenNames, isNew, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ChannelInput>(input);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Stable keys so message fields keep their text while items are removed
+  const [stepKeys, setStepKeys] = useState(() => input.script.map((_, index) => index));
+  const [ruleKeys, setRuleKeys] = useState(() => input.rules.map((_, index) => index));
+  const [nextKey, setNextKey] = useState(input.script.length + input.rules.length);
+
+  const update = (updates: Partial<ChannelInput>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+    setError(null);
+  };
+
+  const updateStep = (index: number, step: ScriptStep) =>
+    update({ script: draft.script.map((existing, i) => i === index ? step : existing) });
+
+  const updateRule = (index: number, rule: ChannelRule) =>
+    update({ rules: draft.rules.map((existing, i) => i === index ? rule : existing) });
+
+  const handleAddStep = () => {
+    update({ script: [...draft.script, createScriptStep()] });
+    setStepKeys([...stepKeys, nextKey]);
+    setNextKey(nextKey + 1);
+  };
+
+  const handleAddRule = () => {
+    update({ rules: [...draft.rules, createChannelRule(`Rule ${draft.rules.length + 1}`)] });
+    setRuleKeys([...ruleKeys, nextKey]);
+    setNextKey(nextKey + 1);
+  };
+
+  const handleSave = async () => {
+    const normalized = { ...draft, name: draft.name.trim(), description: draft.description?.trim() || null };
+    const validationError = validateChannel(normalized, takenNames);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setSaving(true);
+    const saved = await onSave(normalized);
+    setSaving(false);
+    if (!saved) setError('Failed to save the channel');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <MessagesSquare className="w-6 h-6 text-indigo-600" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{isNew ? 'New Channel' : `Edit ${input.name}`}</h3>
+          </div>
+          <button onClick={onCancel} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name *</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder="chat"
+                className={`w-full font-mono ${inputClass}`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+              <input
+                type="text"
+                value={draft.description || ''}
+                onChange={(e) => update({ description: e.target.value })}
+                className={`w-full ${inputClass}`}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-start space-x-3">
+            <input
+              type="checkbox"
+              checked={draft.is_public}
+              onChange={(e) => update({ is_public: e.target.checked })}
+              className="w-4 h-4 mt-0.5 text-blue-600"
+            />
+            <span className="text-sm text-gray-700 dark:text-gray-300">
+              <strong>Public</strong>: anyone with the URL can connect. When off, clients need a project key
+              granting all endpoints, as <code>x-api-key</code> or <code>?api_key=</code>; connecting needs its
+              read scope and sending messages its write scope.
+            </span>
+          </label>
+
+          {/* Script */}
+          <div className="space-y-3">
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Script</h4>
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                Sent to every new connection in order, each after its delay.
+              </p>
+            </div>
+            {draft.script.map((step, index) => (
+              <div key={stepKeys[index]} className="flex items-start space-x-3 border border-gray-200 dark:border-gray-600 rounded-lg p-3">
+                <div className="w-32">
+                  <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Delay (ms)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={step.delay_ms}
+                    onChange={(e) => updateStep(index, { ...step, delay_ms: parseInt(e.target.value, 10) || 0 })}
+                    className={`w-full ${inputClass}`}
+                  />
+                </div>
+                <div className="flex-1">
+                  <MessageField label="Message" message={step.message} onChange={(message) => updateStep(index, { ...step, message })} />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => {
+                    update({ script: draft.script.filter((_, i) => i !== index) });
+                    setStepKeys(stepKeys.filter((_, i) => i !== index));
+                  }}
+                  className="p-1 mt-5 text-gray-500 hover:text-red-600"
+                  title="Delete step"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <button type="button" onClick={handleAddStep} className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800">
+                <Plus className="w-4 h-4" />
+                <span>Add message</span>
+              </button>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={draft.script_loop}
+                  onChange={(e) => update({ script_loop: e.target.checked })}
+                  className="w-4 h-4 text-blue-600"
+                />
+                <span>Repeat the script after the last message</span>
+              </label>
+            </div>
+          </div>
+
+          {/* Rules */}
+          <div className="space-y-3">
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Rules</h4>
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                Checked in order against every client message; the first match sends its reply. A path such as
+                {' '}<code>type</code> reads a field of a JSON message; leave it empty to compare the whole message.
+                Replies can use <code>{'{{message.text}}'}</code> and the other template placeholders.
+              </p>
+            </div>
+            {draft.rules.map((rule, index) => (
+              <div key={ruleKeys[index]} className="border border-gray-200 dark:border-gray-600 rounded-lg p-3 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(index, { ...rule, enabled: e.target.checked })}
+                    className="w-4 h-4 text-blue-600"
+                    title="Enabled"
+                  />
+                  <input
+                    type="text"
+                    value={rule.name}
+                    onChange={(e) => updateRule(index, { ...rule, name: e.target.value })}
+                    className={`w-36 ${inputClass}`}
+                  />
+                  <span className="text-sm text-gray-600 dark:text-gray-400">when</span>
+                  <input
+                    type="text"
+                    value={rule.path || ''}
+                    onChange={(e) => updateRule(index, { ...rule, path: e.target.value.trim() || undefined })}
+                    placeholder="message"
+                    className={`w-32 font-mono ${inputClass}`}
+                  />
+                  <select
+                    value={rule.operator}
+                    onChange={(e) => updateRule(index, { ...rule, operator: e.target.value as RuleOperator })}
+                    className={inputClass}
+                  >
+                    {RULE_OPERATORS.map(operator => (
+                      <option key={operator.value} value={operator.value}>{operator.label}</option>
+                    ))}
+                  </select>
+                  {rule.operator !== 'exists' && (
+                    <input
+                      type="text"
+                      value={rule.value || ''}
+                      onChange={(e) => updateRule(index, { ...rule, value: e.target.value })}
+                      className={`w-32 font-mono ${inputClass}`}
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      update({ rules: draft.rules.filter((_, i) => i !== index) });
+                      setRuleKeys(ruleKeys.filter((_, i) => i !== index));
+                    }}
+                    className="ml-auto p-1 text-gray-500 hover:text-red-600"
+                    title="Delete rule"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div className="md:col-span-2">
+                    <MessageField label="Reply" message={rule.reply} onChange={(reply) => updateRule(index, { ...rule, reply })} />
+                  </div>
+                  <div className="space-y-2">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Send to</label>
+                      <select
+                        value={rule.target}
+                        onChange={(e) => updateRule(index, { ...rule, target: e.target.value as ChannelRule['target'] })}
+                        className={`w-full ${inputClass}`}
+                      >
+                        <option value="sender">Sender</option>
+                        <option value="broadcast">Every client</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Delay (ms)</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={rule.delay_ms ?? ''}
+                        onChange={(e) => {
+                          const delay = parseInt(e.target.value, 10);
+                          updateRule(index, { ...rule, delay_ms: isNaN(delay) ? undefined : delay });
+                        }}
+                        placeholder="0"
+                        className={`w-full ${inputClass}`}
+                      />
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+            <button type="button" onClick={handleAddRule} className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800">
+              <Plus className="w-4 h-4" />
+              <span>Add rule</span>
+            </button>
+          </div>
+
+          {/* Fallback */}
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Messages no rule matches</h4>
+            <div className="flex flex-wrap gap-4">
+              {CHANNEL_FALLBACKS.map(fallback => (
+                <label key={fallback.value} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300" title={fallback.description}>
+                  <input
+                    type="radio"
+                    checked={draft.fallback === fallback.value}
+                    onChange={() => update({ fallback: fallback.value })}
+                    className="w-4 h-4 text-blue-600"
+                  />
+                  <span><strong>{fallback.label}</strong>: {fallback.description}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200 dark:border-gray-700">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          <div className="flex space-x-3">
+            <button onClick={onCancel} className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              <span>{saving ? 'Saving...' : 'Save Channel'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React from 'react';
+import { CHAOS_SCENARIOS, CHAOS_STATUS_CODES, ChaosConfig, DEFAULT_CHAOS_CONFIG, describeChaosProfile } from '../utils/chaosProfile';
+import { Zap, Info } from 'lucide-react';
+
+interface ChaosProfileEditorProps {
+  config: ChaosConfig | null;
+  onChange: (config: ChaosConfig) => void;
+}
+
+const MAX_LATENCY_MS = 30000;
+const MAX_TIMEOUT_MS = 60000;
+
+export const ChaosProfileEditor: React.FC<ChaosProfileEditorProps> = ({ config, onChange }) => {
+  const current = { ...DEFAULT_CHAOS_CONFIG, ...config };
+  const summary = describeChaosProfile(current);
+
+  const update = (updates: Partial<ChaosConfig>) => {
+    onChange({ ...current, ...updates });
+  };
+
+  const numberValue = (value: string, max: number) => Math.min(Math.max(parseInt(value, 10) || 0, 0), max);
+
+  const toggleStatusCode = (code: number) => {
+    const codes = current.failure_status_codes.includes(code)
+      ? current.failure_status_codes.filter(existing => existing !== code)
+      : [...current.failure_status_codes, code].sort();
+    update({ failure_status_codes: codes.length > 0 ? codes : [code] });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const labelClass = 'block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4">
+        <div className="flex items-center space-x-3">
+          <Zap className="w-5 h-5 text-amber-600" />
+          <div>
+            <p className="text-sm font-medium text-amber-900 dark:text-amber-100">Chaos Profile</p>
+            <p className="text-xs text-amber-800 dark:text-amber-200">
+              {current.enabled
+                ? summary.length > 0 ? summary.join(', ') : 'Enabled, but nothing is configured yet'
+                : 'Disabled: requests are only affected when they send an X-Mock-Scenario header'}
+            </p>
+          </div>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-amber-900 dark:text-amber-100">
+          <input
+            type="checkbox"
+            checked={current.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="w-4 h-4 text-amber-600"
+          />
+          <span>Apply to every request</span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white">Latency</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Minimum (ms)</label>
+              <input
+                type="number"
+                min={0}
+                max={MAX_LATENCY_MS}
+                value={current.latency_min_ms}
+                onChange={(e) => {
+                  const min = numberValue(e.target.value, MAX_LATENCY_MS);
+                  update({ latency_min_ms: min, latency_max_ms: Math.max(min, current.latency_max_ms) });
+                }}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Maximum (ms)</label>
+              <input
+                type="number"
+                min={0}
+                max={MAX_LATENCY_MS}
+                value={current.latency_max_ms}
+                onChange={(e) => update({ latency_max_ms: numberValue(e.target.value, MAX_LATENCY_MS) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-600 dark:text-gray-400">Use the same value twice for a fixed delay.</p>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white">Failures</h4>
+          <div>
+            <label className={labelClass}>Failure rate (%)</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={current.failure_rate}
+              onChange={(e) => update({ failure_rate: numberValue(e.target.value, 100) })}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-wrap gap-3">
+            {CHAOS_STATUS_CODES.map(code => (
+              <label key={code} className="flex items-center space-x-1 text-xs text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={current.failure_status_codes.includes(code)}
+                  onChange={() => toggleStatusCode(code)}
+                  className="w-4 h-4 text-blue-600"
+                />
+                <span>{code}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white">Timeouts</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Timeout rate (%)</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={current.timeout_rate}
+                onChange={(e) => update({ timeout_rate: numberValue(e.target.value, 100) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Hang for (ms)</label>
+              <input
+                type="number"
+                min={0}
+                max={MAX_TIMEOUT_MS}
+                value={current.timeout_ms}
+                onChange={(e) => update({ timeout_ms: numberValue(e.target.value, MAX_TIMEOUT_MS) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-600 dark:text-gray-400">Timed out requests return 504 after the wait.</p>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white">Truncated Bodies</h4>
+          <div>
+            <label className={labelClass}>Truncate rate (%)</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={current.truncate_rate}
+              onChange={(e) => update({ truncate_rate: numberValue(e.target.value, 100) })}
+              className={inputClass}
+            />
+          </div>
+          <p className="text-xs text-gray-600 dark:text-gray-400">Successful responses are cut in half, leaving malformed JSON.</p>
+        </div>
+      </div>
+
+      <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
+        <div className="flex items-start space-x-2">
+          <Info className="w-4 h-4 text-blue-600 mt-0.5" />
+          <div className="text-xs text-gray-600 dark:text-gray-400">
+            <p className="font-medium mb-1">Per-request scenarios via the <code>X-Mock-Scenario</code> header:</p>
+            <ul className="grid grid-cols-1 md:grid-cols-2 gap-1">
+              {CHAOS_SCENARIOS.map(scenario => (
+                <li key={scenario.name}><code>{scenario.name}</code>: {scenario.description}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { ApiSchema, ApiDataEntry, useSchemas, SchemaField } from '../hooks/useSchemas';
 import { useAuth } from '../hooks/useAuth';
+import { useWebhooks } from '../hooks/useWebhooks';
+import { MockSessionsPanel } from './MockSessionsPanel';
 import { Plus, Edit2, Trash2, Database, Calendar, User, X, Save } from 'lucide-react';
 
 interface DataManagerProps {
@@ -11,6 +13,7 @@ interface DataManagerProps {
 export const DataManager: React.FC<DataManagerProps> = ({ schema, onClose }) => {
   const { user } = useAuth();
   const { addDataEntry, updateDataEntry, deleteDataEntry, getDataBySchemaId } = useSchemas();
+  const { deliverPending } = useWebhooks();
   const [dataEntries, setDataEntries] = useState<ApiDataEntry[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [editingEntry, setEditingEntry] = useState<ApiDataEntry | null>(null);
@@ -97,6 +100,8 @@ export const DataManager: React.FC<DataManagerProps> = ({ schema, onClose }) =>
       setShowForm(false);
       setEditingEntry(null);
       setFormData({});
+      // The change queued deliveries for the project's webhooks; send them without waiting
+      deliverPending(schema.project_id);
       // Reload data after successful save
       await loadData();
     } catch (err) {
@@ -111,6 +116,7 @@ export const DataManager: React.FC<DataManagerProps> = ({ schema, onClose }) =>
         const success = await deleteDataEntry(id);
         console.log('Delete result:', success);
         if (success) {
+          deliverPending(schema.project_id);
           // Reload data after successful delete
           await loadData();
         } else {
@@ -486,6 +492,8 @@ export const DataManager: React.FC<DataManagerProps> = ({ schema, onClose }) =>
               </table>
             </div>
           )}
+
+          <MockSessionsPanel schemaId={schema.id} />
         </div>
 
         {showForm && (
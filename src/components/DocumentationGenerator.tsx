@@ -1,10 +1,30 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { ApiEndpoint } from '../hooks/useApis';
-import { Book, Code, Download, ExternalLink, Copy, Check, Sparkles, FileText, Globe, Settings, RefreshCw, X } from 'lucide-react';
+import { ApiSchema } from '../hooks/useSchemas';
+import { useGraphqlConfig } from '../hooks/useGraphqlConfig';
+import { DEFAULT_GRAPHQL_CONFIG, GraphqlConfig, buildProjectGraphql, getGraphqlUrl, graphqlCurlSnippet, sampleGraphqlQuery } from '../utils/graphql';
+import { getCacheControl, getContentType, getDeclaredHeaders, getResponseFormats, getStatusLabel, getSuccessStatus } from '../utils/responseSettings';
+import { describeSequenceMode, describeStep } from '../utils/responseSequence';
+import { MAX_STREAM_SECONDS, describeStream } from '../utils/streaming';
+import { describeCatcher } from '../utils/captures';
+import {
+  DEFAULT_SIGNATURE_SKEW_SECONDS,
+  SIGNING_STEPS,
+  authCurlFlags,
+  authFetchHeaders,
+  describeAuth,
+  getAuthMode,
+  signingCurlSnippet,
+  signingJavaScriptSample,
+  signingPythonSample,
+} from '../utils/endpointAuth';
+import { Book, Braces, Code, Download, ExternalLink, Copy, Check, Sparkles, FileText, Globe, Settings, RefreshCw, X } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 interface DocumentationGeneratorProps {
   apis: ApiEndpoint[];
+  schemas: ApiSchema[];
+  projectId: string;
   projectName: string;
   onClose: () => void;
 }
@@ -29,14 +49,23 @@ interface OpenAPISpec {
 
 export const DocumentationGenerator: React.FC<DocumentationGeneratorProps> = ({
   apis,
+  schemas,
+  projectId,
   projectName,
   onClose
 }) => {
-  const [activeTab, setActiveTab] = useState<'interactive' | 'openapi' | 'markdown'>('interactive');
+  const [activeTab, setActiveTab] = useState<'interactive' | 'openapi' | 'markdown' | 'graphql'>('interactive');
   const [openApiSpec, setOpenApiSpec] = useState<OpenAPISpec | null>(null);
   const [markdownDoc, setMarkdownDoc] = useState('');
   const [generating, setGenerating] = useState(false);
   const [copied, setCopied] = useState(false);
+  const { fetchGraphqlConfig } = useGraphqlConfig();
+  const [graphqlConfig, setGraphqlConfig] = useState<GraphqlConfig>(DEFAULT_GRAPHQL_CONFIG);
+  const graphqlModel = useMemo(() => buildProjectGraphql(schemas), [schemas]);
+
+  useEffect(() => {
+    fetchGraphqlConfig(projectId).then(config => setGraphqlConfig(config || DEFAULT_GRAPHQL_CONFIG));
+  }, [projectId, fetchGraphqlConfig]);
 
   const generateOpenAPISpec = async () => {
     setGenerating(true);
@@ -50,15 +79,19 @@ ${apis.map(api => `
 - ${api.name}
   Route: ${api.route}
   Description: ${api.description || 'No description'}
-  Public: ${api.is_public ? 'Yes' : 'No (requires API key)'}
+  Authentication: ${describeAuth(api)}
   Data Type: ${api.data_type}
+  Success Status: ${getStatusLabel(getSuccessStatus(api))}
+  Content Type: ${getContentType(api)}
+  Formats: ${getResponseFormats(api).map(format => format.label).join(', ') || 'As declared'}
+  Response Headers: ${getDeclaredHeaders(api).map(([name, value]) => `${name}: ${value}`).join('; ') || 'None'}
   Sample Response: ${JSON.stringify(api.json_data, null, 2)}
 `).join('\n')}
 
 Requirements:
 1. Create a complete OpenAPI 3.0 specification
 2. Include proper schemas for all response types
-3. Add security schemes for private APIs (API key authentication)
+3. Add security schemes for private APIs (API key, JWT bearer token or HMAC request signature, as listed per API)
 4. Include detailed descriptions and examples
 5. Add proper error responses (400, 401, 404, 500)
 6. Use realistic and comprehensive examples
@@ -148,6 +181,17 @@ Format the response as a valid JSON object that can be used with Swagger UI.`;
             type: "apiKey",
             in: "header",
             name: "x-api-key"
+          },
+          BearerAuth: {
+            type: "http",
+            scheme: "bearer",
+            bearerFormat: "JWT"
+          },
+          RequestSignature: {
+            type: "apiKey",
+            in: "header",
+            name: "X-Signature",
+            description: SIGNING_STEPS.join(' ')
           }
         }
       }
@@ -156,22 +200,47 @@ Format the response as a valid JSON object that can be used with Swagger UI.`;
     apis.forEach(api => {
       const pathKey = api.route;
       
+      const successStatus = getSuccessStatus(api);
+      const declaredHeaders = getDeclaredHeaders(api);
+
       spec.paths[pathKey] = {
         get: {
           summary: api.name,
           description: api.description || `Returns data from ${api.name}`,
           responses: {
-            "200": {
-              description: "Successful response",
-              content: {
-                "application/json": {
-                  schema: {
-                    type: "object",
-                    example: api.json_data
-                  }
+            [String(successStatus)]: {
+              description: getStatusLabel(successStatus),
+              headers: {
+                "Cache-Control": { schema: { type: "string" }, example: getCacheControl(api) },
+                ...(successStatus === 200 && {
+                  "ETag": { schema: { type: "string" }, description: "Strong validator; send it back in If-None-Match" },
+                  "Last-Modified": { schema: { type: "string" }, description: "Send it back in If-Modified-Since" }
+                }),
+                ...Object.fromEntries(declaredHeaders.map(([name, value]) => [
+                  name,
+                  { schema: { type: "string" }, example: value }
+                ]))
+              },
+              ...(successStatus !== 204 && successStatus !== 304 && {
+                content: {
+                  [getContentType(api)]: {
+                    schema: {
+                      type: "object",
+                      example: api.json_data
+                    }
+                  },
+                  // Other formats are serialised from the same data
+                  ...Object.fromEntries(getResponseFormats(api)
+                    .filter(format => format.value !== 'json')
+                    .map(format => [format.mediaType, { schema: { type: "string" } }]))
                 }
-              }
+              })
             },
+            ...(successStatus === 200 && {
+              "304": {
+                description: "Not modified since the ETag or date sent in If-None-Match or If-Modified-Since"
+              }
+            }),
             "404": {
               description: "API endpoint not found"
             },
@@ -182,10 +251,14 @@ Format the response as a valid JSON object that can be used with Swagger UI.`;
         }
       };
 
-      if (!api.is_public) {
-        spec.paths[pathKey].get.security = [{ ApiKeyAuth: [] }];
+      const authMode = getAuthMode(api);
+      if (authMode) {
+        const scheme = authMode === 'jwt' ? 'BearerAuth' : authMode === 'hmac' ? 'RequestSignature' : 'ApiKeyAuth';
+        spec.paths[pathKey].get.security = [{ [scheme]: [] }];
         spec.paths[pathKey].get.responses["401"] = {
-          description: "Missing or invalid API key"
+          description: authMode === 'jwt'
+            ? "Missing, expired or invalid bearer token"
+            : authMode === 'hmac' ? "Missing, stale or invalid request signature" : "Missing or invalid API key"
         };
       }
     });
@@ -205,8 +278,12 @@ ${apis.map(api => `
 - ${api.name}
   Route: ${api.route}
   Description: ${api.description || 'No description'}
-  Public: ${api.is_public ? 'Yes' : 'No (requires API key)'}
+  Authentication: ${describeAuth(api)}
   Data Type: ${api.data_type}
+  Success Status: ${getStatusLabel(getSuccessStatus(api))}
+  Content Type: ${getContentType(api)}
+  Formats: ${getResponseFormats(api).map(format => format.label).join(', ') || 'As declared'}
+  Response Headers: ${getDeclaredHeaders(api).map(([name, value]) => `${name}: ${value}`).join('; ') || 'None'}
   Sample Response: ${JSON.stringify(api.json_data, null, 2)}
 `).join('\n')}
 
@@ -289,12 +366,26 @@ This is the API documentation for ${projectName}. The API provides ${apis.length
 
 ## Authentication
 
-${apis.some(api => !api.is_public) ? `Some endpoints require authentication. Include your API key in the request header:
+${apis.some(api => !api.is_public) ? `Some endpoints require authentication, as noted for each endpoint.
+${apis.some(api => getAuthMode(api) === 'api_key') ? `
+**API key:** include your API key in the request header:
 
 \`\`\`
 x-api-key: YOUR_API_KEY
 \`\`\`
-` : 'All endpoints are publicly accessible.'}
+` : ''}${apis.some(api => getAuthMode(api) === 'jwt') ? `
+**JWT bearer token:** send a signed token from your identity provider:
+
+\`\`\`
+Authorization: Bearer YOUR_JWT
+\`\`\`
+` : ''}${apis.some(api => getAuthMode(api) === 'hmac') ? `
+**Request signing:** sign every request with HMAC-SHA256 instead of sending a key:
+
+${SIGNING_STEPS.map((step, index) => `${index + 1}. ${step}`).join('\n')}
+
+Requests whose timestamp is too far from the server clock are rejected as replays. See each signed endpoint for sample code.
+` : ''}` : 'All endpoints are publicly accessible.'}
 
 ## Endpoints
 
@@ -305,8 +396,44 @@ ${apis.map(api => `
 
 **Description:** ${api.description || 'No description provided'}
 
-**Authentication:** ${api.is_public ? 'None required' : 'API key required'}
+**Authentication:** ${describeAuth(api)}
+
+**Success Response:** \`${getStatusLabel(getSuccessStatus(api))}\` with \`Content-Type: ${getContentType(api)}\`
+
+${getResponseFormats(api).length > 1 ? `**Formats:** ${getResponseFormats(api).map(format => `${format.label} (\`${format.mediaType}\`)`).join(', ')} - choose with \`?format=\` (e.g. \`?format=${getResponseFormats(api)[1].value}\`) or the \`Accept\` header; ${getResponseFormats(api)[0].label} is the default
+
+` : ''}${api.current_version ? `**Version:** v${api.current_version} is served by default; pin a version with a \`/v${api.current_version}\` prefix (\`/v${api.current_version}${api.route}\`) or \`Accept-Version: ${api.current_version}\`. Deprecated versions send \`Deprecation\` and \`Sunset\` headers and answer \`410 Gone\` after their sunset.
+
+` : ''}${api.response_sequence?.enabled && api.response_sequence.steps.length > 0 ? `**Sequence:** successive calls return ${api.response_sequence.steps.map(describeStep).join(', ')}, ${describeSequenceMode(api.response_sequence)}. Calls are counted per \`X-Mock-Session\` or API key, and each response carries \`X-Mock-Sequence-Step\`.
+
+` : ''}${api.data_type === 'schema' && api.session_ttl_minutes ? `**Mock sessions:** send \`X-Mock-Session: <name>\` (or a \`mock_session\` cookie) to read and write a private copy of the data, made on first use and discarded after ${api.session_ttl_minutes} idle minutes. Requests without one share the data.
+
+` : ''}${api.data_type === 'stream' ? `**Event stream:** GET opens a \`text/event-stream\` of ${describeStream(api.stream_config)}. Event ids count from 1; reconnect with \`Last-Event-ID\` (or \`?lastEventId=\`) to resume after an event. Streams close after ${MAX_STREAM_SECONDS} seconds and EventSource reconnects; \`204 No Content\` means there are no more events. Use \`curl -N\` to watch one.
+
+` : ''}${api.data_type === 'catcher' ? `**Webhook catcher:** ${describeCatcher(api.catcher_config)}. Point a webhook sender at this URL; every request is stored with its headers, query, body and client address for the request inspector, and the response carries its \`X-Capture-Id\`.
+
+` : ''}**Caching:** \`Cache-Control: ${getCacheControl(api)}\`${getSuccessStatus(api) === 200 ? ' - responses carry `ETag` and `Last-Modified`; send them back in `If-None-Match` or `If-Modified-Since` to get `304 Not Modified` while the data is unchanged' : ''}
+${getDeclaredHeaders(api).length > 0 ? `
+**Response Headers:**
+
+| Header | Value |
+|--------|-------|
+${getDeclaredHeaders(api).map(([name, value]) => `| \`${name}\` | \`${value}\` |`).join('\n')}
+` : ''}${api.data_type === 'schema' ? `
+**Query Parameters:**
 
+| Parameter | Description |
+|-----------|-------------|
+| \`limit\` | Maximum number of items to return (up to 1000) |
+| \`offset\` | Number of items to skip |
+| \`cursor\` | Opaque cursor from the \`X-Next-Cursor\` header or \`Link\` rel="next" |
+| \`sort\` | Comma-separated \`field:asc\` or \`field:desc\` |
+| \`<field>\` | Filter by equality, e.g. \`?status=active\` |
+| \`<field>[op]\` | Filter with \`eq\`, \`ne\`, \`gt\`, \`gte\`, \`lt\`, \`lte\`, \`in\`, \`nin\`, \`contains\` or \`exists\`, e.g. \`?price[gte]=10\` |
+
+The total number of matching items is returned in the \`X-Total-Count\` header. Paginated responses include a \`Link\` header with \`first\`, \`prev\`, \`next\` and \`last\` relations.
+Collections of more than 1000 items are streamed.
+` : ''}
 **Response Example:**
 \`\`\`json
 ${JSON.stringify(api.json_data, null, 2)}
@@ -314,30 +441,53 @@ ${JSON.stringify(api.json_data, null, 2)}
 
 **cURL Example:**
 \`\`\`bash
-curl -X GET "${supabaseUrl}/functions/v1/api-proxy${api.route}"${!api.is_public ? ' \\\n  -H "x-api-key: YOUR_API_KEY"' : ''}
+${getAuthMode(api) === 'hmac' ? `${signingCurlSnippet(api.route, api.signing_config?.clock_skew_seconds || DEFAULT_SIGNATURE_SKEW_SECONDS)}
+
+` : ''}curl -X GET "${supabaseUrl}/functions/v1/api-proxy${api.route}"${authCurlFlags(api)}
+\`\`\`
+${getAuthMode(api) === 'hmac' ? `
+**JavaScript Example (Node.js, signed):**
+\`\`\`javascript
+${signingJavaScriptSample(`${supabaseUrl}/functions/v1/api-proxy`, api.route)}
+const data = await response.json();
+console.log(data);
 \`\`\`
 
+**Python Example (signed):**
+\`\`\`python
+${signingPythonSample(`${supabaseUrl}/functions/v1/api-proxy`, api.route)}
+print(response.json())
+\`\`\`
+` : `
 **JavaScript Example:**
 \`\`\`javascript
 const response = await fetch('${supabaseUrl}/functions/v1/api-proxy${api.route}', {
-${!api.is_public ? `  headers: {
-    'x-api-key': 'YOUR_API_KEY'
+${authFetchHeaders(api).length > 0 ? `  headers: {
+${authFetchHeaders(api).map(header => `    ${header}`).join(',\n')}
   }` : '  // No headers needed for public endpoint'}
 });
 const data = await response.json();
 console.log(data);
 \`\`\`
-`).join('\n')}
+`}`).join('\n')}
 
 ## Error Codes
 
 | Code | Description |
 |------|-------------|
-| 200  | Success |
-| 401  | Unauthorized (invalid API key) |
+| ${[...new Set(apis.map(getSuccessStatus))].sort().join(', ')} | Success (as declared per endpoint) |
+| 401  | Unauthorized (invalid API key, token or signature) |
 | 404  | Endpoint not found |
 | 500  | Internal server error |
 
+## Compression
+
+Send \`Accept-Encoding: br\` or \`Accept-Encoding: gzip\` to receive compressed responses larger than 1 KB. Streamed responses (collections of more than 1000 items and \`?format=ndjson\`) are gzip-compressed.
+
+## Formats
+
+Endpoints serving JSON data can also return NDJSON, XML, CSV or YAML where listed. Choose a format with \`?format=\` or the \`Accept\` header; asking for a format an endpoint does not serve with \`?format=\` returns \`406 Not Acceptable\`. CSV has one row per item and flattens nested objects into \`parent.child\` columns. Text values starting with \`=\`, \`+\`, \`-\` or \`@\` are prefixed with \`'\` so spreadsheets do not run them as formulas.
+
 ## Rate Limiting
 
 Please be respectful with your API usage. If you need higher rate limits, please contact us.
@@ -448,6 +598,21 @@ For support and questions, please contact the API team.
                 <span>Markdown</span>
               </div>
             </button>
+            {schemas.length > 0 && (
+              <button
+                onClick={() => setActiveTab('graphql')}
+                className={`px-6 py-4 text-sm font-medium border-b-2 transition-colors ${
+                  activeTab === 'graphql'
+                    ? 'border-blue-500 text-blue-600 dark:text-blue-400 bg-white dark:bg-gray-800'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  <Braces className="w-4 h-4" />
+                  <span>GraphQL</span>
+                </div>
+              </button>
+            )}
           </div>
         </div>
 
@@ -507,6 +672,20 @@ For support and questions, please contact the API team.
                         </p>
                       </div>
 
+                      <div className="flex flex-wrap items-center gap-2 text-xs">
+                        <span className="px-2 py-1 bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 rounded font-mono">
+                          {getStatusLabel(getSuccessStatus(api))}
+                        </span>
+                        <span className="px-2 py-1 bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200 rounded font-mono">
+                          {getContentType(api)}
+                        </span>
+                        {getDeclaredHeaders(api).map(([name, value]) => (
+                          <span key={name} className="px-2 py-1 bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 rounded font-mono">
+                            {name}: {value}
+                          </span>
+                        ))}
+                      </div>
+
                       <div>
                         <h5 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
                           Response Example:
@@ -526,7 +705,7 @@ For support and questions, please contact the API team.
                           <div className="bg-gray-100 dark:bg-gray-800 rounded-lg p-3">
                             <code className="text-sm text-gray-800 dark:text-gray-200">
                               curl -X GET "{import.meta.env.VITE_SUPABASE_URL}/functions/v1/api-proxy{api.route}"
-                              {!api.is_public && ' \\\n  -H "x-api-key: YOUR_API_KEY"'}
+                              {authCurlFlags(api)}
                             </code>
                           </div>
                         </div>
@@ -537,13 +716,34 @@ For support and questions, please contact the API team.
                           </h5>
                           <div className="bg-gray-100 dark:bg-gray-800 rounded-lg p-3">
                             <code className="text-sm text-gray-800 dark:text-gray-200">
-                              {`fetch('${import.meta.env.VITE_SUPABASE_URL}/functions/v1/api-proxy${api.route}'${!api.is_public ? `, {
-  headers: { 'x-api-key': 'YOUR_API_KEY' }
+                              {`fetch('${import.meta.env.VITE_SUPABASE_URL}/functions/v1/api-proxy${api.route}'${authFetchHeaders(api).length > 0 ? `, {
+  headers: { ${authFetchHeaders(api).join(', ')} }
 }` : ''})`}
                             </code>
                           </div>
                         </div>
                       </div>
+
+                      {getAuthMode(api) === 'hmac' && (
+                        <div className="space-y-3">
+                          <h5 className="text-sm font-medium text-gray-900 dark:text-white">
+                            Request Signing:
+                          </h5>
+                          <ol className="list-decimal list-inside space-y-1 text-sm text-gray-600 dark:text-gray-400">
+                            {SIGNING_STEPS.map(step => <li key={step}>{step}</li>)}
+                          </ol>
+                          <div className="bg-gray-900 rounded-lg p-4 overflow-x-auto">
+                            <pre className="text-green-400 text-sm">
+                              {signingCurlSnippet(api.route, api.signing_config?.clock_skew_seconds || DEFAULT_SIGNATURE_SKEW_SECONDS)}
+                            </pre>
+                          </div>
+                          <div className="bg-gray-900 rounded-lg p-4 overflow-x-auto">
+                            <pre className="text-green-400 text-sm">
+                              {signingJavaScriptSample(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/api-proxy`, api.route)}
+                            </pre>
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -731,6 +931,87 @@ For support and questions, please contact the API team.
               )}
             </div>
           )}
+
+          {/* GraphQL schema */}
+          {activeTab === 'graphql' && graphqlModel && (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    GraphQL Schema
+                  </h3>
+                  <p className="text-gray-600 dark:text-gray-400 mt-1">
+                    Types, queries and mutations generated from {schemas.length} schema{schemas.length !== 1 ? 's' : ''}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => handleCopy(graphqlModel.sdl)}
+                    className="flex items-center space-x-1 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-300"
+                  >
+                    {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                    <span>Copy</span>
+                  </button>
+                  <button
+                    onClick={() => handleDownload(
+                      graphqlModel.sdl,
+                      `${projectName.toLowerCase().replace(/\s+/g, '-')}.graphql`,
+                      'application/graphql'
+                    )}
+                    className="flex items-center space-x-1 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-300"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>Download SDL</span>
+                  </button>
+                </div>
+              </div>
+
+              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 p-4 space-y-2">
+                <code className="block text-sm text-gray-800 dark:text-gray-200 break-all">
+                  POST {getGraphqlUrl(projectId)}
+                </code>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {graphqlConfig.enabled
+                    ? graphqlConfig.is_public
+                      ? 'Public: queries need no API key; mutations need a project key granting all endpoints, with the write scope, in x-api-key.'
+                      : 'Private: send a project key granting all endpoints in x-api-key; mutations need its write scope.'
+                    : 'Not enabled yet. Turn it on under Keys & Access.'}
+                  {' '}GET without a query returns this SDL; introspection is supported.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <h5 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                    Example Query:
+                  </h5>
+                  <div className="bg-gray-900 rounded-lg p-4 overflow-x-auto">
+                    <pre className="text-green-400 text-sm">
+                      {sampleGraphqlQuery(graphqlModel.collections[0])}
+                    </pre>
+                  </div>
+                </div>
+                <div>
+                  <h5 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                    cURL Example:
+                  </h5>
+                  <div className="bg-gray-900 rounded-lg p-4 overflow-x-auto">
+                    <pre className="text-green-400 text-sm">
+                      {graphqlCurlSnippet(projectId, graphqlConfig, sampleGraphqlQuery(graphqlModel.collections[0]))}
+                    </pre>
+                  </div>
+                </div>
+              </div>
+
+              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
+                <div className="p-4">
+                  <pre className="text-sm text-gray-800 dark:text-gray-200 overflow-x-auto">
+                    {graphqlModel.sdl}
+                  </pre>
+                </div>
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react';
+import { ApiEndpoint } from '../hooks/useApis';
+import { useEndpointVersions } from '../hooks/useEndpointVersions';
+import {
+  EndpointVersion,
+  VERSION_STATUS_STYLES,
+  fromDateInput,
+  getVersionStatus,
+  getVersionedRoute,
+  toDateInput,
+  validateVersionSchedule,
+} from '../utils/endpointVersions';
+import { X, GitBranch, Upload, Check, Trash2, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface EndpointVersionsProps {
+  api: ApiEndpoint;
+  // Sets the version served when a request names none; null serves the live configuration
+  onSetCurrent: (version: number | null) => Promise<boolean>;
+  onClose: () => void;
+}
+
+type ScheduleDraft = { deprecated: string; sunset: string };
+
+export const EndpointVersions: React.FC<EndpointVersionsProps> = ({ api, onSetCurrent, onClose }) => {
+  const { fetchVersions, publishVersion, updateSchedule, deleteVersion } = useEndpointVersions();
+  const [versions, setVersions] = useState<EndpointVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notes, setNotes] = useState('');
+  const [makeCurrent, setMakeCurrent] = useState(true);
+  const [publishing, setPublishing] = useState(false);
+  const [schedules, setSchedules] = useState<Record<string, ScheduleDraft>>({});
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchVersions(api.id).then(loaded => {
+      if (!cancelled) {
+        setVersions(loaded);
+        setLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [api.id, fetchVersions]);
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPublishing(true);
+    const published = await publishVersion(api.id, notes);
+    if (!published) {
+      setPublishing(false);
+      toast.error('Failed to publish version');
+      return;
+    }
+
+    setVersions(prev => [published, ...prev]);
+    setNotes('');
+    if (makeCurrent && !(await onSetCurrent(published.version))) {
+      toast.error(`Published v${published.version} but could not make it current`);
+    } else {
+      toast.success(`Published v${published.version}`);
+    }
+    setPublishing(false);
+  };
+
+  const handleSetCurrent = async (version: number | null) => {
+    if (await onSetCurrent(version)) {
+      toast.success(version === null ? 'Requests without a version now get the live configuration' : `v${version} is now current`);
+    } else {
+      toast.error('Failed to change the current version');
+    }
+  };
+
+  const getSchedule = (version: EndpointVersion): ScheduleDraft =>
+    schedules[version.id] || { deprecated: toDateInput(version.deprecated_at), sunset: toDateInput(version.sunset_at) };
+
+  const handleSaveSchedule = async (version: EndpointVersion) => {
+    const draft = getSchedule(version);
+    const schedule = { deprecated_at: fromDateInput(draft.deprecated), sunset_at: fromDateInput(draft.sunset) };
+    const scheduleError = validateVersionSchedule(schedule.deprecated_at, schedule.sunset_at);
+    if (scheduleError) {
+      toast.error(scheduleError);
+      return;
+    }
+
+    if (await updateSchedule(version.id, schedule)) {
+      setVersions(prev => prev.map(existing => existing.id === version.id ? { ...existing, ...schedule } : existing));
+      setSchedules(prev => {
+        const next = { ...prev };
+        delete next[version.id];
+        return next;
+      });
+      toast.success(`Schedule saved for v${version.version}`);
+    } else {
+      toast.error('Failed to save schedule');
+    }
+  };
+
+  const handleDelete = async (version: EndpointVersion) => {
+    setConfirmDeleteId(null);
+    if (await deleteVersion(version.id)) {
+      setVersions(prev => prev.filter(existing => existing.id !== version.id));
+      toast.success(`Deleted v${version.version}`);
+    } else {
+      toast.error('Failed to delete version');
+    }
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <GitBranch className="w-6 h-6 text-indigo-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Versions</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {api.current_version
+                  ? <>Requests to <code>{api.route}</code> without a version get v{api.current_version}</>
+                  : <>Requests to <code>{api.route}</code> without a version get the live configuration</>}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <form onSubmit={handlePublish} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 space-y-3">
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white">Publish Version</h4>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Freezes the endpoint's saved response, template, schema fields and rules. Authentication, access policy and
+              rate limits are shared by every version. Later edits only reach clients once published.
+            </p>
+            <div className="flex items-center space-x-3">
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What changed, e.g. Renamed price to amount"
+                className={`flex-1 ${inputClass}`}
+              />
+              <label className="flex items-center space-x-2 text-xs text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={makeCurrent}
+                  onChange={(e) => setMakeCurrent(e.target.checked)}
+                  className="w-4 h-4 text-blue-600"
+                />
+                <span>Make current</span>
+              </label>
+              <button
+                type="submit"
+                disabled={publishing}
+                className="flex items-center space-x-1 bg-indigo-600 text-white px-3 py-2 rounded-lg hover:bg-indigo-700 transition-colors text-sm disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4" />
+                <span>{publishing ? 'Publishing...' : 'Publish'}</span>
+              </button>
+            </div>
+          </form>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-gray-900 dark:text-white">History ({versions.length})</h4>
+              {api.current_version != null && (
+                <button
+                  onClick={() => handleSetCurrent(null)}
+                  className="text-xs text-gray-600 dark:text-gray-400 hover:text-blue-600"
+                  title="Requests without a version get the endpoint's live configuration"
+                >
+                  Serve live configuration by default
+                </button>
+              )}
+            </div>
+
+            {loading ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Loading versions...</p>
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No versions yet. Publish one to pin what clients get while you keep editing the endpoint.
+              </p>
+            ) : (
+              versions.map(version => {
+                const status = getVersionStatus(version, api.current_version);
+                const schedule = getSchedule(version);
+                const scheduleChanged = Boolean(schedules[version.id]);
+                return (
+                  <div key={version.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 space-y-2">
+                    <div className="flex items-start justify-between">
+                      <div className="space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm font-semibold text-gray-900 dark:text-white">v{version.version}</span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${VERSION_STATUS_STYLES[status]}`}>{status}</span>
+                          <code className="text-xs text-gray-500 dark:text-gray-400">{getVersionedRoute(api.route, version.version)}</code>
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400 space-x-3">
+                          <span>Published: {new Date(version.created_at).toLocaleString()}</span>
+                          {version.notes && <span>{version.notes}</span>}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        {status !== 'current' && status !== 'retired' && (
+                          <button
+                            onClick={() => handleSetCurrent(version.version)}
+                            className="flex items-center space-x-1 text-xs text-green-600 hover:text-green-800"
+                          >
+                            <Check className="w-3 h-3" />
+                            <span>Make current</span>
+                          </button>
+                        )}
+                        {version.version !== api.current_version && (
+                          confirmDeleteId === version.id ? (
+                            <>
+                              <button onClick={() => handleDelete(version)} className="text-xs font-medium text-red-600 hover:text-red-800">
+                                Confirm
+                              </button>
+                              <button onClick={() => setConfirmDeleteId(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                                Cancel
+                              </button>
+                            </>
+                          ) : (
+                            <button
+                              onClick={() => setConfirmDeleteId(version.id)}
+                              className="text-gray-400 hover:text-red-600"
+                              title="Requests for this version will get 404"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-end gap-3">
+                      <label className="text-xs text-gray-600 dark:text-gray-400">
+                        <span className="block mb-1">Deprecated from</span>
+                        <input
+                          type="date"
+                          value={schedule.deprecated}
+                          onChange={(e) => setSchedules(prev => ({ ...prev, [version.id]: { ...schedule, deprecated: e.target.value } }))}
+                          className={inputClass}
+                        />
+                      </label>
+                      <label className="text-xs text-gray-600 dark:text-gray-400">
+                        <span className="block mb-1">Sunset (410 Gone) from</span>
+                        <input
+                          type="date"
+                          value={schedule.sunset}
+                          onChange={(e) => setSchedules(prev => ({ ...prev, [version.id]: { ...schedule, sunset: e.target.value } }))}
+                          className={inputClass}
+                        />
+                      </label>
+                      {scheduleChanged && (
+                        <button
+                          onClick={() => handleSaveSchedule(version)}
+                          className="flex items-center space-x-1 bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm"
+                        >
+                          <Save className="w-4 h-4" />
+                          <span>Save</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Clients pick a version with a <code>/v2</code> prefix or an <code>Accept-Version: 2</code> header. Deprecated
+              versions send <code>Deprecation</code> and <code>Sunset</code> headers so clients can move on before they are retired.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,33 @@
 import React, { useState, useEffect } from 'react';
 import { validateJson, formatJson } from '../utils/jsonValidator';
-import { Check, X, Code2, Minimize2 } from 'lucide-react';
+import { hasPlaceholders, renderTemplatePreview } from '../utils/templatePreview';
+import { Check, X, Code2, Minimize2, Eye, EyeOff, RefreshCw } from 'lucide-react';
 
 interface JsonEditorProps {
   value: string | any;
   onChange: (value: string) => void;
   placeholder?: string;
   className?: string;
+  // Sample route parameters used when rendering {{params.*}} in the preview
+  previewParams?: Record<string, string>;
 }
 
+const renderPreviewText = (text: string, params?: Record<string, string>): string | null => {
+  try {
+    const parsed = JSON.parse(text);
+    if (!hasPlaceholders(parsed)) return null;
+    return JSON.stringify(renderTemplatePreview(parsed, params), null, 2);
+  } catch {
+    return null;
+  }
+};
+
 export const JsonEditor: React.FC<JsonEditorProps> = ({
   value,
   onChange,
   placeholder = '{\n  "message": "Hello, World!"\n}',
   className = '',
+  previewParams,
 }) => {
   // Safely convert value to string
   const getStringValue = (val: any): string => {
@@ -32,6 +46,8 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
 
   const [localValue, setLocalValue] = useState(getStringValue(value));
   const [validation, setValidation] = useState(validateJson(localValue));
+  const [showPreview, setShowPreview] = useState(false);
+  const [previewRun, setPreviewRun] = useState(0);
 
   useEffect(() => {
     const stringValue = getStringValue(value);
@@ -39,6 +55,14 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
     setValidation(validateJson(stringValue));
   }, [value]);
 
+  const isTemplate = validation.isValid && localValue.includes('{{');
+  const [preview, setPreview] = useState<string | null>(null);
+
+  // Fake data and timestamps change on every render; previewRun lets the user re-roll them
+  useEffect(() => {
+    setPreview(showPreview ? renderPreviewText(localValue, previewParams) : null);
+  }, [showPreview, localValue, previewParams, previewRun]);
+
   const handleChange = (newValue: string) => {
     setLocalValue(newValue);
     const newValidation = validateJson(newValue);
@@ -86,6 +110,15 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
         
         {validation.isValid && (
           <div className="flex space-x-1">
+            {isTemplate && (
+              <button
+                onClick={() => setShowPreview(!showPreview)}
+                className={`p-1 transition-colors ${showPreview ? 'text-blue-600' : 'text-gray-500 hover:text-blue-600'}`}
+                title={showPreview ? 'Hide render preview' : 'Show render preview'}
+              >
+                {showPreview ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              </button>
+            )}
             <button
               onClick={handleFormat}
               className="p-1 text-gray-500 hover:text-blue-600 transition-colors"
@@ -116,6 +149,23 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
         spellCheck={false}
       />
       
+      {preview !== null && (
+        <div className="border border-blue-200 rounded-lg bg-blue-50">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-blue-200">
+            <span className="text-xs font-medium text-blue-900">Render Preview</span>
+            <button
+              onClick={() => setPreviewRun(previewRun + 1)}
+              className="flex items-center text-xs text-blue-700 hover:text-blue-900 transition-colors"
+              title="Render again with new fake data"
+            >
+              <RefreshCw className="w-3 h-3 mr-1" />
+              Re-render
+            </button>
+          </div>
+          <pre className="p-3 text-xs font-mono text-gray-800 overflow-auto max-h-64">{preview}</pre>
+        </div>
+      )}
+
       {!validation.isValid && validation.error && (
         <div className="text-red-600 text-xs bg-red-50 p-2 rounded border border-red-200">
           <strong>JSON Error:</strong> {validation.error}
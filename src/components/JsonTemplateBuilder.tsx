@@ -3,7 +3,8 @@ import { JsonTemplate } from '../hooks/useJsonTemplates';
 import { JsonEditor } from './JsonEditor';
 import { AiJsonGenerator } from './AiJsonGenerator';
 import { validateJson } from '../utils/jsonValidator';
-import { X, Save, Code, Info, AlertCircle, Sparkles } from 'lucide-react';
+import { TEMPLATE_SYNTAX, FAKER_GENERATORS } from '../utils/templatePreview';
+import { X, Save, Code, Info, AlertCircle, Sparkles, Braces } from 'lucide-react';
 
 interface JsonTemplateBuilderProps {
   projectId: string;
@@ -182,6 +183,35 @@ export const JsonTemplateBuilder: React.FC<JsonTemplateBuilderProps> = ({
               </div>
             </section>
 
+            {/* Dynamic Templating Reference */}
+            <section className="bg-blue-50 dark:bg-blue-900/20 rounded-xl p-6 border border-blue-200 dark:border-blue-800">
+              <div className="flex items-center space-x-2 mb-2">
+                <Braces className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                <h4 className="text-sm font-semibold text-blue-900 dark:text-blue-100">Dynamic Values</h4>
+              </div>
+              <p className="text-xs text-blue-800 dark:text-blue-200 mb-4">
+                Placeholders are evaluated on every request. Use the eye icon in the editor to preview a rendered response.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {TEMPLATE_SYNTAX.map(({ syntax, description }) => (
+                  <div key={syntax} className="flex items-start space-x-2 text-xs">
+                    <code className="bg-white dark:bg-gray-800 px-2 py-0.5 rounded text-blue-700 dark:text-blue-300 whitespace-nowrap">{syntax}</code>
+                    <span className="text-gray-600 dark:text-gray-400">{description}</span>
+                  </div>
+                ))}
+              </div>
+              <details className="mt-4 text-xs">
+                <summary className="cursor-pointer text-blue-700 dark:text-blue-300">Available fake data generators</summary>
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {FAKER_GENERATORS.map(generator => (
+                    <code key={generator} className="bg-white dark:bg-gray-800 px-2 py-0.5 rounded text-gray-700 dark:text-gray-300">
+                      faker.{generator}
+                    </code>
+                  ))}
+                </div>
+              </details>
+            </section>
+
             {/* JSON Editor Section */}
             <section className="space-y-6">
               <div className="flex items-center space-x-2 pb-2 border-b border-gray-200 dark:border-gray-700">
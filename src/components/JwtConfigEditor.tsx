@@ -0,0 +1,133 @@
+import React from 'react';
+import { JWT_ALGORITHMS, JwtAlgorithm, JwtConfig, generateJwtSecret } from '../utils/jwtAuth';
+import { ShieldCheck, RefreshCw } from 'lucide-react';
+
+interface JwtConfigEditorProps {
+  config: JwtConfig;
+  onChange: (config: JwtConfig) => void;
+  error?: string;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export const JwtConfigEditor: React.FC<JwtConfigEditorProps> = ({ config, onChange, error }) => {
+  const update = (changes: Partial<JwtConfig>) => onChange({ ...config, ...changes });
+
+  const handleAlgorithmChange = (algorithm: JwtAlgorithm) => {
+    // Keep only the key material the new algorithm uses
+    update(algorithm === 'HS256'
+      ? { algorithm, public_key: null, secret: config.secret || generateJwtSecret() }
+      : { algorithm, secret: null, public_key: config.public_key || '' });
+  };
+
+  return (
+    <div className="bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center space-x-2">
+        <ShieldCheck className="w-4 h-4 text-orange-600" />
+        <span className="text-sm font-medium text-orange-800 dark:text-orange-200">JWT Verification</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-orange-700 dark:text-orange-300 mb-1">Algorithm</label>
+          <select
+            value={config.algorithm}
+            onChange={(e) => handleAlgorithmChange(e.target.value as JwtAlgorithm)}
+            className={inputClass}
+          >
+            {JWT_ALGORITHMS.map(algorithm => (
+              <option key={algorithm.value} value={algorithm.value}>{algorithm.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-orange-700 dark:text-orange-300 mb-1">Clock skew (seconds)</label>
+          <input
+            type="number"
+            min={0}
+            value={config.clock_skew_seconds ?? ''}
+            onChange={(e) => update({ clock_skew_seconds: e.target.value === '' ? null : Math.max(parseInt(e.target.value, 10) || 0, 0) })}
+            placeholder="30"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {config.algorithm === 'HS256' ? (
+        <div>
+          <label className="block text-xs font-medium text-orange-700 dark:text-orange-300 mb-1">Shared secret</label>
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={config.secret || ''}
+              onChange={(e) => update({ secret: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+            <button
+              type="button"
+              onClick={() => update({ secret: generateJwtSecret() })}
+              className="flex items-center space-x-1 text-xs bg-orange-200 hover:bg-orange-300 dark:bg-orange-800 dark:hover:bg-orange-700 text-orange-800 dark:text-orange-200 px-2 py-2 rounded transition-colors"
+            >
+              <RefreshCw className="w-3 h-3" />
+              <span>Generate</span>
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div>
+          <label className="block text-xs font-medium text-orange-700 dark:text-orange-300 mb-1">Public key</label>
+          <textarea
+            value={config.public_key || ''}
+            onChange={(e) => update({ public_key: e.target.value })}
+            rows={5}
+            placeholder={'-----BEGIN PUBLIC KEY-----\n...\n-----END PUBLIC KEY-----\n\nor a JWKS document: { "keys": [ ... ] }'}
+            className={`${inputClass} font-mono text-xs`}
+          />
+          <p className="mt-1 text-xs text-orange-700 dark:text-orange-300">
+            With a JWKS, the key whose <code>kid</code> matches the token header is used.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-orange-700 dark:text-orange-300 mb-1">Required issuer (iss)</label>
+          <input
+            type="text"
+            value={config.issuer || ''}
+            onChange={(e) => update({ issuer: e.target.value || null })}
+            placeholder="Any issuer"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-orange-700 dark:text-orange-300 mb-1">Required audience (aud)</label>
+          <input
+            type="text"
+            value={config.audience || ''}
+            onChange={(e) => update({ audience: e.target.value || null })}
+            placeholder="Any audience"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-2 text-xs text-orange-800 dark:text-orange-200">
+        <input
+          type="checkbox"
+          checked={!!config.expose_claims}
+          onChange={(e) => update({ expose_claims: e.target.checked })}
+          className="w-4 h-4 text-blue-600"
+        />
+        <span>Expose verified claims to response templates as <code>{'{{claims.sub}}'}</code></span>
+      </label>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <p className="text-xs text-orange-700 dark:text-orange-300">
+        Clients send <code>Authorization: Bearer &lt;token&gt;</code>. Expired, not-yet-valid or wrongly signed tokens get
+        {' '}<code>401</code> with a <code>WWW-Authenticate</code> header.
+      </p>
+    </div>
+  );
+};
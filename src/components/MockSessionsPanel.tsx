@@ -0,0 +1,123 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useMockSessions } from '../hooks/useMockSessions';
+import { MockSession, SESSION_HEADER, getSessionItemCount, isSessionExpired } from '../utils/mockSessions';
+import { Layers, RefreshCw, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface MockSessionsPanelProps {
+  schemaId: string;
+}
+
+// Sessions opened against the schema by endpoints in session mode, each with its own copy of the data
+export const MockSessionsPanel: React.FC<MockSessionsPanelProps> = ({ schemaId }) => {
+  const { fetchSessions, resetSession, resetAllSessions } = useMockSessions();
+  const [sessions, setSessions] = useState<MockSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true);
+    setSessions(await fetchSessions(schemaId));
+    setLoading(false);
+  }, [schemaId, fetchSessions]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleReset = async (session: MockSession) => {
+    if (await resetSession(session.id)) {
+      setSessions(prev => prev.filter(existing => existing.id !== session.id));
+      toast.success(`Session "${session.session_key}" reset`);
+    } else {
+      toast.error('Failed to reset session');
+    }
+  };
+
+  const handleResetAll = async () => {
+    if (!confirm('Reset every session? Their changes are discarded and each starts again from this data.')) return;
+
+    if (await resetAllSessions(schemaId)) {
+      setSessions([]);
+      toast.success('All sessions reset');
+    } else {
+      toast.error('Failed to reset sessions');
+    }
+  };
+
+  return (
+    <div className="mt-8 border-t border-gray-200 pt-6">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Layers className="w-5 h-5 text-cyan-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Mock Sessions ({sessions.length})</h3>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={loadSessions}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+            title="Refresh sessions"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+          {sessions.length > 0 && (
+            <button
+              onClick={handleResetAll}
+              className="text-sm text-red-600 hover:text-red-800 transition-colors"
+            >
+              Reset all
+            </button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-3">
+        Endpoints in session mode give each <code>{SESSION_HEADER}</code> value its own copy of the entries above.
+        Resetting a session discards its changes; its next request starts again from this data.
+      </p>
+
+      {!loading && sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">No active sessions.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse border border-gray-200">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="border border-gray-200 px-4 py-2 text-left text-sm font-medium text-gray-700">Session</th>
+                <th className="border border-gray-200 px-4 py-2 text-left text-sm font-medium text-gray-700">Entries</th>
+                <th className="border border-gray-200 px-4 py-2 text-left text-sm font-medium text-gray-700">Started</th>
+                <th className="border border-gray-200 px-4 py-2 text-left text-sm font-medium text-gray-700">Last used</th>
+                <th className="border border-gray-200 px-4 py-2 text-left text-sm font-medium text-gray-700">Expires</th>
+                <th className="border border-gray-200 px-4 py-2 text-left text-sm font-medium text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map(session => (
+                <tr key={session.id} className="hover:bg-gray-50">
+                  <td className="border border-gray-200 px-4 py-2 text-sm font-mono text-gray-900">{session.session_key}</td>
+                  <td className="border border-gray-200 px-4 py-2 text-sm text-gray-900">{getSessionItemCount(session)}</td>
+                  <td className="border border-gray-200 px-4 py-2 text-sm text-gray-500">{new Date(session.created_at).toLocaleString()}</td>
+                  <td className="border border-gray-200 px-4 py-2 text-sm text-gray-500">{new Date(session.last_used_at).toLocaleString()}</td>
+                  <td className="border border-gray-200 px-4 py-2 text-sm text-gray-500">
+                    {isSessionExpired(session)
+                      ? <span className="text-amber-600">Expired</span>
+                      : new Date(session.expires_at).toLocaleString()}
+                  </td>
+                  <td className="border border-gray-200 px-4 py-2">
+                    <button
+                      onClick={() => handleReset(session)}
+                      className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-800 transition-colors"
+                      title="Discard this session's changes"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>Reset</span>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
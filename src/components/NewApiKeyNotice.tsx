@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { CreatedApiKey } from '../hooks/useApiKeys';
+import { AlertTriangle, Copy, Check } from 'lucide-react';
+
+interface NewApiKeyNoticeProps {
+  created: CreatedApiKey;
+}
+
+// Plaintext keys are only available right after they are created, so they are shown once here
+export const NewApiKeyNotice: React.FC<NewApiKeyNoticeProps> = ({ created }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(created.secret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+      <div className="flex items-start space-x-2 mb-2">
+        <AlertTriangle className="w-4 h-4 text-green-700 mt-0.5" />
+        <p className="text-sm text-green-800 dark:text-green-200">
+          Copy <strong>{created.key.name}</strong> now. Only a hash is stored, so it can't be shown again.
+        </p>
+      </div>
+      <div className="flex items-center space-x-2">
+        <code className="flex-1 bg-white dark:bg-gray-900 border border-green-200 dark:border-green-800 rounded px-3 py-2 text-sm font-mono text-gray-900 dark:text-white break-all">
+          {created.secret}
+        </code>
+        <button
+          onClick={handleCopy}
+          className="flex items-center space-x-1 bg-green-600 text-white px-3 py-2 rounded-lg hover:bg-green-700 transition-colors text-sm"
+        >
+          {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+          <span>{copied ? 'Copied' : 'Copy'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { useAccessPolicy } from '../hooks/useAccessPolicy';
+import { AccessPolicy, validateAccessPolicy } from '../utils/accessPolicy';
+import { AccessPolicyEditor } from './AccessPolicyEditor';
+import { Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ProjectAccessPolicyProps {
+  projectId: string;
+}
+
+export const ProjectAccessPolicy: React.FC<ProjectAccessPolicyProps> = ({ projectId }) => {
+  const { fetchProjectPolicy, saveProjectPolicy } = useAccessPolicy();
+  const [policy, setPolicy] = useState<AccessPolicy | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    fetchProjectPolicy(projectId).then(loaded => {
+      if (!mounted) return;
+      setPolicy(loaded);
+      setLoading(false);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [projectId, fetchProjectPolicy]);
+
+  const handleSave = async () => {
+    const validationError = validateAccessPolicy(policy);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    const saved = await saveProjectPolicy(projectId, policy);
+    setSaving(false);
+    if (saved) {
+      toast.success('Access policy saved');
+    } else {
+      toast.error('Failed to save access policy');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-600 dark:text-gray-400">Loading access policy...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Access Policy</h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Which browser origins and client addresses may call this project's endpoints
+        </p>
+      </div>
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+        <AccessPolicyEditor
+          policy={policy}
+          onChange={(next) => {
+            setPolicy(next);
+            setError('');
+          }}
+          description="Applies to every endpoint in this project. Endpoints can override each field in their own settings."
+          error={error}
+        />
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            <span>{saving ? 'Saving...' : 'Save Access Policy'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,356 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ApiEndpoint } from '../hooks/useApis';
+import { API_KEY_SCOPES, ApiKey, ApiKeyScope, CreatedApiKey, getApiKeyStatus, useApiKeys } from '../hooks/useApiKeys';
+import { KEY_EXPIRY_OPTIONS, KEY_STATUS_STYLES, expiryFromDays, formatKeyDate } from '../utils/apiKeys';
+import { NewApiKeyNotice } from './NewApiKeyNotice';
+import { KeyRound, Plus, Ban, Edit2, Save, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ProjectApiKeysProps {
+  projectId: string;
+  apis: ApiEndpoint[];
+}
+
+interface AccessDraft {
+  scopes: ApiKeyScope[];
+  // null grants every endpoint in the project
+  endpointIds: string[] | null;
+}
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(existing => existing !== value) : [...values, value];
+
+interface AccessFieldsProps {
+  draft: AccessDraft;
+  apis: ApiEndpoint[];
+  onChange: (draft: AccessDraft) => void;
+  // Endpoint keys only ever grant their own endpoint
+  scopesOnly?: boolean;
+}
+
+const AccessFields: React.FC<AccessFieldsProps> = ({ draft, apis, onChange, scopesOnly = false }) => (
+  <div className="space-y-3">
+    <div className="flex flex-wrap gap-4">
+      {API_KEY_SCOPES.map(scope => (
+        <label key={scope.value} className="flex items-center space-x-2 text-xs text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={draft.scopes.includes(scope.value)}
+            onChange={() => onChange({ ...draft, scopes: toggle(draft.scopes, scope.value) })}
+            className="w-4 h-4 text-blue-600"
+          />
+          <span><strong>{scope.label}</strong>: {scope.description}</span>
+        </label>
+      ))}
+    </div>
+    {!scopesOnly && (
+      <div>
+        <label className="flex items-center space-x-2 text-xs text-gray-700 dark:text-gray-300 mb-2">
+          <input
+            type="checkbox"
+            checked={draft.endpointIds === null}
+            onChange={(e) => onChange({ ...draft, endpointIds: e.target.checked ? null : [] })}
+            className="w-4 h-4 text-blue-600"
+          />
+          <span>All endpoints in this project, including ones added later</span>
+        </label>
+        {draft.endpointIds !== null && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 pl-6">
+            {apis.map(api => (
+              <label key={api.id} className="flex items-center space-x-2 text-xs text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={draft.endpointIds?.includes(api.id) || false}
+                  onChange={() => onChange({ ...draft, endpointIds: toggle(draft.endpointIds || [], api.id) })}
+                  className="w-4 h-4 text-blue-600"
+                />
+                <span>{api.name} <code className="text-gray-500">{api.route}</code></span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+const validateAccess = (draft: AccessDraft): string | null => {
+  if (draft.scopes.length === 0) return 'Choose at least one scope';
+  if (draft.endpointIds !== null && draft.endpointIds.length === 0) return 'Choose at least one endpoint';
+  return null;
+};
+
+export const ProjectApiKeys: React.FC<ProjectApiKeysProps> = ({ projectId, apis }) => {
+  const { fetchProjectKeys, fetchKeyUsage, createKey, updateKeyAccess, revokeKey } = useApiKeys();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState('');
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
+  const [access, setAccess] = useState<AccessDraft>({ scopes: ['read'], endpointIds: null });
+  const [newKey, setNewKey] = useState<CreatedApiKey | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<AccessDraft>({ scopes: [], endpointIds: null });
+  const [confirmRevokeId, setConfirmRevokeId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // apis is a new array on every render, so reload keys only when the endpoint ids change
+  const endpointIdList = apis.map(api => api.id).join(',');
+
+  const loadKeys = useCallback(async () => {
+    const loaded = await fetchProjectKeys(projectId, endpointIdList ? endpointIdList.split(',') : []);
+    setKeys(loaded);
+    setUsage(await fetchKeyUsage(loaded.map(key => key.id)));
+    setLoading(false);
+  }, [projectId, endpointIdList, fetchProjectKeys, fetchKeyUsage]);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const endpointName = (id: string | null) => apis.find(api => api.id === id)?.name || 'Deleted endpoint';
+
+  const describeTarget = (key: ApiKey) => {
+    if (key.endpoint_id) return endpointName(key.endpoint_id);
+    if (!key.endpoint_ids) return 'All endpoints';
+    return key.endpoint_ids.map(endpointName).join(', ');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = !name.trim() ? 'Give the key a name' : validateAccess(access);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setSaving(true);
+    const created = await createKey({
+      name: name.trim(),
+      target: { project_id: projectId, endpoint_ids: access.endpointIds },
+      scopes: access.scopes,
+      expires_at: expiryFromDays(expiryDays),
+    });
+    setSaving(false);
+
+    if (!created) {
+      toast.error('Failed to create API key');
+      return;
+    }
+    setNewKey(created);
+    setName('');
+    setShowCreate(false);
+    await loadKeys();
+  };
+
+  const startEditing = (key: ApiKey) => {
+    setEditingId(key.id);
+    setEditDraft({ scopes: key.scopes, endpointIds: key.endpoint_ids });
+  };
+
+  const handleSaveAccess = async (key: ApiKey) => {
+    const problem = validateAccess(editDraft);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    const success = await updateKeyAccess(key.id, editDraft.scopes, key.project_id ? editDraft.endpointIds : null);
+    if (success) {
+      toast.success('API key access updated');
+      setEditingId(null);
+      await loadKeys();
+    } else {
+      toast.error('Failed to update API key');
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    const success = await revokeKey(id);
+    setConfirmRevokeId(null);
+    if (success) {
+      toast.success('API key revoked');
+      await loadKeys();
+    } else {
+      toast.error('Failed to revoke API key');
+    }
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">API Keys</h2>
+          <p className="text-gray-600 dark:text-gray-400">
+            One key per client, granting some or all of this project's private endpoints
+          </p>
+        </div>
+        <button
+          onClick={() => setShowCreate(!showCreate)}
+          className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>New Project Key</span>
+        </button>
+      </div>
+
+      {newKey && <NewApiKeyNotice key={newKey.key.id} created={newKey} />}
+
+      {showCreate && (
+        <form onSubmit={handleCreate} className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. iOS app"
+              className={inputClass}
+            />
+            <select
+              value={expiryDays ?? ''}
+              onChange={(e) => setExpiryDays(e.target.value ? parseInt(e.target.value, 10) : null)}
+              className={inputClass}
+            >
+              {KEY_EXPIRY_OPTIONS.map(option => (
+                <option key={option.label} value={option.days ?? ''}>Expires: {option.label}</option>
+              ))}
+            </select>
+          </div>
+          <AccessFields draft={access} apis={apis} onChange={setAccess} />
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-1 bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+            >
+              <KeyRound className="w-4 h-4" />
+              <span>Create Key</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowCreate(false)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading keys...</p>
+      ) : keys.length === 0 ? (
+        <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <KeyRound className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">No named keys in this project yet</p>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700 text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-3">Key</th>
+                <th className="px-4 py-3">Grants</th>
+                <th className="px-4 py-3">Scopes</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3 text-right">Requests</th>
+                <th className="px-4 py-3">Last used</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {keys.map(key => {
+                const status = getApiKeyStatus(key);
+                const usable = status === 'active' || status === 'rotating';
+                return (
+                  <React.Fragment key={key.id}>
+                    <tr className="text-gray-900 dark:text-white">
+                      <td className="px-4 py-3">
+                        <div className="font-medium">{key.name}</div>
+                        <code className="text-xs text-gray-500 dark:text-gray-400">{key.key_prefix}…</code>
+                      </td>
+                      <td className="px-4 py-3 text-xs text-gray-600 dark:text-gray-400">{describeTarget(key)}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-1">
+                          {key.scopes.map(scope => (
+                            <span key={scope} className="px-2 py-0.5 rounded text-xs bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">{scope}</span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${KEY_STATUS_STYLES[status]}`}>{status}</span>
+                      </td>
+                      <td className="px-4 py-3 text-right">{(usage[key.id] || 0).toLocaleString()}</td>
+                      <td className="px-4 py-3 text-xs text-gray-600 dark:text-gray-400">{formatKeyDate(key.last_used_at)}</td>
+                      <td className="px-4 py-3">
+                        {usable && (
+                          <div className="flex items-center justify-end space-x-2">
+                            <button
+                              onClick={() => startEditing(key)}
+                              className="text-blue-600 hover:text-blue-800"
+                              title="Edit scopes and endpoints"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            {confirmRevokeId === key.id ? (
+                              <>
+                                <button onClick={() => handleRevoke(key.id)} className="text-xs font-medium text-red-600 hover:text-red-800">
+                                  Confirm
+                                </button>
+                                <button onClick={() => setConfirmRevokeId(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                                  Cancel
+                                </button>
+                              </>
+                            ) : (
+                              <button
+                                onClick={() => setConfirmRevokeId(key.id)}
+                                className="text-red-600 hover:text-red-800"
+                                title="Revoke"
+                              >
+                                <Ban className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                    {editingId === key.id && (
+                      <tr>
+                        <td colSpan={7} className="px-4 py-3 bg-gray-50 dark:bg-gray-700">
+                          <AccessFields draft={editDraft} apis={apis} onChange={setEditDraft} scopesOnly={!key.project_id} />
+                          <div className="flex space-x-2 mt-3">
+                            <button
+                              onClick={() => handleSaveAccess(key)}
+                              className="flex items-center space-x-1 bg-blue-600 text-white px-3 py-1 rounded-lg hover:bg-blue-700 transition-colors text-xs"
+                            >
+                              <Save className="w-3 h-3" />
+                              <span>Save</span>
+                            </button>
+                            <button
+                              onClick={() => setEditingId(null)}
+                              className="flex items-center space-x-1 px-3 py-1 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg text-xs"
+                            >
+                              <X className="w-3 h-3" />
+                              <span>Cancel</span>
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Request counts come from logged API analytics. Keys for a single endpoint are managed from its card on the APIs tab.
+      </p>
+    </div>
+  );
+};
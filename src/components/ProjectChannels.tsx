@@ -0,0 +1,166 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useChannels } from '../hooks/useChannels';
+import { Channel, ChannelInput, DEFAULT_CHANNEL_INPUT, getChannelUrl, toChannelInput } from '../utils/channels';
+import { ChannelEditor } from './ChannelEditor';
+import { WebSocketConsole } from './WebSocketConsole';
+import { MessagesSquare, Plus, Edit2, Trash2, PlugZap, Globe, Lock } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ProjectChannelsProps {
+  projectId: string;
+}
+
+export const ProjectChannels: React.FC<ProjectChannelsProps> = ({ projectId }) => {
+  const { fetchChannels, addChannel, updateChannel, deleteChannel } = useChannels();
+  const [channels, setChannels] = useState<Channel[]>([]);
+  const [loading, setLoading] = useState(true);
+  // null while closed; 'new' for a channel not saved yet
+  const [editing, setEditing] = useState<Channel | 'new' | null>(null);
+  const [consoleChannel, setConsoleChannel] = useState<Channel | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const loadChannels = useCallback(async () => {
+    setChannels(await fetchChannels(projectId));
+    setLoading(false);
+  }, [projectId, fetchChannels]);
+
+  useEffect(() => {
+    loadChannels();
+  }, [loadChannels]);
+
+  const handleSave = async (input: ChannelInput) => {
+    const saved = editing === 'new'
+      ? await addChannel(projectId, input)
+      : editing ? await updateChannel(editing.id, input) : null;
+    if (!saved) return false;
+
+    toast.success(editing === 'new' ? 'Channel created' : 'Channel updated');
+    setEditing(null);
+    await loadChannels();
+    return true;
+  };
+
+  const handleDelete = async (id: string) => {
+    const success = await deleteChannel(id);
+    setConfirmDeleteId(null);
+    if (success) {
+      toast.success('Channel deleted');
+      await loadChannels();
+    } else {
+      toast.error('Failed to delete channel');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">WebSocket Channels</h2>
+          <p className="text-gray-600 dark:text-gray-400">
+            Mock real-time backends with scripted messages and rules that answer what clients send
+          </p>
+        </div>
+        <button
+          onClick={() => setEditing('new')}
+          className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>New Channel</span>
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading channels...</p>
+      ) : channels.length === 0 ? (
+        <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <MessagesSquare className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">No channels in this project yet</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {channels.map(channel => (
+            <div key={channel.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-5 space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <h3 className="font-semibold text-gray-900 dark:text-white font-mono">{channel.name}</h3>
+                    {channel.is_public ? (
+                      <span className="flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        <Globe className="w-3 h-3" />
+                        <span>Public</span>
+                      </span>
+                    ) : (
+                      <span className="flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                        <Lock className="w-3 h-3" />
+                        <span>Private</span>
+                      </span>
+                    )}
+                  </div>
+                  {channel.description && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{channel.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setConsoleChannel(channel)}
+                    className="text-green-600 hover:text-green-800"
+                    title="Open console"
+                  >
+                    <PlugZap className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setEditing(channel)}
+                    className="text-blue-600 hover:text-blue-800"
+                    title="Edit channel"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  {confirmDeleteId === channel.id ? (
+                    <>
+                      <button onClick={() => handleDelete(channel.id)} className="text-xs font-medium text-red-600 hover:text-red-800">
+                        Confirm
+                      </button>
+                      <button onClick={() => setConfirmDeleteId(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmDeleteId(channel.id)}
+                      className="text-red-600 hover:text-red-800"
+                      title="Delete channel"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <code className="block bg-gray-50 dark:bg-gray-900 px-2 py-1 rounded text-xs font-mono text-gray-700 dark:text-gray-300 break-all">
+                {getChannelUrl(channel.project_id, channel.name)}
+              </code>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {channel.script.length} scripted message{channel.script.length === 1 ? '' : 's'}
+                {channel.script_loop ? ' (looping)' : ''} · {channel.rules.length} rule{channel.rules.length === 1 ? '' : 's'}
+                {' '}· unmatched messages: {channel.fallback === 'none' ? 'ignored' : channel.fallback === 'echo' ? 'echoed' : 'broadcast'}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <ChannelEditor
+          input={editing === 'new' ? DEFAULT_CHANNEL_INPUT : toChannelInput(editing)}
+          takenNames={channels.filter(channel => editing === 'new' || channel.id !== editing.id).map(channel => channel.name)}
+          isNew={editing === 'new'}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {consoleChannel && (
+        <WebSocketConsole channel={consoleChannel} onClose={() => setConsoleChannel(null)} />
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,8 @@ import { Project } from '../hooks/useProjects';
 import { useApis } from '../hooks/useApis';
 import { useSchemas } from '../hooks/useSchemas';
 import { useJsonTemplates } from '../hooks/useJsonTemplates';
+import { ResponseRuleInput, useResponseRules } from '../hooks/useResponseRules';
+import { useUpstreamSecrets } from '../hooks/useUpstreamSecrets';
 import { useAuth } from '../hooks/useAuth';
 import { ApiCard } from './ApiCard';
 import { ApiForm } from './ApiForm';
@@ -13,12 +15,19 @@ import { AiSchemaEditor } from './AiSchemaEditor';
 import { AiJsonEditor } from './AiJsonEditor';
 import { DataManager } from './DataManager';
 import { AnalyticsDashboard } from './AnalyticsDashboard';
+import { ProjectApiKeys } from './ProjectApiKeys';
+import { ProjectAccessPolicy } from './ProjectAccessPolicy';
+import { ProjectGraphqlSettings } from './ProjectGraphqlSettings';
+import { ProjectChannels } from './ProjectChannels';
+import { ProjectWebhooks } from './ProjectWebhooks';
+import { RequestInspector } from './RequestInspector';
 import { DocumentationGenerator } from './DocumentationGenerator';
 import { TeamManagement } from './TeamManagement';
 import { ActivityFeed } from './ActivityFeed';
 import { CommentsSection } from './CommentsSection';
 import { ProfileMenu } from './ProfileMenu';
-import { Plus, ArrowLeft, Globe, FolderOpen, Database, Code, Edit2, Trash2, AlertTriangle, FileText, Sparkles, BarChart3, Book, Users, MessageCircle, Activity } from 'lucide-react';
+import { UpstreamHeaders } from '../utils/upstream';
+import { Plus, ArrowLeft, Globe, FolderOpen, Database, Code, Edit2, Trash2, AlertTriangle, FileText, Sparkles, BarChart3, Book, Users, MessageCircle, Activity, KeyRound, MessagesSquare, Webhook, Inbox } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 interface ProjectDetailViewProps {
@@ -31,9 +40,11 @@ export const ProjectDetailView: React.FC<ProjectDetailViewProps> = ({
   onBack,
 }) => {
   const { user, isSchemaMode } = useAuth();
-  const { addApi, updateApi, deleteApi, regenerateApiKey, getApisByProjectId } = useApis();
+  const { addApi, updateApi, deleteApi, regenerateApiKey, setCurrentVersion, getApisByProjectId } = useApis();
   const { addSchema, deleteSchema, getSchemasByProjectId } = useSchemas();
   const { addTemplate, updateTemplate, deleteTemplate, getTemplatesByProjectId } = useJsonTemplates();
+  const { saveRules } = useResponseRules();
+  const { saveUpstreamHeaders } = useUpstreamSecrets();
 
   const apis = getApisByProjectId(project.id);
   const schemas = getSchemasByProjectId(project.id);
@@ -52,7 +63,7 @@ export const ProjectDetailView: React.FC<ProjectDetailViewProps> = ({
   const [editingSchema, setEditingSchema] = useState<any>(null);
   const [testingApi, setTestingApi] = useState<any>(null);
   const [managingSchema, setManagingSchema] = useState<any>(null);
-  const [activeTab, setActiveTab] = useState<'apis' | 'schemas' | 'templates' | 'analytics' | 'activity'>('apis');
+  const [activeTab, setActiveTab] = useState<'apis' | 'schemas' | 'templates' | 'channels' | 'inspector' | 'webhooks' | 'keys' | 'analytics' | 'activity'>('apis');
   const [deletingSchemaId, setDeletingSchemaId] = useState<string | null>(null);
   const [deletingTemplateId, setDeletingTemplateId] = useState<string | null>(null);
   const [showComments, setShowComments] = useState(false);
@@ -91,26 +102,34 @@ export const ProjectDetailView: React.FC<ProjectDetailViewProps> = ({
     setShowApiForm(true);
   };
 
-  const handleSaveApi = async (apiData: any) => {
-    let success = false;
+  const handleSaveApi = async (apiData: any, rules: ResponseRuleInput[] | null, upstreamHeaders: UpstreamHeaders | null) => {
+    let endpointId: string | null = null;
     
     if (editingApi) {
-      success = await updateApi(editingApi.id, apiData);
+      const success = await updateApi(editingApi.id, apiData);
       if (success) {
-        toast.success('API updated successfully!');
+        endpointId = editingApi.id;
       }
     } else {
       const newApi = await addApi(apiData);
-      success = !!newApi;
-      if (success) {
-        toast.success('API created successfully!');
-      }
+      endpointId = newApi?.id || null;
     }
-    
-    if (success) {
-      setShowApiForm(false);
-      setEditingApi(null);
+
+    if (!endpointId) return;
+
+    if (rules && !(await saveRules(endpointId, rules))) {
+      toast.error('API saved, but its response rules could not be saved');
+      return;
+    }
+
+    if (upstreamHeaders && !(await saveUpstreamHeaders(endpointId, upstreamHeaders))) {
+      toast.error('API saved, but its upstream headers could not be saved');
+      return;
     }
+
+    toast.success(editingApi ? 'API updated successfully!' : 'API created successfully!');
+    setShowApiForm(false);
+    setEditingApi(null);
   };
 
   const handleSaveSchema = async (schemaData: any) => {
@@ -210,6 +229,26 @@ export const ProjectDetailView: React.FC<ProjectDetailViewProps> = ({
     setTestingApi(api);
   };
 
+  const handlePromoteRecording = async (name: string, jsonData: unknown) => {
+    const newTemplate = await addTemplate({
+      name,
+      description: 'Promoted from a recorded upstream response',
+      json_data: jsonData,
+      project_id: project.id,
+    });
+    return !!newTemplate;
+  };
+
+  const handleSaveCaptureAsTemplate = async (name: string, jsonData: unknown) => {
+    const newTemplate = await addTemplate({
+      name,
+      description: 'Saved from a request received by a webhook catcher',
+      json_data: jsonData,
+      project_id: project.id,
+    });
+    return !!newTemplate;
+  };
+
   const deletingSchema = schemas.find(s => s.id === deletingSchemaId);
   const deletingTemplate = templates.find(t => t.id === deletingTemplateId);
 
@@ -330,6 +369,61 @@ export const ProjectDetailView: React.FC<ProjectDetailViewProps> = ({
                 </div>
               </button>
             )}
+            {/* Webhooks report schema data changes, so they share the schemas tab's condition */}
+            {isSchemaMode() && (
+              <button
+                onClick={() => setActiveTab('webhooks')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                  activeTab === 'webhooks'
+                    ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600'
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  <Webhook className="w-4 h-4" />
+                  <span>Webhooks</span>
+                </div>
+              </button>
+            )}
+            <button
+              onClick={() => setActiveTab('channels')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'channels'
+                  ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600'
+              }`}
+            >
+              <div className="flex items-center space-x-2">
+                <MessagesSquare className="w-4 h-4" />
+                <span>Channels</span>
+              </div>
+            </button>
+            <button
+              onClick={() => setActiveTab('inspector')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'inspector'
+                  ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600'
+              }`}
+            >
+              <div className="flex items-center space-x-2">
+                <Inbox className="w-4 h-4" />
+                <span>Inspector</span>
+              </div>
+            </button>
+            <button
+              onClick={() => setActiveTab('keys')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'keys'
+                  ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600'
+              }`}
+            >
+              <div className="flex items-center space-x-2">
+                <KeyRound className="w-4 h-4" />
+                <span>Keys & Access</span>
+              </div>
+            </button>
             <button
               onClick={() => setActiveTab('analytics')}
               className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
@@ -413,6 +507,8 @@ export const ProjectDetailView: React.FC<ProjectDetailViewProps> = ({
                     onDelete={handleDeleteApi}
                     onTest={handleTest}
                     onRegenerateKey={handleRegenerateKey}
+                    onPromoteRecording={handlePromoteRecording}
+                    onSetCurrentVersion={setCurrentVersion}
                   />
                 ))}
               </div>
@@ -653,6 +749,18 @@ export const ProjectDetailView: React.FC<ProjectDetailViewProps> = ({
               </div>
             )}
           </>
+        ) : activeTab === 'webhooks' && isSchemaMode() ? (
+          <ProjectWebhooks projectId={project.id} schemas={schemas} />
+        ) : activeTab === 'channels' ? (
+          <ProjectChannels projectId={project.id} />
+        ) : activeTab === 'inspector' ? (
+          <RequestInspector projectId={project.id} apis={apis} onSaveAsTemplate={handleSaveCaptureAsTemplate} />
+        ) : activeTab === 'keys' ? (
+          <div className="space-y-10">
+            <ProjectApiKeys projectId={project.id} apis={apis} />
+            <ProjectAccessPolicy projectId={project.id} />
+            {isSchemaMode() && <ProjectGraphqlSettings projectId={project.id} schemaCount={schemas.length} />}
+          </div>
         ) : activeTab === 'analytics' ? (
           <AnalyticsDashboard projectId={project.id} />
         ) : activeTab === 'activity' ? (
@@ -754,6 +862,8 @@ export const ProjectDetailView: React.FC<ProjectDetailViewProps> = ({
       {showDocumentation && (
         <DocumentationGenerator
           apis={apis}
+          schemas={schemas}
+          projectId={project.id}
           projectName={project.name}
           onClose={() => setShowDocumentation(false)}
         />
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { useGraphqlConfig } from '../hooks/useGraphqlConfig';
+import { DEFAULT_GRAPHQL_CONFIG, GraphqlConfig, getGraphqlUrl } from '../utils/graphql';
+import { Braces, Copy, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ProjectGraphqlSettingsProps {
+  projectId: string;
+  schemaCount: number;
+}
+
+export const ProjectGraphqlSettings: React.FC<ProjectGraphqlSettingsProps> = ({ projectId, schemaCount }) => {
+  const { fetchGraphqlConfig, saveGraphqlConfig } = useGraphqlConfig();
+  const [config, setConfig] = useState<GraphqlConfig>(DEFAULT_GRAPHQL_CONFIG);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    fetchGraphqlConfig(projectId).then(loaded => {
+      if (!mounted) return;
+      setConfig(loaded || DEFAULT_GRAPHQL_CONFIG);
+      setLoading(false);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [projectId, fetchGraphqlConfig]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    const saved = await saveGraphqlConfig(projectId, config);
+    setSaving(false);
+    if (saved) {
+      toast.success('GraphQL settings saved');
+    } else {
+      toast.error('Failed to save GraphQL settings');
+    }
+  };
+
+  const handleCopyUrl = async () => {
+    await navigator.clipboard.writeText(getGraphqlUrl(projectId));
+    toast.success('GraphQL URL copied');
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-600 dark:text-gray-400">Loading GraphQL settings...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">GraphQL</h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Serve this project's schemas as one GraphQL API, with queries, mutations and introspection
+        </p>
+      </div>
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+        <label className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => setConfig({ ...config, enabled: e.target.checked })}
+            className="w-4 h-4 text-blue-600"
+          />
+          <Braces className="w-5 h-5 text-pink-600" />
+          <span className="text-sm font-medium text-gray-900 dark:text-white">Enable the GraphQL endpoint</span>
+        </label>
+
+        {config.enabled && (
+          <>
+            <div className="flex items-center space-x-2">
+              <code className="flex-1 px-3 py-2 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm text-gray-800 dark:text-gray-200 break-all">
+                {getGraphqlUrl(projectId)}
+              </code>
+              <button
+                onClick={handleCopyUrl}
+                className="p-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 transition-colors"
+                title="Copy URL"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+            </div>
+
+            <label className="flex items-start space-x-3">
+              <input
+                type="checkbox"
+                checked={config.is_public}
+                onChange={(e) => setConfig({ ...config, is_public: e.target.checked })}
+                className="w-4 h-4 mt-0.5 text-blue-600"
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300">
+                <strong>Public</strong>: anyone with the URL can query the data. Changing it always takes an{' '}
+                <code>x-api-key</code> project key granting all endpoints with the write scope. When off, queries
+                need such a key too, with its read scope.
+              </span>
+            </label>
+
+            {schemaCount === 0 && (
+              <p className="text-sm text-amber-600 dark:text-amber-400">
+                Add a schema first; the endpoint answers 404 until the project has one.
+              </p>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              The project's access policy applies to GraphQL requests too. Download the SDL from the documentation.
+            </p>
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            <span>{saving ? 'Saving...' : 'Save GraphQL Settings'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,519 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ApiSchema } from '../hooks/useSchemas';
+import { useWebhooks } from '../hooks/useWebhooks';
+import {
+  DEFAULT_WEBHOOK_INPUT,
+  DELIVERY_STATUS_STYLES,
+  SIGNATURE_VERIFICATION_SAMPLE,
+  WEBHOOK_EVENTS,
+  Webhook,
+  WebhookDelivery,
+  WebhookInput,
+  describeDelivery,
+  toWebhookInput,
+  validateWebhook,
+} from '../utils/webhooks';
+import { Webhook as WebhookIcon, Plus, Edit2, Trash2, Send, History, RotateCcw, Copy, Eye, EyeOff, ChevronDown, ChevronRight, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ProjectWebhooksProps {
+  projectId: string;
+  schemas: ApiSchema[];
+}
+
+// How often an open delivery log sends due retries and refreshes
+const LOG_REFRESH_MS = 10000;
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(existing => existing !== value) : [...values, value];
+
+const formatBody = (body: string | null) => {
+  if (!body) return '(empty)';
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+interface WebhookFieldsProps {
+  draft: WebhookInput;
+  schemas: ApiSchema[];
+  onChange: (draft: WebhookInput) => void;
+}
+
+const inputClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const WebhookFields: React.FC<WebhookFieldsProps> = ({ draft, schemas, onChange }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+      <input
+        type="text"
+        value={draft.name}
+        onChange={(e) => onChange({ ...draft, name: e.target.value })}
+        placeholder="e.g. Order sync"
+        className={inputClass}
+      />
+      <input
+        type="url"
+        value={draft.url}
+        onChange={(e) => onChange({ ...draft, url: e.target.value })}
+        placeholder="https://example.com/hooks/api-hero"
+        className={`md:col-span-2 font-mono ${inputClass}`}
+      />
+    </div>
+    <div className="flex flex-wrap gap-4">
+      {WEBHOOK_EVENTS.map(event => (
+        <label key={event.value} className="flex items-center space-x-2 text-xs text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={draft.events.includes(event.value)}
+            onChange={() => onChange({ ...draft, events: toggle(draft.events, event.value) })}
+            className="w-4 h-4 text-blue-600"
+          />
+          <span><strong>{event.label}</strong>: {event.description}</span>
+        </label>
+      ))}
+    </div>
+    <div>
+      <label className="flex items-center space-x-2 text-xs text-gray-700 dark:text-gray-300 mb-2">
+        <input
+          type="checkbox"
+          checked={draft.schema_ids === null}
+          onChange={(e) => onChange({ ...draft, schema_ids: e.target.checked ? null : [] })}
+          className="w-4 h-4 text-blue-600"
+        />
+        <span>All schemas in this project, including ones added later</span>
+      </label>
+      {draft.schema_ids !== null && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 pl-6">
+          {schemas.map(schema => (
+            <label key={schema.id} className="flex items-center space-x-2 text-xs text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={draft.schema_ids?.includes(schema.id) || false}
+                onChange={() => onChange({ ...draft, schema_ids: toggle(draft.schema_ids || [], schema.id) })}
+                className="w-4 h-4 text-blue-600"
+              />
+              <span>{schema.name}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+    <label className="flex items-center space-x-2 text-xs text-gray-700 dark:text-gray-300">
+      <input
+        type="checkbox"
+        checked={draft.enabled}
+        onChange={(e) => onChange({ ...draft, enabled: e.target.checked })}
+        className="w-4 h-4 text-blue-600"
+      />
+      <span>Enabled: send changes to this URL. Disabled webhooks queue nothing and hold their retries.</span>
+    </label>
+  </div>
+);
+
+interface DeliveryLogProps {
+  projectId: string;
+  webhook: Webhook;
+}
+
+const DeliveryLog: React.FC<DeliveryLogProps> = ({ projectId, webhook }) => {
+  const { fetchDeliveries, redeliver, deliverPending } = useWebhooks();
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    setDeliveries(await fetchDeliveries(webhook.id));
+    setLoading(false);
+  }, [webhook.id, fetchDeliveries]);
+
+  // Retries are sent when something asks for them, so an open log keeps them moving
+  useEffect(() => {
+    loadDeliveries();
+    const timer = setInterval(async () => {
+      await deliverPending(projectId);
+      await loadDeliveries();
+    }, LOG_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [projectId, loadDeliveries, deliverPending]);
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery.id);
+    const result = await redeliver(delivery.id);
+    setRedeliveringId(null);
+    if (!result) {
+      toast.error('Failed to redeliver');
+      return;
+    }
+    if (result.status === 'succeeded') {
+      toast.success(`Redelivered: ${result.response_status}`);
+    } else {
+      toast.error(`Redelivery failed: ${result.error}`);
+    }
+    setExpandedId(result.id);
+    await loadDeliveries();
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading deliveries...</p>;
+  }
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No deliveries yet. Change a row of a schema or send a test.</p>;
+  }
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+      {deliveries.map(delivery => (
+        <div key={delivery.id}>
+          <div className="flex items-center space-x-3 px-3 py-2 text-sm">
+            <button
+              onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+              className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+            >
+              {expandedId === delivery.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            </button>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${DELIVERY_STATUS_STYLES[delivery.status]}`}>
+              {delivery.status}
+            </span>
+            <code className="text-xs text-gray-900 dark:text-white">{delivery.event}</code>
+            {delivery.response_status !== null && (
+              <span className={`font-mono text-xs ${delivery.response_status < 300 ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}`}>
+                {delivery.response_status}
+              </span>
+            )}
+            {delivery.duration_ms !== null && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">{delivery.duration_ms}ms</span>
+            )}
+            {delivery.redelivery_of && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">redelivery</span>
+            )}
+            <span className="flex-1 text-xs text-gray-500 dark:text-gray-400 truncate">{describeDelivery(delivery)}</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{new Date(delivery.created_at).toLocaleString()}</span>
+            <button
+              onClick={() => handleRedeliver(delivery)}
+              disabled={redeliveringId !== null}
+              className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              title="Redeliver"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          </div>
+          {expandedId === delivery.id && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 px-3 pb-3">
+              <div>
+                <h5 className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">Payload</h5>
+                <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded p-2 overflow-x-auto max-h-64">
+                  {JSON.stringify(delivery.payload, null, 2)}
+                </pre>
+              </div>
+              <div>
+                <h5 className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+                  Response{delivery.response_status !== null ? ` ${delivery.response_status}` : ''}
+                </h5>
+                {delivery.error && (
+                  <p className="text-xs text-red-600 dark:text-red-400 mb-1">{delivery.error}</p>
+                )}
+                <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded p-2 overflow-x-auto max-h-64 whitespace-pre-wrap">
+                  {delivery.response_status !== null ? formatBody(delivery.response_body) : '(no response)'}
+                </pre>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const ProjectWebhooks: React.FC<ProjectWebhooksProps> = ({ projectId, schemas }) => {
+  const { fetchWebhooks, addWebhook, updateWebhook, deleteWebhook, testWebhook } = useWebhooks();
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreate, setShowCreate] = useState(false);
+  const [draft, setDraft] = useState<WebhookInput>(DEFAULT_WEBHOOK_INPUT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<WebhookInput>(DEFAULT_WEBHOOK_INPUT);
+  const [logWebhookId, setLogWebhookId] = useState<string | null>(null);
+  const [logVersion, setLogVersion] = useState(0);
+  const [shownSecretId, setShownSecretId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadWebhooks = useCallback(async () => {
+    setWebhooks(await fetchWebhooks(projectId));
+    setLoading(false);
+  }, [projectId, fetchWebhooks]);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const schemaName = (id: string) => schemas.find(schema => schema.id === id)?.name || 'Deleted schema';
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = { ...draft, name: draft.name.trim(), url: draft.url.trim() };
+    const problem = validateWebhook(input);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setSaving(true);
+    const created = await addWebhook(projectId, input);
+    setSaving(false);
+
+    if (!created) {
+      toast.error('Failed to create webhook');
+      return;
+    }
+    toast.success('Webhook created');
+    setDraft(DEFAULT_WEBHOOK_INPUT);
+    setShowCreate(false);
+    await loadWebhooks();
+  };
+
+  const handleSaveEdit = async (webhook: Webhook) => {
+    const input = { ...editDraft, name: editDraft.name.trim(), url: editDraft.url.trim() };
+    const problem = validateWebhook(input);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    const updated = await updateWebhook(webhook.id, input);
+    if (updated) {
+      toast.success('Webhook updated');
+      setEditingId(null);
+      await loadWebhooks();
+    } else {
+      toast.error('Failed to update webhook');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const success = await deleteWebhook(id);
+    setConfirmDeleteId(null);
+    if (success) {
+      toast.success('Webhook deleted');
+      await loadWebhooks();
+    } else {
+      toast.error('Failed to delete webhook');
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    setTestingId(webhook.id);
+    const delivery = await testWebhook(webhook.id);
+    setTestingId(null);
+    if (!delivery) {
+      toast.error('Failed to send test delivery');
+      return;
+    }
+    if (delivery.status === 'succeeded') {
+      toast.success(`Test delivered: ${delivery.response_status}`);
+    } else {
+      toast.error(`Test failed: ${delivery.error}`);
+    }
+    // Show the log, reloaded so it includes the new delivery
+    setLogWebhookId(webhook.id);
+    setLogVersion(version => version + 1);
+  };
+
+  const handleCopySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast.success('Signing secret copied');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Webhooks</h2>
+          <p className="text-gray-600 dark:text-gray-400">
+            Signed POSTs to your URLs whenever schema data is created, updated or deleted
+          </p>
+        </div>
+        <button
+          onClick={() => setShowCreate(!showCreate)}
+          className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>New Webhook</span>
+        </button>
+      </div>
+
+      {showCreate && (
+        <form onSubmit={handleCreate} className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+          <WebhookFields draft={draft} schemas={schemas} onChange={setDraft} />
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-1 bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+            >
+              <WebhookIcon className="w-4 h-4" />
+              <span>Create Webhook</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowCreate(false)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading webhooks...</p>
+      ) : webhooks.length === 0 ? (
+        <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <WebhookIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">No webhooks in this project yet</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {webhooks.map(webhook => (
+            <div key={webhook.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-5 space-y-3">
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <h3 className="font-semibold text-gray-900 dark:text-white">{webhook.name}</h3>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                      webhook.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                    }`}>
+                      {webhook.enabled ? 'Enabled' : 'Disabled'}
+                    </span>
+                  </div>
+                  <code className="text-xs text-gray-600 dark:text-gray-400 break-all">{webhook.url}</code>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {webhook.events.join(', ')} · {webhook.schema_ids ? webhook.schema_ids.map(schemaName).join(', ') : 'All schemas'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  <button
+                    onClick={() => handleTest(webhook)}
+                    disabled={testingId !== null}
+                    className="flex items-center space-x-1 text-sm text-green-600 hover:text-green-800 disabled:opacity-50"
+                    title="Send a signed test delivery"
+                  >
+                    <Send className="w-4 h-4" />
+                    <span>{testingId === webhook.id ? 'Sending...' : 'Test'}</span>
+                  </button>
+                  <button
+                    onClick={() => setLogWebhookId(logWebhookId === webhook.id ? null : webhook.id)}
+                    className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                    title="Delivery log"
+                  >
+                    <History className="w-4 h-4" />
+                    <span>Deliveries</span>
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditingId(webhook.id);
+                      setEditDraft(toWebhookInput(webhook));
+                    }}
+                    className="text-blue-600 hover:text-blue-800"
+                    title="Edit webhook"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  {confirmDeleteId === webhook.id ? (
+                    <>
+                      <button onClick={() => handleDelete(webhook.id)} className="text-xs font-medium text-red-600 hover:text-red-800">
+                        Confirm
+                      </button>
+                      <button onClick={() => setConfirmDeleteId(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmDeleteId(webhook.id)}
+                      className="text-red-600 hover:text-red-800"
+                      title="Delete webhook"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2 text-xs">
+                <span className="text-gray-600 dark:text-gray-400">Signing secret:</span>
+                <code className="bg-gray-50 dark:bg-gray-900 px-2 py-1 rounded font-mono text-gray-700 dark:text-gray-300">
+                  {shownSecretId === webhook.id ? webhook.secret : '•'.repeat(24)}
+                </code>
+                <button
+                  onClick={() => setShownSecretId(shownSecretId === webhook.id ? null : webhook.id)}
+                  className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  title={shownSecretId === webhook.id ? 'Hide secret' : 'Show secret'}
+                >
+                  {shownSecretId === webhook.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => handleCopySecret(webhook.secret)}
+                  className="text-gray-500 hover:text-blue-600"
+                  title="Copy secret"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+
+              {editingId === webhook.id && (
+                <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 space-y-3">
+                  <WebhookFields draft={editDraft} schemas={schemas} onChange={setEditDraft} />
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleSaveEdit(webhook)}
+                      className="flex items-center space-x-1 bg-blue-600 text-white px-3 py-1 rounded-lg hover:bg-blue-700 transition-colors text-xs"
+                    >
+                      <Save className="w-3 h-3" />
+                      <span>Save</span>
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="px-3 py-1 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors text-xs"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {logWebhookId === webhook.id && <DeliveryLog key={logVersion} projectId={projectId} webhook={webhook} />}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <details className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 text-sm text-gray-700 dark:text-gray-300">
+        <summary className="cursor-pointer font-medium text-gray-900 dark:text-white">Verifying and receiving deliveries</summary>
+        <div className="mt-3 space-y-3">
+          <p>
+            Each delivery is a JSON POST with <code>X-Webhook-Event</code>, <code>X-Webhook-Delivery</code>,
+            {' '}<code>X-Webhook-Timestamp</code> and <code>X-Webhook-Signature</code> headers. The payload's
+            {' '}<code>id</code> stays the same when a delivery is retried or redelivered, so receivers can skip duplicates.
+            Failed deliveries are retried after 10 seconds, doubling each time, for up to 5 attempts. A scheduled job
+            sends due retries every minute, so they go out while this page is closed too.
+          </p>
+          <pre className="text-xs bg-gray-50 dark:bg-gray-900 rounded p-3 overflow-x-auto">{SIGNATURE_VERIFICATION_SAMPLE}</pre>
+          <p>
+            To try deliveries locally, run the stand-in receiver, which prints each delivery and checks its signature, and
+            point a webhook at <code>http://host.docker.internal:8787</code>. Loopback, link-local and private addresses
+            are refused unless the functions run with <code>ALLOW_PRIVATE_TARGETS=true</code>:
+          </p>
+          <pre className="text-xs bg-gray-50 dark:bg-gray-900 rounded p-3 overflow-x-auto">
+            WEBHOOK_SECRET=&lt;secret&gt; deno run --allow-net --allow-env supabase/functions/webhooks/receiver.ts
+          </pre>
+        </div>
+      </details>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { RATE_LIMIT_WINDOWS, RateLimitConfig, RateLimitWindows, describeRateLimits } from '../utils/rateLimits';
+import { Gauge } from 'lucide-react';
+
+interface RateLimitEditorProps {
+  config: RateLimitConfig | null;
+  onChange: (config: RateLimitConfig | null) => void;
+}
+
+const SCOPES: { id: keyof RateLimitConfig; label: string; description: string }[] = [
+  { id: 'endpoint', label: 'Whole endpoint', description: 'Shared by every client' },
+  { id: 'per_key', label: 'Each API key', description: 'Counted per managed API key or JWT subject, otherwise per client IP' },
+];
+
+export const RateLimitEditor: React.FC<RateLimitEditorProps> = ({ config, onChange }) => {
+  const summary = describeRateLimits(config);
+
+  const updateWindow = (scope: keyof RateLimitConfig, field: keyof RateLimitWindows, value: string) => {
+    const limit = parseInt(value, 10);
+    const windows = { ...config?.[scope], [field]: limit > 0 ? limit : null };
+    const next = { ...config, [scope]: windows };
+    // Store null when nothing is limited so the proxy can skip counting entirely
+    onChange(describeRateLimits(next).length > 0 ? next : null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Gauge className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white">Rate Limits</h3>
+      </div>
+
+      <div className="space-y-3">
+        {SCOPES.map(scope => (
+          <div key={scope.id} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div>
+              <p className="text-sm font-medium text-gray-900 dark:text-white">{scope.label}</p>
+              <p className="text-xs text-gray-600 dark:text-gray-400">{scope.description}</p>
+            </div>
+            {RATE_LIMIT_WINDOWS.map(window => (
+              <div key={window.field}>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">{window.label}</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={config?.[scope.id]?.[window.field] ?? ''}
+                  onChange={(e) => updateWindow(scope.id, window.field, e.target.value)}
+                  placeholder="Unlimited"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        {summary.length > 0 ? `Limited to ${summary.join('; ')}. ` : 'No limits. '}
+        Requests over a limit get <code>429 Too Many Requests</code> with <code>Retry-After</code>; every limited response carries
+        {' '}<code>X-RateLimit-Limit</code>, <code>X-RateLimit-Remaining</code> and <code>X-RateLimit-Reset</code>.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { ApiEndpoint } from '../hooks/useApis';
+import { useRecordings } from '../hooks/useRecordings';
+import { Recording, describeRecording, parseRecordedJson } from '../utils/upstream';
+import { X, Radio, FileText, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface RecordingsViewerProps {
+  api: ApiEndpoint;
+  // Creates a JSON template in the endpoint's project; resolves to whether it was created
+  onPromote: (name: string, jsonData: unknown) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const getStatusColor = (status: number) => {
+  if (status >= 200 && status < 300) return 'text-green-600';
+  if (status >= 400 && status < 500) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const formatBody = (body: string | null) => {
+  if (!body) return '(empty)';
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+const formatHeaders = (headers: Record<string, string>) =>
+  Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n') || '(none)';
+
+export const RecordingsViewer: React.FC<RecordingsViewerProps> = ({ api, onPromote, onClose }) => {
+  const { fetchRecordings, deleteRecording, clearRecordings } = useRecordings();
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRecordings(api.id).then(loaded => {
+      if (!cancelled) {
+        setRecordings(loaded);
+        setLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [api.id, fetchRecordings]);
+
+  const handlePromote = async (recording: Recording) => {
+    const parsed = parseRecordedJson(recording);
+    if (!parsed.ok) {
+      toast.error('Only JSON responses can become templates');
+      return;
+    }
+
+    setPromotingId(recording.id);
+    const created = await onPromote(`${api.name} ${describeRecording(recording)}`, parsed.data);
+    setPromotingId(null);
+    if (created) {
+      toast.success('Recording saved as a JSON template');
+    } else {
+      toast.error('Failed to create template');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (await deleteRecording(id)) {
+      setRecordings(prev => prev.filter(recording => recording.id !== id));
+    } else {
+      toast.error('Failed to delete recording');
+    }
+  };
+
+  const handleClear = async () => {
+    setConfirmClear(false);
+    if (await clearRecordings(api.id)) {
+      setRecordings([]);
+      toast.success('Recordings cleared');
+    } else {
+      toast.error('Failed to clear recordings');
+    }
+  };
+
+  const mode = api.upstream_config?.mode === 'replay' ? 'Replaying' : 'Recording';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <Radio className="w-6 h-6 text-teal-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Recordings</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {mode} <code>{api.upstream_config?.url}</code> for <code>{api.route}</code>
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 overflow-y-auto">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white">Exchanges ({recordings.length})</h4>
+            {recordings.length > 0 && (
+              confirmClear ? (
+                <div className="flex items-center space-x-3 text-xs">
+                  <span className="text-gray-600 dark:text-gray-400">Replay will have nothing to serve.</span>
+                  <button onClick={handleClear} className="font-medium text-red-600 hover:text-red-800">Clear all</button>
+                  <button onClick={() => setConfirmClear(false)} className="text-gray-500 hover:text-gray-700">Cancel</button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setConfirmClear(true)}
+                  className="flex items-center space-x-1 text-xs text-red-600 hover:text-red-800"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  <span>Clear all</span>
+                </button>
+              )
+            )}
+          </div>
+
+          {loading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading recordings...</p>
+          ) : recordings.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Nothing recorded yet. With the endpoint in record mode, send requests to <code>{api.route}</code> and each
+              exchange will appear here. Sending the same request again replaces its recording.
+            </p>
+          ) : (
+            recordings.map(recording => {
+              const expanded = expandedId === recording.id;
+              return (
+                <div key={recording.id} className="border border-gray-200 dark:border-gray-700 rounded-lg">
+                  <div className="flex items-center justify-between p-3">
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : recording.id)}
+                      className="flex items-center space-x-2 text-left min-w-0"
+                    >
+                      {expanded ? <ChevronDown className="w-4 h-4 text-gray-500" /> : <ChevronRight className="w-4 h-4 text-gray-500" />}
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
+                        {recording.method}
+                      </span>
+                      <code className="text-xs text-gray-800 dark:text-gray-200 truncate">
+                        {recording.path}{recording.query ? `?${recording.query}` : ''}
+                      </code>
+                      <span className={`text-xs font-mono font-semibold ${getStatusColor(recording.response_status)}`}>
+                        {recording.response_status}
+                      </span>
+                      {recording.duration_ms !== null && (
+                        <span className="text-xs text-gray-500 dark:text-gray-400">{recording.duration_ms}ms</span>
+                      )}
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {new Date(recording.created_at).toLocaleString()}
+                      </span>
+                    </button>
+                    <div className="flex items-center space-x-3 flex-shrink-0">
+                      <button
+                        onClick={() => handlePromote(recording)}
+                        disabled={promotingId === recording.id}
+                        className="flex items-center space-x-1 text-xs text-green-600 hover:text-green-800 disabled:opacity-50"
+                        title="Create a JSON template from this response body"
+                      >
+                        <FileText className="w-3 h-3" />
+                        <span>Promote to template</span>
+                      </button>
+                      <button
+                        onClick={() => handleDelete(recording.id)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Delete recording"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {expanded && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 px-3 pb-3">
+                      <div className="space-y-2">
+                        <h5 className="text-xs font-medium text-gray-700 dark:text-gray-300">Request</h5>
+                        <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded p-2 overflow-x-auto">
+                          {formatHeaders(recording.request_headers)}
+                        </pre>
+                        {recording.request_body && (
+                          <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded p-2 overflow-x-auto max-h-60">
+                            {formatBody(recording.request_body)}
+                          </pre>
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <h5 className="text-xs font-medium text-gray-700 dark:text-gray-300">Response</h5>
+                        <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded p-2 overflow-x-auto">
+                          {formatHeaders(recording.response_headers)}
+                        </pre>
+                        <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded p-2 overflow-x-auto max-h-60">
+                          {formatBody(recording.response_body)}
+                        </pre>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,353 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ApiEndpoint } from '../hooks/useApis';
+import { useCaptures } from '../hooks/useCaptures';
+import { Capture, ReplayResult, describeCapture, formatBytes, formatQuery, parseCapturedJson, validateReplayUrl } from '../utils/captures';
+import { Inbox, Radio, Trash2, FileText, Send, Copy, Check } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface RequestInspectorProps {
+  projectId: string;
+  apis: ApiEndpoint[];
+  // Creates a JSON template in the project; resolves to whether it was created
+  onSaveAsTemplate: (name: string, jsonData: unknown) => Promise<boolean>;
+}
+
+// Newest captures kept in the list as more arrive
+const MAX_SHOWN_CAPTURES = 200;
+
+const getStatusColor = (status: number) => {
+  if (status >= 200 && status < 300) return 'text-green-600';
+  if (status >= 400 && status < 500) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const formatBody = (capture: Capture) => {
+  if (capture.body === null) {
+    return capture.body_size > 0 ? `(${formatBytes(capture.body_size)}, too large to keep)` : '(empty)';
+  }
+  if (capture.body_encoding === 'base64') return `(binary, base64)\n${capture.body}`;
+  const parsed = parseCapturedJson(capture);
+  return parsed.ok ? JSON.stringify(parsed.data, null, 2) : capture.body;
+};
+
+const formatHeaders = (headers: Record<string, string>) =>
+  Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n') || '(none)';
+
+const getCatcherUrl = (api: ApiEndpoint) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/api-proxy${api.route.startsWith('/') ? api.route : `/${api.route}`}`;
+
+export const RequestInspector: React.FC<RequestInspectorProps> = ({ projectId, apis, onSaveAsTemplate }) => {
+  const { fetchCaptures, subscribeToCaptures, deleteCapture, clearCaptures, replayCapture } = useCaptures();
+  const [captures, setCaptures] = useState<Capture[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [endpointFilter, setEndpointFilter] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [replayUrl, setReplayUrl] = useState('');
+  const [replaying, setReplaying] = useState(false);
+  const [replayResult, setReplayResult] = useState<ReplayResult | null>(null);
+  const [copiedUrl, setCopiedUrl] = useState<string | null>(null);
+
+  const catchers = apis.filter(api => api.data_type === 'catcher');
+  const endpointNames = new Map(apis.map(api => [api.id, api.name]));
+
+  const loadCaptures = useCallback(async () => {
+    setCaptures(await fetchCaptures(projectId));
+    setLoading(false);
+  }, [projectId, fetchCaptures]);
+
+  useEffect(() => {
+    loadCaptures();
+  }, [loadCaptures]);
+
+  // New captures arrive through Realtime while the inspector is open
+  useEffect(() => subscribeToCaptures(projectId, (capture) => {
+    setCaptures(prev => prev.some(existing => existing.id === capture.id)
+      ? prev
+      : [capture, ...prev].slice(0, MAX_SHOWN_CAPTURES));
+  }), [projectId, subscribeToCaptures]);
+
+  const shown = endpointFilter ? captures.filter(capture => capture.endpoint_id === endpointFilter) : captures;
+  const selected = shown.find(capture => capture.id === selectedId) ?? null;
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setReplayResult(null);
+  };
+
+  const handleCopyUrl = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    setCopiedUrl(url);
+    setTimeout(() => setCopiedUrl(null), 2000);
+  };
+
+  const handleSaveAsTemplate = async (capture: Capture) => {
+    const parsed = parseCapturedJson(capture);
+    if (!parsed.ok) {
+      toast.error('Only JSON bodies can become templates');
+      return;
+    }
+
+    setSaving(true);
+    const name = `${endpointNames.get(capture.endpoint_id) ?? 'Capture'} ${describeCapture(capture)}`;
+    const created = await onSaveAsTemplate(name, parsed.data);
+    setSaving(false);
+    if (created) {
+      toast.success('Request body saved as a JSON template');
+    } else {
+      toast.error('Failed to create template');
+    }
+  };
+
+  const handleReplay = async (capture: Capture) => {
+    const urlError = validateReplayUrl(replayUrl);
+    if (urlError) {
+      toast.error(urlError);
+      return;
+    }
+
+    setReplaying(true);
+    setReplayResult(null);
+    const result = await replayCapture(capture.id, replayUrl.trim());
+    setReplaying(false);
+    if (result) {
+      setReplayResult(result);
+    } else {
+      toast.error('Failed to replay request');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (await deleteCapture(id)) {
+      setCaptures(prev => prev.filter(capture => capture.id !== id));
+      if (selectedId === id) setSelectedId(null);
+    } else {
+      toast.error('Failed to delete capture');
+    }
+  };
+
+  const handleClear = async () => {
+    setConfirmClear(false);
+    if (await clearCaptures(projectId, endpointFilter || undefined)) {
+      setCaptures(prev => endpointFilter ? prev.filter(capture => capture.endpoint_id !== endpointFilter) : []);
+      setSelectedId(null);
+      toast.success('Captures cleared');
+    } else {
+      toast.error('Failed to clear captures');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Request Inspector</h2>
+          <p className="text-gray-600 dark:text-gray-400">
+            Requests received by webhook catcher endpoints, shown as they arrive
+          </p>
+        </div>
+        <span className="flex items-center space-x-1 text-xs font-medium text-green-700 dark:text-green-400">
+          <Radio className="w-4 h-4" />
+          <span>Live</span>
+        </span>
+      </div>
+
+      {catchers.length === 0 ? (
+        <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <Inbox className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">
+            No catcher endpoints yet. Create an endpoint with the Webhook Catcher data type and point a webhook sender at it.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-2">
+            {catchers.map(api => (
+              <div key={api.id} className="flex items-center justify-between space-x-3">
+                <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{api.name}</span>
+                <div className="flex items-center space-x-2 min-w-0">
+                  <code className="text-xs text-gray-600 dark:text-gray-400 truncate">{getCatcherUrl(api)}</code>
+                  <button
+                    onClick={() => handleCopyUrl(getCatcherUrl(api))}
+                    className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 flex-shrink-0"
+                    title="Copy URL"
+                  >
+                    {copiedUrl === getCatcherUrl(api) ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <select
+              value={endpointFilter}
+              onChange={(e) => setEndpointFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All catchers</option>
+              {catchers.map(api => (
+                <option key={api.id} value={api.id}>{api.name}</option>
+              ))}
+            </select>
+            {shown.length > 0 && (
+              confirmClear ? (
+                <div className="flex items-center space-x-3 text-xs">
+                  <span className="text-gray-600 dark:text-gray-400">Delete {shown.length === 1 ? 'this capture' : 'these captures'}?</span>
+                  <button onClick={handleClear} className="font-medium text-red-600 hover:text-red-800">Clear all</button>
+                  <button onClick={() => setConfirmClear(false)} className="text-gray-500 hover:text-gray-700">Cancel</button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setConfirmClear(true)}
+                  className="flex items-center space-x-1 text-xs text-red-600 hover:text-red-800"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  <span>Clear all</span>
+                </button>
+              )
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+            {/* Capture list */}
+            <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700 max-h-[70vh] overflow-y-auto">
+              {loading ? (
+                <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Loading captures...</p>
+              ) : shown.length === 0 ? (
+                <p className="p-4 text-sm text-gray-500 dark:text-gray-400">
+                  Waiting for requests. Anything sent to a catcher URL above appears here straight away.
+                </p>
+              ) : (
+                shown.map(capture => (
+                  <button
+                    key={capture.id}
+                    onClick={() => handleSelect(capture.id)}
+                    className={`w-full text-left p-3 space-y-1 ${
+                      capture.id === selectedId ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
+                        {capture.method}
+                      </span>
+                      <code className="text-xs text-gray-800 dark:text-gray-200 truncate">{capture.path}</code>
+                    </div>
+                    <div className="flex items-center space-x-3 text-xs text-gray-500 dark:text-gray-400">
+                      <span>{new Date(capture.created_at).toLocaleTimeString()}</span>
+                      <span>{endpointNames.get(capture.endpoint_id) ?? 'Deleted endpoint'}</span>
+                      <span>{formatBytes(capture.body_size)}</span>
+                    </div>
+                  </button>
+                ))
+              )}
+            </div>
+
+            {/* Capture detail */}
+            <div className="lg:col-span-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+              {!selected ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Select a request to inspect it.</p>
+              ) : (
+                <div className="space-y-4">
+                  <div className="flex items-start justify-between space-x-3">
+                    <div className="min-w-0">
+                      <code className="block text-sm font-medium text-gray-900 dark:text-white break-all">{describeCapture(selected)}</code>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {new Date(selected.created_at).toLocaleString()} from {selected.ip ?? 'an unknown address'} - answered{' '}
+                        <span className={`font-mono font-semibold ${getStatusColor(selected.response_status)}`}>{selected.response_status}</span>
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-3 flex-shrink-0">
+                      <button
+                        onClick={() => handleSaveAsTemplate(selected)}
+                        disabled={saving}
+                        className="flex items-center space-x-1 text-xs text-green-600 hover:text-green-800 disabled:opacity-50"
+                        title="Create a JSON template from this request body"
+                      >
+                        <FileText className="w-3 h-3" />
+                        <span>Save as template</span>
+                      </button>
+                      <button
+                        onClick={() => handleDelete(selected.id)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Delete capture"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <h5 className="text-xs font-medium text-gray-700 dark:text-gray-300">Headers</h5>
+                    <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded p-2 overflow-x-auto max-h-48">
+                      {formatHeaders(selected.headers)}
+                    </pre>
+                  </div>
+
+                  {formatQuery(selected.query) && (
+                    <div className="space-y-2">
+                      <h5 className="text-xs font-medium text-gray-700 dark:text-gray-300">Query</h5>
+                      <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded p-2 overflow-x-auto">
+                        {JSON.stringify(selected.query, null, 2)}
+                      </pre>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <h5 className="text-xs font-medium text-gray-700 dark:text-gray-300">Body ({formatBytes(selected.body_size)})</h5>
+                    <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded p-2 overflow-x-auto max-h-72">
+                      {formatBody(selected)}
+                    </pre>
+                  </div>
+
+                  <div className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-2">
+                    <h5 className="text-xs font-medium text-gray-700 dark:text-gray-300">Replay</h5>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="url"
+                        value={replayUrl}
+                        onChange={(e) => setReplayUrl(e.target.value)}
+                        placeholder="https://example.com/hooks"
+                        className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-mono bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <button
+                        onClick={() => handleReplay(selected)}
+                        disabled={replaying || !replayUrl.trim()}
+                        className="flex items-center space-x-1 bg-blue-600 text-white px-3 py-2 rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                      >
+                        <Send className="w-4 h-4" />
+                        <span>{replaying ? 'Sending...' : 'Replay'}</span>
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Sends the same method, headers, query and body from the server, so the target needs to be reachable from the internet.
+                      Loopback, link-local and private addresses are refused unless the functions run with <code>ALLOW_PRIVATE_TARGETS=true</code>.
+                    </p>
+                    {replayResult && (
+                      <div className="space-y-1">
+                        <p className="text-xs text-gray-600 dark:text-gray-400">
+                          {replayResult.status !== null ? (
+                            <span className={`font-mono font-semibold ${getStatusColor(replayResult.status)}`}>{replayResult.status}</span>
+                          ) : (
+                            <span className="text-red-600">{replayResult.error}</span>
+                          )}
+                          {' '}in {replayResult.duration_ms}ms from <code className="break-all">{replayResult.url}</code>
+                        </p>
+                        {replayResult.body && (
+                          <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded p-2 overflow-x-auto max-h-48">
+                            {replayResult.body}
+                          </pre>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
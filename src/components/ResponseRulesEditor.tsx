@@ -0,0 +1,340 @@
+import React, { useState } from 'react';
+import { ResponseRuleInput, RuleCondition, RuleConditionOperator, RuleConditionSource, createEmptyRule } from '../hooks/useResponseRules';
+import { JsonTemplate } from '../hooks/useJsonTemplates';
+import { validateJson } from '../utils/jsonValidator';
+import { formatHeaders, parseHeaders } from '../utils/responseSettings';
+import { Plus, Trash2, ChevronUp, ChevronDown, GitBranch, X } from 'lucide-react';
+
+interface ResponseRulesEditorProps {
+  rules: ResponseRuleInput[];
+  onChange: (rules: ResponseRuleInput[]) => void;
+  templates: JsonTemplate[];
+  routeParamNames: string[];
+}
+
+const SOURCE_OPTIONS: { value: RuleConditionSource; label: string; keyPlaceholder: string }[] = [
+  { value: 'header', label: 'Header', keyPlaceholder: 'authorization' },
+  { value: 'query', label: 'Query param', keyPlaceholder: 'status' },
+  { value: 'body', label: 'Body field', keyPlaceholder: 'user.email' },
+  { value: 'param', label: 'Route param', keyPlaceholder: 'id' },
+  { value: 'api_key', label: 'API key', keyPlaceholder: '' },
+];
+
+const OPERATOR_OPTIONS: { value: RuleConditionOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'matches', label: 'matches regex' },
+  { value: 'exists', label: 'is present' },
+  { value: 'not_exists', label: 'is missing' },
+];
+
+interface RuleCardProps {
+  rule: ResponseRuleInput;
+  index: number;
+  total: number;
+  templates: JsonTemplate[];
+  routeParamNames: string[];
+  onChange: (rule: ResponseRuleInput) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+const RuleCard: React.FC<RuleCardProps> = ({ rule, index, total, templates, routeParamNames, onChange, onMove, onRemove }) => {
+  const [bodyText, setBodyText] = useState(JSON.stringify(rule.body ?? {}, null, 2));
+  const [headersText, setHeadersText] = useState(formatHeaders(rule.headers));
+  const bodyValidation = validateJson(bodyText);
+
+  const updateCondition = (conditionIndex: number, updates: Partial<RuleCondition>) => {
+    onChange({
+      ...rule,
+      conditions: rule.conditions.map((condition, i) => i === conditionIndex ? { ...condition, ...updates } : condition),
+    });
+  };
+
+  const handleBodyChange = (text: string) => {
+    setBodyText(text);
+    if (validateJson(text).isValid) {
+      onChange({ ...rule, body: JSON.parse(text) });
+    }
+  };
+
+  const handleHeadersChange = (text: string) => {
+    setHeadersText(text);
+    onChange({ ...rule, headers: parseHeaders(text) });
+  };
+
+  const inputClass = 'px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className={`border rounded-lg p-4 space-y-4 ${rule.enabled ? 'border-gray-200 dark:border-gray-600' : 'border-dashed border-gray-300 dark:border-gray-600 opacity-70'}`}>
+      <div className="flex items-center space-x-2">
+        <span className="text-xs font-medium text-gray-500 dark:text-gray-400 w-6">#{index + 1}</span>
+        <input
+          type="text"
+          value={rule.name}
+          onChange={(e) => onChange({ ...rule, name: e.target.value })}
+          placeholder="User not found"
+          className={`flex-1 ${inputClass}`}
+        />
+        <label className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={rule.enabled}
+            onChange={(e) => onChange({ ...rule, enabled: e.target.checked })}
+            className="w-4 h-4 text-blue-600"
+          />
+          <span>Enabled</span>
+        </label>
+        <button type="button" onClick={() => onMove(-1)} disabled={index === 0} className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30" title="Move up">
+          <ChevronUp className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={() => onMove(1)} disabled={index === total - 1} className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30" title="Move down">
+          <ChevronDown className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={onRemove} className="p-1 text-gray-500 hover:text-red-600" title="Delete rule">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Conditions */}
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+          <span>When</span>
+          <select
+            value={rule.match_mode}
+            onChange={(e) => onChange({ ...rule, match_mode: e.target.value as 'all' | 'any' })}
+            className={inputClass}
+          >
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          <span>of these conditions match{rule.conditions.length === 0 ? ' (no conditions: always matches)' : ''}:</span>
+        </div>
+
+        {rule.conditions.map((condition, conditionIndex) => {
+          const source = SOURCE_OPTIONS.find(option => option.value === condition.source);
+          const needsValue = condition.operator !== 'exists' && condition.operator !== 'not_exists';
+          return (
+            <div key={conditionIndex} className="flex items-center space-x-2">
+              <select
+                value={condition.source}
+                onChange={(e) => updateCondition(conditionIndex, { source: e.target.value as RuleConditionSource })}
+                className={inputClass}
+              >
+                {SOURCE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              {condition.source === 'param' && routeParamNames.length > 0 ? (
+                <select
+                  value={condition.key}
+                  onChange={(e) => updateCondition(conditionIndex, { key: e.target.value })}
+                  className={`w-36 ${inputClass}`}
+                >
+                  <option value="">Choose...</option>
+                  {routeParamNames.map(name => (
+                    <option key={name} value={name}>{name === '*' ? '* (wildcard)' : `:${name}`}</option>
+                  ))}
+                </select>
+              ) : condition.source !== 'api_key' && (
+                <input
+                  type="text"
+                  value={condition.key}
+                  onChange={(e) => updateCondition(conditionIndex, { key: e.target.value })}
+                  placeholder={source?.keyPlaceholder}
+                  className={`w-36 ${inputClass}`}
+                />
+              )}
+              <select
+                value={condition.operator}
+                onChange={(e) => updateCondition(conditionIndex, { operator: e.target.value as RuleConditionOperator })}
+                className={inputClass}
+              >
+                {OPERATOR_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              {needsValue && (
+                <input
+                  type="text"
+                  value={condition.value}
+                  onChange={(e) => updateCondition(conditionIndex, { value: e.target.value })}
+                  placeholder="value"
+                  className={`flex-1 ${inputClass}`}
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => onChange({ ...rule, conditions: rule.conditions.filter((_, i) => i !== conditionIndex) })}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove condition"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+
+        <button
+          type="button"
+          onClick={() => onChange({ ...rule, conditions: [...rule.conditions, { source: 'header', key: '', operator: 'equals', value: '' }] })}
+          className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="w-3 h-3" />
+          <span>Add condition</span>
+        </button>
+      </div>
+
+      {/* Response */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Status Code</label>
+          <input
+            type="number"
+            min={100}
+            max={599}
+            value={rule.status_code}
+            onChange={(e) => onChange({ ...rule, status_code: parseInt(e.target.value, 10) || 0 })}
+            className={`w-full ${inputClass}`}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Response Headers</label>
+          <textarea
+            value={headersText}
+            onChange={(e) => handleHeadersChange(e.target.value)}
+            placeholder="WWW-Authenticate: Bearer error=&quot;invalid_token&quot;"
+            rows={2}
+            className={`w-full font-mono resize-none ${inputClass}`}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center space-x-4 text-xs">
+          <label className="flex items-center space-x-1 text-gray-700 dark:text-gray-300">
+            <input
+              type="radio"
+              checked={rule.response_type === 'body'}
+              onChange={() => onChange({ ...rule, response_type: 'body' })}
+              className="w-3 h-3 text-blue-600"
+            />
+            <span>Inline body</span>
+          </label>
+          <label className="flex items-center space-x-1 text-gray-700 dark:text-gray-300">
+            <input
+              type="radio"
+              checked={rule.response_type === 'template'}
+              onChange={() => onChange({ ...rule, response_type: 'template' })}
+              className="w-3 h-3 text-blue-600"
+            />
+            <span>JSON template</span>
+          </label>
+        </div>
+
+        {rule.response_type === 'template' ? (
+          <select
+            value={rule.template_id || ''}
+            onChange={(e) => onChange({ ...rule, template_id: e.target.value || null })}
+            className={`w-full ${inputClass}`}
+          >
+            <option value="">Choose a JSON template...</option>
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+          </select>
+        ) : (
+          <>
+            <textarea
+              value={bodyText}
+              onChange={(e) => handleBodyChange(e.target.value)}
+              rows={5}
+              spellCheck={false}
+              className={`w-full font-mono resize-y ${inputClass} ${bodyValidation.isValid ? '' : 'border-red-300 bg-red-50'}`}
+            />
+            {!bodyValidation.isValid && (
+              <p className="text-xs text-red-600 dark:text-red-400">Invalid JSON: {bodyValidation.error}</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const ResponseRulesEditor: React.FC<ResponseRulesEditorProps> = ({
+  rules,
+  onChange,
+  templates,
+  routeParamNames,
+}) => {
+  // Stable keys so each card keeps its own text state while rules are reordered
+  const [keys, setKeys] = useState(() => rules.map((_, index) => index));
+  const [nextKey, setNextKey] = useState(rules.length);
+
+  const handleAdd = () => {
+    onChange([...rules, { ...createEmptyRule(), name: `Rule ${rules.length + 1}` }]);
+    setKeys([...keys, nextKey]);
+    setNextKey(nextKey + 1);
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+    const swap = <T,>(list: T[]) => {
+      const next = [...list];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    };
+    onChange(swap(rules));
+    setKeys(swap(keys));
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+    setKeys(keys.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3 flex items-start space-x-2">
+        <GitBranch className="w-4 h-4 text-blue-600 mt-0.5" />
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          Rules are checked from top to bottom before the default response. The first enabled rule whose
+          conditions match decides the status, headers and body. Use them for cases like "user not found" or
+          "expired token". Rule bodies support the same <code>{'{{placeholders}}'}</code> as templates.
+        </p>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400 text-center py-6">
+          No rules yet. Every request receives the default response.
+        </p>
+      ) : (
+        rules.map((rule, index) => (
+          <RuleCard
+            key={keys[index]}
+            rule={rule}
+            index={index}
+            total={rules.length}
+            templates={templates}
+            routeParamNames={routeParamNames}
+            onChange={(updated) => onChange(rules.map((r, i) => i === index ? updated : r))}
+            onMove={(direction) => handleMove(index, direction)}
+            onRemove={() => handleRemove(index)}
+          />
+        ))
+      )}
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        className="flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-800 border border-dashed border-blue-300 rounded-lg px-4 py-2 w-full justify-center"
+      >
+        <Plus className="w-4 h-4" />
+        <span>Add Rule</span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_RESET_AFTER_SECONDS,
+  DEFAULT_RESPONSE_SEQUENCE,
+  MAX_SEQUENCE_STEPS,
+  ResponseSequence,
+  SEQUENCE_MODES,
+  SequenceMode,
+  SequenceStep,
+  createSequenceStep,
+} from '../utils/responseSequence';
+import { validateJson } from '../utils/jsonValidator';
+import { formatHeaders, parseHeaders } from '../utils/responseSettings';
+import { ListOrdered, Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+
+interface ResponseSequenceEditorProps {
+  sequence: ResponseSequence | null;
+  onChange: (sequence: ResponseSequence) => void;
+  error?: string;
+}
+
+interface StepCardProps {
+  step: SequenceStep;
+  index: number;
+  total: number;
+  onChange: (step: SequenceStep) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+const StepCard: React.FC<StepCardProps> = ({ step, index, total, onChange, onMove, onRemove }) => {
+  const [bodyText, setBodyText] = useState(JSON.stringify(step.body ?? {}, null, 2));
+  const [headersText, setHeadersText] = useState(formatHeaders(step.headers));
+  const bodyValidation = validateJson(bodyText);
+
+  const handleBodyChange = (text: string) => {
+    setBodyText(text);
+    if (validateJson(text).isValid) {
+      onChange({ ...step, body: JSON.parse(text) });
+    }
+  };
+
+  const handleHeadersChange = (text: string) => {
+    setHeadersText(text);
+    onChange({ ...step, headers: parseHeaders(text) });
+  };
+
+  const inputClass = 'px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-600 rounded-lg p-4 space-y-3">
+      <div className="flex items-center space-x-2">
+        <span className="text-xs font-medium text-gray-500 dark:text-gray-400 w-6">#{index + 1}</span>
+        <input
+          type="text"
+          value={step.label || ''}
+          onChange={(e) => onChange({ ...step, label: e.target.value })}
+          placeholder="pending"
+          className={`flex-1 ${inputClass}`}
+        />
+        <input
+          type="number"
+          min={100}
+          max={599}
+          value={step.status}
+          onChange={(e) => onChange({ ...step, status: parseInt(e.target.value, 10) || 0 })}
+          className={`w-24 ${inputClass}`}
+          title="Status code"
+        />
+        <button type="button" onClick={() => onMove(-1)} disabled={index === 0} className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30" title="Move up">
+          <ChevronUp className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={() => onMove(1)} disabled={index === total - 1} className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30" title="Move down">
+          <ChevronDown className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={onRemove} disabled={total === 1} className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30" title="Delete step">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Body</label>
+          <textarea
+            value={bodyText}
+            onChange={(e) => handleBodyChange(e.target.value)}
+            rows={4}
+            spellCheck={false}
+            className={`w-full font-mono resize-y ${inputClass} ${bodyValidation.isValid ? '' : 'border-red-300 bg-red-50'}`}
+          />
+          {!bodyValidation.isValid && (
+            <p className="text-xs text-red-600 dark:text-red-400">Invalid JSON: {bodyValidation.error}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Headers</label>
+          <textarea
+            value={headersText}
+            onChange={(e) => handleHeadersChange(e.target.value)}
+            placeholder="Retry-After: 1"
+            rows={4}
+            className={`w-full font-mono resize-none ${inputClass}`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const ResponseSequenceEditor: React.FC<ResponseSequenceEditorProps> = ({ sequence, onChange, error }) => {
+  const current = sequence || DEFAULT_RESPONSE_SEQUENCE;
+  // Stable keys so each card keeps its own text state while steps are reordered
+  const [keys, setKeys] = useState(() => current.steps.map((_, index) => index));
+  const [nextKey, setNextKey] = useState(current.steps.length);
+
+  const update = (updates: Partial<ResponseSequence>) => {
+    onChange({ ...current, ...updates });
+  };
+
+  const handleAdd = () => {
+    update({ steps: [...current.steps, createSequenceStep(`Step ${current.steps.length + 1}`)] });
+    setKeys([...keys, nextKey]);
+    setNextKey(nextKey + 1);
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= current.steps.length) return;
+    const swap = <T,>(list: T[]) => {
+      const next = [...list];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    };
+    update({ steps: swap(current.steps) });
+    setKeys(swap(keys));
+  };
+
+  const handleRemove = (index: number) => {
+    update({ steps: current.steps.filter((_, i) => i !== index) });
+    setKeys(keys.filter((_, i) => i !== index));
+  };
+
+  const handleModeChange = (mode: SequenceMode) => {
+    update({
+      mode,
+      reset_after_seconds: mode === 'reset' ? current.reset_after_seconds || DEFAULT_RESET_AFTER_SECONDS : undefined,
+    });
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-lg p-4">
+        <div className="flex items-center space-x-3">
+          <ListOrdered className="w-5 h-5 text-purple-600" />
+          <div>
+            <p className="text-sm font-medium text-purple-900 dark:text-purple-100">Response Sequence</p>
+            <p className="text-xs text-purple-800 dark:text-purple-200">
+              Successive calls get these responses in turn, counted per mock session or API key. Response rules
+              still win when they match; the sequence replaces the default response.
+            </p>
+          </div>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-purple-900 dark:text-purple-100">
+          <input
+            type="checkbox"
+            checked={current.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="w-4 h-4 text-purple-600"
+          />
+          <span>Enabled</span>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">After the last step</span>
+        {SEQUENCE_MODES.map(mode => (
+          <label key={mode.value} className="flex items-center space-x-1 text-sm text-gray-700 dark:text-gray-300" title={mode.description}>
+            <input
+              type="radio"
+              checked={current.mode === mode.value}
+              onChange={() => handleModeChange(mode.value)}
+              className="w-3 h-3 text-blue-600"
+            />
+            <span>{mode.label}</span>
+          </label>
+        ))}
+        {current.mode === 'reset' && (
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              min={1}
+              value={current.reset_after_seconds || ''}
+              onChange={(e) => update({ reset_after_seconds: parseInt(e.target.value, 10) || 0 })}
+              className={`w-24 ${inputClass}`}
+            />
+            <span className="text-sm text-gray-600 dark:text-gray-400">seconds after the first call</span>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {current.steps.map((step, index) => (
+        <StepCard
+          key={keys[index]}
+          step={step}
+          index={index}
+          total={current.steps.length}
+          onChange={(updated) => update({ steps: current.steps.map((existing, i) => i === index ? updated : existing) })}
+          onMove={(direction) => handleMove(index, direction)}
+          onRemove={() => handleRemove(index)}
+        />
+      ))}
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={current.steps.length >= MAX_SEQUENCE_STEPS}
+        className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+      >
+        <Plus className="w-4 h-4" />
+        <span>Add step</span>
+      </button>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Each response carries <code>X-Mock-Sequence-Step: 2/3</code>. Step bodies support the same
+        {' '}<code>{'{{placeholders}}'}</code> as templates. Reset a client's position from the API tester.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { DEFAULT_SIGNATURE_SKEW_SECONDS, ENDPOINT_KEY_ID, SIGNING_STEPS, SigningConfig } from '../utils/endpointAuth';
+import { FileKey } from 'lucide-react';
+
+interface SigningConfigEditorProps {
+  config: SigningConfig | null;
+  onChange: (config: SigningConfig | null) => void;
+}
+
+export const SigningConfigEditor: React.FC<SigningConfigEditorProps> = ({ config, onChange }) => (
+  <div className="bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg p-4 space-y-3">
+    <div className="flex items-center space-x-2">
+      <FileKey className="w-4 h-4 text-orange-600" />
+      <span className="text-sm font-medium text-orange-800 dark:text-orange-200">Request Signing</span>
+    </div>
+
+    <div className="max-w-xs">
+      <label className="block text-xs font-medium text-orange-700 dark:text-orange-300 mb-1">Allowed clock skew (seconds)</label>
+      <input
+        type="number"
+        min={1}
+        value={config?.clock_skew_seconds ?? ''}
+        onChange={(e) => {
+          const seconds = parseInt(e.target.value, 10);
+          onChange(seconds > 0 ? { ...config, clock_skew_seconds: seconds } : null);
+        }}
+        placeholder={String(DEFAULT_SIGNATURE_SKEW_SECONDS)}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      <p className="mt-1 text-xs text-orange-700 dark:text-orange-300">
+        Requests whose timestamp is further from the server clock are rejected as replays.
+      </p>
+    </div>
+
+    <ol className="list-decimal list-inside space-y-1 text-xs text-orange-700 dark:text-orange-300">
+      {SIGNING_STEPS.map(step => <li key={step}>{step}</li>)}
+    </ol>
+
+    <p className="text-xs text-orange-700 dark:text-orange-300">
+      Each named key has its own signing secret, shown in the API Keys manager. Use <code>X-Key-Id: {ENDPOINT_KEY_ID}</code> to
+      sign with the endpoint's own API key.
+    </p>
+  </div>
+);
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { DEFAULT_STREAM_GENERATOR, MAX_STREAM_INTERVAL_MS, MAX_STREAM_SECONDS, MIN_STREAM_INTERVAL_MS, STREAM_SOURCES, StreamConfig } from '../utils/streaming';
+import { validateJson } from '../utils/jsonValidator';
+import { Activity } from 'lucide-react';
+
+interface StreamConfigEditorProps {
+  config: StreamConfig;
+  onChange: (config: StreamConfig) => void;
+  // Schema rows are only offered in schema mode
+  allowSchema: boolean;
+  error?: string;
+}
+
+export const StreamConfigEditor: React.FC<StreamConfigEditorProps> = ({ config, onChange, allowSchema, error }) => {
+  // The generator is edited as text so it can be invalid while typing
+  const [generatorText, setGeneratorText] = useState(JSON.stringify(config.generator ?? DEFAULT_STREAM_GENERATOR, null, 2));
+  const generatorValidation = validateJson(generatorText);
+
+  const handleGeneratorChange = (text: string) => {
+    setGeneratorText(text);
+    onChange({ ...config, generator: validateJson(text).isValid ? JSON.parse(text) : undefined });
+  };
+
+  const sources = STREAM_SOURCES.filter(source => allowSchema || source.value !== 'schema');
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 rounded-lg p-4 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Activity className="w-4 h-4 text-indigo-600" />
+        <span className="text-sm font-medium text-indigo-800 dark:text-indigo-200">Event Stream</span>
+      </div>
+
+      <div className={`grid grid-cols-1 gap-3 ${sources.length === 3 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+        {sources.map(source => (
+          <label
+            key={source.value}
+            className={`flex items-start space-x-2 p-3 rounded-lg border cursor-pointer ${
+              config.source === source.value
+                ? 'border-indigo-500 bg-white dark:bg-gray-800'
+                : 'border-indigo-200 dark:border-indigo-800'
+            }`}
+          >
+            <input
+              type="radio"
+              name="streamSource"
+              checked={config.source === source.value}
+              onChange={() => onChange({
+                ...config,
+                source: source.value,
+                generator: source.value === 'generator' && generatorValidation.isValid ? JSON.parse(generatorText) : undefined,
+              })}
+              className="w-4 h-4 mt-0.5 text-indigo-600"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-900 dark:text-white">{source.label}</span>
+              <span className="block text-xs text-gray-600 dark:text-gray-400">{source.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {config.source === 'generator' && (
+        <div>
+          <label className="block text-xs font-medium text-indigo-700 dark:text-indigo-300 mb-1">Event body</label>
+          <textarea
+            value={generatorText}
+            onChange={(e) => handleGeneratorChange(e.target.value)}
+            rows={5}
+            spellCheck={false}
+            className={`${inputClass} font-mono resize-y ${generatorValidation.isValid ? '' : 'border-red-300 bg-red-50'}`}
+          />
+          {!generatorValidation.isValid && (
+            <p className="text-xs text-red-600 dark:text-red-400">Invalid JSON: {generatorValidation.error}</p>
+          )}
+          <p className="mt-1 text-xs text-indigo-700 dark:text-indigo-300">
+            Rendered for every event with the same <code>{'{{placeholders}}'}</code> as templates;
+            {' '}<code>{'{{index}}'}</code> is the event's position, counting from 0.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-indigo-700 dark:text-indigo-300 mb-1">Interval (ms) *</label>
+          <input
+            type="number"
+            min={MIN_STREAM_INTERVAL_MS}
+            max={MAX_STREAM_INTERVAL_MS}
+            value={config.interval_ms || ''}
+            onChange={(e) => onChange({ ...config, interval_ms: parseInt(e.target.value, 10) || 0 })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-indigo-700 dark:text-indigo-300 mb-1">Event name</label>
+          <input
+            type="text"
+            value={config.event || ''}
+            onChange={(e) => onChange({ ...config, event: e.target.value || null })}
+            placeholder="message"
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-indigo-700 dark:text-indigo-300 mb-1">Maximum events</label>
+          <input
+            type="number"
+            min={1}
+            value={config.max_events ?? ''}
+            onChange={(e) => {
+              const max = parseInt(e.target.value, 10);
+              onChange({ ...config, max_events: isNaN(max) ? null : max });
+            }}
+            placeholder="Unlimited"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {config.source !== 'generator' && (
+        <label className="flex items-center space-x-2 text-sm text-indigo-900 dark:text-indigo-100">
+          <input
+            type="checkbox"
+            checked={!!config.loop}
+            onChange={(e) => onChange({ ...config, loop: e.target.checked })}
+            className="w-4 h-4 text-indigo-600"
+          />
+          <span>Start again after the last {config.source === 'schema' ? 'row' : 'element'}</span>
+        </label>
+      )}
+
+      <p className="text-xs text-indigo-700 dark:text-indigo-300">
+        GET requests receive <code>text/event-stream</code>. Event ids count from 1, and a client reconnecting
+        with <code>Last-Event-ID</code> (or <code>?lastEventId=</code>) resumes with the next event. Streams close
+        after {MAX_STREAM_SECONDS} seconds; EventSource reconnects and carries on.
+      </p>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
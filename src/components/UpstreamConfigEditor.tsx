@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { DEFAULT_FORWARD_HEADERS, DEFAULT_UPSTREAM_TIMEOUT_MS, UPSTREAM_MODES, UpstreamConfig, UpstreamHeaders } from '../utils/upstream';
+import { parsePolicyList } from '../utils/accessPolicy';
+import { Radio } from 'lucide-react';
+
+interface UpstreamConfigEditorProps {
+  config: UpstreamConfig;
+  onChange: (config: UpstreamConfig) => void;
+  headers: UpstreamHeaders;
+  onHeadersChange: (headers: UpstreamHeaders) => void;
+  error?: string;
+}
+
+// "Name: value" per line
+const parseHeaderLines = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text.split('\n')
+      .map(line => line.match(/^\s*([^:\s]+)\s*:\s*(.*)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => [match[1], match[2].trim()])
+  );
+
+export const UpstreamConfigEditor: React.FC<UpstreamConfigEditorProps> = ({ config, onChange, headers, onHeadersChange, error }) => {
+  // Lists are edited as text so separators can be typed before the next entry
+  const [forwardDraft, setForwardDraft] = useState((config.forward_headers || []).join(', '));
+  const [headersDraft, setHeadersDraft] = useState(
+    Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n')
+  );
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-teal-50 dark:bg-teal-900/20 border border-teal-200 dark:border-teal-800 rounded-lg p-4 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Radio className="w-4 h-4 text-teal-600" />
+        <span className="text-sm font-medium text-teal-800 dark:text-teal-200">Upstream</span>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-teal-700 dark:text-teal-300 mb-1">Upstream URL *</label>
+        <input
+          type="text"
+          value={config.url}
+          onChange={(e) => onChange({ ...config, url: e.target.value })}
+          placeholder="https://api.example.com/users/:id"
+          className={`${inputClass} font-mono`}
+        />
+        <p className="mt-1 text-xs text-teal-700 dark:text-teal-300">
+          <code>:name</code> placeholders are filled from the route's parameters and the query string is passed on.
+          Loopback, link-local and private addresses are refused unless the functions run with{' '}
+          <code>ALLOW_PRIVATE_TARGETS=true</code>. To try it locally, run the stand-in upstream, which echoes every
+          request back, and use <code>http://host.docker.internal:8080</code>:
+        </p>
+        <pre className="mt-1 text-xs bg-white dark:bg-gray-900 rounded p-2 overflow-x-auto text-teal-800 dark:text-teal-200">
+          deno run --allow-net --allow-env supabase/functions/api-proxy/echo-upstream.ts
+        </pre>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {UPSTREAM_MODES.map(mode => (
+          <label
+            key={mode.value}
+            className={`flex items-start space-x-2 p-3 rounded-lg border cursor-pointer ${
+              config.mode === mode.value
+                ? 'border-teal-500 bg-white dark:bg-gray-800'
+                : 'border-teal-200 dark:border-teal-800'
+            }`}
+          >
+            <input
+              type="radio"
+              name="upstreamMode"
+              checked={config.mode === mode.value}
+              onChange={() => onChange({ ...config, mode: mode.value })}
+              className="w-4 h-4 mt-0.5 text-teal-600"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-900 dark:text-white">{mode.label}</span>
+              <span className="block text-xs text-gray-600 dark:text-gray-400">{mode.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-teal-700 dark:text-teal-300 mb-1">Forwarded request headers</label>
+          <input
+            type="text"
+            value={forwardDraft}
+            onChange={(e) => {
+              setForwardDraft(e.target.value);
+              const headers = parsePolicyList(e.target.value).map(name => name.toLowerCase());
+              onChange({ ...config, forward_headers: headers.length > 0 ? headers : undefined });
+            }}
+            placeholder={DEFAULT_FORWARD_HEADERS.join(', ')}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-teal-700 dark:text-teal-300 mb-1">Timeout (ms)</label>
+          <input
+            type="number"
+            min={100}
+            max={30000}
+            value={config.timeout_ms ?? ''}
+            onChange={(e) => {
+              const timeout = parseInt(e.target.value, 10);
+              onChange({ ...config, timeout_ms: isNaN(timeout) ? undefined : timeout });
+            }}
+            placeholder={String(DEFAULT_UPSTREAM_TIMEOUT_MS)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-teal-700 dark:text-teal-300 mb-1">Headers sent to the upstream</label>
+        <textarea
+          value={headersDraft}
+          onChange={(e) => {
+            setHeadersDraft(e.target.value);
+            onHeadersChange(parseHeaderLines(e.target.value));
+          }}
+          placeholder="Authorization: Bearer upstream-token"
+          rows={2}
+          className={`${inputClass} font-mono resize-none`}
+        />
+        <p className="mt-1 text-xs text-teal-700 dark:text-teal-300">
+          Added to every forwarded request, e.g. the upstream's own credentials. They are stored apart from the
+          endpoint, readable only by you and the proxy, and never with recordings.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Channel, getChannelUrl } from '../utils/channels';
+import { MessagesSquare, Plug, Unplug, Send, ArrowDownLeft, ArrowUpRight, Copy, Check, X } from 'lucide-react';
+
+interface WebSocketConsoleProps {
+  channel: Channel;
+  onClose: () => void;
+}
+
+interface TrafficEntry {
+  id: number;
+  direction: 'in' | 'out' | 'system';
+  text: string;
+  at: number;
+}
+
+// Older frames are dropped from the traffic log
+const MAX_SHOWN_FRAMES = 500;
+
+// Pretty-print JSON frames; anything else is shown as sent
+const formatFrame = (text: string) => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
+
+const DIRECTION_STYLES: Record<TrafficEntry['direction'], string> = {
+  in: 'border-l-4 border-green-500 bg-green-50 dark:bg-green-900/20',
+  out: 'border-l-4 border-blue-500 bg-blue-50 dark:bg-blue-900/20',
+  system: 'border-l-4 border-gray-400 bg-gray-50 dark:bg-gray-700/50',
+};
+
+export const WebSocketConsole: React.FC<WebSocketConsoleProps> = ({ channel, onClose }) => {
+  const [apiKey, setApiKey] = useState('');
+  const [status, setStatus] = useState<'closed' | 'connecting' | 'open'>('closed');
+  const [draft, setDraft] = useState('{\n  "type": "ping"\n}');
+  const [traffic, setTraffic] = useState<TrafficEntry[]>([]);
+  const [copied, setCopied] = useState(false);
+  const socketRef = useRef<WebSocket | null>(null);
+  const nextIdRef = useRef(0);
+
+  const url = getChannelUrl(channel.project_id, channel.name, channel.is_public ? undefined : apiKey.trim() || undefined);
+  // The key is left out of what is shown and copied
+  const displayUrl = getChannelUrl(channel.project_id, channel.name, channel.is_public ? undefined : 'YOUR_API_KEY');
+
+  const log = (direction: TrafficEntry['direction'], text: string) => {
+    const entry = { id: nextIdRef.current++, direction, text, at: Date.now() };
+    setTraffic(prev => [...prev, entry].slice(-MAX_SHOWN_FRAMES));
+  };
+
+  // Close the connection when the console closes
+  useEffect(() => () => socketRef.current?.close(), []);
+
+  const handleConnect = () => {
+    if (!channel.is_public && !apiKey.trim()) {
+      log('system', 'This channel is private. Enter a project API key with the read scope to connect.');
+      return;
+    }
+
+    const socket = new WebSocket(url);
+    socketRef.current = socket;
+    setStatus('connecting');
+    log('system', `Connecting to ${displayUrl}`);
+
+    socket.onopen = () => {
+      setStatus('open');
+      log('system', 'Connected');
+    };
+    socket.onmessage = (event) => {
+      log('in', typeof event.data === 'string' ? event.data : '[binary frame]');
+    };
+    socket.onerror = () => {
+      log('system', 'Connection error. The channel may not exist, or the API key may be missing or invalid.');
+    };
+    socket.onclose = (event) => {
+      if (socketRef.current === socket) socketRef.current = null;
+      setStatus('closed');
+      log('system', `Disconnected (code ${event.code}${event.reason ? `: ${event.reason}` : ''})`);
+    };
+  };
+
+  const handleDisconnect = () => {
+    socketRef.current?.close();
+  };
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN || !draft) return;
+    socket.send(draft);
+    log('out', draft);
+  };
+
+  const handleCopyUrl = async () => {
+    await navigator.clipboard.writeText(displayUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <MessagesSquare className="w-6 h-6 text-indigo-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">WebSocket Console</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{channel.name}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 bg-gray-50 dark:bg-gray-900 px-3 py-2 rounded text-sm font-mono text-gray-800 dark:text-gray-200 break-all">
+              {displayUrl}
+            </code>
+            <button onClick={handleCopyUrl} className="text-gray-500 hover:text-blue-600 transition-colors" title="Copy URL">
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            {!channel.is_public && (
+              <input
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder="Project API key"
+                disabled={status !== 'closed'}
+                className={`flex-1 min-w-[16rem] font-mono ${inputClass}`}
+              />
+            )}
+            {status === 'closed' ? (
+              <button
+                onClick={handleConnect}
+                className="flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+              >
+                <Plug className="w-4 h-4" />
+                <span>Connect</span>
+              </button>
+            ) : (
+              <button
+                onClick={handleDisconnect}
+                className="flex items-center space-x-2 bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                <Unplug className="w-4 h-4" />
+                <span>{status === 'connecting' ? 'Cancel' : 'Disconnect'}</span>
+              </button>
+            )}
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+              status === 'open'
+                ? 'bg-green-100 text-green-800'
+                : status === 'connecting'
+                  ? 'bg-yellow-100 text-yellow-800'
+                  : 'bg-gray-100 text-gray-700'
+            }`}>
+              {status === 'open' ? 'Connected' : status === 'connecting' ? 'Connecting...' : 'Disconnected'}
+            </span>
+          </div>
+
+          <form onSubmit={handleSend} className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={4}
+              spellCheck={false}
+              className={`w-full font-mono resize-y ${inputClass}`}
+            />
+            <button
+              type="submit"
+              disabled={status !== 'open' || !draft}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+              <span>Send</span>
+            </button>
+          </form>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
+                Traffic ({traffic.length}{traffic.length === MAX_SHOWN_FRAMES ? ' most recent' : ''})
+              </h4>
+              {traffic.length > 0 && (
+                <button onClick={() => setTraffic([])} className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+                  Clear
+                </button>
+              )}
+            </div>
+            <div className="border border-gray-200 dark:border-gray-700 rounded-lg max-h-96 overflow-y-auto space-y-1 p-2">
+              {traffic.length === 0 && (
+                <p className="p-2 text-sm text-gray-500 dark:text-gray-400">Connect to see frames sent and received.</p>
+              )}
+              {traffic.map(entry => (
+                <div key={entry.id} className={`rounded px-3 py-2 ${DIRECTION_STYLES[entry.direction]}`}>
+                  <div className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400 mb-1">
+                    {entry.direction === 'in' && <ArrowDownLeft className="w-3 h-3 text-green-600" />}
+                    {entry.direction === 'out' && <ArrowUpRight className="w-3 h-3 text-blue-600" />}
+                    <span>{entry.direction === 'in' ? 'Received' : entry.direction === 'out' ? 'Sent' : 'Console'}</span>
+                    <span>{new Date(entry.at).toLocaleTimeString()}</span>
+                  </div>
+                  <pre className="text-sm text-gray-800 dark:text-gray-200 overflow-x-auto whitespace-pre-wrap">{formatFrame(entry.text)}</pre>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { AccessPolicy } from '../utils/accessPolicy';
+
+// Project-wide access policy; endpoint policies are saved with the endpoint itself
+export const useAccessPolicy = () => {
+  const { user } = useAuth();
+
+  const fetchProjectPolicy = useCallback(async (projectId: string): Promise<AccessPolicy | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('access_policy')
+        .eq('id', projectId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching project access policy:', error);
+        return null;
+      }
+      return data?.access_policy || null;
+    } catch (error) {
+      console.error('Network error fetching project access policy:', error);
+      return null;
+    }
+  }, [user]);
+
+  const saveProjectPolicy = async (projectId: string, policy: AccessPolicy | null) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .update({ access_policy: policy })
+        .eq('id', projectId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error saving project access policy:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error saving project access policy:', error);
+      return false;
+    }
+  };
+
+  return {
+    fetchProjectPolicy,
+    saveProjectPolicy,
+  };
+};
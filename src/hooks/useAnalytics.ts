@@ -17,6 +17,8 @@ export interface AnalyticsData {
   city: string;
   timestamp: string;
   error_message?: string;
+  error_type?: string | null;
+  api_version?: number | null;
 }
 
 export interface PerformanceMetrics {
@@ -57,6 +59,9 @@ export interface DashboardStats {
   errorRate: number;
   topCountries: Array<{ country: string; requests: number }>;
   topEndpoints: Array<{ endpoint: string; requests: number }>;
+  errorTypes: Array<{ type: string; requests: number }>;
+  // Requests served by published endpoint versions; unversioned traffic is left out
+  versionTraffic: Array<{ endpoint: string; version: number; requests: number; errors: number }>;
   dailyStats: Array<{ date: string; requests: number; errors: number }>;
   hourlyStats: Array<{ hour: number; requests: number; avgResponseTime: number }>;
 }
@@ -225,6 +230,8 @@ export const useAnalytics = () => {
         errorRate: 0,
         topCountries: [],
         topEndpoints: [],
+        errorTypes: [],
+        versionTraffic: [],
         dailyStats: [],
         hourlyStats: []
       };
@@ -245,6 +252,8 @@ export const useAnalytics = () => {
           errorRate: 0,
           topCountries: [],
           topEndpoints: [],
+          errorTypes: [],
+          versionTraffic: [],
           dailyStats: [],
           hourlyStats: []
         };
@@ -282,6 +291,37 @@ export const useAnalytics = () => {
         .sort((a, b) => b.requests - a.requests)
         .slice(0, 5);
 
+      // Calculate failures by error type (rate_limited, chaos, client_error, ...)
+      const errorTypeStats = analyticsData.reduce((acc, d) => {
+        if (d.response_status >= 400) {
+          const type = d.error_type || (d.response_status >= 500 ? 'server_error' : 'client_error');
+          acc[type] = (acc[type] || 0) + 1;
+        }
+        return acc;
+      }, {} as Record<string, number>);
+
+      const errorTypes = Object.entries(errorTypeStats)
+        .map(([type, requests]) => ({ type, requests }))
+        .sort((a, b) => b.requests - a.requests);
+
+      // Calculate traffic per endpoint version
+      const versionStats = analyticsData.reduce((acc, d) => {
+        if (d.api_version != null) {
+          const key = `${d.request_path || 'Unknown'} v${d.api_version}`;
+          if (!acc[key]) {
+            acc[key] = { endpoint: d.request_path || 'Unknown', version: d.api_version, requests: 0, errors: 0 };
+          }
+          acc[key].requests += 1;
+          if (d.response_status >= 400) {
+            acc[key].errors += 1;
+          }
+        }
+        return acc;
+      }, {} as Record<string, { endpoint: string; version: number; requests: number; errors: number }>);
+
+      const versionTraffic = Object.values(versionStats)
+        .sort((a, b) => a.endpoint.localeCompare(b.endpoint) || b.version - a.version);
+
       // Calculate daily stats
       const dailyStatsMap = analyticsData.reduce((acc, d) => {
         const date = new Date(d.timestamp).toISOString().split('T')[0];
@@ -329,6 +369,8 @@ export const useAnalytics = () => {
         errorRate,
         topCountries,
         topEndpoints,
+        errorTypes,
+        versionTraffic,
         dailyStats,
         hourlyStats
       };
@@ -341,6 +383,8 @@ export const useAnalytics = () => {
         errorRate: 0,
         topCountries: [],
         topEndpoints: [],
+        errorTypes: [],
+        versionTraffic: [],
         dailyStats: [],
         hourlyStats: []
       };
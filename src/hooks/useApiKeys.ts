@@ -0,0 +1,274 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+
+// Named keys accepted by the api-proxy function in addition to an endpoint's own key.
+// Only a SHA-256 digest is stored, so the plaintext key is returned once when it is created.
+// Each key also has a signing secret for HMAC-signed requests, which the proxy needs in plaintext.
+export type ApiKeyScope = 'read' | 'write' | 'admin';
+
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  endpoint_id: string | null;
+  project_id: string | null;
+  // Project keys only: the endpoints they grant, or null for every endpoint in the project
+  endpoint_ids: string[] | null;
+  scopes: ApiKeyScope[];
+  name: string;
+  key_prefix: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  replaced_by: string | null;
+  last_used_at: string | null;
+  created_at: string;
+  signing_secret: string | null;
+}
+
+export type ApiKeyTarget = { endpoint_id: string } | { project_id: string; endpoint_ids: string[] | null };
+
+export interface ApiKeyInput {
+  name: string;
+  target: ApiKeyTarget;
+  scopes: ApiKeyScope[];
+  expires_at: string | null;
+}
+
+export type ApiKeyStatus = 'active' | 'rotating' | 'expired' | 'revoked';
+
+export interface CreatedApiKey {
+  key: ApiKey;
+  secret: string;
+}
+
+const KEY_PREFIX_LENGTH = 11;
+
+// Everything but the hash
+const KEY_COLUMNS = 'id, user_id, endpoint_id, project_id, endpoint_ids, scopes, name, key_prefix, expires_at, revoked_at, replaced_by, last_used_at, created_at, signing_secret';
+
+const generateSecret = () => {
+  return 'ak_' + Array.from(crypto.getRandomValues(new Uint8Array(24)))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const generateSigningSecret = () => {
+  return Array.from(crypto.getRandomValues(new Uint8Array(32)))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const hashSecret = async (secret: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const API_KEY_SCOPES: { value: ApiKeyScope; label: string; description: string }[] = [
+  { value: 'read', label: 'Read', description: 'GET requests' },
+  { value: 'write', label: 'Write', description: 'POST, PUT, PATCH and DELETE requests' },
+  { value: 'admin', label: 'Admin', description: 'Everything' },
+];
+
+export const getApiKeyStatus = (key: ApiKey): ApiKeyStatus => {
+  if (key.revoked_at) return 'revoked';
+  if (key.expires_at && new Date(key.expires_at).getTime() <= Date.now()) return 'expired';
+  // A replaced key keeps working until its grace period runs out
+  if (key.replaced_by) return 'rotating';
+  return 'active';
+};
+
+export const useApiKeys = () => {
+  const { user } = useAuth();
+
+  // Keys for the endpoint itself and project-wide keys that also grant access to it
+  const fetchKeys = useCallback(async (endpointId: string, projectId: string): Promise<ApiKey[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('api_keys')
+        .select(KEY_COLUMNS)
+        .or(`endpoint_id.eq.${endpointId},project_id.eq.${projectId}`)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching API keys:', error);
+        return [];
+      }
+      // Project keys limited to other endpoints don't apply here
+      return (data || []).filter(key =>
+        key.endpoint_id === endpointId || !key.endpoint_ids || key.endpoint_ids.includes(endpointId)
+      );
+    } catch (error) {
+      console.error('Network error fetching API keys:', error);
+      return [];
+    }
+  }, [user]);
+
+  // Every key issued in a project, whether scoped to one endpoint or project-wide
+  const fetchProjectKeys = useCallback(async (projectId: string, endpointIds: string[]): Promise<ApiKey[]> => {
+    if (!user) return [];
+
+    try {
+      const filters = [`project_id.eq.${projectId}`];
+      if (endpointIds.length > 0) {
+        filters.push(`endpoint_id.in.(${endpointIds.join(',')})`);
+      }
+      const { data, error } = await supabase
+        .from('api_keys')
+        .select(KEY_COLUMNS)
+        .or(filters.join(','))
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching project API keys:', error);
+        return [];
+      }
+      return data || [];
+    } catch (error) {
+      console.error('Network error fetching project API keys:', error);
+      return [];
+    }
+  }, [user]);
+
+  // Number of logged requests made with each key
+  const fetchKeyUsage = useCallback(async (keyIds: string[]): Promise<Record<string, number>> => {
+    if (!user || keyIds.length === 0) return {};
+
+    try {
+      const counts = await Promise.all(keyIds.map(async keyId => {
+        const { count, error } = await supabase
+          .from('api_analytics')
+          .select('id', { count: 'exact', head: true })
+          .eq('api_key_id', keyId);
+
+        if (error) {
+          console.error('Error counting API key usage:', error);
+        }
+        return [keyId, count || 0] as const;
+      }));
+      return Object.fromEntries(counts);
+    } catch (error) {
+      console.error('Network error counting API key usage:', error);
+      return {};
+    }
+  }, [user]);
+
+  const createKey = async (input: ApiKeyInput): Promise<CreatedApiKey | null> => {
+    if (!user) return null;
+
+    try {
+      const secret = generateSecret();
+      const { data, error } = await supabase
+        .from('api_keys')
+        .insert([{
+          ...input.target,
+          user_id: user.id,
+          name: input.name,
+          scopes: input.scopes,
+          key_prefix: secret.substring(0, KEY_PREFIX_LENGTH),
+          key_hash: await hashSecret(secret),
+          signing_secret: generateSigningSecret(),
+          expires_at: input.expires_at,
+        }])
+        .select(KEY_COLUMNS)
+        .single();
+
+      if (error) {
+        console.error('Error creating API key:', error);
+        return null;
+      }
+      return { key: data, secret };
+    } catch (error) {
+      console.error('Network error creating API key:', error);
+      return null;
+    }
+  };
+
+  // Issue a replacement with the same name and scope; the old key keeps working for the grace period
+  const rotateKey = async (key: ApiKey, graceHours: number): Promise<CreatedApiKey | null> => {
+    if (!user) return null;
+
+    const target: ApiKeyTarget = key.endpoint_id
+      ? { endpoint_id: key.endpoint_id }
+      : { project_id: key.project_id as string, endpoint_ids: key.endpoint_ids };
+    const created = await createKey({ name: key.name, target, scopes: key.scopes, expires_at: null });
+    if (!created) return null;
+
+    try {
+      const graceEnd = new Date(Date.now() + graceHours * 60 * 60 * 1000);
+      const currentExpiry = key.expires_at ? new Date(key.expires_at) : null;
+      const { error } = await supabase
+        .from('api_keys')
+        .update({
+          replaced_by: created.key.id,
+          expires_at: (currentExpiry && currentExpiry < graceEnd ? currentExpiry : graceEnd).toISOString(),
+          ...(graceHours === 0 ? { revoked_at: new Date().toISOString() } : {}),
+        })
+        .eq('id', key.id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error retiring rotated API key:', error);
+      }
+      return created;
+    } catch (error) {
+      console.error('Network error retiring rotated API key:', error);
+      return created;
+    }
+  };
+
+  const updateKeyAccess = async (id: string, scopes: ApiKeyScope[], endpointIds: string[] | null) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('api_keys')
+        .update({ scopes, endpoint_ids: endpointIds })
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error updating API key access:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error updating API key access:', error);
+      return false;
+    }
+  };
+
+  const revokeKey = async (id: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('api_keys')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error revoking API key:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error revoking API key:', error);
+      return false;
+    }
+  };
+
+  return {
+    fetchKeys,
+    fetchProjectKeys,
+    fetchKeyUsage,
+    createKey,
+    rotateKey,
+    updateKeyAccess,
+    revokeKey,
+  };
+};
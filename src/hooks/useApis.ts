@@ -1,6 +1,16 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from './useAuth';
+import { ChaosConfig } from '../utils/chaosProfile';
+import { RateLimitConfig } from '../utils/rateLimits';
+import { AuthMode, SigningConfig } from '../utils/endpointAuth';
+import { JwtConfig } from '../utils/jwtAuth';
+import { AccessPolicy } from '../utils/accessPolicy';
+import { ResponseFormat } from '../utils/responseSettings';
+import { UpstreamConfig } from '../utils/upstream';
+import { StreamConfig } from '../utils/streaming';
+import { CatcherConfig } from '../utils/captures';
+import { ResponseSequence } from '../utils/responseSequence';
 
 export interface ApiEndpoint {
   id: string;
@@ -15,11 +25,39 @@ export interface ApiEndpoint {
   is_public: boolean;
   api_key?: string;
   requires_auth: boolean;
-  data_type?: 'template' | 'schema';
+  data_type?: 'template' | 'schema' | 'upstream' | 'stream' | 'catcher';
   schema_id?: string;
   template_id?: string;
+  item_key_field?: string | null;
+  chaos_config?: ChaosConfig | null;
+  response_status?: number;
+  response_headers?: Record<string, string>;
+  content_type?: string;
+  cache_control?: string | null;
+  response_formats?: ResponseFormat[] | null;
+  rate_limits?: RateLimitConfig | null;
+  auth_mode?: AuthMode;
+  jwt_config?: JwtConfig | null;
+  signing_config?: SigningConfig | null;
+  access_policy?: AccessPolicy | null;
+  upstream_config?: UpstreamConfig | null;
+  stream_config?: StreamConfig | null;
+  catcher_config?: CatcherConfig | null;
+  // Published version served when a request names none; null serves the live configuration
+  current_version?: number | null;
+  // Minutes an idle mock session lives on schema endpoints; null shares the schema's data with every client
+  session_ttl_minutes?: number | null;
+  // Responses returned in turn on successive calls from the same client
+  response_sequence?: ResponseSequence | null;
 }
 
+// Streaming endpoints keep the template or schema their events come from
+const usesSourceSchema = (api: Partial<ApiEndpoint>) =>
+  api.data_type === 'schema' || (api.data_type === 'stream' && api.stream_config?.source === 'schema');
+
+const usesSourceTemplate = (api: Partial<ApiEndpoint>) =>
+  api.data_type === 'template' || (api.data_type === 'stream' && api.stream_config?.source === 'template');
+
 export const useApis = () => {
   const { user } = useAuth();
   const [apis, setApis] = useState<ApiEndpoint[]>([]);
@@ -125,10 +163,27 @@ export const useApis = () => {
         data_type: api.data_type || 'template',
         user_id: user.id,
         api_key: apiKey,
-        // Only include schema_id if it's not empty and data_type is 'schema'
-        ...(api.data_type === 'schema' && api.schema_id ? { schema_id: api.schema_id } : {}),
-        // Only include template_id if it's not empty and data_type is 'template'
-        ...(api.data_type === 'template' && api.template_id ? { template_id: api.template_id } : {})
+        item_key_field: api.item_key_field || null,
+        chaos_config: api.chaos_config || null,
+        response_sequence: api.response_sequence || null,
+        response_status: api.response_status || 200,
+        response_headers: api.response_headers || {},
+        content_type: api.content_type || 'application/json',
+        cache_control: api.cache_control || null,
+        response_formats: api.response_formats || null,
+        rate_limits: api.rate_limits || null,
+        auth_mode: api.auth_mode || 'api_key',
+        jwt_config: api.jwt_config || null,
+        signing_config: api.signing_config || null,
+        access_policy: api.access_policy || null,
+        upstream_config: api.data_type === 'upstream' ? api.upstream_config || null : null,
+        stream_config: api.data_type === 'stream' ? api.stream_config || null : null,
+        catcher_config: api.data_type === 'catcher' ? api.catcher_config || null : null,
+        session_ttl_minutes: api.data_type === 'schema' ? api.session_ttl_minutes || null : null,
+        // Only include schema_id if it's not empty and data_type is 'schema' or a stream of schema rows
+        ...(usesSourceSchema(api) && api.schema_id ? { schema_id: api.schema_id } : {}),
+        // Only include template_id if it's not empty and data_type is 'template' or a stream of a template
+        ...(usesSourceTemplate(api) && api.template_id ? { template_id: api.template_id } : {})
       };
 
       const { data, error } = await supabase
@@ -173,12 +228,24 @@ export const useApis = () => {
       }
 
       // Clean up schema_id and template_id based on data_type
-      if (updates.data_type !== 'schema') {
+      if (!usesSourceSchema(updates)) {
         finalUpdates.schema_id = null;
       }
-      if (updates.data_type !== 'template') {
+      if (updates.data_type !== 'schema') {
+        finalUpdates.session_ttl_minutes = null;
+      }
+      if (!usesSourceTemplate(updates)) {
         finalUpdates.template_id = null;
       }
+      if (updates.data_type !== 'upstream') {
+        finalUpdates.upstream_config = null;
+      }
+      if (updates.data_type !== 'stream') {
+        finalUpdates.stream_config = null;
+      }
+      if (updates.data_type !== 'catcher') {
+        finalUpdates.catcher_config = null;
+      }
 
       const { data, error } = await supabase
         .from('api_endpoints')
@@ -228,6 +295,31 @@ export const useApis = () => {
     }
   };
 
+  const setCurrentVersion = async (id: string, version: number | null) => {
+    if (!user) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('api_endpoints')
+        .update({ current_version: version })
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error setting current version:', error);
+        return false;
+      }
+
+      setApis(prev => prev.map(a => a.id === id ? data : a));
+      return true;
+    } catch (error) {
+      console.error('Network error setting current version:', error);
+      return false;
+    }
+  };
+
   const deleteApi = async (id: string) => {
     if (!user) return false;
 
@@ -286,6 +378,7 @@ export const useApis = () => {
     updateApi,
     deleteApi,
     regenerateApiKey,
+    setCurrentVersion,
     getApisByProjectId,
     getApiByRoute,
     refetch: fetchApis,
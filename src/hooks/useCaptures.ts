@@ -0,0 +1,124 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { Capture, ReplayResult } from '../utils/captures';
+
+// Captures shown in the request inspector
+const CAPTURE_LIST_LIMIT = 200;
+
+// Requests stored by catcher endpoints; the proxy writes them, owners read, replay and prune them
+export const useCaptures = () => {
+  const { user } = useAuth();
+
+  const fetchCaptures = useCallback(async (projectId: string): Promise<Capture[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('api_captures')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+        .limit(CAPTURE_LIST_LIMIT);
+
+      if (error) {
+        console.error('Error fetching captures:', error);
+        return [];
+      }
+      return data || [];
+    } catch (error) {
+      console.error('Network error fetching captures:', error);
+      return [];
+    }
+  }, [user]);
+
+  const deleteCapture = async (id: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('api_captures')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error deleting capture:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error deleting capture:', error);
+      return false;
+    }
+  };
+
+  // Clears one endpoint's captures, or the whole project's when no endpoint is given
+  const clearCaptures = async (projectId: string, endpointId?: string) => {
+    if (!user) return false;
+
+    try {
+      let query = supabase
+        .from('api_captures')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('user_id', user.id);
+      if (endpointId) query = query.eq('endpoint_id', endpointId);
+
+      const { error } = await query;
+      if (error) {
+        console.error('Error clearing captures:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error clearing captures:', error);
+      return false;
+    }
+  };
+
+  // Sent from the webhooks function, so the target does not have to allow the dashboard's origin
+  const replayCapture = async (captureId: string, url: string): Promise<ReplayResult | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase.functions.invoke('webhooks/replay', {
+        body: { capture_id: captureId, url },
+      });
+      if (error) {
+        console.error('Error replaying capture:', error);
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Network error replaying capture:', error);
+      return null;
+    }
+  };
+
+  // Calls onCapture with every capture stored for the project until the returned function is called
+  const subscribeToCaptures = useCallback((projectId: string, onCapture: (capture: Capture) => void) => {
+    if (!user) return () => {};
+
+    const channel = supabase
+      .channel(`captures:${projectId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'api_captures', filter: `project_id=eq.${projectId}` },
+        (payload) => onCapture(payload.new as Capture)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  return {
+    fetchCaptures,
+    subscribeToCaptures,
+    deleteCapture,
+    clearCaptures,
+    replayCapture,
+  };
+};
@@ -0,0 +1,102 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { Channel, ChannelInput } from '../utils/channels';
+
+// WebSocket channels of a project; the websocket function serves them
+export const useChannels = () => {
+  const { user } = useAuth();
+
+  const fetchChannels = useCallback(async (projectId: string): Promise<Channel[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('ws_channels')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching channels:', error);
+        return [];
+      }
+      return data || [];
+    } catch (error) {
+      console.error('Network error fetching channels:', error);
+      return [];
+    }
+  }, [user]);
+
+  const addChannel = async (projectId: string, input: ChannelInput): Promise<Channel | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('ws_channels')
+        .insert([{ ...input, project_id: projectId, user_id: user.id }])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error adding channel:', error);
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Network error adding channel:', error);
+      return null;
+    }
+  };
+
+  const updateChannel = async (id: string, input: ChannelInput): Promise<Channel | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('ws_channels')
+        .update(input)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating channel:', error);
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Network error updating channel:', error);
+      return null;
+    }
+  };
+
+  const deleteChannel = async (id: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('ws_channels')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error deleting channel:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error deleting channel:', error);
+      return false;
+    }
+  };
+
+  return {
+    fetchChannels,
+    addChannel,
+    updateChannel,
+    deleteChannel,
+  };
+};
@@ -0,0 +1,126 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { EndpointVersion, VERSION_SNAPSHOT_COLUMNS } from '../utils/endpointVersions';
+
+// Published versions of an endpoint. Which version is current lives on the endpoint itself (useApis).
+export const useEndpointVersions = () => {
+  const { user } = useAuth();
+
+  const fetchVersions = useCallback(async (endpointId: string): Promise<EndpointVersion[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('api_endpoint_versions')
+        .select('*')
+        .eq('endpoint_id', endpointId)
+        .order('version', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching endpoint versions:', error);
+        return [];
+      }
+      return data || [];
+    } catch (error) {
+      console.error('Network error fetching endpoint versions:', error);
+      return [];
+    }
+  }, [user]);
+
+  // Snapshot the endpoint's saved configuration as the next version number
+  const publishVersion = async (endpointId: string, notes: string): Promise<EndpointVersion | null> => {
+    if (!user) return null;
+
+    try {
+      const { data: config, error: configError } = await supabase
+        .from('api_endpoints')
+        .select(VERSION_SNAPSHOT_COLUMNS)
+        .eq('id', endpointId)
+        .single();
+
+      if (configError) {
+        console.error('Error reading endpoint configuration:', configError);
+        return null;
+      }
+
+      const { data: latest } = await supabase
+        .from('api_endpoint_versions')
+        .select('version')
+        .eq('endpoint_id', endpointId)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { data, error } = await supabase
+        .from('api_endpoint_versions')
+        .insert([{
+          endpoint_id: endpointId,
+          user_id: user.id,
+          version: (latest?.version || 0) + 1,
+          config,
+          notes: notes.trim() || null,
+        }])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error publishing endpoint version:', error);
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Network error publishing endpoint version:', error);
+      return null;
+    }
+  };
+
+  const updateSchedule = async (id: string, schedule: Pick<EndpointVersion, 'deprecated_at' | 'sunset_at'>) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('api_endpoint_versions')
+        .update(schedule)
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error updating version schedule:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error updating version schedule:', error);
+      return false;
+    }
+  };
+
+  const deleteVersion = async (id: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('api_endpoint_versions')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error deleting endpoint version:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error deleting endpoint version:', error);
+      return false;
+    }
+  };
+
+  return {
+    fetchVersions,
+    publishVersion,
+    updateSchedule,
+    deleteVersion,
+  };
+};
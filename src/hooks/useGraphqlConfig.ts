@@ -0,0 +1,56 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { GraphqlConfig } from '../utils/graphql';
+
+// Whether and how the project's schemas are served over GraphQL
+export const useGraphqlConfig = () => {
+  const { user } = useAuth();
+
+  const fetchGraphqlConfig = useCallback(async (projectId: string): Promise<GraphqlConfig | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('graphql_config')
+        .eq('id', projectId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching GraphQL settings:', error);
+        return null;
+      }
+      return data?.graphql_config || null;
+    } catch (error) {
+      console.error('Network error fetching GraphQL settings:', error);
+      return null;
+    }
+  }, [user]);
+
+  const saveGraphqlConfig = async (projectId: string, config: GraphqlConfig) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .update({ graphql_config: config })
+        .eq('id', projectId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error saving GraphQL settings:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error saving GraphQL settings:', error);
+      return false;
+    }
+  };
+
+  return {
+    fetchGraphqlConfig,
+    saveGraphqlConfig,
+  };
+};
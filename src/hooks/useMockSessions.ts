@@ -0,0 +1,79 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { MockSession } from '../utils/mockSessions';
+
+// Mock sessions of a schema; the proxy opens them, owners list and reset them. Resetting deletes
+// the session, so its next request starts again from the schema's data.
+export const useMockSessions = () => {
+  const { user } = useAuth();
+
+  const fetchSessions = useCallback(async (schemaId: string): Promise<MockSession[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('mock_sessions')
+        .select('id, schema_id, session_key, created_at, last_used_at, expires_at, mock_session_data(count)')
+        .eq('schema_id', schemaId)
+        .order('last_used_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching mock sessions:', error);
+        return [];
+      }
+      return data || [];
+    } catch (error) {
+      console.error('Network error fetching mock sessions:', error);
+      return [];
+    }
+  }, [user]);
+
+  const resetSession = async (id: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('mock_sessions')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error resetting mock session:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error resetting mock session:', error);
+      return false;
+    }
+  };
+
+  const resetAllSessions = async (schemaId: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('mock_sessions')
+        .delete()
+        .eq('schema_id', schemaId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error resetting mock sessions:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error resetting mock sessions:', error);
+      return false;
+    }
+  };
+
+  return {
+    fetchSessions,
+    resetSession,
+    resetAllSessions,
+  };
+};
@@ -0,0 +1,79 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { Recording } from '../utils/upstream';
+
+// Exchanges recorded by upstream endpoints; the proxy writes them, owners read and prune them
+export const useRecordings = () => {
+  const { user } = useAuth();
+
+  const fetchRecordings = useCallback(async (endpointId: string): Promise<Recording[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('api_recordings')
+        .select('*')
+        .eq('endpoint_id', endpointId)
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (error) {
+        console.error('Error fetching recordings:', error);
+        return [];
+      }
+      return data || [];
+    } catch (error) {
+      console.error('Network error fetching recordings:', error);
+      return [];
+    }
+  }, [user]);
+
+  const deleteRecording = async (id: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('api_recordings')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error deleting recording:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error deleting recording:', error);
+      return false;
+    }
+  };
+
+  const clearRecordings = async (endpointId: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('api_recordings')
+        .delete()
+        .eq('endpoint_id', endpointId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error clearing recordings:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error clearing recordings:', error);
+      return false;
+    }
+  };
+
+  return {
+    fetchRecordings,
+    deleteRecording,
+    clearRecordings,
+  };
+};
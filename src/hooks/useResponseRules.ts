@@ -0,0 +1,147 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+
+export type RuleConditionSource = 'header' | 'query' | 'body' | 'param' | 'api_key';
+export type RuleConditionOperator = 'equals' | 'not_equals' | 'contains' | 'matches' | 'exists' | 'not_exists';
+
+export interface RuleCondition {
+  source: RuleConditionSource;
+  key: string;
+  operator: RuleConditionOperator;
+  value: string;
+}
+
+export interface ResponseRule {
+  id: string;
+  endpoint_id: string;
+  name: string;
+  position: number;
+  enabled: boolean;
+  match_mode: 'all' | 'any';
+  conditions: RuleCondition[];
+  status_code: number;
+  headers: Record<string, string>;
+  response_type: 'body' | 'template';
+  body: unknown;
+  template_id: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Rules are edited as an ordered list; ids and positions are assigned on save
+export type ResponseRuleInput = Omit<ResponseRule, 'id' | 'endpoint_id' | 'position' | 'created_at' | 'updated_at'>;
+
+export const createEmptyRule = (): ResponseRuleInput => ({
+  name: '',
+  enabled: true,
+  match_mode: 'all',
+  conditions: [{ source: 'header', key: '', operator: 'equals', value: '' }],
+  status_code: 200,
+  headers: {},
+  response_type: 'body',
+  body: {},
+  template_id: null,
+});
+
+export const toRuleInput = (rule: ResponseRule): ResponseRuleInput => ({
+  name: rule.name,
+  enabled: rule.enabled,
+  match_mode: rule.match_mode,
+  conditions: rule.conditions || [],
+  status_code: rule.status_code,
+  headers: rule.headers || {},
+  response_type: rule.response_type,
+  body: rule.body,
+  template_id: rule.template_id,
+});
+
+// Describe problems that would stop a rule from being saved
+export const validateRules = (rules: ResponseRuleInput[]): string | null => {
+  for (const [index, rule] of rules.entries()) {
+    const label = rule.name || `Rule ${index + 1}`;
+    if (!Number.isInteger(rule.status_code) || rule.status_code < 100 || rule.status_code > 599) {
+      return `${label}: status code must be between 100 and 599`;
+    }
+    if (rule.response_type === 'template' && !rule.template_id) {
+      return `${label}: choose a template to return`;
+    }
+    const missingKey = rule.conditions.find(condition =>
+      ['header', 'query', 'param'].includes(condition.source) && !condition.key.trim()
+    );
+    if (missingKey) {
+      return `${label}: every header, query and route param condition needs a name`;
+    }
+  }
+  return null;
+};
+
+export const useResponseRules = () => {
+  const { user } = useAuth();
+
+  const fetchRules = useCallback(async (endpointId: string): Promise<ResponseRule[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('api_response_rules')
+        .select('*')
+        .eq('endpoint_id', endpointId)
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching response rules:', error);
+        return [];
+      }
+      return data || [];
+    } catch (error) {
+      console.error('Network error fetching response rules:', error);
+      return [];
+    }
+  }, [user]);
+
+  // Replace an endpoint's rules with the given ordered list
+  const saveRules = async (endpointId: string, rules: ResponseRuleInput[]) => {
+    if (!user) return false;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('api_response_rules')
+        .delete()
+        .eq('endpoint_id', endpointId)
+        .eq('user_id', user.id);
+
+      if (deleteError) {
+        console.error('Error replacing response rules:', deleteError);
+        return false;
+      }
+
+      if (rules.length === 0) return true;
+
+      const { error: insertError } = await supabase
+        .from('api_response_rules')
+        .insert(rules.map((rule, index) => ({
+          ...rule,
+          template_id: rule.response_type === 'template' ? rule.template_id : null,
+          body: rule.response_type === 'body' ? rule.body : null,
+          endpoint_id: endpointId,
+          user_id: user.id,
+          position: index,
+        })));
+
+      if (insertError) {
+        console.error('Error saving response rules:', insertError);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error saving response rules:', error);
+      return false;
+    }
+  };
+
+  return {
+    fetchRules,
+    saveRules,
+  };
+};
@@ -0,0 +1,80 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { SequencePosition } from '../utils/responseSequence';
+
+// Positions of clients in an endpoint's response sequence; the proxy advances them, owners reset them
+export const useSequencePositions = () => {
+  const { user } = useAuth();
+
+  const fetchPosition = useCallback(async (endpointId: string, clientKey: string): Promise<SequencePosition | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('api_sequence_positions')
+        .select('endpoint_id, client_key, calls, started_at, last_called_at')
+        .eq('endpoint_id', endpointId)
+        .eq('client_key', clientKey)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching sequence position:', error);
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Network error fetching sequence position:', error);
+      return null;
+    }
+  }, [user]);
+
+  const resetPosition = async (endpointId: string, clientKey: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('api_sequence_positions')
+        .delete()
+        .eq('endpoint_id', endpointId)
+        .eq('client_key', clientKey)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error resetting sequence position:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error resetting sequence position:', error);
+      return false;
+    }
+  };
+
+  const resetAllPositions = async (endpointId: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('api_sequence_positions')
+        .delete()
+        .eq('endpoint_id', endpointId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error resetting sequence positions:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error resetting sequence positions:', error);
+      return false;
+    }
+  };
+
+  return {
+    fetchPosition,
+    resetPosition,
+    resetAllPositions,
+  };
+};
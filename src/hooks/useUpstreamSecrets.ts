@@ -0,0 +1,61 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { UpstreamHeaders } from '../utils/upstream';
+
+// Headers the proxy adds to upstream requests; kept out of the endpoint row, which public endpoints expose
+export const useUpstreamSecrets = () => {
+  const { user } = useAuth();
+
+  const fetchUpstreamHeaders = useCallback(async (endpointId: string): Promise<UpstreamHeaders> => {
+    if (!user) return {};
+
+    try {
+      const { data, error } = await supabase
+        .from('api_upstream_secrets')
+        .select('headers')
+        .eq('endpoint_id', endpointId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching upstream headers:', error);
+        return {};
+      }
+      return data?.headers || {};
+    } catch (error) {
+      console.error('Network error fetching upstream headers:', error);
+      return {};
+    }
+  }, [user]);
+
+  // No headers removes the endpoint's row
+  const saveUpstreamHeaders = async (endpointId: string, headers: UpstreamHeaders) => {
+    if (!user) return false;
+
+    try {
+      const { error } = Object.keys(headers).length > 0
+        ? await supabase
+            .from('api_upstream_secrets')
+            .upsert({ endpoint_id: endpointId, user_id: user.id, headers }, { onConflict: 'endpoint_id' })
+        : await supabase
+            .from('api_upstream_secrets')
+            .delete()
+            .eq('endpoint_id', endpointId)
+            .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error saving upstream headers:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error saving upstream headers:', error);
+      return false;
+    }
+  };
+
+  return {
+    fetchUpstreamHeaders,
+    saveUpstreamHeaders,
+  };
+};
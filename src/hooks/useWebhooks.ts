@@ -0,0 +1,165 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { Webhook, WebhookDelivery, WebhookInput } from '../utils/webhooks';
+
+// Deliveries shown per webhook in the delivery log
+const DELIVERY_LOG_LIMIT = 50;
+
+// Outbound webhooks of a project. Deliveries are queued by a database trigger and sent by the
+// webhooks function, which this hook calls to send, test-fire and redeliver.
+export const useWebhooks = () => {
+  const { user } = useAuth();
+
+  const fetchWebhooks = useCallback(async (projectId: string): Promise<Webhook[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('webhooks')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching webhooks:', error);
+        return [];
+      }
+      return data || [];
+    } catch (error) {
+      console.error('Network error fetching webhooks:', error);
+      return [];
+    }
+  }, [user]);
+
+  const fetchDeliveries = useCallback(async (webhookId: string): Promise<WebhookDelivery[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('webhook_id', webhookId)
+        .order('created_at', { ascending: false })
+        .limit(DELIVERY_LOG_LIMIT);
+
+      if (error) {
+        console.error('Error fetching webhook deliveries:', error);
+        return [];
+      }
+      return data || [];
+    } catch (error) {
+      console.error('Network error fetching webhook deliveries:', error);
+      return [];
+    }
+  }, [user]);
+
+  const addWebhook = async (projectId: string, input: WebhookInput): Promise<Webhook | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('webhooks')
+        .insert([{ ...input, project_id: projectId, user_id: user.id }])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error adding webhook:', error);
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Network error adding webhook:', error);
+      return null;
+    }
+  };
+
+  const updateWebhook = async (id: string, input: WebhookInput): Promise<Webhook | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('webhooks')
+        .update(input)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating webhook:', error);
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Network error updating webhook:', error);
+      return null;
+    }
+  };
+
+  const deleteWebhook = async (id: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('webhooks')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error deleting webhook:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('Network error deleting webhook:', error);
+      return false;
+    }
+  };
+
+  // The function answers test-fires and redeliveries with the logged delivery
+  const invokeWebhooks = async (action: 'test' | 'redeliver', body: Record<string, string>): Promise<WebhookDelivery | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase.functions.invoke(`webhooks/${action}`, { body });
+      if (error) {
+        console.error(`Error sending webhook ${action}:`, error);
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error(`Network error sending webhook ${action}:`, error);
+      return null;
+    }
+  };
+
+  const testWebhook = (webhookId: string) => invokeWebhooks('test', { webhook_id: webhookId });
+
+  const redeliver = (deliveryId: string) => invokeWebhooks('redeliver', { delivery_id: deliveryId });
+
+  // Send the project's queued deliveries, e.g. right after DataManager changed a row
+  const deliverPending = useCallback(async (projectId: string) => {
+    if (!user) return;
+
+    try {
+      const { error } = await supabase.functions.invoke('webhooks/deliver', { body: { project_id: projectId } });
+      if (error) console.error('Error delivering webhooks:', error);
+    } catch (error) {
+      console.error('Network error delivering webhooks:', error);
+    }
+  }, [user]);
+
+  return {
+    fetchWebhooks,
+    fetchDeliveries,
+    addWebhook,
+    updateWebhook,
+    deleteWebhook,
+    testWebhook,
+    redeliver,
+    deliverPending,
+  };
+};
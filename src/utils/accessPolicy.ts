@@ -0,0 +1,86 @@
+import { parseCidr } from '../../supabase/functions/_shared/cidr.ts';
+
+// Mirrors the access policy enforced by the api-proxy function (supabase/functions/_shared/accessPolicy.ts)
+export interface AccessPolicy {
+  allowed_origins?: string[] | null;
+  allowed_headers?: string[] | null;
+  allow_credentials?: boolean | null;
+  ip_allowlist?: string[] | null;
+  ip_denylist?: string[] | null;
+}
+
+export type AccessPolicyListField = 'allowed_origins' | 'allowed_headers' | 'ip_allowlist' | 'ip_denylist';
+
+export const ACCESS_POLICY_LISTS: { field: AccessPolicyListField; label: string; placeholder: string; description: string }[] = [
+  {
+    field: 'allowed_origins',
+    label: 'Allowed origins',
+    placeholder: 'https://app.example.com\nhttps://*.example.com',
+    description: 'Browser origins that may call the endpoint. Empty allows any origin.',
+  },
+  {
+    field: 'allowed_headers',
+    label: 'Extra allowed headers',
+    placeholder: 'x-tenant-id',
+    description: 'Request headers browsers may send beyond the ones the proxy always accepts.',
+  },
+  {
+    field: 'ip_allowlist',
+    label: 'IP allowlist',
+    placeholder: '203.0.113.0/24\n2001:db8::/32',
+    description: 'Only these addresses or CIDR ranges are served. Empty allows every address.',
+  },
+  {
+    field: 'ip_denylist',
+    label: 'IP denylist',
+    placeholder: '198.51.100.7',
+    description: 'Addresses or CIDR ranges that are always refused, even when allowlisted.',
+  },
+];
+
+const ORIGIN_PATTERN = /^(\*|[a-z][a-z0-9+.-]*:\/\/[^/\s]+)$/i;
+const HEADER_PATTERN = /^[A-Za-z0-9-]+$/;
+
+// One entry per line or comma
+export const parsePolicyList = (text: string): string[] =>
+  text.split(/[\n,]/).map(entry => entry.trim()).filter(Boolean);
+
+// Drop empty fields; null when the policy no longer restricts anything, so the proxy skips it
+export const normalizeAccessPolicy = (policy: AccessPolicy | null | undefined): AccessPolicy | null => {
+  const normalized: AccessPolicy = {};
+  for (const { field } of ACCESS_POLICY_LISTS) {
+    if (policy?.[field]?.length) normalized[field] = policy[field];
+  }
+  if (policy?.allow_credentials) normalized.allow_credentials = true;
+  return Object.keys(normalized).length > 0 ? normalized : null;
+};
+
+export const validateAccessPolicy = (policy: AccessPolicy | null | undefined): string | null => {
+  const badOrigin = policy?.allowed_origins?.find(origin => !ORIGIN_PATTERN.test(origin));
+  if (badOrigin) return `"${badOrigin}" is not an origin; use scheme://host[:port] without a path`;
+
+  const badHeader = policy?.allowed_headers?.find(header => !HEADER_PATTERN.test(header));
+  if (badHeader) return `"${badHeader}" is not a valid header name`;
+
+  const badRange = [...(policy?.ip_allowlist || []), ...(policy?.ip_denylist || [])].find(range => !parseCidr(range));
+  if (badRange) return `"${badRange}" is not an IP address or CIDR range`;
+
+  if (policy?.allow_credentials && policy.allowed_origins?.includes('*')) {
+    return 'Credentials can only be allowed for listed origins, not "*"';
+  }
+  return null;
+};
+
+// Short human-readable summary, e.g. "2 origins, credentials, 1 allowed range"
+export const describeAccessPolicy = (policy: AccessPolicy | null | undefined): string[] => {
+  const parts: string[] = [];
+  const count = (list: string[] | null | undefined, noun: string) => {
+    if (list?.length) parts.push(`${list.length} ${noun}${list.length === 1 ? '' : 's'}`);
+  };
+  count(policy?.allowed_origins, 'origin');
+  count(policy?.allowed_headers, 'extra header');
+  if (policy?.allow_credentials) parts.push('credentials');
+  count(policy?.ip_allowlist, 'allowed range');
+  count(policy?.ip_denylist, 'denied range');
+  return parts;
+};
@@ -0,0 +1,22 @@
+import { ApiKeyStatus } from '../hooks/useApiKeys';
+
+export const KEY_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never', days: null },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+];
+
+export const KEY_STATUS_STYLES: Record<ApiKeyStatus, string> = {
+  active: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  rotating: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  expired: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  revoked: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+export const expiryFromDays = (days: number | null): string | null =>
+  days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null;
+
+export const formatKeyDate = (value: string | null, fallback = 'never'): string =>
+  value ? new Date(value).toLocaleString() : fallback;
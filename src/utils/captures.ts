@@ -0,0 +1,90 @@
+// Mirrors the catcher settings and captured requests of the api-proxy function (supabase/functions/api-proxy/catcher.ts)
+export interface CatcherConfig {
+  status?: number;
+  headers?: Record<string, string>;
+  // Rendered like a template; unset answers { received: true, capture_id }
+  body?: unknown;
+}
+
+// A request received by a catcher endpoint
+export interface Capture {
+  id: string;
+  endpoint_id: string;
+  project_id: string | null;
+  method: string;
+  path: string;
+  query: Record<string, string | string[]>;
+  headers: Record<string, string>;
+  body: string | null;
+  body_encoding: 'text' | 'base64';
+  body_size: number;
+  ip: string | null;
+  response_status: number;
+  created_at: string;
+}
+
+// The webhooks function's answer to a replay (supabase/functions/webhooks/replay.ts)
+export interface ReplayResult {
+  url: string;
+  status: number | null;
+  headers: Record<string, string>;
+  body: string | null;
+  error: string | null;
+  duration_ms: number;
+}
+
+export const DEFAULT_CATCHER_CONFIG: CatcherConfig = { status: 200 };
+
+// Bodies over this size are counted but not stored
+export const MAX_CAPTURED_BYTES = 1024 * 1024;
+
+export const validateCatcherConfig = (config: CatcherConfig | null | undefined): string | null => {
+  const status = config?.status ?? 200;
+  if (!Number.isInteger(status) || status < 100 || status > 599) return 'Response status must be between 100 and 599';
+  return null;
+};
+
+// One line summary for endpoint cards and docs
+export const describeCatcher = (config: CatcherConfig | null | undefined) =>
+  `Any method, answered with ${config?.status ?? 200} and ${config?.body === undefined ? 'the capture id' : 'a custom body'}`;
+
+export const validateReplayUrl = (value: string): string | null => {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'The URL must start with http:// or https://';
+  } catch {
+    return 'Enter a valid URL, e.g. https://example.com/hooks';
+  }
+  return null;
+};
+
+export const formatQuery = (query: Capture['query']) => {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      params.append(name, item);
+    }
+  }
+  return params.toString();
+};
+
+export const describeCapture = (capture: Capture) => {
+  const query = formatQuery(capture.query);
+  return `${capture.method} ${capture.path}${query ? `?${query}` : ''}`;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Captured bodies become templates only when they are JSON
+export const parseCapturedJson = (capture: Capture): { ok: true; data: unknown } | { ok: false } => {
+  if (!capture.body || capture.body_encoding !== 'text') return { ok: false };
+  try {
+    return { ok: true, data: JSON.parse(capture.body) };
+  } catch {
+    return { ok: false };
+  }
+};
@@ -0,0 +1,126 @@
+// Mirrors the channel settings used by the websocket function (supabase/functions/websocket/channels.ts)
+export interface ScriptStep {
+  delay_ms: number;
+  message: unknown;
+}
+
+export type RuleOperator = 'equals' | 'contains' | 'matches' | 'exists';
+
+export interface ChannelRule {
+  name: string;
+  enabled: boolean;
+  path?: string;
+  operator: RuleOperator;
+  value?: string;
+  reply: unknown;
+  target: 'sender' | 'broadcast';
+  delay_ms?: number;
+}
+
+export type ChannelFallback = 'echo' | 'broadcast' | 'none';
+
+export interface Channel {
+  id: string;
+  project_id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  is_public: boolean;
+  script: ScriptStep[];
+  script_loop: boolean;
+  rules: ChannelRule[];
+  fallback: ChannelFallback;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ChannelInput = Pick<Channel, 'name' | 'description' | 'is_public' | 'script' | 'script_loop' | 'rules' | 'fallback'>;
+
+export const CHANNEL_FALLBACKS: { value: ChannelFallback; label: string; description: string }[] = [
+  { value: 'echo', label: 'Echo', description: 'Send the message back to its sender' },
+  { value: 'broadcast', label: 'Broadcast', description: 'Send the message to every connected client, sender included' },
+  { value: 'none', label: 'Ignore', description: 'Send nothing' },
+];
+
+export const RULE_OPERATORS: { value: RuleOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'contains', label: 'contains' },
+  { value: 'matches', label: 'matches regex' },
+  { value: 'exists', label: 'exists' },
+];
+
+export const CHANNEL_NAME_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+export const DEFAULT_CHANNEL_INPUT: ChannelInput = {
+  name: '',
+  description: '',
+  is_public: true,
+  script: [{ delay_ms: 0, message: { type: 'welcome', channel: '{{params.channel}}' } }],
+  script_loop: false,
+  rules: [],
+  fallback: 'echo',
+};
+
+export const createChannelRule = (name: string): ChannelRule => ({
+  name,
+  enabled: true,
+  path: 'type',
+  operator: 'equals',
+  value: 'ping',
+  reply: { type: 'pong', at: '{{now}}' },
+  target: 'sender',
+});
+
+export const createScriptStep = (): ScriptStep => ({ delay_ms: 1000, message: { type: 'tick', at: '{{now}}' } });
+
+export const toChannelInput = (channel: Channel): ChannelInput => ({
+  name: channel.name,
+  description: channel.description,
+  is_public: channel.is_public,
+  script: channel.script || [],
+  script_loop: channel.script_loop,
+  rules: channel.rules || [],
+  fallback: channel.fallback,
+});
+
+export const validateChannel = (input: ChannelInput, takenNames: string[]): string | null => {
+  if (!CHANNEL_NAME_PATTERN.test(input.name)) return 'Name must be 1-64 letters, digits, dots, dashes or underscores';
+  if (takenNames.includes(input.name)) return `A channel named "${input.name}" already exists in this project`;
+  if (input.script.some(step => !Number.isInteger(step.delay_ms) || step.delay_ms < 0)) {
+    return 'Script delays must be whole milliseconds, 0 or more';
+  }
+  for (const rule of input.rules) {
+    if (!rule.name.trim()) return 'Every rule needs a name';
+    if (rule.operator !== 'exists' && !rule.value) return `Rule "${rule.name}" needs a value to compare with`;
+    if (rule.operator === 'matches') {
+      try {
+        new RegExp(rule.value || '');
+      } catch {
+        return `Rule "${rule.name}" has an invalid regular expression`;
+      }
+    }
+    if (rule.delay_ms !== undefined && (!Number.isInteger(rule.delay_ms) || rule.delay_ms < 0)) {
+      return `Rule "${rule.name}" delay must be whole milliseconds, 0 or more`;
+    }
+  }
+  return null;
+};
+
+// Private channels take the API key as a query parameter, since browsers cannot set WebSocket headers
+export const getChannelUrl = (projectId: string, name: string, apiKey?: string) => {
+  const base = String(import.meta.env.VITE_SUPABASE_URL || '').replace(/^http/, 'ws');
+  const url = `${base}/functions/v1/websocket/${projectId}/${encodeURIComponent(name)}`;
+  return apiKey ? `${url}?api_key=${encodeURIComponent(apiKey)}` : url;
+};
+
+// Messages are edited as text: valid JSON is stored as JSON, anything else as a plain string
+export const parseMessageText = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+export const formatMessageText = (message: unknown) =>
+  typeof message === 'string' ? message : JSON.stringify(message ?? null, null, 2);
@@ -0,0 +1,61 @@
+// Mirrors the chaos profile applied by the api-proxy function (supabase/functions/api-proxy/chaos.ts)
+export interface ChaosConfig {
+  enabled: boolean;
+  latency_min_ms: number;
+  latency_max_ms: number;
+  failure_rate: number;
+  failure_status_codes: number[];
+  truncate_rate: number;
+  timeout_rate: number;
+  timeout_ms: number;
+}
+
+export const CHAOS_STATUS_CODES = [429, 500, 502, 503];
+
+export const DEFAULT_CHAOS_CONFIG: ChaosConfig = {
+  enabled: false,
+  latency_min_ms: 0,
+  latency_max_ms: 0,
+  failure_rate: 0,
+  failure_status_codes: [500],
+  truncate_rate: 0,
+  timeout_rate: 0,
+  timeout_ms: 10000,
+};
+
+// Values accepted by the X-Mock-Scenario request header
+export const CHAOS_SCENARIOS: { name: string; description: string }[] = [
+  { name: 'default', description: "Apply this endpoint's profile even while it is disabled" },
+  { name: 'off', description: 'Skip all chaos for this request' },
+  { name: 'slow', description: '2–5 second latency' },
+  { name: 'flaky', description: 'Half of requests fail with 500 or 503' },
+  { name: 'rate-limited', description: 'Always 429' },
+  { name: 'server-error', description: 'Always 500' },
+  { name: 'unavailable', description: 'Always 503' },
+  { name: 'timeout', description: 'Hang for 10 seconds, then 504' },
+  { name: 'truncated', description: 'Cut the response body in half' },
+];
+
+const formatMs = (ms: number) => ms >= 1000 ? `${(ms / 1000).toFixed(ms % 1000 === 0 ? 0 : 1)}s` : `${ms}ms`;
+
+// Short human-readable summary of what an enabled profile does
+export const describeChaosProfile = (config: ChaosConfig | null | undefined): string[] => {
+  if (!config?.enabled) return [];
+
+  const parts: string[] = [];
+  if (config.latency_max_ms > 0) {
+    parts.push(config.latency_min_ms === config.latency_max_ms
+      ? `${formatMs(config.latency_max_ms)} latency`
+      : `${formatMs(config.latency_min_ms)}–${formatMs(config.latency_max_ms)} latency`);
+  }
+  if (config.failure_rate > 0) {
+    parts.push(`${config.failure_rate}% fail (${config.failure_status_codes.join('/')})`);
+  }
+  if (config.timeout_rate > 0) {
+    parts.push(`${config.timeout_rate}% time out after ${formatMs(config.timeout_ms)}`);
+  }
+  if (config.truncate_rate > 0) {
+    parts.push(`${config.truncate_rate}% truncated`);
+  }
+  return parts;
+};
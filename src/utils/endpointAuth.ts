@@ -0,0 +1,106 @@
+import { ApiEndpoint } from '../hooks/useApis';
+import {
+  DEFAULT_SIGNATURE_SKEW_SECONDS,
+  ENDPOINT_KEY_ID,
+  signRequest,
+  type SigningConfig,
+} from '../../supabase/functions/_shared/signing.ts';
+
+export { DEFAULT_SIGNATURE_SKEW_SECONDS, ENDPOINT_KEY_ID, signRequest };
+export type { SigningConfig };
+
+// How private endpoints authenticate, enforced by the api-proxy function
+export type AuthMode = 'api_key' | 'jwt' | 'hmac';
+
+export const AUTH_MODES: { value: AuthMode; label: string }[] = [
+  { value: 'api_key', label: 'API key (x-api-key header)' },
+  { value: 'jwt', label: 'JWT bearer token (Authorization header)' },
+  { value: 'hmac', label: 'HMAC-signed requests (X-Signature header)' },
+];
+
+type AuthFields = Pick<ApiEndpoint, 'is_public' | 'auth_mode'>;
+
+// null for public endpoints
+export const getAuthMode = (api: AuthFields): AuthMode | null =>
+  api.is_public ? null : api.auth_mode || 'api_key';
+
+export const describeAuth = (api: AuthFields): string => {
+  switch (getAuthMode(api)) {
+    case 'api_key': return 'API key required';
+    case 'jwt': return 'JWT bearer token required';
+    case 'hmac': return 'HMAC-signed request required';
+    default: return 'None required';
+  }
+};
+
+// Extra cURL arguments for the endpoint's auth mode; signed requests use $TS and $SIG from the signing snippet
+export const authCurlFlags = (api: AuthFields): string => {
+  switch (getAuthMode(api)) {
+    case 'api_key': return ' \\\n  -H "x-api-key: YOUR_API_KEY"';
+    case 'jwt': return ' \\\n  -H "Authorization: Bearer YOUR_JWT"';
+    case 'hmac': return ' \\\n  -H "X-Key-Id: YOUR_KEY_ID" \\\n  -H "X-Signature-Timestamp: $TS" \\\n  -H "X-Signature: $SIG"';
+    default: return '';
+  }
+};
+
+// Header lines for fetch() samples
+export const authFetchHeaders = (api: AuthFields): string[] => {
+  switch (getAuthMode(api)) {
+    case 'api_key': return ["'x-api-key': 'YOUR_API_KEY'"];
+    case 'jwt': return ["'Authorization': 'Bearer YOUR_JWT'"];
+    case 'hmac': return ["'X-Key-Id': KEY_ID", "'X-Signature-Timestamp': timestamp", "'X-Signature': signature"];
+    default: return [];
+  }
+};
+
+export const SIGNING_STEPS = [
+  'Take the current Unix time in seconds as the timestamp.',
+  'Build the string to sign: the HTTP method, the path (route plus any query string), the timestamp and the raw request body, joined by newlines. GET requests sign an empty body.',
+  'Compute HMAC-SHA256 of that string with your key\'s signing secret and hex-encode it.',
+  'Send X-Key-Id (the key id, or "endpoint" for the endpoint\'s own API key), X-Signature-Timestamp and X-Signature.',
+];
+
+export const signingCurlSnippet = (route: string, skewSeconds: number) =>
+  `# Signatures are valid for ${skewSeconds} seconds either side of the timestamp
+TS=$(date +%s)
+SIG=$(printf 'GET\\n%s\\n%s\\n' "${route}" "$TS" | openssl dgst -sha256 -hmac "YOUR_SIGNING_SECRET" | sed 's/^.* //')`;
+
+export const signingJavaScriptSample = (baseUrl: string, route: string) =>
+  `import { createHmac } from 'node:crypto';
+
+const KEY_ID = 'YOUR_KEY_ID';
+const SIGNING_SECRET = 'YOUR_SIGNING_SECRET';
+
+const method = 'GET';
+const path = '${route}';
+const body = ''; // the exact JSON string sent for POST, PUT and PATCH
+const timestamp = Math.floor(Date.now() / 1000).toString();
+const signature = createHmac('sha256', SIGNING_SECRET)
+  .update(\`\${method}\\n\${path}\\n\${timestamp}\\n\${body}\`)
+  .digest('hex');
+
+const response = await fetch('${baseUrl}' + path, {
+  method,
+  headers: {
+    'X-Key-Id': KEY_ID,
+    'X-Signature-Timestamp': timestamp,
+    'X-Signature': signature
+  }
+});`;
+
+export const signingPythonSample = (baseUrl: string, route: string) =>
+  `import hashlib, hmac, time, requests
+
+KEY_ID = "YOUR_KEY_ID"
+SIGNING_SECRET = "YOUR_SIGNING_SECRET"
+
+method, path, body = "GET", "${route}", ""
+timestamp = str(int(time.time()))
+message = f"{method}\\n{path}\\n{timestamp}\\n{body}"
+signature = hmac.new(SIGNING_SECRET.encode(), message.encode(), hashlib.sha256).hexdigest()
+
+response = requests.request(method, "${baseUrl}" + path, data=body or None, headers={
+    "X-Key-Id": KEY_ID,
+    "X-Signature-Timestamp": timestamp,
+    "X-Signature": signature,
+})`;
@@ -0,0 +1,67 @@
+// Mirrors the versioned endpoint fields read by the api-proxy function (supabase/functions/api-proxy/versioning.ts).
+// The joins match the proxy's own select, so a snapshot can stand in for the live endpoint.
+export const VERSION_SNAPSHOT_COLUMNS = `
+  json_data,
+  data_type,
+  schema_id,
+  template_id,
+  item_key_field,
+  chaos_config,
+  response_status,
+  response_headers,
+  content_type,
+  cache_control,
+  response_formats,
+  upstream_config,
+  stream_config,
+  catcher_config,
+  response_sequence,
+  json_templates!template_id(id, json_data, updated_at),
+  api_schemas!schema_id(id, fields, updated_at),
+  api_response_rules(id, name, position, enabled, match_mode, conditions, status_code, headers, response_type, body, template_id, json_templates!template_id(json_data))
+`;
+
+export interface EndpointVersion {
+  id: string;
+  endpoint_id: string;
+  version: number;
+  config: Record<string, unknown>;
+  notes: string | null;
+  deprecated_at: string | null;
+  sunset_at: string | null;
+  created_at: string;
+}
+
+export type VersionStatus = 'current' | 'available' | 'deprecated' | 'retired';
+
+export const VERSION_STATUS_STYLES: Record<VersionStatus, string> = {
+  current: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  available: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  deprecated: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  retired: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+// Retired wins over current: a sunset version answers 410 even when it is the default
+export const getVersionStatus = (version: EndpointVersion, currentVersion: number | null | undefined, now = Date.now()): VersionStatus => {
+  if (version.sunset_at && new Date(version.sunset_at).getTime() <= now) return 'retired';
+  if (version.version === currentVersion) return 'current';
+  if (version.deprecated_at && new Date(version.deprecated_at).getTime() <= now) return 'deprecated';
+  return 'available';
+};
+
+export const validateVersionSchedule = (deprecatedAt: string | null, sunsetAt: string | null): string | null => {
+  if (sunsetAt && !deprecatedAt) return 'Deprecate a version before scheduling its sunset';
+  if (deprecatedAt && sunsetAt && new Date(sunsetAt).getTime() < new Date(deprecatedAt).getTime()) {
+    return 'Sunset must be on or after the deprecation date';
+  }
+  return null;
+};
+
+// Dates are edited as YYYY-MM-DD and stored as midnight UTC
+export const toDateInput = (timestamp: string | null) => (timestamp ? timestamp.slice(0, 10) : '');
+
+export const fromDateInput = (value: string) => (value ? new Date(`${value}T00:00:00Z`).toISOString() : null);
+
+// The /vN prefix goes in front of the route, before the project slug
+export const getVersionedRoute = (route: string, version: number) =>
+  `/v${version}${route.startsWith('/') ? route : `/${route}`}`;
@@ -0,0 +1,44 @@
+import {
+  buildGraphqlModel,
+  type GraphqlCollection,
+  type GraphqlModel,
+} from '../../supabase/functions/_shared/graphqlSchema.ts';
+import { ApiSchema } from '../hooks/useSchemas';
+
+// Mirrors the project setting read by the graphql function (supabase/functions/graphql/index.ts)
+export interface GraphqlConfig {
+  enabled: boolean;
+  is_public: boolean;
+}
+
+export const DEFAULT_GRAPHQL_CONFIG: GraphqlConfig = { enabled: false, is_public: true };
+
+export const getGraphqlUrl = (projectId: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/graphql/${projectId}`;
+
+// The same SDL the graphql function serves; null when the project has no schemas to expose
+export const buildProjectGraphql = (schemas: ApiSchema[]): GraphqlModel | null =>
+  schemas.length > 0 ? buildGraphqlModel(schemas) : null;
+
+export const sampleGraphqlQuery = (collection: GraphqlCollection) => {
+  const fields = ['id', ...collection.fields.filter(field => field.type !== 'object').slice(0, 3).map(field => field.name)];
+
+  return `query {
+  ${collection.listField}(limit: 10) {
+    totalCount
+    items {
+${fields.map(name => `      ${name}`).join('\n')}
+    }
+  }
+}`;
+};
+
+export const graphqlCurlSnippet = (projectId: string, config: GraphqlConfig, query: string) => {
+  const body = JSON.stringify({ query: query.replace(/\s+/g, ' ').trim() });
+  return [
+    `curl -X POST "${getGraphqlUrl(projectId)}"`,
+    `  -H "Content-Type: application/json"`,
+    ...(config.is_public ? [] : [`  -H "x-api-key: YOUR_PROJECT_KEY"`]),
+    `  -d '${body}'`,
+  ].join(' \\\n');
+};
@@ -0,0 +1,61 @@
+import { signHs256Jwt, type JwtAlgorithm, type JwtClaims, type JwtConfig } from '../../supabase/functions/_shared/jwt.ts';
+
+export type { JwtAlgorithm, JwtClaims, JwtConfig };
+
+export const JWT_ALGORITHMS: { value: JwtAlgorithm; label: string }[] = [
+  { value: 'HS256', label: 'HS256 (shared secret)' },
+  { value: 'RS256', label: 'RS256 (RSA public key / JWKS)' },
+  { value: 'ES256', label: 'ES256 (P-256 public key / JWKS)' },
+];
+
+export const DEFAULT_JWT_CONFIG: JwtConfig = {
+  algorithm: 'HS256',
+  secret: '',
+  clock_skew_seconds: 30,
+  expose_claims: false,
+};
+
+export const TOKEN_LIFETIMES: { label: string; seconds: number }[] = [
+  { label: '5 minutes', seconds: 5 * 60 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '24 hours', seconds: 24 * 60 * 60 },
+  { label: 'Already expired', seconds: -60 },
+];
+
+export const generateJwtSecret = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+// Returns an error message when the endpoint could never accept a token
+export const validateJwtConfig = (config: JwtConfig | null | undefined): string | null => {
+  if (!config) return 'Configure how bearer tokens are verified';
+  if (config.algorithm === 'HS256') {
+    return config.secret?.trim() ? null : 'HS256 needs a shared secret';
+  }
+  return config.public_key?.trim() ? null : `${config.algorithm} needs a PEM public key or JWKS`;
+};
+
+// Mint a token the endpoint will accept, with iss/aud taken from its config. Only HS256 endpoints
+// can be minted for, since the tester never holds an RSA or EC private key.
+export const mintTestToken = (config: JwtConfig, claims: JwtClaims, lifetimeSeconds: number) => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  return signHs256Jwt({
+    ...(config.issuer ? { iss: config.issuer } : {}),
+    ...(config.audience ? { aud: config.audience } : {}),
+    iat: issuedAt,
+    exp: issuedAt + lifetimeSeconds,
+    ...claims,
+  }, config.secret || '');
+};
+
+// The sub claim of a token, read without verifying it; the proxy tracks JWT clients by subject
+export const readTokenSubject = (token: string): string | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, '=')));
+    return typeof claims.sub === 'string' ? claims.sub : null;
+  } catch {
+    return null;
+  }
+};
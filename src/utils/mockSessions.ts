@@ -0,0 +1,35 @@
+// Mirrors the mock sessions kept by the api-proxy function (supabase/functions/api-proxy/sessions.ts)
+export const SESSION_HEADER = 'X-Mock-Session';
+
+export const DEFAULT_SESSION_TTL_MINUTES = 60;
+
+// One week, as enforced by the api_endpoints.session_ttl_minutes check
+export const MAX_SESSION_TTL_MINUTES = 10080;
+
+export interface MockSession {
+  id: string;
+  schema_id: string;
+  session_key: string;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  // Rows in the session's copy of the data, from the mock_session_data(count) join
+  mock_session_data?: { count: number }[];
+}
+
+export const validateSessionTtl = (minutes: number | null): string | null => {
+  if (minutes === null) return null;
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_SESSION_TTL_MINUTES) {
+    return `Session lifetime must be a whole number of minutes between 1 and ${MAX_SESSION_TTL_MINUTES}`;
+  }
+  return null;
+};
+
+export const getSessionItemCount = (session: MockSession) => session.mock_session_data?.[0]?.count ?? 0;
+
+// Expired sessions linger until the schema's next session request discards them
+export const isSessionExpired = (session: MockSession, now = Date.now()) =>
+  new Date(session.expires_at).getTime() <= now;
+
+export const formatSessionTtl = (minutes: number) =>
+  minutes % 1440 === 0 ? `${minutes / 1440}d` : minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
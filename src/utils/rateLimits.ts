@@ -0,0 +1,32 @@
+// Mirrors the rate limit configuration enforced by the api-proxy function (supabase/functions/api-proxy/rateLimiter.ts)
+export interface RateLimitWindows {
+  per_second?: number | null;
+  per_minute?: number | null;
+  per_day?: number | null;
+}
+
+export interface RateLimitConfig {
+  endpoint?: RateLimitWindows | null;
+  per_key?: RateLimitWindows | null;
+}
+
+export const RATE_LIMIT_WINDOWS: { field: keyof RateLimitWindows; label: string; unit: string }[] = [
+  { field: 'per_second', label: 'Per second', unit: 's' },
+  { field: 'per_minute', label: 'Per minute', unit: 'min' },
+  { field: 'per_day', label: 'Per day', unit: 'day' },
+];
+
+const describeWindows = (windows: RateLimitWindows | null | undefined): string[] =>
+  RATE_LIMIT_WINDOWS
+    .filter(window => (windows?.[window.field] || 0) > 0)
+    .map(window => `${windows?.[window.field]}/${window.unit}`);
+
+// Short human-readable summary, e.g. "100/min per endpoint, 10/s per key"
+export const describeRateLimits = (config: RateLimitConfig | null | undefined): string[] => {
+  const parts: string[] = [];
+  const endpoint = describeWindows(config?.endpoint);
+  const perKey = describeWindows(config?.per_key);
+  if (endpoint.length > 0) parts.push(`${endpoint.join(', ')} per endpoint`);
+  if (perKey.length > 0) parts.push(`${perKey.join(', ')} per key`);
+  return parts;
+};
@@ -0,0 +1,92 @@
+// Mirrors the response sequences played by the api-proxy function (supabase/functions/api-proxy/sequences.ts)
+export type SequenceMode = 'loop' | 'stick' | 'reset';
+
+export interface SequenceStep {
+  label?: string;
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface ResponseSequence {
+  enabled: boolean;
+  mode: SequenceMode;
+  reset_after_seconds?: number;
+  steps: SequenceStep[];
+}
+
+// How far a client has got, from api_sequence_positions
+export interface SequencePosition {
+  endpoint_id: string;
+  client_key: string;
+  calls: number;
+  started_at: string;
+  last_called_at: string;
+}
+
+export const MAX_SEQUENCE_STEPS = 20;
+
+export const DEFAULT_RESET_AFTER_SECONDS = 60;
+
+export const SEQUENCE_MODES: { value: SequenceMode; label: string; description: string }[] = [
+  { value: 'stick', label: 'Stick on last', description: 'After the last step, keep returning it' },
+  { value: 'loop', label: 'Loop', description: 'After the last step, start again from the first' },
+  { value: 'reset', label: 'Reset after', description: 'Keep returning the last step, then start over once the window since the first call has passed' },
+];
+
+export const createSequenceStep = (label = '', status = 200): SequenceStep => ({ label, status, body: {}, headers: {} });
+
+export const DEFAULT_RESPONSE_SEQUENCE: ResponseSequence = {
+  enabled: false,
+  mode: 'stick',
+  steps: [
+    { label: 'pending', status: 202, body: { status: 'pending' }, headers: { 'Retry-After': '1' } },
+    { label: 'pending', status: 202, body: { status: 'pending' }, headers: { 'Retry-After': '1' } },
+    { label: 'done', status: 200, body: { status: 'done' }, headers: {} },
+  ],
+};
+
+export const validateResponseSequence = (sequence: ResponseSequence | null): string | null => {
+  if (!sequence?.enabled) return null;
+  if (sequence.steps.length === 0) return 'Add at least one step to the sequence';
+  if (sequence.steps.length > MAX_SEQUENCE_STEPS) return `A sequence can have at most ${MAX_SEQUENCE_STEPS} steps`;
+  const badStep = sequence.steps.findIndex(step => !Number.isInteger(step.status) || step.status < 100 || step.status > 599);
+  if (badStep !== -1) return `Step ${badStep + 1}: status code must be between 100 and 599`;
+  if (sequence.mode === 'reset' && !(Number.isInteger(sequence.reset_after_seconds) && (sequence.reset_after_seconds as number) > 0)) {
+    return 'Choose how many seconds to wait before the sequence starts over';
+  }
+  return null;
+};
+
+export const getStepIndex = (sequence: ResponseSequence, previousCalls: number) => {
+  const count = sequence.steps.length;
+  return sequence.mode === 'loop' ? previousCalls % count : Math.min(previousCalls, count - 1);
+};
+
+// The step the client's next call will get, counting a passed reset window as a fresh start
+export const getNextStepIndex = (sequence: ResponseSequence, position: SequencePosition | null, now = Date.now()) => {
+  if (!position) return 0;
+  const windowPassed = sequence.mode === 'reset' && !!sequence.reset_after_seconds &&
+    new Date(position.started_at).getTime() + sequence.reset_after_seconds * 1000 <= now;
+  return windowPassed ? 0 : getStepIndex(sequence, position.calls);
+};
+
+export const describeStep = (step: SequenceStep, index: number) =>
+  `${index + 1}. ${step.label || `Step ${index + 1}`} (${step.status})`;
+
+// The client_key the proxy tracks a request under: its mock session, otherwise whoever authenticated it
+export const getSequenceClientKey = (
+  api: { is_public: boolean; auth_mode?: string },
+  sessionKey: string,
+  tokenSubject: string | null
+) => {
+  if (sessionKey.trim()) return `session:${sessionKey.trim()}`;
+  if (api.auth_mode === 'jwt' && !api.is_public) return tokenSubject ? `sub:${tokenSubject}` : 'anonymous';
+  return api.is_public ? 'anonymous' : 'key:endpoint';
+};
+
+export const describeSequenceMode = (sequence: ResponseSequence) => {
+  if (sequence.mode === 'loop') return 'then start again from the first';
+  if (sequence.mode === 'reset') return `then repeat the last until ${sequence.reset_after_seconds}s after the first call, and start over`;
+  return 'then keep returning the last';
+};
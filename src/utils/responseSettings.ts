@@ -0,0 +1,87 @@
+import { ApiEndpoint } from '../hooks/useApis';
+
+// Success statuses an endpoint can declare for its default response
+export const SUCCESS_STATUS_OPTIONS: { code: number; label: string }[] = [
+  { code: 200, label: 'OK' },
+  { code: 201, label: 'Created' },
+  { code: 202, label: 'Accepted' },
+  { code: 203, label: 'Non-Authoritative Information' },
+  { code: 204, label: 'No Content' },
+  { code: 206, label: 'Partial Content' },
+  { code: 301, label: 'Moved Permanently' },
+  { code: 302, label: 'Found' },
+  { code: 303, label: 'See Other' },
+  { code: 304, label: 'Not Modified' },
+  { code: 307, label: 'Temporary Redirect' },
+  { code: 308, label: 'Permanent Redirect' },
+];
+
+export const CONTENT_TYPE_OPTIONS = [
+  'application/json',
+  'application/problem+json',
+  'application/hal+json',
+  'application/vnd.api+json',
+  'text/plain',
+  'text/html',
+  'application/xml',
+  'text/csv',
+];
+
+export const COMMON_RESPONSE_HEADERS = ['Set-Cookie', 'Location', 'ETag', 'Content-Language', 'X-Request-Id'];
+
+export const DEFAULT_CONTENT_TYPE = 'application/json';
+
+export const CACHE_CONTROL_OPTIONS = [
+  'no-cache',
+  'no-store',
+  'public, max-age=60',
+  'public, max-age=300, stale-while-revalidate=60',
+  'private, max-age=60',
+];
+
+export const getStatusLabel = (code: number): string => {
+  const option = SUCCESS_STATUS_OPTIONS.find(status => status.code === code);
+  return option ? `${code} ${option.label}` : String(code);
+};
+
+export const getSuccessStatus = (api: Pick<ApiEndpoint, 'response_status'>): number => api.response_status || 200;
+
+export const getContentType = (api: Pick<ApiEndpoint, 'content_type'>): string => api.content_type || DEFAULT_CONTENT_TYPE;
+
+// Mirrors the formats the api-proxy function can serialise JSON data to (supabase/functions/api-proxy/formats.ts)
+export type ResponseFormat = 'json' | 'ndjson' | 'xml' | 'csv' | 'yaml';
+
+export const RESPONSE_FORMATS: { value: ResponseFormat; label: string; mediaType: string }[] = [
+  { value: 'json', label: 'JSON', mediaType: 'application/json' },
+  { value: 'ndjson', label: 'NDJSON', mediaType: 'application/x-ndjson' },
+  { value: 'xml', label: 'XML', mediaType: 'application/xml' },
+  { value: 'csv', label: 'CSV', mediaType: 'text/csv' },
+  { value: 'yaml', label: 'YAML', mediaType: 'application/yaml' },
+];
+
+// Formats the endpoint serves, in the proxy's preference order; the first is the default.
+// Only JSON content types are converted.
+export const getResponseFormats = (api: Pick<ApiEndpoint, 'response_formats' | 'content_type'>) =>
+  /[/+]json\b/i.test(getContentType(api))
+    ? RESPONSE_FORMATS.filter(format => !api.response_formats?.length || api.response_formats.includes(format.value))
+    : [];
+
+// Matches the api-proxy default: store, but revalidate with the ETag before every reuse
+export const getCacheControl = (api: Pick<ApiEndpoint, 'cache_control' | 'is_public'>): string =>
+  api.cache_control || (api.is_public ? 'no-cache' : 'private, no-cache');
+
+export const getDeclaredHeaders = (api: Pick<ApiEndpoint, 'response_headers'>): [string, string][] =>
+  Object.entries(api.response_headers || {});
+
+// Headers edited as "Name: value" lines, as in response rules and sequence steps
+export const formatHeaders = (headers: Record<string, string> | undefined) =>
+  Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+export const parseHeaders = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .map(line => line.split(':'))
+      .filter(([name, ...value]) => name.trim() && value.length > 0)
+      .map(([name, ...value]) => [name.trim(), value.join(':').trim()])
+  );
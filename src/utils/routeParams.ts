@@ -0,0 +1,62 @@
+// Route segments are static text, `:name` parameters or a single `*` wildcard
+const STATIC_SEGMENT = /^[a-zA-Z0-9\-_]+$/;
+const PARAM_SEGMENT = /^:[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+export interface RouteParam {
+  name: string;
+  wildcard: boolean;
+}
+
+export const getRouteParams = (route: string): RouteParam[] => {
+  return route
+    .split('/')
+    .filter(segment => segment === '*' || PARAM_SEGMENT.test(segment))
+    .map(segment => segment === '*'
+      ? { name: '*', wildcard: true }
+      : { name: segment.substring(1), wildcard: false });
+};
+
+export const validateRoute = (route: string): { isValid: boolean; error?: string } => {
+  const segments = route.split('/').filter(Boolean);
+  const seen = new Set<string>();
+
+  for (const segment of segments) {
+    if (segment === '*') {
+      if (seen.has('*')) {
+        return { isValid: false, error: 'A route can contain only one * wildcard' };
+      }
+      seen.add('*');
+      continue;
+    }
+
+    if (segment.startsWith(':')) {
+      if (!PARAM_SEGMENT.test(segment)) {
+        return { isValid: false, error: `"${segment}" is not a valid parameter name (use letters, numbers and underscores)` };
+      }
+      const name = segment.substring(1);
+      if (seen.has(name)) {
+        return { isValid: false, error: `Parameter :${name} is declared more than once` };
+      }
+      seen.add(name);
+      continue;
+    }
+
+    if (!STATIC_SEGMENT.test(segment)) {
+      return { isValid: false, error: 'Route can only contain letters, numbers, hyphens, underscores, forward slashes, :params and *' };
+    }
+  }
+
+  return { isValid: true };
+};
+
+// Build an example URL path by substituting sample values for each parameter
+export const getExampleRoute = (route: string): string => {
+  return route
+    .split('/')
+    .map(segment => {
+      if (segment === '*') return 'any/path';
+      if (PARAM_SEGMENT.test(segment)) return segment.substring(1) === 'id' ? '42' : `{${segment.substring(1)}}`;
+      return segment;
+    })
+    .join('/');
+};
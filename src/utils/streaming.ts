@@ -0,0 +1,101 @@
+// Mirrors the stream settings used by the api-proxy function (supabase/functions/api-proxy/streaming.ts)
+export interface StreamConfig {
+  source: StreamSource;
+  interval_ms: number;
+  event?: string | null;
+  generator?: unknown;
+  loop?: boolean;
+  max_events?: number | null;
+}
+
+export type StreamSource = 'template' | 'schema' | 'generator';
+
+export const STREAM_SOURCES: { value: StreamSource; label: string; description: string }[] = [
+  {
+    value: 'template',
+    label: 'Template',
+    description: "One event per element of a JSON template's array",
+  },
+  {
+    value: 'schema',
+    label: 'Schema rows',
+    description: "One event per row of a schema's data, oldest first",
+  },
+  {
+    value: 'generator',
+    label: 'Generator',
+    description: 'A JSON body with {{placeholders}} rendered for every event',
+  },
+];
+
+export const MIN_STREAM_INTERVAL_MS = 100;
+export const MAX_STREAM_INTERVAL_MS = 60000;
+
+// Streams are closed after this long; EventSource reconnects and resumes with Last-Event-ID
+export const MAX_STREAM_SECONDS = 120;
+
+export const DEFAULT_STREAM_GENERATOR = {
+  sequence: '{{index}}',
+  value: '{{faker.number.int 1 100}}',
+  at: '{{now}}',
+};
+
+export const DEFAULT_STREAM_CONFIG: StreamConfig = {
+  source: 'generator',
+  interval_ms: 1000,
+  generator: DEFAULT_STREAM_GENERATOR,
+};
+
+export const validateStreamConfig = (config: StreamConfig | null | undefined): string | null => {
+  if (!config) return 'Stream settings are required';
+  if (!Number.isInteger(config.interval_ms) || config.interval_ms < MIN_STREAM_INTERVAL_MS || config.interval_ms > MAX_STREAM_INTERVAL_MS) {
+    return `Interval must be between ${MIN_STREAM_INTERVAL_MS} and ${MAX_STREAM_INTERVAL_MS} ms`;
+  }
+  if (config.event && /[\r\n:]/.test(config.event)) return 'Event name must be one line without colons';
+  if (config.source === 'generator' && config.generator === undefined) return 'Generator body must be valid JSON';
+  if (config.max_events !== undefined && config.max_events !== null && (!Number.isInteger(config.max_events) || config.max_events < 1)) {
+    return 'Maximum events must be a positive whole number';
+  }
+  return null;
+};
+
+export const describeStream = (config: StreamConfig | null | undefined) => {
+  if (!config) return '';
+  const seconds = config.interval_ms / 1000;
+  const source = STREAM_SOURCES.find(option => option.value === config.source)?.label.toLowerCase() || config.source;
+  return `${config.event || 'message'} events from ${source} every ${seconds}s${config.max_events ? `, ${config.max_events} max` : ''}`;
+};
+
+// An event as received by the API tester
+export interface StreamEvent {
+  id: string | null;
+  event: string;
+  data: string;
+  receivedAt: number;
+}
+
+// Split buffered text/event-stream text into complete events; the unfinished rest is returned
+// so the next chunk can complete it. Comments and retry fields are skipped.
+export const parseEventStream = (buffer: string): { events: Omit<StreamEvent, 'receivedAt'>[]; rest: string } => {
+  const blocks = buffer.split(/\r\n\r\n|\n\n|\r\r/);
+  const rest = blocks.pop() ?? '';
+  const events: Omit<StreamEvent, 'receivedAt'>[] = [];
+
+  for (const block of blocks) {
+    let id: string | null = null;
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split(/\r\n|\n|\r/)) {
+      if (!line || line.startsWith(':')) continue;
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'id') id = value;
+      else if (field === 'event') event = value;
+      else if (field === 'data') data.push(value);
+    }
+    if (data.length > 0) events.push({ id, event, data: data.join('\n') });
+  }
+
+  return { events, rest };
+};
@@ -0,0 +1,36 @@
+import { MAX_REPEAT, MAX_REPEATED_ITEMS, hasPlaceholders, renderTemplate } from '../../supabase/functions/_shared/template.ts';
+import { listFakeGenerators } from '../../supabase/functions/_shared/fakeData.ts';
+
+export { hasPlaceholders };
+
+// Placeholder reference shown next to template editors
+export const TEMPLATE_SYNTAX: { syntax: string; description: string }[] = [
+  { syntax: '{{params.id}}', description: 'Route parameter captured from :id' },
+  { syntax: '{{request.query.name}}', description: 'Query string value' },
+  { syntax: "{{request.query.name || 'Guest'}}", description: 'Fallback when the value is missing' },
+  { syntax: '{{request.headers.x-tenant}}', description: 'Request header (lowercase name)' },
+  { syntax: '{{claims.sub}}', description: 'Verified JWT claim (JWT endpoints that expose claims)' },
+  { syntax: '{{faker.person.fullName}}', description: 'Fake data, generated offline' },
+  { syntax: '{{faker.number.int 1 100}}', description: 'Fake data with arguments' },
+  { syntax: '{{now}} / {{timestamp}}', description: 'Current ISO time / epoch milliseconds' },
+  { syntax: '{{uuid}}', description: 'Random UUID' },
+  { syntax: '["{{repeat 20}}", {...}]', description: `Repeat the next array element up to ${MAX_REPEAT} times, ${MAX_REPEATED_ITEMS} in total; {{index}} is its position` },
+];
+
+export const FAKER_GENERATORS = listFakeGenerators();
+
+// Sample request the preview renders against; the proxy uses the real request
+const PREVIEW_REQUEST = {
+  method: 'GET',
+  path: '/preview',
+  query: {},
+  headers: {},
+  body: null,
+};
+
+export const renderTemplatePreview = (
+  template: unknown,
+  params: Record<string, string> = {}
+): unknown => {
+  return renderTemplate(template, { params, request: PREVIEW_REQUEST });
+};
@@ -0,0 +1,76 @@
+// Mirrors the upstream settings used by the api-proxy function (supabase/functions/api-proxy/upstream.ts)
+export interface UpstreamConfig {
+  url: string;
+  mode: UpstreamMode;
+  forward_headers?: string[];
+  timeout_ms?: number;
+}
+
+export type UpstreamMode = 'record' | 'replay';
+
+export const UPSTREAM_MODES: { value: UpstreamMode; label: string; description: string }[] = [
+  {
+    value: 'record',
+    label: 'Record',
+    description: 'Forward every request to the upstream and store the response',
+  },
+  {
+    value: 'replay',
+    label: 'Replay',
+    description: 'Answer from stored responses without contacting the upstream',
+  },
+];
+
+// Forwarded when the endpoint doesn't list its own
+export const DEFAULT_FORWARD_HEADERS = ['accept', 'accept-language', 'content-type'];
+
+export const DEFAULT_UPSTREAM_TIMEOUT_MS = 10000;
+
+export const DEFAULT_UPSTREAM_CONFIG: UpstreamConfig = { url: '', mode: 'record' };
+
+// Headers added to every upstream request; stored apart from the endpoint in api_upstream_secrets,
+// which only the owner can read
+export type UpstreamHeaders = Record<string, string>;
+
+// A request/response pair captured in record mode
+export interface Recording {
+  id: string;
+  endpoint_id: string;
+  method: string;
+  path: string;
+  query: string;
+  request_headers: Record<string, string>;
+  request_body: string | null;
+  response_status: number;
+  response_headers: Record<string, string>;
+  response_body: string | null;
+  duration_ms: number | null;
+  created_at: string;
+}
+
+export const validateUpstreamConfig = (config: UpstreamConfig | null | undefined): string | null => {
+  if (!config?.url.trim()) return 'Upstream URL is required';
+  try {
+    const parsed = new URL(config.url.trim());
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return 'Upstream URL must use http or https';
+  } catch {
+    return 'Upstream URL is not a valid URL';
+  }
+  if (config.timeout_ms !== undefined && (!Number.isInteger(config.timeout_ms) || config.timeout_ms < 100 || config.timeout_ms > 30000)) {
+    return 'Timeout must be between 100 and 30000 ms';
+  }
+  return null;
+};
+
+// Recorded bodies become templates only when they are JSON
+export const parseRecordedJson = (recording: Recording): { ok: true; data: unknown } | { ok: false } => {
+  if (!recording.response_body) return { ok: false };
+  try {
+    return { ok: true, data: JSON.parse(recording.response_body) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+export const describeRecording = (recording: Recording) =>
+  `${recording.method} ${recording.path}${recording.query ? `?${recording.query}` : ''}`;
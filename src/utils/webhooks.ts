@@ -0,0 +1,113 @@
+// Mirrors the webhook tables and delivery settings used by supabase/functions/_shared/webhooks.ts
+export type WebhookEvent = 'created' | 'updated' | 'deleted';
+
+export type DeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed';
+
+export interface Webhook {
+  id: string;
+  project_id: string;
+  user_id: string;
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  // null sends changes of every schema in the project
+  schema_ids: string[] | null;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookInput = Pick<Webhook, 'name' | 'url' | 'events' | 'schema_ids' | 'enabled'>;
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event: string;
+  event_id: string;
+  payload: Record<string, unknown>;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  redelivery_of: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+export const WEBHOOK_EVENTS: { value: WebhookEvent; label: string; description: string }[] = [
+  { value: 'created', label: 'Created', description: 'A row was added' },
+  { value: 'updated', label: 'Updated', description: 'A row\'s data changed' },
+  { value: 'deleted', label: 'Deleted', description: 'A row was removed' },
+];
+
+export const DELIVERY_STATUS_STYLES: Record<DeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  delivering: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  succeeded: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+export const DEFAULT_WEBHOOK_INPUT: WebhookInput = {
+  name: '',
+  url: '',
+  events: ['created', 'updated', 'deleted'],
+  schema_ids: null,
+  enabled: true,
+};
+
+export const toWebhookInput = (webhook: Webhook): WebhookInput => ({
+  name: webhook.name,
+  url: webhook.url,
+  events: webhook.events,
+  schema_ids: webhook.schema_ids,
+  enabled: webhook.enabled,
+});
+
+export const validateWebhook = (input: WebhookInput): string | null => {
+  if (!input.name.trim()) return 'Give the webhook a name';
+  try {
+    const url = new URL(input.url);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'The URL must start with http:// or https://';
+  } catch {
+    return 'Enter a valid URL, e.g. https://example.com/hooks';
+  }
+  if (input.events.length === 0) return 'Choose at least one event';
+  if (input.schema_ids !== null && input.schema_ids.length === 0) return 'Choose at least one schema';
+  return null;
+};
+
+// What happens next to a delivery, for the delivery log
+export const describeDelivery = (delivery: WebhookDelivery) => {
+  switch (delivery.status) {
+    case 'succeeded':
+      return `Delivered after ${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`;
+    case 'failed':
+      return `Gave up after ${delivery.attempts} attempts`;
+    case 'delivering':
+      return 'Sending...';
+    case 'pending':
+      return delivery.attempts === 0
+        ? 'Waiting to be sent'
+        : `Attempt ${delivery.attempts + 1} of ${MAX_DELIVERY_ATTEMPTS} at ${new Date(delivery.next_attempt_at).toLocaleTimeString()}`;
+  }
+};
+
+// Receivers recompute this with the webhook secret to check a delivery came from us
+export const SIGNATURE_VERIFICATION_SAMPLE = `// Node.js
+const crypto = require('crypto');
+
+const timestamp = req.headers['x-webhook-timestamp'];
+const expected = 'sha256=' + crypto
+  .createHmac('sha256', WEBHOOK_SECRET)
+  .update(\`\${timestamp}.\${rawBody}\`)
+  .digest('hex');
+
+if (expected !== req.headers['x-webhook-signature']) {
+  return res.status(401).end();
+}`;
@@ -0,0 +1,113 @@
+import { ipMatchesAny } from "../_shared/cidr.ts"
+
+// Who may call an endpoint: browser origins and CORS behaviour, and client address ranges.
+// Policies can be set on a project and on each endpoint; endpoint fields override the project's.
+export interface AccessPolicy {
+  // Origins allowed to call the endpoint from a browser; "*" wildcards a host part,
+  // e.g. https://*.example.com. Empty allows any origin.
+  allowed_origins?: string[] | null
+  // Request headers allowed in addition to the ones the proxy always accepts
+  allowed_headers?: string[] | null
+  // Let browsers send cookies and Authorization; the origin is echoed instead of "*"
+  allow_credentials?: boolean | null
+  // CIDR ranges or single addresses. When an allowlist is set, only those clients are served.
+  ip_allowlist?: string[] | null
+  ip_denylist?: string[] | null
+}
+
+// Endpoint columns needed to resolve its policy, including the project's
+export interface PolicyEndpoint {
+  access_policy: AccessPolicy | null
+  projects: { access_policy: AccessPolicy | null } | null
+}
+
+export type AccessCheck =
+  | { allowed: true }
+  | { allowed: false; errorType: 'ip_blocked' | 'origin_blocked'; reason: string }
+
+const POLICY_FIELDS: (keyof AccessPolicy)[] = ['allowed_origins', 'allowed_headers', 'allow_credentials', 'ip_allowlist', 'ip_denylist']
+
+// How long browsers may reuse a preflight response before asking again
+const PREFLIGHT_MAX_AGE_SECONDS = 600
+
+function isSet(value: unknown) {
+  return Array.isArray(value) ? value.length > 0 : value !== null && value !== undefined && value !== false
+}
+
+// Merge the endpoint's policy over its project's; null when neither restricts anything
+export function resolveAccessPolicy(endpoint: PolicyEndpoint): AccessPolicy | null {
+  const policy: AccessPolicy = {}
+  for (const field of POLICY_FIELDS) {
+    const value = isSet(endpoint.access_policy?.[field])
+      ? endpoint.access_policy?.[field]
+      : endpoint.projects?.access_policy?.[field]
+    if (isSet(value)) Object.assign(policy, { [field]: value })
+  }
+  return Object.keys(policy).length > 0 ? policy : null
+}
+
+function normalizeOrigin(origin: string) {
+  return origin.trim().toLowerCase().replace(/\/+$/, '')
+}
+
+export function originAllowed(policy: AccessPolicy, origin: string) {
+  if (!policy.allowed_origins?.length) return true
+  const requested = normalizeOrigin(origin)
+  return policy.allowed_origins.some(allowed => {
+    const pattern = normalizeOrigin(allowed)
+    if (pattern === '*') return true
+    if (!pattern.includes('*')) return pattern === requested
+    const regex = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]+')
+    return new RegExp(`^${regex}$`).test(requested)
+  })
+}
+
+// The address the platform's edge saw. Clients can send any x-forwarded-for they like and proxies
+// append to it, so only its last entry, added by the hop in front of the function, is trusted.
+export function getClientIp(request: Request) {
+  return request.headers.get('cf-connecting-ip')?.trim() ||
+    request.headers.get('x-real-ip')?.trim() ||
+    request.headers.get('x-forwarded-for')?.split(',').pop()?.trim() ||
+    'unknown'
+}
+
+// Requests without an Origin header come from servers and tools rather than browsers, so only
+// the address rules apply to them. An unknown address never passes an allowlist.
+export function checkAccess(policy: AccessPolicy, clientIp: string, origin: string | null): AccessCheck {
+  if (policy.ip_denylist?.length && ipMatchesAny(clientIp, policy.ip_denylist)) {
+    return { allowed: false, errorType: 'ip_blocked', reason: `Client address ${clientIp} is denied` }
+  }
+  if (policy.ip_allowlist?.length && !ipMatchesAny(clientIp, policy.ip_allowlist)) {
+    return { allowed: false, errorType: 'ip_blocked', reason: `Client address ${clientIp} is not in the allowlist` }
+  }
+  if (origin && !originAllowed(policy, origin)) {
+    return { allowed: false, errorType: 'origin_blocked', reason: `Origin ${origin} is not allowed` }
+  }
+  return { allowed: true }
+}
+
+// Replace the default Access-Control-* response headers with the policy's. Blocked origins get
+// no Access-Control-Allow-Origin, so browsers refuse to expose the response.
+export function applyCorsPolicy(headers: Headers, policy: AccessPolicy, origin: string | null) {
+  const restrictsOrigin = Boolean(policy.allowed_origins?.length || policy.allow_credentials)
+  if (restrictsOrigin) {
+    headers.delete('Access-Control-Allow-Origin')
+    if (origin && originAllowed(policy, origin)) {
+      headers.set('Access-Control-Allow-Origin', origin)
+      if (policy.allow_credentials) headers.set('Access-Control-Allow-Credentials', 'true')
+    }
+    headers.append('Vary', 'Origin')
+  }
+
+  if (policy.allowed_headers?.length) {
+    const current = headers.get('Access-Control-Allow-Headers')
+    headers.set('Access-Control-Allow-Headers', [current, ...policy.allowed_headers].filter(Boolean).join(', '))
+  }
+}
+
+export function preflightHeaders(baseHeaders: Record<string, string>, policy: AccessPolicy | null, origin: string | null) {
+  const headers = new Headers(baseHeaders)
+  headers.set('Access-Control-Max-Age', String(PREFLIGHT_MAX_AGE_SECONDS))
+  if (policy) applyCorsPolicy(headers, policy, origin)
+  return headers
+}
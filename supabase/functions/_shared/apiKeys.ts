@@ -0,0 +1,173 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2"
+
+// Named keys from the api_keys table. Keys are stored as SHA-256 digests and may be scoped to a
+// single endpoint or to all (or a listed subset) of a project's endpoints. Lookups are remembered
+// briefly so busy keys don't cost a query per request; revocation, expiry and scope changes
+// therefore take up to KEY_RECHECK_MS to apply. Signed requests name their key by id instead
+// of sending it, and are verified with the key's signing secret.
+
+export type ApiKeyScope = 'read' | 'write' | 'admin'
+
+export interface ManagedApiKey {
+  id: string
+  name: string
+  endpoint_id: string | null
+  project_id: string | null
+  // Project keys only: the endpoints they grant, or null for all of the project's endpoints
+  endpoint_ids: string[] | null
+  scopes: ApiKeyScope[]
+  expires_at: string | null
+  revoked_at: string | null
+  signing_secret: string | null
+}
+
+export type ApiKeyCheck =
+  | { status: 'valid'; key: ManagedApiKey }
+  | { status: 'expired' | 'revoked'; key: ManagedApiKey }
+  | { status: 'unknown' }
+
+const KEY_RECHECK_MS = 30 * 1000
+const MAX_REMEMBERED_KEYS = 500
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Keyed by "key_hash:<digest>" or "id:<uuid>"
+const rememberedKeys = new Map<string, { key: ManagedApiKey | null; checkedAt: number }>()
+
+export async function hashApiKey(apiKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey))
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+function appliesTo(key: ManagedApiKey, endpoint: { id: string; project_id: string | null }) {
+  if (key.endpoint_id) return key.endpoint_id === endpoint.id
+  return !!key.project_id && key.project_id === endpoint.project_id &&
+    (!key.endpoint_ids || key.endpoint_ids.includes(endpoint.id))
+}
+
+// Project-wide access, e.g. to the project's GraphQL endpoint, takes a key granting every endpoint
+function appliesToProject(key: ManagedApiKey, projectId: string) {
+  return !key.endpoint_id && key.project_id === projectId && !key.endpoint_ids
+}
+
+// Reads need the read scope and everything else needs write; admin grants both
+export function requiredScope(method: string): ApiKeyScope {
+  return method === 'GET' || method === 'HEAD' ? 'read' : 'write'
+}
+
+export function hasScope(key: ManagedApiKey, scope: ApiKeyScope) {
+  const scopes = key.scopes || []
+  return scopes.includes('admin') || scopes.includes(scope)
+}
+
+function keyStatus(key: ManagedApiKey): ApiKeyCheck {
+  if (key.revoked_at) return { status: 'revoked', key }
+  if (key.expires_at && new Date(key.expires_at).getTime() <= Date.now()) return { status: 'expired', key }
+  return { status: 'valid', key }
+}
+
+interface KeyRow extends ManagedApiKey {
+  user_id: string | null
+  api_endpoints: { user_id: string | null } | null
+  projects: { user_id: string | null } | null
+}
+
+// A key only counts for an endpoint or project its creator owns. The api_keys policies refuse
+// anything else on write; this also covers rows written before they did.
+function ownsTarget(row: KeyRow) {
+  const owner = row.endpoint_id ? row.api_endpoints?.user_id : row.projects?.user_id
+  return !!owner && owner === row.user_id
+}
+
+async function lookupKey(supabaseClient: SupabaseClient, column: 'key_hash' | 'id', value: string): Promise<ManagedApiKey | null> {
+  const { data, error } = await supabaseClient
+    .from('api_keys')
+    .select('id, name, user_id, endpoint_id, project_id, endpoint_ids, scopes, expires_at, revoked_at, signing_secret, api_endpoints!endpoint_id(user_id), projects!project_id(user_id)')
+    .eq(column, value)
+    .maybeSingle()
+
+  if (error) {
+    console.error('API key lookup error:', error)
+    throw error
+  }
+  const row = data as unknown as KeyRow | null
+  if (!row || !ownsTarget(row)) return null
+
+  return {
+    id: row.id,
+    name: row.name,
+    endpoint_id: row.endpoint_id,
+    project_id: row.project_id,
+    endpoint_ids: row.endpoint_ids,
+    scopes: row.scopes,
+    expires_at: row.expires_at,
+    revoked_at: row.revoked_at,
+    signing_secret: row.signing_secret
+  }
+}
+
+function touchLastUsed(supabaseClient: SupabaseClient, keyId: string) {
+  supabaseClient
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', keyId)
+    .then(({ error }) => {
+      if (error) console.error('Error recording API key usage:', error)
+    })
+}
+
+async function findKey(
+  supabaseClient: SupabaseClient,
+  applies: (key: ManagedApiKey) => boolean,
+  column: 'key_hash' | 'id',
+  value: string
+): Promise<ApiKeyCheck> {
+  const memoKey = `${column}:${value}`
+  const remembered = rememberedKeys.get(memoKey)
+
+  let key: ManagedApiKey | null
+  if (remembered && Date.now() - remembered.checkedAt < KEY_RECHECK_MS) {
+    key = remembered.key
+  } else {
+    key = await lookupKey(supabaseClient, column, value)
+    if (rememberedKeys.size >= MAX_REMEMBERED_KEYS) {
+      rememberedKeys.clear()
+    }
+    rememberedKeys.set(memoKey, { key, checkedAt: Date.now() })
+    // Usage is recorded whenever the key is looked up, so at most once per recheck window
+    if (key && keyStatus(key).status === 'valid') {
+      touchLastUsed(supabaseClient, key.id)
+    }
+  }
+
+  if (!key || !applies(key)) return { status: 'unknown' }
+  return keyStatus(key)
+}
+
+export async function checkManagedKey(
+  supabaseClient: SupabaseClient,
+  endpoint: { id: string; project_id: string | null },
+  apiKey: string
+): Promise<ApiKeyCheck> {
+  return findKey(supabaseClient, key => appliesTo(key, endpoint), 'key_hash', await hashApiKey(apiKey))
+}
+
+// Look up the key a signed request names in its X-Key-Id header
+export async function checkSigningKey(
+  supabaseClient: SupabaseClient,
+  endpoint: { id: string; project_id: string | null },
+  keyId: string
+): Promise<ApiKeyCheck> {
+  if (!UUID_PATTERN.test(keyId)) return { status: 'unknown' }
+  return findKey(supabaseClient, key => appliesTo(key, endpoint), 'id', keyId)
+}
+
+export async function checkProjectKey(
+  supabaseClient: SupabaseClient,
+  projectId: string,
+  apiKey: string
+): Promise<ApiKeyCheck> {
+  return findKey(supabaseClient, key => appliesToProject(key, projectId), 'key_hash', await hashApiKey(apiKey))
+}
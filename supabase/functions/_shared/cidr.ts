@@ -0,0 +1,96 @@
+// IPv4 and IPv6 address ranges in CIDR notation, for endpoint allowlists and denylists.
+// Shared by the api-proxy function, which matches client addresses, and the policy editor,
+// which validates entries. A bare address is treated as a single-address range.
+
+interface ParsedAddress {
+  version: 4 | 6
+  value: bigint
+}
+
+export interface CidrRange extends ParsedAddress {
+  prefix: number
+}
+
+const BITS = { 4: 32, 6: 128 }
+
+function parseIPv4(address: string): bigint | null {
+  const parts = address.split('.')
+  if (parts.length !== 4) return null
+  let value = BigInt(0)
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null
+    value = (value << BigInt(8)) + BigInt(Number(part))
+  }
+  return value
+}
+
+function parseIPv6(address: string): bigint | null {
+  // An embedded IPv4 tail (::ffff:192.0.2.1) counts as the last two groups
+  let groups = address
+  const lastColon = groups.lastIndexOf(':')
+  if (groups.includes('.', lastColon)) {
+    const ipv4 = parseIPv4(groups.substring(lastColon + 1))
+    if (ipv4 === null) return null
+    groups = `${groups.substring(0, lastColon + 1)}${(ipv4 >> BigInt(16)).toString(16)}:${(ipv4 & BigInt(0xffff)).toString(16)}`
+  }
+
+  const halves = groups.split('::')
+  if (halves.length > 2) return null
+  const head = halves[0] ? halves[0].split(':') : []
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+  const missing = 8 - head.length - tail.length
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null
+
+  let value = BigInt(0)
+  for (const group of [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null
+    value = (value << BigInt(16)) + BigInt(parseInt(group, 16))
+  }
+  return value
+}
+
+const IPV4_MAPPED_PREFIX = BigInt(0xffff) << BigInt(32)
+
+function parseAddress(address: string): ParsedAddress | null {
+  const trimmed = address.trim().replace(/^\[|\]$/g, '')
+  if (!trimmed.includes(':')) {
+    const value = parseIPv4(trimmed)
+    return value === null ? null : { version: 4, value }
+  }
+
+  // Zone ids (fe80::1%eth0) don't affect matching
+  const value = parseIPv6(trimmed.split('%')[0])
+  if (value === null) return null
+  // IPv4-mapped IPv6 addresses match IPv4 ranges
+  if (value >> BigInt(32) === BigInt(0xffff)) {
+    return { version: 4, value: value - IPV4_MAPPED_PREFIX }
+  }
+  return { version: 6, value }
+}
+
+export function parseCidr(range: string): CidrRange | null {
+  const [address, prefixText, ...rest] = range.trim().split('/')
+  if (rest.length > 0) return null
+  const parsed = parseAddress(address)
+  if (!parsed) return null
+
+  const bits = BITS[parsed.version]
+  if (prefixText === undefined) return { ...parsed, prefix: bits }
+  if (!/^\d{1,3}$/.test(prefixText) || Number(prefixText) > bits) return null
+  return { ...parsed, prefix: Number(prefixText) }
+}
+
+export function ipInRange(ip: string, range: CidrRange): boolean {
+  const address = parseAddress(ip)
+  if (!address || address.version !== range.version) return false
+  const shift = BigInt(BITS[range.version] - range.prefix)
+  return address.value >> shift === range.value >> shift
+}
+
+// True when the address falls in any of the ranges; unparseable ranges never match
+export function ipMatchesAny(ip: string, ranges: string[]): boolean {
+  return ranges.some(range => {
+    const parsed = parseCidr(range)
+    return parsed !== null && ipInRange(ip, parsed)
+  })
+}
@@ -0,0 +1,367 @@
+import type { SchemaField } from "./schemaFields.ts"
+
+// Query-string handling for schema collections: ?limit, ?offset / ?cursor, ?sort and field filters
+// such as ?status=active or ?price[gte]=10. Filters and sorting are evaluated in memory against the
+// items' data so every variation of the query shares one cached collection.
+
+export const DEFAULT_MAX_LIMIT = 1000
+
+// Query parameters that are never treated as field filters
+export const RESERVED_PARAMS = new Set(['limit', 'offset', 'cursor', 'sort', 'format'])
+
+const FILTER_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'contains', 'exists'] as const
+type FilterOperator = typeof FILTER_OPERATORS[number]
+
+type ComparableType = 'text' | 'number' | 'boolean' | 'date'
+
+interface FieldFilter {
+  path: string[]
+  type: ComparableType
+  operator: FilterOperator
+  values: Array<string | number | boolean>
+}
+
+interface SortKey {
+  path: string[]
+  type: ComparableType
+  direction: 1 | -1
+}
+
+export type CollectionQueryResult =
+  | { isValid: true; items: Record<string, unknown>[]; headers: Record<string, string> }
+  | { isValid: false; errors: string[] }
+
+function toComparableType(fieldType: SchemaField['type']): ComparableType {
+  if (fieldType === 'number' || fieldType === 'boolean' || fieldType === 'date') {
+    return fieldType
+  }
+  return 'text'
+}
+
+// Resolve a dotted path (address.city) through objectFields; the row id is always filterable
+function resolveField(fields: SchemaField[], name: string): { path: string[]; type: ComparableType } | null {
+  if (name === 'id' && !fields.some(field => field.name === 'id')) {
+    return { path: ['id'], type: 'text' }
+  }
+
+  const path = name.split('.')
+  let current: SchemaField[] | undefined = fields
+  let field: SchemaField | undefined
+
+  for (const segment of path) {
+    field = current?.find(candidate => candidate.name === segment)
+    if (!field) return null
+    current = field.objectFields
+  }
+
+  if (!field || field.type === 'object') return null
+  // Arrays filter on their members (?tags=sale matches items whose tags include "sale")
+  if (field.type === 'array') {
+    return { path, type: toComparableType((field.arrayItemType || 'text') as SchemaField['type']) }
+  }
+  return { path, type: toComparableType(field.type) }
+}
+
+function coerceValue(raw: string, type: ComparableType): string | number | boolean | null {
+  switch (type) {
+    case 'number': {
+      const value = Number(raw)
+      return raw.trim() !== '' && Number.isFinite(value) ? value : null
+    }
+    case 'boolean':
+      if (raw === 'true' || raw === '1') return true
+      if (raw === 'false' || raw === '0') return false
+      return null
+    case 'date': {
+      const value = Date.parse(raw)
+      return Number.isNaN(value) ? null : value
+    }
+    default:
+      return raw
+  }
+}
+
+function readPath(item: Record<string, unknown>, path: string[]): unknown {
+  let value: unknown = item
+  for (const segment of path) {
+    if (!value || typeof value !== 'object') return undefined
+    value = (value as Record<string, unknown>)[segment]
+  }
+  return value
+}
+
+// Normalise a stored value so it compares against coerced filter values
+function normalise(value: unknown, type: ComparableType): string | number | boolean | null {
+  if (value === undefined || value === null || value === '') return null
+  if (type === 'date') {
+    const time = Date.parse(String(value))
+    return Number.isNaN(time) ? null : time
+  }
+  if (type === 'number') {
+    const number = typeof value === 'number' ? value : Number(value)
+    return Number.isFinite(number) ? number : null
+  }
+  if (type === 'boolean') {
+    return typeof value === 'boolean' ? value : value === 'true'
+  }
+  return String(value)
+}
+
+function compareValues(a: string | number | boolean, b: string | number | boolean) {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.localeCompare(b)
+  }
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function matchesScalar(value: string | number | boolean | null, filter: FieldFilter) {
+  const [target] = filter.values
+
+  switch (filter.operator) {
+    case 'exists':
+      return (value !== null) === target
+    case 'in':
+      return value !== null && filter.values.some(candidate => compareValues(value, candidate) === 0)
+    case 'nin':
+      return value === null || !filter.values.some(candidate => compareValues(value, candidate) === 0)
+    case 'ne':
+      return value === null || compareValues(value, target) !== 0
+    case 'contains':
+      return value !== null && String(value).toLowerCase().includes(String(target).toLowerCase())
+  }
+
+  if (value === null) return false
+  const comparison = compareValues(value, target)
+
+  switch (filter.operator) {
+    case 'eq': return comparison === 0
+    case 'gt': return comparison > 0
+    case 'gte': return comparison >= 0
+    case 'lt': return comparison < 0
+    case 'lte': return comparison <= 0
+    default: return false
+  }
+}
+
+function matchesFilter(item: Record<string, unknown>, filter: FieldFilter) {
+  const raw = readPath(item, filter.path)
+
+  if (Array.isArray(raw)) {
+    const members = raw.map(member => normalise(member, filter.type))
+    if (filter.operator === 'exists') return (members.length > 0) === filter.values[0]
+    if (filter.operator === 'ne' || filter.operator === 'nin') {
+      return members.every(member => matchesScalar(member, filter))
+    }
+    return members.some(member => matchesScalar(member, filter))
+  }
+
+  return matchesScalar(normalise(raw, filter.type), filter)
+}
+
+function parseFilters(params: URLSearchParams, fields: SchemaField[], errors: string[]): FieldFilter[] {
+  const filters: FieldFilter[] = []
+
+  for (const [key, raw] of params.entries()) {
+    const match = key.match(/^([^[\]]+)(?:\[([a-z]+)\])?$/)
+    if (!match || RESERVED_PARAMS.has(match[1])) continue
+
+    const field = resolveField(fields, match[1])
+    // Parameters that do not name a schema field are left for other features to interpret
+    if (!field) continue
+
+    const operator = (match[2] || 'eq') as FilterOperator
+    if (!FILTER_OPERATORS.includes(operator)) {
+      errors.push(`Unknown filter operator "${match[2]}" for ${match[1]}. Supported: ${FILTER_OPERATORS.join(', ')}`)
+      continue
+    }
+
+    if (operator === 'exists') {
+      const flag = coerceValue(raw, 'boolean')
+      if (flag === null) {
+        errors.push(`${key} must be true or false`)
+      } else {
+        filters.push({ ...field, operator, values: [flag] })
+      }
+      continue
+    }
+
+    const rawValues = operator === 'in' || operator === 'nin' ? raw.split(',') : [raw]
+    // Substring matching always compares the text form of the value
+    const valueType = operator === 'contains' ? 'text' : field.type
+    const values = rawValues.map(value => coerceValue(value, valueType))
+
+    if (values.some(value => value === null)) {
+      errors.push(`${key} must be a valid ${field.type}`)
+      continue
+    }
+
+    filters.push({
+      path: field.path,
+      type: valueType,
+      operator,
+      values: values as Array<string | number | boolean>
+    })
+  }
+
+  return filters
+}
+
+function parseSort(params: URLSearchParams, fields: SchemaField[], errors: string[]): SortKey[] {
+  const sort = params.get('sort')
+  if (!sort) return []
+
+  const keys: SortKey[] = []
+  for (const part of sort.split(',').map(value => value.trim()).filter(Boolean)) {
+    const [name, direction = 'asc'] = part.split(':')
+    const field = resolveField(fields, name)
+
+    if (!field) {
+      errors.push(`Cannot sort by unknown field "${name}"`)
+      continue
+    }
+    if (direction !== 'asc' && direction !== 'desc') {
+      errors.push(`Sort direction for ${name} must be asc or desc`)
+      continue
+    }
+
+    keys.push({ ...field, direction: direction === 'asc' ? 1 : -1 })
+  }
+
+  return keys
+}
+
+function parseNonNegativeInteger(params: URLSearchParams, name: string, errors: string[]): number | null {
+  const raw = params.get(name)
+  if (raw === null) return null
+
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value < 0) {
+    errors.push(`${name} must be a non-negative integer`)
+    return null
+  }
+  return value
+}
+
+export function encodeCursor(id: string) {
+  return btoa(id).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function decodeCursor(cursor: string): string | null {
+  try {
+    return atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))
+  } catch {
+    return null
+  }
+}
+
+function buildLink(url: URL, overrides: Record<string, string | null>) {
+  const next = new URL(url.toString())
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === null) {
+      next.searchParams.delete(key)
+    } else {
+      next.searchParams.set(key, value)
+    }
+  }
+  return next.toString()
+}
+
+// Filter, sort and paginate a collection according to the request's query string
+export function queryCollection(
+  items: Record<string, unknown>[],
+  fields: SchemaField[],
+  url: URL,
+  maxLimit: number = DEFAULT_MAX_LIMIT
+): CollectionQueryResult {
+  const params = url.searchParams
+  const errors: string[] = []
+
+  const filters = parseFilters(params, fields, errors)
+  const sortKeys = parseSort(params, fields, errors)
+  const requestedLimit = parseNonNegativeInteger(params, 'limit', errors)
+  // An empty page would link to itself as the next one, so clients following links would loop
+  if (requestedLimit === 0) {
+    errors.push('limit must be at least 1')
+  }
+  const offsetParam = parseNonNegativeInteger(params, 'offset', errors)
+  const cursor = params.get('cursor')
+
+  if (cursor !== null && offsetParam !== null) {
+    errors.push('Use either offset or cursor, not both')
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors }
+  }
+
+  let result = filters.length > 0
+    ? items.filter(item => filters.every(filter => matchesFilter(item, filter)))
+    : items.slice()
+
+  if (sortKeys.length > 0) {
+    result.sort((a, b) => {
+      for (const key of sortKeys) {
+        const left = normalise(readPath(a, key.path), key.type)
+        const right = normalise(readPath(b, key.path), key.type)
+        // Missing values sort last regardless of direction
+        if (left === null && right === null) continue
+        if (left === null) return 1
+        if (right === null) return -1
+        const comparison = compareValues(left, right)
+        if (comparison !== 0) return comparison * key.direction
+      }
+      return 0
+    })
+  }
+
+  const total = result.length
+  const headers: Record<string, string> = { 'X-Total-Count': String(total) }
+
+  let offset = offsetParam ?? 0
+  if (cursor !== null) {
+    const afterId = decodeCursor(cursor)
+    const index = afterId === null ? -1 : result.findIndex(item => String(item.id) === afterId)
+    if (index === -1) {
+      return { isValid: false, errors: ['cursor is invalid or refers to an item that no longer matches'] }
+    }
+    offset = index + 1
+  }
+
+  const paginated = requestedLimit !== null || offset > 0
+  if (!paginated) {
+    return { isValid: true, items: result, headers }
+  }
+
+  const limit = Math.min(requestedLimit ?? maxLimit, maxLimit)
+  result = result.slice(offset, offset + limit)
+
+  const links: string[] = []
+  const hasNext = offset + limit < total
+
+  if (cursor !== null) {
+    links.push(`<${buildLink(url, { cursor: null, limit: String(limit) })}>; rel="first"`)
+    if (hasNext && result.length > 0) {
+      const last = result[result.length - 1]
+      links.push(`<${buildLink(url, { cursor: encodeCursor(String(last.id)), limit: String(limit) })}>; rel="next"`)
+    }
+  } else {
+    const lastOffset = Math.max(0, Math.floor((total - 1) / limit) * limit)
+    links.push(`<${buildLink(url, { offset: '0', limit: String(limit) })}>; rel="first"`)
+    if (offset > 0) {
+      links.push(`<${buildLink(url, { offset: String(Math.max(0, offset - limit)), limit: String(limit) })}>; rel="prev"`)
+    }
+    if (hasNext) {
+      links.push(`<${buildLink(url, { offset: String(offset + limit), limit: String(limit) })}>; rel="next"`)
+    }
+    links.push(`<${buildLink(url, { offset: String(lastOffset), limit: String(limit) })}>; rel="last"`)
+  }
+
+  headers['Link'] = links.join(', ')
+  headers['X-Limit'] = String(limit)
+  headers['X-Offset'] = String(offset)
+  if (hasNext && result.length > 0) {
+    headers['X-Next-Cursor'] = encodeCursor(String(result[result.length - 1].id))
+  }
+
+  return { isValid: true, items: result, headers }
+}
@@ -0,0 +1,156 @@
+// Offline fake-data generator for response templates, e.g. {{faker.person.fullName}}.
+// Method names follow the faker.js API so templates read the same way; all data is bundled.
+
+type Generator = (...args: number[]) => unknown
+
+const FIRST_NAMES = ['James', 'Mary', 'Robert', 'Patricia', 'John', 'Jennifer', 'Michael', 'Linda', 'David', 'Elizabeth', 'William', 'Barbara', 'Richard', 'Susan', 'Joseph', 'Jessica', 'Thomas', 'Sarah', 'Carlos', 'Aisha', 'Wei', 'Priya', 'Hiroshi', 'Fatima', 'Lucas', 'Sofia', 'Noah', 'Amara', 'Mateo', 'Yuki']
+const LAST_NAMES = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez', 'Hernandez', 'Lopez', 'Wilson', 'Anderson', 'Taylor', 'Thomas', 'Moore', 'Martin', 'Lee', 'Chen', 'Patel', 'Kim', 'Nguyen', 'Okafor', 'Silva', 'Kowalski', 'Müller', 'Rossi', 'Tanaka', 'Haddad']
+const JOB_TITLES = ['Software Engineer', 'Product Manager', 'Designer', 'Data Analyst', 'Account Executive', 'Support Specialist', 'Marketing Lead', 'DevOps Engineer', 'QA Engineer', 'Engineering Manager', 'Technical Writer', 'Sales Director']
+const CITIES = ['New York', 'London', 'Paris', 'Berlin', 'Tokyo', 'Sydney', 'Toronto', 'São Paulo', 'Mumbai', 'Lagos', 'Seoul', 'Amsterdam', 'Madrid', 'Chicago', 'Singapore', 'Dublin']
+const COUNTRIES = ['United States', 'United Kingdom', 'France', 'Germany', 'Japan', 'Australia', 'Canada', 'Brazil', 'India', 'Nigeria', 'South Korea', 'Netherlands', 'Spain', 'Singapore', 'Ireland', 'Mexico']
+const COUNTRY_CODES = ['US', 'GB', 'FR', 'DE', 'JP', 'AU', 'CA', 'BR', 'IN', 'NG', 'KR', 'NL', 'ES', 'SG', 'IE', 'MX']
+const STREET_NAMES = ['Main', 'Oak', 'Maple', 'Cedar', 'Elm', 'Park', 'Lake', 'Hill', 'Sunset', 'River', 'Church', 'Market']
+const STREET_SUFFIXES = ['Street', 'Avenue', 'Road', 'Lane', 'Boulevard', 'Drive', 'Way', 'Court']
+const DOMAINS = ['example.com', 'mail.test', 'demo.org', 'sample.net', 'acme.io']
+const TLDS = ['com', 'net', 'org', 'io', 'dev', 'app']
+const COMPANY_WORDS = ['Acme', 'Globex', 'Initech', 'Umbrella', 'Stark', 'Wayne', 'Hooli', 'Vandelay', 'Soylent', 'Cyberdyne', 'Tyrell', 'Wonka']
+const COMPANY_SUFFIXES = ['Inc', 'LLC', 'Group', 'Labs', 'Systems', 'Partners', 'Technologies', 'Co']
+const CATCH_ADJECTIVES = ['Adaptive', 'Seamless', 'Scalable', 'Intuitive', 'Robust', 'Integrated', 'Proactive', 'Streamlined']
+const CATCH_NOUNS = ['platform', 'solution', 'workflow', 'framework', 'paradigm', 'infrastructure', 'toolkit', 'experience']
+const PRODUCT_ADJECTIVES = ['Ergonomic', 'Rustic', 'Sleek', 'Handcrafted', 'Practical', 'Refined', 'Smart', 'Gorgeous', 'Durable', 'Compact']
+const PRODUCT_MATERIALS = ['Steel', 'Wooden', 'Cotton', 'Granite', 'Plastic', 'Bamboo', 'Leather', 'Concrete', 'Rubber', 'Glass']
+const PRODUCT_NOUNS = ['Chair', 'Table', 'Lamp', 'Keyboard', 'Backpack', 'Bottle', 'Shoes', 'Watch', 'Headphones', 'Mug', 'Jacket', 'Bike']
+const DEPARTMENTS = ['Books', 'Electronics', 'Garden', 'Home', 'Kids', 'Music', 'Outdoors', 'Sports', 'Toys', 'Beauty', 'Grocery', 'Automotive']
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY', 'AUD', 'CAD', 'CHF', 'INR', 'BRL', 'SGD']
+const LOREM_WORDS = ['lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit', 'sed', 'do', 'eiusmod', 'tempor', 'incididunt', 'ut', 'labore', 'et', 'dolore', 'magna', 'aliqua', 'enim', 'ad', 'minim', 'veniam', 'quis', 'nostrud', 'exercitation', 'ullamco', 'laboris', 'nisi', 'aliquip', 'ex', 'ea', 'commodo', 'consequat']
+const COLORS = ['red', 'green', 'blue', 'orange', 'purple', 'teal', 'black', 'white', 'yellow', 'pink', 'gray', 'navy']
+const STATUSES = ['active', 'inactive', 'pending', 'archived']
+const ALPHANUMERIC = 'abcdefghijklmnopqrstuvwxyz0123456789'
+
+function pick<T>(values: T[]): T {
+  return values[Math.floor(Math.random() * values.length)]
+}
+
+function int(min = 0, max = 1000) {
+  return Math.floor(Math.random() * (max - min + 1)) + min
+}
+
+function float(min = 0, max = 1000, precision = 2) {
+  const factor = Math.pow(10, precision)
+  return Math.round((Math.random() * (max - min) + min) * factor) / factor
+}
+
+function words(count = 3) {
+  return Array.from({ length: count }, () => pick(LOREM_WORDS)).join(' ')
+}
+
+function sentence(wordCount = int(6, 12)) {
+  const text = words(wordCount)
+  return text.charAt(0).toUpperCase() + text.slice(1) + '.'
+}
+
+function slug(value: string) {
+  return value.toLowerCase().normalize('NFD').replace(/[̀-ͯ]/g, '').replace(/[^a-z0-9]+/g, '.')
+}
+
+function daysFromNow(days: number) {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+}
+
+function uuid() {
+  return crypto.randomUUID()
+}
+
+export const fakeData: Record<string, Record<string, Generator>> = {
+  person: {
+    firstName: () => pick(FIRST_NAMES),
+    lastName: () => pick(LAST_NAMES),
+    fullName: () => `${pick(FIRST_NAMES)} ${pick(LAST_NAMES)}`,
+    jobTitle: () => pick(JOB_TITLES),
+    gender: () => pick(['female', 'male', 'non-binary']),
+  },
+  internet: {
+    email: () => `${slug(pick(FIRST_NAMES))}.${slug(pick(LAST_NAMES))}${int(1, 99)}@${pick(DOMAINS)}`,
+    userName: () => `${slug(pick(FIRST_NAMES))}_${int(10, 9999)}`,
+    url: () => `https://www.${slug(pick(COMPANY_WORDS))}.${pick(TLDS)}`,
+    domainName: () => `${slug(pick(COMPANY_WORDS))}.${pick(TLDS)}`,
+    ipv4: () => `${int(1, 254)}.${int(0, 255)}.${int(0, 255)}.${int(1, 254)}`,
+    password: (length = 12) => Array.from({ length }, () => pick(ALPHANUMERIC.split(''))).join(''),
+  },
+  location: {
+    city: () => pick(CITIES),
+    country: () => pick(COUNTRIES),
+    countryCode: () => pick(COUNTRY_CODES),
+    streetAddress: () => `${int(1, 9999)} ${pick(STREET_NAMES)} ${pick(STREET_SUFFIXES)}`,
+    zipCode: () => String(int(10000, 99999)),
+    latitude: () => float(-90, 90, 6),
+    longitude: () => float(-180, 180, 6),
+  },
+  phone: {
+    number: () => `+1-${int(200, 999)}-${int(200, 999)}-${String(int(0, 9999)).padStart(4, '0')}`,
+  },
+  company: {
+    name: () => `${pick(COMPANY_WORDS)} ${pick(COMPANY_SUFFIXES)}`,
+    catchPhrase: () => `${pick(CATCH_ADJECTIVES)} ${pick(CATCH_NOUNS)}`,
+  },
+  commerce: {
+    productName: () => `${pick(PRODUCT_ADJECTIVES)} ${pick(PRODUCT_MATERIALS)} ${pick(PRODUCT_NOUNS)}`,
+    price: (min = 1, max = 1000) => float(min, max, 2),
+    department: () => pick(DEPARTMENTS),
+  },
+  finance: {
+    amount: (min = 0, max = 10000) => float(min, max, 2),
+    currencyCode: () => pick(CURRENCY_CODES),
+    accountNumber: (length = 10) => Array.from({ length }, () => int(0, 9)).join(''),
+  },
+  lorem: {
+    word: () => pick(LOREM_WORDS),
+    words: (count = 3) => words(count),
+    sentence: (wordCount?: number) => sentence(wordCount),
+    paragraph: (sentenceCount = 3) => Array.from({ length: sentenceCount }, () => sentence()).join(' '),
+    slug: (count = 3) => words(count).replace(/ /g, '-'),
+  },
+  number: {
+    int: (min = 0, max = 1000) => int(min, max),
+    float: (min = 0, max = 1000, precision = 2) => float(min, max, precision),
+  },
+  datatype: {
+    boolean: () => Math.random() < 0.5,
+  },
+  date: {
+    past: (years = 1) => daysFromNow(-int(1, Math.max(1, Math.round(years * 365)))),
+    future: (years = 1) => daysFromNow(int(1, Math.max(1, Math.round(years * 365)))),
+    recent: (days = 7) => daysFromNow(-float(0, days, 4)),
+    soon: (days = 7) => daysFromNow(float(0, days, 4)),
+    birthdate: () => daysFromNow(-int(18 * 365, 80 * 365)).substring(0, 10),
+  },
+  string: {
+    uuid: () => uuid(),
+    alphanumeric: (length = 10) => Array.from({ length }, () => pick(ALPHANUMERIC.split(''))).join(''),
+    numeric: (length = 6) => Array.from({ length }, () => int(0, 9)).join(''),
+  },
+  color: {
+    human: () => pick(COLORS),
+    rgb: () => `#${int(0, 0xffffff).toString(16).padStart(6, '0')}`,
+  },
+  image: {
+    avatar: () => `https://i.pravatar.cc/150?u=${uuid()}`,
+    url: (width = 640, height = 480) => `https://picsum.photos/seed/${int(1, 100000)}/${width}/${height}`,
+  },
+  helpers: {
+    status: () => pick(STATUSES),
+  },
+}
+
+// Resolve a faker path such as `person.fullName`; returns undefined for unknown generators
+export function generateFakeValue(path: string, args: number[] = []): unknown {
+  const [category, method] = path.split('.')
+  const generator = fakeData[category]?.[method]
+  return generator ? generator(...args) : undefined
+}
+
+export function listFakeGenerators(): string[] {
+  return Object.entries(fakeData).flatMap(([category, generators]) =>
+    Object.keys(generators).map(method => `${category}.${method}`)
+  )
+}
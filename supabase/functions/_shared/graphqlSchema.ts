@@ -0,0 +1,328 @@
+import type { SchemaField } from "./schemaFields.ts"
+import { RESERVED_PARAMS } from "./collectionQuery.ts"
+
+// GraphQL schema language (SDL) for a project's schemas. Shared by the graphql function, which
+// executes queries against it, and the documentation, which offers it as a download.
+// Each schema becomes an object type with a filtered, paginated list query, a lookup by id and
+// create/update/delete mutations over its api_data rows. The row id is always the type's `id`,
+// and fields whose names are not valid GraphQL names are left out.
+
+export interface GraphqlSchemaSource {
+  id: string
+  name: string
+  description?: string | null
+  fields: SchemaField[]
+}
+
+export interface GraphqlCollection {
+  schemaId: string
+  typeName: string
+  // Fields reachable over GraphQL; mutation inputs are validated against these
+  fields: SchemaField[]
+  listField: string
+  itemField: string
+  // Null when the schema has no fields a client could write
+  createField: string | null
+  updateField: string | null
+  deleteField: string
+}
+
+export interface GraphqlModel {
+  sdl: string
+  collections: GraphqlCollection[]
+}
+
+// One object type per schema and per object field with declared objectFields
+interface TypeNode {
+  name: string
+  fields: FieldNode[]
+  skipped: string[]
+}
+
+interface FieldNode {
+  field: SchemaField
+  nested: TypeNode | null
+}
+
+const NAME_PATTERN = /^[_A-Za-z][_0-9A-Za-z]*$/
+
+// Built-in and shared type names that generated types must not take
+const RESERVED_TYPE_NAMES = [
+  'Query', 'Mutation', 'Subscription', 'String', 'Int', 'Float', 'Boolean', 'ID', 'JSON',
+  'SortDirection', 'IDFilter', 'StringFilter', 'FloatFilter', 'BooleanFilter'
+]
+
+const SCALAR_TYPES: Partial<Record<SchemaField['type'], string>> = {
+  text: 'String',
+  textarea: 'String',
+  email: 'String',
+  url: 'String',
+  date: 'String',
+  number: 'Float',
+  boolean: 'Boolean'
+}
+
+const ARRAY_ITEM_TYPES: Record<NonNullable<SchemaField['arrayItemType']>, string> = {
+  text: 'String',
+  url: 'String',
+  number: 'Float',
+  object: 'JSON'
+}
+
+const FORMAT_NOTES: Partial<Record<SchemaField['type'], string>> = {
+  email: 'Email address',
+  url: 'Absolute URL',
+  date: 'Date, e.g. 2025-07-31 or an ISO 8601 timestamp'
+}
+
+const SHARED_SDL = `"""Any JSON value; used for objects without declared fields and arrays of objects"""
+scalar JSON
+
+enum SortDirection {
+  ASC
+  DESC
+}
+
+input IDFilter {
+  eq: ID
+  ne: ID
+  in: [ID!]
+  nin: [ID!]
+}
+
+"""Dates compare as dates; contains matches case-insensitively"""
+input StringFilter {
+  eq: String
+  ne: String
+  gt: String
+  gte: String
+  lt: String
+  lte: String
+  in: [String!]
+  nin: [String!]
+  contains: String
+  exists: Boolean
+}
+
+input FloatFilter {
+  eq: Float
+  ne: Float
+  gt: Float
+  gte: Float
+  lt: Float
+  lte: Float
+  in: [Float!]
+  nin: [Float!]
+  contains: String
+  exists: Boolean
+}
+
+input BooleanFilter {
+  eq: Boolean
+  ne: Boolean
+  exists: Boolean
+}`
+
+export function isGraphqlName(name: string) {
+  return NAME_PATTERN.test(name) && !name.startsWith('__')
+}
+
+function pascalCase(name: string) {
+  const joined = name
+    .split(/[^0-9A-Za-z]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('')
+  return /^[A-Za-z]/.test(joined) ? joined : `Schema${joined}`
+}
+
+// Types are named for one item of a schema: products gives Product, categories gives Category
+function singular(name: string) {
+  if (/[^aeiou]ies$/i.test(name)) return `${name.slice(0, -3)}y`
+  if (/(s|x|z|ch|sh)es$/i.test(name)) return name.slice(0, -2)
+  if (/[^su]s$/i.test(name)) return name.slice(0, -1)
+  return name
+}
+
+function camelCase(name: string) {
+  return name[0].toLowerCase() + name.slice(1)
+}
+
+function description(text: string, indent = '') {
+  return `${indent}"""${text.replace(/"""/g, '\\"""')}"""\n`
+}
+
+function scalarType(field: SchemaField) {
+  return SCALAR_TYPES[field.type] ?? null
+}
+
+// The GraphQL type the value of a non-object field maps to
+function valueType(field: SchemaField, itemSuffix = '') {
+  if (field.type === 'array') {
+    return `[${ARRAY_ITEM_TYPES[field.arrayItemType || 'text']}${itemSuffix}]`
+  }
+  return scalarType(field) ?? 'JSON'
+}
+
+// Arrays filter on their members, as ?tags=sale does for REST clients
+function filterType(field: SchemaField) {
+  const type = field.type === 'array' ? ARRAY_ITEM_TYPES[field.arrayItemType || 'text'] : scalarType(field)
+  return type === 'JSON' || !type ? null : `${type}Filter`
+}
+
+// Callers need at least one schema: a GraphQL schema cannot have an empty Query type
+export function buildGraphqlModel(schemas: GraphqlSchemaSource[]): GraphqlModel {
+  const unique = (taken: Set<string>) => (name: string) => {
+    let candidate = name
+    for (let suffix = 2; taken.has(candidate); suffix++) candidate = `${name}${suffix}`
+    taken.add(candidate)
+    return candidate
+  }
+  const claim = unique(new Set(RESERVED_TYPE_NAMES))
+  const claimQuery = unique(new Set<string>())
+
+  const blocks: string[] = [SHARED_SDL]
+  const queries: string[] = []
+  const mutations: string[] = []
+  const collections: GraphqlCollection[] = []
+
+  const buildNode = (name: string, fields: SchemaField[], exclude: string[] = []): TypeNode => {
+    const node: TypeNode = { name, fields: [], skipped: [] }
+    for (const field of fields) {
+      if (exclude.includes(field.name)) continue
+      if (!isGraphqlName(field.name)) {
+        node.skipped.push(field.name)
+        continue
+      }
+      const nested = field.type === 'object' && field.objectFields?.some(child => isGraphqlName(child.name))
+        ? buildNode(claim(`${name}${pascalCase(field.name)}`), field.objectFields)
+        : null
+      node.fields.push({ field, nested })
+    }
+    return node
+  }
+
+  const writeObjectType = (node: TypeNode, header: string, withId: boolean) => {
+    const lines = node.skipped.map(name => `  # "${name}" is not a valid GraphQL field name`)
+    if (withId) lines.push('  id: ID!')
+    for (const { field, nested } of node.fields) {
+      const note = FORMAT_NOTES[field.type]
+      if (note) lines.push(description(note, '  ').trimEnd())
+      lines.push(`  ${field.name}: ${nested ? nested.name : valueType(field)}`)
+      if (nested) writeObjectType(nested, '', false)
+    }
+    blocks.push(`${header}type ${node.name} {\n${lines.join('\n')}\n}`)
+  }
+
+  // Returns null when nothing in the node can be filtered on
+  const writeFilterInput = (node: TypeNode, topLevel: boolean): string | null => {
+    const lines: string[] = topLevel ? ['  id: IDFilter'] : []
+    for (const { field, nested } of node.fields) {
+      // Top-level fields named like pagination parameters cannot be filtered through the REST query either
+      if (topLevel && RESERVED_PARAMS.has(field.name)) continue
+      const type = nested ? writeFilterInput(nested, false) : filterType(field)
+      if (type) lines.push(`  ${field.name}: ${type}`)
+    }
+    if (lines.length === 0) return null
+    const name = claim(`${node.name}Filter`)
+    blocks.push(`input ${name} {\n${lines.join('\n')}\n}`)
+    return name
+  }
+
+  // Nested objects are always written whole, so their inputs keep the schema's required fields.
+  // Both the create and update inputs of a schema refer to the same nested input types.
+  const nestedInputs = new Map<TypeNode, string>()
+  const writeInput = (node: TypeNode, suffix: string, partial: boolean): string | null => {
+    if (node.fields.length === 0) return null
+    const lines = node.fields.map(({ field, nested }) => {
+      let type = valueType(field, '!')
+      if (nested) {
+        type = nestedInputs.get(nested) ?? writeInput(nested, 'Input', false)!
+        nestedInputs.set(nested, type)
+      }
+      return `  ${field.name}: ${type}${field.required && !partial ? '!' : ''}`
+    })
+    const name = claim(`${node.name}${suffix}`)
+    blocks.push(`input ${name} {\n${lines.join('\n')}\n}`)
+    return name
+  }
+
+  for (const schema of schemas) {
+    // The row id stands in for a field named id, which only the REST item key can use
+    const node = buildNode(claim(singular(pascalCase(schema.name))), schema.fields || [], ['id'])
+    const typeName = node.name
+    const itemField = claimQuery(camelCase(typeName))
+    // Lists keep the schema's own name; one that is already singular gets a suffix
+    const listName = camelCase(pascalCase(schema.name))
+    const listField = claimQuery(listName === camelCase(typeName) ? `${listName}List` : listName)
+
+    writeObjectType(node, description(schema.description || `Items of the "${schema.name}" schema`), true)
+
+    const connection = claim(`${typeName}Connection`)
+    blocks.push([
+      `type ${connection} {`,
+      `  items: [${typeName}!]!`,
+      description('Items matching the filter, before pagination', '  ').trimEnd(),
+      '  totalCount: Int!',
+      '  hasNextPage: Boolean!',
+      description('Pass as `after` to fetch the next page', '  ').trimEnd(),
+      '  nextCursor: String',
+      '}'
+    ].join('\n'))
+
+    const filter = writeFilterInput(node, true)
+
+    const sortable = node.fields
+      .filter(({ field }) => scalarType(field) && !['true', 'false', 'null'].includes(field.name))
+      .map(({ field }) => field.name)
+    const sortField = claim(`${typeName}SortField`)
+    const orderBy = claim(`${typeName}OrderBy`)
+    blocks.push(`enum ${sortField} {\n${['id', ...sortable].map(name => `  ${name}`).join('\n')}\n}`)
+    blocks.push(`input ${orderBy} {\n  field: ${sortField}!\n  direction: SortDirection = ASC\n}`)
+
+    const listArgs = [
+      ...(filter ? [`filter: ${filter}`] : []),
+      `orderBy: [${orderBy}!]`,
+      'limit: Int',
+      'offset: Int',
+      'after: String'
+    ]
+    queries.push(
+      description(`Filtered, sorted and paginated ${schema.name}`, '  ') +
+      `  ${listField}(${listArgs.join(', ')}): ${connection}!`,
+      `  ${itemField}(id: ID!): ${typeName}`
+    )
+
+    const input = writeInput(node, 'Input', false)
+    const patch = input ? writeInput(node, 'Patch', true) : null
+    const collection: GraphqlCollection = {
+      schemaId: schema.id,
+      typeName,
+      fields: node.fields.map(({ field }) => field),
+      listField,
+      itemField,
+      createField: input ? `create${typeName}` : null,
+      updateField: patch ? `update${typeName}` : null,
+      deleteField: `delete${typeName}`
+    }
+
+    if (collection.createField) mutations.push(`  ${collection.createField}(input: ${input}!): ${typeName}!`)
+    if (collection.updateField) {
+      mutations.push(
+        description('Sets the given fields and keeps the rest; null when no item has the id', '  ') +
+        `  ${collection.updateField}(id: ID!, input: ${patch}!): ${typeName}`
+      )
+    }
+    mutations.push(
+      description('Returns the deleted item; null when no item has the id', '  ') +
+      `  ${collection.deleteField}(id: ID!): ${typeName}`
+    )
+
+    collections.push(collection)
+  }
+
+  blocks.push(`type Query {\n${queries.join('\n')}\n}`)
+  if (mutations.length > 0) blocks.push(`type Mutation {\n${mutations.join('\n')}\n}`)
+
+  return { sdl: `${blocks.join('\n\n')}\n`, collections }
+}
@@ -0,0 +1,163 @@
+// JSON Web Token verification for endpoints in JWT auth mode, and HS256 signing for test tokens.
+// Shared by the api-proxy function and the endpoint tester. Built on WebCrypto, which both
+// Deno and browsers provide, and limited to the algorithms mocks need: HS256, RS256 and ES256.
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256'
+
+export interface JwtConfig {
+  algorithm: JwtAlgorithm
+  // Shared secret for HS256
+  secret?: string | null
+  // RS256/ES256: a PEM public key, a single JWK or a JWKS document ({ "keys": [...] })
+  public_key?: string | null
+  issuer?: string | null
+  // Accepted when the token's aud claim is, or contains, this value
+  audience?: string | null
+  clock_skew_seconds?: number | null
+  // Make verified claims available to response templates as {{claims.*}}
+  expose_claims?: boolean
+}
+
+export type JwtClaims = Record<string, unknown>
+
+export type JwtVerification =
+  | { valid: true; claims: JwtClaims }
+  | { valid: false; reason: string }
+
+interface JsonWebKeyWithId extends JsonWebKey {
+  kid?: string
+}
+
+const DEFAULT_CLOCK_SKEW_SECONDS = 30
+
+const IMPORT_PARAMS: Record<JwtAlgorithm, HmacImportParams | RsaHashedImportParams | EcKeyImportParams> = {
+  HS256: { name: 'HMAC', hash: 'SHA-256' },
+  RS256: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  ES256: { name: 'ECDSA', namedCurve: 'P-256' }
+}
+
+const VERIFY_PARAMS: Record<JwtAlgorithm, AlgorithmIdentifier | EcdsaParams> = {
+  HS256: 'HMAC',
+  RS256: 'RSASSA-PKCS1-v1_5',
+  ES256: { name: 'ECDSA', hash: 'SHA-256' }
+}
+
+const encoder = new TextEncoder()
+
+export function base64UrlEncode(input: string | Uint8Array): string {
+  const bytes = typeof input === 'string' ? encoder.encode(input) : input
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  return Uint8Array.from(binary, character => character.charCodeAt(0))
+}
+
+function decodeSegment(segment: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)))
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null
+  } catch {
+    return null
+  }
+}
+
+function pemToDer(pem: string): Uint8Array {
+  const body = pem.replace(/-----(BEGIN|END) [A-Z ]+-----/g, '').replace(/\s+/g, '')
+  return Uint8Array.from(atob(body), character => character.charCodeAt(0))
+}
+
+// Pick the verification key: the JWK matching the token's kid, else the first one that fits the algorithm
+function selectJwk(keyText: string, algorithm: JwtAlgorithm, kid: unknown): JsonWebKeyWithId | null {
+  let parsed: { keys?: JsonWebKeyWithId[] } & JsonWebKeyWithId
+  try {
+    parsed = JSON.parse(keyText)
+  } catch {
+    return null
+  }
+
+  const keys = Array.isArray(parsed.keys) ? parsed.keys : [parsed]
+  const keyType = algorithm === 'RS256' ? 'RSA' : 'EC'
+  const candidates = keys.filter(key => key.kty === keyType && (!key.alg || key.alg === algorithm))
+  return (kid ? candidates.find(key => key.kid === kid) : undefined) || candidates[0] || null
+}
+
+async function importVerificationKey(config: JwtConfig, kid: unknown): Promise<CryptoKey | null> {
+  const algorithm = config.algorithm
+  if (algorithm === 'HS256') {
+    if (!config.secret) return null
+    return crypto.subtle.importKey('raw', encoder.encode(config.secret), IMPORT_PARAMS.HS256, false, ['verify'])
+  }
+
+  const keyText = config.public_key?.trim()
+  if (!keyText) return null
+  if (keyText.startsWith('-----BEGIN')) {
+    return crypto.subtle.importKey('spki', pemToDer(keyText), IMPORT_PARAMS[algorithm], false, ['verify'])
+  }
+
+  const jwk = selectJwk(keyText, algorithm, kid)
+  if (!jwk) return null
+  return crypto.subtle.importKey('jwk', jwk, IMPORT_PARAMS[algorithm], false, ['verify'])
+}
+
+function checkClaims(claims: JwtClaims, config: JwtConfig, now: number): string | null {
+  const skew = config.clock_skew_seconds ?? DEFAULT_CLOCK_SKEW_SECONDS
+  const seconds = Math.floor(now / 1000)
+
+  if (typeof claims.exp === 'number' && seconds > claims.exp + skew) return 'Token has expired'
+  if (typeof claims.nbf === 'number' && seconds < claims.nbf - skew) return 'Token is not valid yet'
+  if (config.issuer && claims.iss !== config.issuer) return `Token issuer must be "${config.issuer}"`
+  if (config.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+    if (!audiences.includes(config.audience)) return `Token audience must include "${config.audience}"`
+  }
+  return null
+}
+
+export async function verifyJwt(token: string | null, config: JwtConfig | null, now: number = Date.now()): Promise<JwtVerification> {
+  if (!config) return { valid: false, reason: 'JWT authentication is not configured for this endpoint' }
+  if (!token) return { valid: false, reason: 'Missing bearer token' }
+
+  const segments = token.split('.')
+  if (segments.length !== 3) return { valid: false, reason: 'Malformed token' }
+
+  const header = decodeSegment(segments[0])
+  const claims = decodeSegment(segments[1])
+  if (!header || !claims) return { valid: false, reason: 'Malformed token' }
+  if (header.alg !== config.algorithm) {
+    return { valid: false, reason: `Token must be signed with ${config.algorithm}` }
+  }
+
+  try {
+    const key = await importVerificationKey(config, header.kid)
+    if (!key) return { valid: false, reason: 'No verification key matches this token' }
+
+    const signed = await crypto.subtle.verify(
+      VERIFY_PARAMS[config.algorithm],
+      key,
+      base64UrlDecode(segments[2]),
+      encoder.encode(`${segments[0]}.${segments[1]}`)
+    )
+    if (!signed) return { valid: false, reason: 'Invalid token signature' }
+  } catch (error) {
+    console.error('JWT verification error:', error)
+    return { valid: false, reason: 'Token could not be verified with the configured key' }
+  }
+
+  const problem = checkClaims(claims, config, now)
+  return problem ? { valid: false, reason: problem } : { valid: true, claims }
+}
+
+// Sign claims with an HS256 secret, e.g. to mint test tokens
+export async function signHs256Jwt(claims: JwtClaims, secret: string): Promise<string> {
+  const unsigned = `${base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64UrlEncode(JSON.stringify(claims))}`
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), IMPORT_PARAMS.HS256, false, ['sign'])
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(unsigned))
+  return `${unsigned}.${base64UrlEncode(new Uint8Array(signature))}`
+}
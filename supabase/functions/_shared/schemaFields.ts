@@ -0,0 +1,10 @@
+// Mirrors the SchemaField definition used by the frontend (src/hooks/useSchemas.ts)
+export interface SchemaField {
+  id: string
+  name: string
+  type: 'text' | 'number' | 'boolean' | 'date' | 'email' | 'url' | 'textarea' | 'array' | 'object'
+  required: boolean
+  defaultValue?: unknown
+  arrayItemType?: 'text' | 'number' | 'url' | 'object'
+  objectFields?: SchemaField[]
+}
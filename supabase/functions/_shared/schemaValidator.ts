@@ -0,0 +1,99 @@
+import type { SchemaField } from "./schemaFields.ts"
+
+export interface SchemaValidationResult {
+  isValid: boolean
+  errors: string[]
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// The data manager stores untouched optional fields as empty strings, so treat them as missing
+function isEmpty(value: unknown) {
+  return value === undefined || value === null || value === ''
+}
+
+function isValidUrl(value: string) {
+  try {
+    new URL(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function validateValue(type: string, value: unknown, path: string, field?: SchemaField): string[] {
+  switch (type) {
+    case 'text':
+    case 'textarea':
+      return typeof value === 'string' ? [] : [`${path} must be a string`]
+    case 'email':
+      if (typeof value !== 'string') return [`${path} must be a string`]
+      return EMAIL_PATTERN.test(value) ? [] : [`${path} must be a valid email address`]
+    case 'url':
+      if (typeof value !== 'string') return [`${path} must be a string`]
+      return isValidUrl(value) ? [] : [`${path} must be a valid URL`]
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} must be a number`]
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`]
+    case 'date':
+      if (typeof value !== 'string') return [`${path} must be a date string`]
+      return Number.isNaN(Date.parse(value)) ? [`${path} must be a valid date`] : []
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} must be an array`]
+      const itemType = field?.arrayItemType || 'text'
+      return value.flatMap((item, index) => validateValue(itemType, item, `${path}[${index}]`))
+    }
+    case 'object':
+      if (!isPlainObject(value)) return [`${path} must be an object`]
+      return field?.objectFields ? validateFields(field.objectFields, value, path, false) : []
+    default:
+      return []
+  }
+}
+
+function validateFields(fields: SchemaField[], data: Record<string, unknown>, prefix: string, partial: boolean): string[] {
+  const errors: string[] = []
+  const knownNames = new Set(fields.map(field => field.name))
+
+  for (const key of Object.keys(data)) {
+    if (!knownNames.has(key)) {
+      errors.push(`${prefix ? `${prefix}.` : ''}${key} is not defined in the schema`)
+    }
+  }
+
+  for (const field of fields) {
+    const path = prefix ? `${prefix}.${field.name}` : field.name
+    const value = data[field.name]
+
+    if (isEmpty(value)) {
+      if (field.required && !(partial && !(field.name in data))) {
+        errors.push(`${path} is required`)
+      }
+      continue
+    }
+
+    errors.push(...validateValue(field.type, value, path, field))
+  }
+
+  return errors
+}
+
+// Validate a request payload against a schema's field definitions.
+// With `partial` set (PATCH), missing required fields are allowed.
+export function validateSchemaData(
+  fields: SchemaField[],
+  data: unknown,
+  options: { partial?: boolean } = {}
+): SchemaValidationResult {
+  if (!isPlainObject(data)) {
+    return { isValid: false, errors: ['Request body must be a JSON object'] }
+  }
+
+  const errors = validateFields(fields, data, '', options.partial ?? false)
+  return { isValid: errors.length === 0, errors }
+}
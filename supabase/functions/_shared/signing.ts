@@ -0,0 +1,80 @@
+// HMAC-SHA256 request signing for endpoints in signed auth mode. Shared by the api-proxy
+// function, which verifies signatures, and the endpoint tester, which produces them.
+//
+// A client signs the string  METHOD \n PATH \n TIMESTAMP \n BODY  with its key's signing secret,
+// where PATH is the route including any query string and TIMESTAMP is Unix time in seconds,
+// and sends the hex digest alongside the key id and timestamp:
+//   X-Key-Id: <key id>   X-Signature-Timestamp: 1735689600   X-Signature: <hex digest>
+
+export const KEY_ID_HEADER = 'x-key-id'
+export const SIGNATURE_HEADER = 'x-signature'
+export const TIMESTAMP_HEADER = 'x-signature-timestamp'
+
+// Key id that selects the endpoint's own API key as the signing secret
+export const ENDPOINT_KEY_ID = 'endpoint'
+
+export const DEFAULT_SIGNATURE_SKEW_SECONDS = 300
+
+export interface SigningConfig {
+  // Signatures whose timestamp is further than this from the server clock are rejected as replays
+  clock_skew_seconds?: number | null
+}
+
+const encoder = new TextEncoder()
+
+export function canonicalRequest(method: string, path: string, timestamp: string, body: string) {
+  return `${method.toUpperCase()}\n${path}\n${timestamp}\n${body}`
+}
+
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message))
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// Headers for a signed request, e.g. from the endpoint tester
+export async function signRequest(
+  request: { method: string; path: string; body?: string },
+  keyId: string,
+  secret: string,
+  now: number = Date.now()
+): Promise<Record<string, string>> {
+  const timestamp = String(Math.floor(now / 1000))
+  const signature = await hmacSha256Hex(secret, canonicalRequest(request.method, request.path, timestamp, request.body || ''))
+  return {
+    'X-Key-Id': keyId,
+    'X-Signature-Timestamp': timestamp,
+    'X-Signature': signature
+  }
+}
+
+// Compare without returning early, so response timing doesn't reveal how much of a signature matched
+function constantTimeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false
+  let difference = 0
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return difference === 0
+}
+
+// Returns the reason the signature is rejected, or null when it is valid
+export async function checkSignature(
+  request: { method: string; path: string; body: string; timestamp: string | null; signature: string | null },
+  secret: string,
+  config: SigningConfig | null,
+  now: number = Date.now()
+): Promise<string | null> {
+  if (!request.signature || !request.timestamp) return 'Missing X-Signature or X-Signature-Timestamp header'
+  if (!/^\d+$/.test(request.timestamp)) return 'X-Signature-Timestamp must be Unix time in seconds'
+
+  const skew = config?.clock_skew_seconds ?? DEFAULT_SIGNATURE_SKEW_SECONDS
+  if (Math.abs(Math.floor(now / 1000) - Number(request.timestamp)) > skew) {
+    return `Signature timestamp is outside the allowed ${skew} second window`
+  }
+
+  const expected = await hmacSha256Hex(secret, canonicalRequest(request.method, request.path, request.timestamp, request.body))
+  return constantTimeEqual(expected, request.signature.trim().toLowerCase()) ? null : 'Invalid request signature'
+}
@@ -0,0 +1,58 @@
+import { ipMatchesAny } from "../_shared/cidr.ts"
+
+// Guards outbound requests to URLs entered in the dashboard (upstream endpoints, capture replays,
+// webhook deliveries) so they cannot reach the functions' own network: loopback, link-local
+// (including the cloud metadata address 169.254.169.254), private and other non-public addresses
+// are refused.
+// Local development usually points at services on the developer's machine, so setting
+// ALLOW_PRIVATE_TARGETS=true for the functions turns the check off.
+
+const NON_PUBLIC_RANGES = [
+  '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16', '172.16.0.0/12',
+  '192.0.0.0/24', '192.168.0.0/16', '198.18.0.0/15', '224.0.0.0/4', '240.0.0.0/4',
+  '::/128', '::1/128', 'fc00::/7', 'fe80::/10', 'ff00::/8'
+]
+
+// Names that only resolve inside a private network; names without a dot go through the
+// resolver's search domains
+const PRIVATE_NAME_SUFFIXES = ['.localhost', '.local', '.internal', '.home.arpa']
+
+export function privateTargetsAllowed() {
+  return Deno.env.get('ALLOW_PRIVATE_TARGETS') === 'true'
+}
+
+function isPrivateName(hostname: string) {
+  const name = hostname.toLowerCase().replace(/\.$/, '')
+  return name === 'localhost' || !name.includes('.') || PRIVATE_NAME_SUFFIXES.some(suffix => name.endsWith(suffix))
+}
+
+function isIpLiteral(hostname: string) {
+  return hostname.startsWith('[') || /^[\d.]+$/.test(hostname)
+}
+
+async function resolveAddresses(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA')
+  ])
+  return lookups.flatMap(lookup => lookup.status === 'fulfilled' ? lookup.value : [])
+}
+
+// Why the URL's host may not be contacted, or null when it may. Names are resolved and every
+// address checked; a name that does not resolve is left for the request itself to fail on. The
+// name could resolve differently by the time the request is sent, so this narrows rather than
+// closes the gap; redirects are never followed, so they can't be used to get around it.
+export async function checkOutboundTarget(url: string): Promise<string | null> {
+  if (privateTargetsAllowed()) return null
+
+  const { hostname } = new URL(url)
+  const refusal = `${hostname} is a loopback, link-local or private address. Set ALLOW_PRIVATE_TARGETS=true for the functions to allow it in local development.`
+
+  if (isIpLiteral(hostname)) {
+    return ipMatchesAny(hostname, NON_PUBLIC_RANGES) ? refusal : null
+  }
+  if (isPrivateName(hostname)) return refusal
+
+  const addresses = await resolveAddresses(hostname)
+  return addresses.some(address => ipMatchesAny(address, NON_PUBLIC_RANGES)) ? refusal : null
+}
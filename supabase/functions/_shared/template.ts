@@ -0,0 +1,171 @@
+// Response templating shared by the api-proxy function and the editor's render preview.
+// Placeholders are resolved per request:
+//   {{params.id}}, {{request.query.name}}, {{request.headers.x-tenant}}  request variables
+//   {{claims.sub}}                                                       verified JWT claims, when exposed
+//   {{faker.person.fullName}}, {{faker.number.int 1 10}}                 offline fake data
+//   {{now}}, {{timestamp}}, {{uuid}}, {{index}}                         helpers
+//   {{message.text}}                                                     the WebSocket message a channel rule answers
+//   {{request.query.name || 'Guest'}}                                    fallbacks
+// An array element "{{repeat 20}}" (or "{{repeat 5 10}}") renders the element after it N times.
+// Each repeat is capped at MAX_REPEAT, and one render produces at most MAX_REPEATED_ITEMS repeated
+// elements in total, so nested repeats cannot multiply into millions of items.
+
+import { generateFakeValue } from './fakeData.ts'
+
+export interface TemplateRequest {
+  method: string
+  path: string
+  query: Record<string, string>
+  headers: Record<string, string>
+  body: unknown
+}
+
+export interface TemplateContext {
+  params: Record<string, string>
+  request?: TemplateRequest
+  claims?: Record<string, unknown>
+  index?: number
+  message?: unknown
+}
+
+export const MAX_REPEAT = 1000
+export const MAX_REPEATED_ITEMS = 10000
+
+// Repeated elements one render may still produce, shared across nesting levels
+interface RenderBudget {
+  remaining: number
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g
+const WHOLE_PLACEHOLDER = /^\{\{\s*([^{}]+?)\s*\}\}$/
+const REPEAT_DIRECTIVE = /^\{\{\s*repeat\s+([^{}]+?)\s*\}\}$/
+const TOKEN_PATTERN = /'[^']*'|"[^"]*"|\S+/g
+
+function lookup(context: TemplateContext, expression: string): unknown {
+  const [root, ...path] = expression.split('.')
+  let value: unknown = (context as unknown as Record<string, unknown>)[root]
+  for (const segment of path) {
+    if (!value || typeof value !== 'object') return undefined
+    value = (value as Record<string, unknown>)[segment]
+  }
+  return value
+}
+
+function evaluateToken(token: string, context: TemplateContext): unknown {
+  if (/^'.*'$|^".*"$/.test(token)) return token.slice(1, -1)
+  if (/^-?\d+(\.\d+)?$/.test(token)) return Number(token)
+  if (token === 'true' || token === 'false') return token === 'true'
+  if (token === 'null') return null
+  return lookup(context, token)
+}
+
+function evaluateTerm(term: string, context: TemplateContext): unknown {
+  const [head, ...args] = term.match(TOKEN_PATTERN) || []
+  if (!head) return undefined
+
+  switch (head) {
+    case 'now':
+      return new Date().toISOString()
+    case 'timestamp':
+      return Date.now()
+    case 'uuid':
+      return crypto.randomUUID()
+  }
+
+  if (head.startsWith('faker.')) {
+    const numericArgs = args.map(arg => Number(evaluateToken(arg, context))).filter(Number.isFinite)
+    return generateFakeValue(head.substring('faker.'.length), numericArgs)
+  }
+
+  return evaluateToken(head, context)
+}
+
+// Evaluate an expression, falling through `||` alternatives until one yields a value
+function evaluate(expression: string, context: TemplateContext): unknown {
+  const alternatives = expression.split('||').map(part => part.trim())
+  for (const [index, alternative] of alternatives.entries()) {
+    const value = evaluateTerm(alternative, context)
+    const isLast = index === alternatives.length - 1
+    if (isLast || (value !== undefined && value !== null && value !== '')) {
+      return value
+    }
+  }
+  return undefined
+}
+
+// Resolve the repeat count for a "{{repeat N}}" or "{{repeat MIN MAX}}" array element
+function repeatCount(directive: string, context: TemplateContext): number | null {
+  const match = directive.match(REPEAT_DIRECTIVE)
+  if (!match) return null
+
+  const [min, max] = (match[1].match(TOKEN_PATTERN) || [])
+    .slice(0, 2)
+    .map(token => Math.floor(Number(evaluateToken(token, context))))
+  if (!Number.isFinite(min)) return 0
+
+  const count = max !== undefined && Number.isFinite(max) && max > min
+    ? min + Math.floor(Math.random() * (max - min + 1))
+    : min
+  return Math.min(Math.max(count, 0), MAX_REPEAT)
+}
+
+function renderString(value: string, context: TemplateContext): unknown {
+  // A string that is exactly one placeholder keeps the resolved value's type
+  const whole = value.match(WHOLE_PLACEHOLDER)
+  if (whole) {
+    const resolved = evaluate(whole[1], context)
+    return resolved === undefined ? value : resolved
+  }
+
+  return value.replace(PLACEHOLDER_PATTERN, (placeholder, expression) => {
+    const resolved = evaluate(expression, context)
+    if (resolved === undefined) return placeholder
+    return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved)
+  })
+}
+
+function renderArray(items: unknown[], context: TemplateContext, budget: RenderBudget): unknown[] {
+  const rendered: unknown[] = []
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i]
+    const count = typeof item === 'string' ? repeatCount(item, context) : null
+
+    if (count === null) {
+      rendered.push(render(item, context, budget))
+      continue
+    }
+
+    // The directive consumes the following element as the item template
+    i++
+    if (i >= items.length) break
+    for (let index = 0; index < count && budget.remaining > 0; index++) {
+      budget.remaining--
+      rendered.push(render(items[i], { ...context, index }, budget))
+    }
+  }
+  return rendered
+}
+
+export function hasPlaceholders(value: unknown): boolean {
+  return JSON.stringify(value ?? null).includes('{{')
+}
+
+function render(value: unknown, context: TemplateContext, budget: RenderBudget): unknown {
+  if (typeof value === 'string') {
+    return renderString(value, context)
+  }
+  if (Array.isArray(value)) {
+    return renderArray(value, context, budget)
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, render(item, context, budget)])
+    )
+  }
+  return value
+}
+
+// Resolve placeholders throughout a JSON value
+export function renderTemplate(value: unknown, context: TemplateContext): unknown {
+  return render(value, context, { remaining: MAX_REPEATED_ITEMS })
+}
@@ -0,0 +1,216 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2"
+import { hmacSha256Hex } from "./signing.ts"
+import { checkOutboundTarget } from "./targets.ts"
+
+// Outbound webhook deliveries. A database trigger queues a delivery for every webhook interested in
+// an api_data change; this module sends them. Shared by the webhooks function, which sends on
+// request from the dashboard, test-fires and redelivers, and by the api-proxy and graphql functions,
+// which send right after their own writes.
+//
+// Every delivery is a POST of the JSON payload, signed like this:
+//   X-Webhook-Timestamp: 1735689600
+//   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" with the webhook secret>
+// A failed attempt (network error, timeout or non-2xx response) is retried after
+// RETRY_BASE_SECONDS, doubling each time, until MAX_DELIVERY_ATTEMPTS are used.
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature'
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp'
+
+export const MAX_DELIVERY_ATTEMPTS = 5
+export const RETRY_BASE_SECONDS = 10
+
+// Receivers must answer within this long
+const DELIVERY_TIMEOUT_MS = 10000
+
+// Longer response bodies are cut before they are logged
+const MAX_LOGGED_BODY_CHARS = 4096
+
+// Due deliveries sent per run, so one busy project cannot hold a request open for long
+const DELIVERY_BATCH_SIZE = 20
+
+export interface Webhook {
+  id: string
+  project_id: string
+  user_id: string
+  name: string
+  url: string
+  secret: string
+  enabled: boolean
+}
+
+export interface WebhookDelivery {
+  id: string
+  webhook_id: string
+  event: string
+  event_id: string
+  payload: Record<string, unknown>
+  status: 'pending' | 'delivering' | 'succeeded' | 'failed'
+  attempts: number
+  next_attempt_at: string
+}
+
+interface DueDelivery extends WebhookDelivery {
+  webhooks: Webhook
+}
+
+export interface DeliveryFilter {
+  projectId?: string
+  userId?: string
+}
+
+// Wait before retrying after the given number of failed attempts: 10s, 20s, 40s, ...
+export function retryDelaySeconds(attempts: number) {
+  return RETRY_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0)
+}
+
+export async function signPayload(secret: string, timestamp: string, body: string) {
+  return `sha256=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`
+}
+
+// An in-flight attempt holds the delivery this long; one whose function died becomes due again
+function leaseUntil(now: number) {
+  return new Date(now + DELIVERY_TIMEOUT_MS * 2).toISOString()
+}
+
+async function readResponseBody(response: Response) {
+  const text = await response.text()
+  return text.length > MAX_LOGGED_BODY_CHARS ? `${text.substring(0, MAX_LOGGED_BODY_CHARS)}…` : text
+}
+
+// Send one attempt of a claimed delivery and record its outcome
+export async function attemptDelivery(supabaseClient: SupabaseClient, delivery: WebhookDelivery, webhook: Webhook) {
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  const attempts = delivery.attempts + 1
+  const startTime = Date.now()
+
+  let responseStatus: number | null = null
+  let responseBody: string | null = null
+  // Private and local receivers are refused like upstreams, since the logged response is readable
+  // by the webhook's owner; a refusal is final, so it isn't retried
+  const refusal = await checkOutboundTarget(webhook.url)
+  let error: string | null = refusal
+
+  if (!refusal) {
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'api-hero-webhooks/1.0',
+          'X-Webhook-Id': webhook.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery.id,
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: await signPayload(webhook.secret, timestamp, body)
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      })
+      responseStatus = response.status
+      responseBody = await readResponseBody(response)
+      if (!response.ok) error = `Receiver responded with ${response.status}`
+    } catch (fetchError) {
+      error = (fetchError as Error).name === 'TimeoutError'
+        ? `No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds`
+        : (fetchError as Error).message
+    }
+  }
+
+  const now = Date.now()
+  const succeeded = error === null
+  const exhausted = !succeeded && (refusal !== null || attempts >= MAX_DELIVERY_ATTEMPTS)
+  const update = {
+    status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+    attempts,
+    next_attempt_at: new Date(now + (succeeded || exhausted ? 0 : retryDelaySeconds(attempts) * 1000)).toISOString(),
+    response_status: responseStatus,
+    response_body: responseBody,
+    error,
+    duration_ms: now - startTime,
+    completed_at: succeeded || exhausted ? new Date(now).toISOString() : null
+  }
+
+  const { data, error: updateError } = await supabaseClient
+    .from('webhook_deliveries')
+    .update(update)
+    .eq('id', delivery.id)
+    .select('*')
+    .single()
+
+  if (updateError) throw updateError
+  console.log(`Webhook ${webhook.name}: ${delivery.event} attempt ${attempts} ${succeeded ? 'delivered' : `failed - ${error}`}`)
+  return data
+}
+
+// Send every delivery that is due, oldest first. Returns how many were attempted.
+export async function deliverDueWebhooks(supabaseClient: SupabaseClient, filter: DeliveryFilter = {}) {
+  const now = Date.now()
+  let query = supabaseClient
+    .from('webhook_deliveries')
+    .select('*, webhooks!inner(id, project_id, user_id, name, url, secret, enabled)')
+    .in('status', ['pending', 'delivering'])
+    .lte('next_attempt_at', new Date(now).toISOString())
+    .eq('webhooks.enabled', true)
+    .order('next_attempt_at', { ascending: true })
+    .limit(DELIVERY_BATCH_SIZE)
+
+  if (filter.projectId) query = query.eq('webhooks.project_id', filter.projectId)
+  if (filter.userId) query = query.eq('webhooks.user_id', filter.userId)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  let attempted = 0
+  for (const due of (data || []) as DueDelivery[]) {
+    // Claim the delivery first, so runs started side by side never send it twice
+    const { data: claimed, error: claimError } = await supabaseClient
+      .from('webhook_deliveries')
+      .update({ status: 'delivering', next_attempt_at: leaseUntil(now) })
+      .eq('id', due.id)
+      .eq('status', due.status)
+      .eq('next_attempt_at', due.next_attempt_at)
+      .select('id')
+
+    if (claimError) throw claimError
+    if (!claimed || claimed.length === 0) continue
+
+    const { webhooks: webhook, ...delivery } = due
+    await attemptDelivery(supabaseClient, delivery, webhook)
+    attempted++
+  }
+  return attempted
+}
+
+// Queue a delivery and send its first attempt now, for test-fires and manual redeliveries
+export async function deliverNow(
+  supabaseClient: SupabaseClient,
+  webhook: Webhook,
+  delivery: Pick<WebhookDelivery, 'event' | 'event_id' | 'payload'> & { redelivery_of?: string }
+) {
+  const { data, error } = await supabaseClient
+    .from('webhook_deliveries')
+    .insert([{
+      ...delivery,
+      webhook_id: webhook.id,
+      user_id: webhook.user_id,
+      status: 'delivering',
+      next_attempt_at: leaseUntil(Date.now())
+    }])
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return attemptDelivery(supabaseClient, data as WebhookDelivery, webhook)
+}
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined
+
+// Send a project's due deliveries after the response has gone out, without failing the request
+export function deliverWebhooksInBackground(supabaseClient: SupabaseClient, projectId: string) {
+  const run = deliverDueWebhooks(supabaseClient, { projectId }).catch(error => {
+    console.error('Webhook delivery error:', error)
+  })
+  if (typeof EdgeRuntime !== 'undefined') EdgeRuntime.waitUntil(run)
+}
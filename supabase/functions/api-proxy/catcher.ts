@@ -0,0 +1,111 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2"
+
+// Catcher endpoints accept any method, store the full request in api_captures for the request
+// inspector, and answer with a configured response.
+
+// Mirrors the catcher settings edited in the frontend (src/utils/captures.ts)
+export interface CatcherConfig {
+  status?: number
+  headers?: Record<string, string>
+  // Rendered like a template; unset answers { received: true, capture_id }
+  body?: unknown
+}
+
+export const DEFAULT_CATCHER_STATUS = 200
+
+// Larger bodies are counted but not stored
+const MAX_CAPTURED_BYTES = 1024 * 1024
+
+// The proxy's own credential is not kept with the capture
+const REDACTED_HEADERS = ['x-api-key']
+
+export interface CapturedRequest {
+  method: string
+  path: string
+  query: Record<string, string | string[]>
+  headers: Record<string, string>
+  body: string | null
+  body_encoding: 'text' | 'base64'
+  body_size: number
+  ip: string | null
+}
+
+export function validateCatcherConfig(config: CatcherConfig | null): string | null {
+  const status = config?.status ?? DEFAULT_CATCHER_STATUS
+  if (!Number.isInteger(status) || status < 100 || status > 599) return 'Catcher response status must be between 100 and 599'
+  return null
+}
+
+// Repeated query parameters are kept as arrays
+function queryObject(params: URLSearchParams) {
+  const query: Record<string, string | string[]> = {}
+  for (const name of new Set(params.keys())) {
+    const values = params.getAll(name)
+    query[name] = values.length === 1 ? values[0] : values
+  }
+  return query
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export async function describeCapture(req: Request, url: URL, route: string, ip: string | null): Promise<CapturedRequest> {
+  const headers: Record<string, string> = {}
+  for (const [name, value] of req.headers) {
+    headers[name] = REDACTED_HEADERS.includes(name) ? '[redacted]' : value
+  }
+
+  const bytes = new Uint8Array(await req.clone().arrayBuffer())
+  let body: string | null = null
+  let encoding: CapturedRequest['body_encoding'] = 'text'
+  if (bytes.byteLength > 0 && bytes.byteLength <= MAX_CAPTURED_BYTES) {
+    try {
+      body = new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    } catch {
+      body = toBase64(bytes)
+      encoding = 'base64'
+    }
+  }
+
+  return {
+    method: req.method,
+    path: route,
+    query: queryObject(url.searchParams),
+    headers,
+    body,
+    body_encoding: encoding,
+    body_size: bytes.byteLength,
+    ip
+  }
+}
+
+// Store the request; returns the capture id, or null when it could not be stored
+export async function storeCapture(
+  supabaseClient: SupabaseClient,
+  endpoint: { id: string; project_id: string | null; user_id: string },
+  capture: CapturedRequest,
+  responseStatus: number
+): Promise<string | null> {
+  const { data, error } = await supabaseClient
+    .from('api_captures')
+    .insert([{
+      ...capture,
+      endpoint_id: endpoint.id,
+      project_id: endpoint.project_id,
+      user_id: endpoint.user_id,
+      response_status: responseStatus
+    }])
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('Failed to store capture:', error)
+    return null
+  }
+  return data.id
+}
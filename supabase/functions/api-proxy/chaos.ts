@@ -0,0 +1,144 @@
+// Latency, failure and truncation injection for testing clients against slow or flaky backends.
+// An endpoint's saved profile applies while enabled; the X-Mock-Scenario request header can
+// switch to a built-in scenario, force the saved profile ("default") or disable chaos ("off").
+
+export interface ChaosProfile {
+  latency_min_ms: number
+  latency_max_ms: number
+  // Percentages from 0 to 100
+  failure_rate: number
+  failure_status_codes: number[]
+  truncate_rate: number
+  timeout_rate: number
+  timeout_ms: number
+}
+
+export interface ChaosConfig extends ChaosProfile {
+  enabled: boolean
+}
+
+export interface ActiveChaos {
+  scenario: string
+  profile: ChaosProfile
+}
+
+export interface ChaosFailure {
+  status: number
+  body: { error: string; message: string; scenario: string }
+  headers: Record<string, string>
+  reason: string
+}
+
+export const MAX_LATENCY_MS = 30000
+export const MAX_TIMEOUT_MS = 60000
+
+const NO_CHAOS: ChaosProfile = {
+  latency_min_ms: 0,
+  latency_max_ms: 0,
+  failure_rate: 0,
+  failure_status_codes: [500],
+  truncate_rate: 0,
+  timeout_rate: 0,
+  timeout_ms: 10000
+}
+
+export const CHAOS_SCENARIOS: Record<string, Partial<ChaosProfile>> = {
+  slow: { latency_min_ms: 2000, latency_max_ms: 5000 },
+  flaky: { failure_rate: 50, failure_status_codes: [500, 503] },
+  'rate-limited': { failure_rate: 100, failure_status_codes: [429] },
+  'server-error': { failure_rate: 100, failure_status_codes: [500] },
+  unavailable: { failure_rate: 100, failure_status_codes: [503] },
+  timeout: { timeout_rate: 100 },
+  truncated: { truncate_rate: 100 }
+}
+
+const FAILURE_MESSAGES: Record<number, string> = {
+  429: 'Too many requests',
+  500: 'Internal server error',
+  502: 'Bad gateway',
+  503: 'Service unavailable',
+  504: 'Gateway timeout'
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number) {
+  const number = Number(value)
+  return Number.isFinite(number) ? Math.min(Math.max(number, min), max) : fallback
+}
+
+function normalizeProfile(profile: Partial<ChaosProfile>): ChaosProfile {
+  const latencyMin = clamp(profile.latency_min_ms, 0, MAX_LATENCY_MS, 0)
+  const statusCodes = (profile.failure_status_codes || [])
+    .filter(code => Number.isInteger(code) && code >= 400 && code <= 599)
+
+  return {
+    latency_min_ms: latencyMin,
+    latency_max_ms: Math.max(latencyMin, clamp(profile.latency_max_ms, 0, MAX_LATENCY_MS, latencyMin)),
+    failure_rate: clamp(profile.failure_rate, 0, 100, 0),
+    failure_status_codes: statusCodes.length > 0 ? statusCodes : NO_CHAOS.failure_status_codes,
+    truncate_rate: clamp(profile.truncate_rate, 0, 100, 0),
+    timeout_rate: clamp(profile.timeout_rate, 0, 100, 0),
+    timeout_ms: clamp(profile.timeout_ms, 0, MAX_TIMEOUT_MS, NO_CHAOS.timeout_ms)
+  }
+}
+
+export function resolveChaos(config: ChaosConfig | null | undefined, scenarioHeader: string | null): ActiveChaos | null {
+  const scenario = scenarioHeader?.trim().toLowerCase() || ''
+
+  if (scenario === 'off' || scenario === 'none') return null
+  if (CHAOS_SCENARIOS[scenario]) {
+    return { scenario, profile: normalizeProfile({ ...NO_CHAOS, ...CHAOS_SCENARIOS[scenario] }) }
+  }
+  if (config && (config.enabled || scenario === 'default')) {
+    return { scenario: 'default', profile: normalizeProfile(config) }
+  }
+  return null
+}
+
+function roll(percentage: number) {
+  return percentage > 0 && Math.random() * 100 < percentage
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Wait out the configured latency, then decide whether this request times out or fails
+export async function injectChaos(chaos: ActiveChaos): Promise<ChaosFailure | null> {
+  const { profile, scenario } = chaos
+  const latency = profile.latency_min_ms + Math.random() * (profile.latency_max_ms - profile.latency_min_ms)
+  if (latency > 0) {
+    await sleep(latency)
+  }
+
+  if (roll(profile.timeout_rate)) {
+    await sleep(profile.timeout_ms)
+    return {
+      status: 504,
+      body: { error: FAILURE_MESSAGES[504], message: `Simulated timeout after ${profile.timeout_ms}ms`, scenario },
+      headers: {},
+      reason: 'Simulated timeout'
+    }
+  }
+
+  if (roll(profile.failure_rate)) {
+    const codes = profile.failure_status_codes
+    const status = codes[Math.floor(Math.random() * codes.length)]
+    return {
+      status,
+      body: { error: FAILURE_MESSAGES[status] || 'Simulated failure', message: `Simulated ${status} response`, scenario },
+      headers: status === 429 || status === 503 ? { 'Retry-After': '1' } : {},
+      reason: `Simulated ${status} failure`
+    }
+  }
+
+  return null
+}
+
+export function shouldTruncate(chaos: ActiveChaos | null): boolean {
+  return !!chaos && roll(chaos.profile.truncate_rate)
+}
+
+// Cut a body roughly in half so clients receive malformed JSON
+export function truncateBody(body: string): string {
+  return body.substring(0, Math.floor(body.length / 2))
+}
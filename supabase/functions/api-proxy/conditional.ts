@@ -0,0 +1,61 @@
+// Validators for conditional GETs: a strong ETag derived from the exact body sent, and
+// Last-Modified from the newest of the endpoint, template, schema and data timestamps.
+
+// Strong validator: equal ETags mean byte-identical bodies, so it follows query shaping,
+// templating and format changes as well as data changes
+export async function computeEtag(body: string | null): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body ?? ''))
+  const hex = Array.from(new Uint8Array(digest).slice(0, 16))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+  return `"${hex}"`
+}
+
+// Newest of the given ISO timestamps, ignoring missing ones
+export function latestTimestamp(...timestamps: (string | null | undefined)[]): string | null {
+  let latest: string | null = null
+  for (const timestamp of timestamps) {
+    if (timestamp && (!latest || new Date(timestamp).getTime() > new Date(latest).getTime())) {
+      latest = timestamp
+    }
+  }
+  return latest
+}
+
+export function httpDate(timestamp: string) {
+  return new Date(timestamp).toUTCString()
+}
+
+function etagMatches(header: string, etag: string) {
+  if (header.trim() === '*') return true
+  // If-None-Match uses weak comparison, so W/ prefixes are ignored
+  const opaque = etag.replace(/^W\//, '')
+  return header.split(',').some(candidate => candidate.trim().replace(/^W\//, '') === opaque)
+}
+
+// RFC 9110 evaluation order: If-None-Match decides when present, otherwise If-Modified-Since.
+// HTTP dates have one-second precision, so sub-second changes compare as unmodified.
+export function isNotModified(req: Request, etag: string | null, lastModified: string | null) {
+  const ifNoneMatch = req.headers.get('if-none-match')
+  if (ifNoneMatch !== null) {
+    return etag !== null && etagMatches(ifNoneMatch, etag)
+  }
+
+  const ifModifiedSince = req.headers.get('if-modified-since')
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince)
+    return !isNaN(since) && Math.floor(new Date(lastModified).getTime() / 1000) <= Math.floor(since / 1000)
+  }
+  return false
+}
+
+// Default when the endpoint sets no Cache-Control: clients may store responses but must
+// revalidate with the ETag, which costs a 304 instead of a full body
+export function defaultCacheControl(isPublic: boolean) {
+  return isPublic ? 'no-cache' : 'private, no-cache'
+}
+
+// no-store also keeps the response out of the proxy's own cache
+export function forbidsStorage(cacheControl: string) {
+  return /(^|,)\s*no-store\s*(,|$)/i.test(cacheControl)
+}
@@ -0,0 +1,40 @@
+// Stand-in upstream for trying upstream endpoints locally. It answers every request with the
+// method, path, query, headers and body it received, so forwarded and configured headers can be
+// checked, and with ECHO_STATUS after ECHO_DELAY_MS, so errors and timeouts can be tried too:
+//   deno run --allow-net --allow-env supabase/functions/api-proxy/echo-upstream.ts
+// When the functions run in `supabase start`, serve them with ALLOW_PRIVATE_TARGETS=true in their
+// env file and set the endpoint's upstream URL to http://host.docker.internal:8080, optionally
+// with a path and :name placeholders, e.g. http://host.docker.internal:8080/users/:id.
+// Not deployed: it is not a function entrypoint.
+
+const port = Number(Deno.env.get('PORT') ?? 8080)
+const responseStatus = Number(Deno.env.get('ECHO_STATUS') ?? 200)
+const delayMs = Number(Deno.env.get('ECHO_DELAY_MS') ?? 0)
+
+Deno.serve({ port }, async (req) => {
+  const url = new URL(req.url)
+  const body = await req.text()
+
+  console.log(`${new Date().toISOString()} ${req.method} ${url.pathname}${url.search}`)
+  if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs))
+
+  let json: unknown = null
+  try {
+    json = body ? JSON.parse(body) : null
+  } catch {
+    // Non-JSON bodies are echoed as text only
+  }
+
+  return new Response(JSON.stringify({
+    method: req.method,
+    path: url.pathname,
+    query: Object.fromEntries(url.searchParams),
+    headers: Object.fromEntries(req.headers),
+    body: body || null,
+    json,
+    received_at: new Date().toISOString()
+  }, null, 2), {
+    status: responseStatus,
+    headers: { 'Content-Type': 'application/json' }
+  })
+})
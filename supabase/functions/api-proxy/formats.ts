@@ -0,0 +1,183 @@
+import type { SchemaField } from "./types.ts"
+
+// Output formats for JSON data, negotiated with ?format= or the Accept header. Endpoints
+// declaring a non-JSON content type send their data as-is and don't take part.
+
+export type ResponseFormat = 'json' | 'ndjson' | 'xml' | 'csv' | 'yaml'
+
+export const RESPONSE_FORMATS: ResponseFormat[] = ['json', 'ndjson', 'xml', 'csv', 'yaml']
+
+export const FORMAT_CONTENT_TYPES: Record<Exclude<ResponseFormat, 'json'>, string> = {
+  ndjson: 'application/x-ndjson',
+  xml: 'application/xml; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  yaml: 'application/yaml; charset=utf-8'
+}
+
+const MEDIA_TYPE_FORMATS: Record<string, ResponseFormat> = {
+  'application/json': 'json',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/xml': 'xml',
+  'text/xml': 'xml',
+  'text/csv': 'csv',
+  'application/yaml': 'yaml',
+  'application/x-yaml': 'yaml',
+  'text/yaml': 'yaml'
+}
+
+export type FormatNegotiation =
+  | { ok: true; format: ResponseFormat }
+  | { ok: false; status: 400 | 406; message: string }
+
+// ?format= must name a format the endpoint serves. Accept is a preference: when none of its
+// types are served, the endpoint's default format is sent rather than failing the request.
+export function negotiateFormat(url: URL, accept: string | null, allowed: ResponseFormat[] | null): FormatNegotiation {
+  const served = allowed?.length ? RESPONSE_FORMATS.filter(format => allowed.includes(format)) : RESPONSE_FORMATS
+
+  const requested = url.searchParams.get('format')
+  if (requested !== null) {
+    const format = requested.toLowerCase() as ResponseFormat
+    if (!RESPONSE_FORMATS.includes(format)) {
+      return { ok: false, status: 400, message: `Unknown format "${requested}". Supported: ${RESPONSE_FORMATS.join(', ')}` }
+    }
+    if (!served.includes(format)) {
+      return { ok: false, status: 406, message: `This endpoint does not serve ${format}. Available: ${served.join(', ')}` }
+    }
+    return { ok: true, format }
+  }
+
+  let best: ResponseFormat | null = null
+  let bestWeight = 0
+  for (const part of (accept || '').split(',')) {
+    const [mediaType, ...params] = part.trim().toLowerCase().split(';')
+    const format = MEDIA_TYPE_FORMATS[mediaType.trim()] ??
+      (/^application\/[\w.-]+\+json$/.test(mediaType.trim()) ? 'json' : undefined)
+    if (!format || !served.includes(format)) continue
+    const q = params.map(param => param.trim().match(/^q=([\d.]+)$/)).find(Boolean)
+    const weight = q ? Number(q[1]) : 1
+    if (weight > bestWeight) {
+      best = format
+      bestWeight = weight
+    }
+  }
+  return { ok: true, format: best ?? served[0] }
+}
+
+// Flatten nested objects into dotted keys; arrays stay whole and are written as JSON
+function flatten(value: unknown, prefix: string, row: Record<string, unknown>) {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, nested] of Object.entries(value)) {
+      flatten(nested, prefix ? `${prefix}.${key}` : key, row)
+    }
+  } else {
+    row[prefix] = value
+  }
+}
+
+// Column paths for schema fields, descending into objectFields
+function fieldColumns(fields: SchemaField[], prefix = ''): string[] {
+  return fields.flatMap(field => field.type === 'object' && field.objectFields?.length
+    ? fieldColumns(field.objectFields, `${prefix}${field.name}.`)
+    : [`${prefix}${field.name}`])
+}
+
+// Spreadsheets run text cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return ''
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  // Strings are neutralised with a leading quote; numbers such as -5 are left as they are
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// One row per item, with a header row. Schema fields give the column order; keys outside the
+// schema follow in the order they first appear.
+export function toCsv(data: unknown, fields?: SchemaField[]): string {
+  const items = Array.isArray(data) ? data : [data]
+  const rows = items.map(item => {
+    const row: Record<string, unknown> = {}
+    flatten(item !== null && typeof item === 'object' ? item : { value: item }, '', row)
+    return row
+  })
+
+  const columns = ['id', ...(fields ? fieldColumns(fields) : [])]
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key)
+    }
+  }
+  const used = columns.filter(column => rows.some(row => column in row))
+
+  return [used, ...rows.map(row => used.map(column => row[column]))]
+    .map(cells => cells.map(csvCell).join(','))
+    .join('\r\n') + '\r\n'
+}
+
+function xmlName(key: string) {
+  const name = key.replace(/[^A-Za-z0-9_.-]/g, '_')
+  return /^[A-Za-z_]/.test(name) && !/^xml/i.test(name) ? name : `_${name}`
+}
+
+function xmlEscape(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;')
+}
+
+function xmlElement(name: string, value: unknown, indent: string): string {
+  const tag = xmlName(name)
+  if (value === null || value === undefined) return `${indent}<${tag}/>`
+  if (Array.isArray(value)) {
+    if (value.length === 0) return `${indent}<${tag}/>`
+    return `${indent}<${tag}>\n${value.map(item => xmlElement('item', item, indent + '  ')).join('\n')}\n${indent}</${tag}>`
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value)
+    if (entries.length === 0) return `${indent}<${tag}/>`
+    return `${indent}<${tag}>\n${entries.map(([key, nested]) => xmlElement(key, nested, indent + '  ')).join('\n')}\n${indent}</${tag}>`
+  }
+  return `${indent}<${tag}>${xmlEscape(String(value))}</${tag}>`
+}
+
+// Arrays become <items> of <item> elements; keys that aren't valid XML names are sanitised
+export function toXml(data: unknown): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${xmlElement(Array.isArray(data) ? 'items' : 'response', data, '')}\n`
+}
+
+// Strings that YAML would read as another type, or that contain syntax, are double-quoted
+function yamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null'
+  if (typeof value !== 'string') return String(value)
+  const plain = value !== '' && value === value.trim() &&
+    !/^[-?:,[\]{}#&*!|>'"%@`~]/.test(value) && !/: |\s#|[\n\r\t]/.test(value) &&
+    !/^(true|false|yes|no|on|off|null|y|n)$/i.test(value) && isNaN(Number(value))
+  return plain ? value : JSON.stringify(value)
+}
+
+function yamlLines(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${indent}[]`]
+    return value.flatMap(item => {
+      // The first line of a nested item shares the dash's line
+      const nested = yamlLines(item, indent + '  ')
+      return [`${indent}- ${nested[0].trimStart()}`, ...nested.slice(1)]
+    })
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+    if (entries.length === 0) return [`${indent}{}`]
+    return entries.flatMap(([key, nested]) => {
+      const name = yamlScalar(key)
+      if (nested !== null && typeof nested === 'object' && Object.keys(nested).length > 0) {
+        return [`${indent}${name}:`, ...yamlLines(nested, indent + '  ')]
+      }
+      return [`${indent}${name}: ${yamlLines(nested, '')[0]}`]
+    })
+  }
+  return [`${indent}${yamlScalar(value)}`]
+}
+
+export function toYaml(data: unknown): string {
+  return yamlLines(data, '').join('\n') + '\n'
+}
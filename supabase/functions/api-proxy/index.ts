@@ -1,9 +1,33 @@
-import { createClient } from "npm:@supabase/supabase-js@2"
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2"
+import { validateSchemaData } from "../_shared/schemaValidator.ts"
+import { queryCollection } from "../_shared/collectionQuery.ts"
+import { compileRoutePattern, matchRoute, type RoutePattern } from "./routeMatcher.ts"
+import { hasPlaceholders, renderTemplate, type TemplateRequest } from "../_shared/template.ts"
+import { injectChaos, resolveChaos, shouldTruncate, truncateBody, type ActiveChaos, type ChaosConfig, type ChaosFailure } from "./chaos.ts"
+import { activeRules, findMatchingRule, ruleResponseBody, rulesReadBody } from "./responseRules.ts"
+import { checkManagedKey, hasScope, requiredScope, type ManagedApiKey } from "../_shared/apiKeys.ts"
+import { checkRateLimit, pruneRateLimits, rateLimitHeaders, type RateLimitConfig, type RateLimitResult } from "./rateLimiter.ts"
+import { verifyJwt, type JwtClaims, type JwtConfig } from "../_shared/jwt.ts"
+import { verifySignedRequest, type SigningEndpoint } from "./requestSigning.ts"
+import { computeEtag, defaultCacheControl, forbidsStorage, httpDate, isNotModified, latestTimestamp } from "./conditional.ts"
+import { compressBody, countBytes, MIN_COMPRESS_BYTES, negotiateEncoding, STREAM_THRESHOLD_ITEMS, streamCollection } from "./encoding.ts"
+import { FORMAT_CONTENT_TYPES, negotiateFormat, toCsv, toXml, toYaml, type FormatNegotiation, type ResponseFormat } from "./formats.ts"
+import { applyCorsPolicy, checkAccess, getClientIp, preflightHeaders, resolveAccessPolicy, type AccessPolicy, type PolicyEndpoint } from "../_shared/accessPolicy.ts"
+import { describeRequest, findRecording, forwardRequest, loadUpstreamHeaders, recordExchange, upstreamUrl, validateUpstreamConfig } from "./upstream.ts"
+import { checkOutboundTarget } from "../_shared/targets.ts"
+import { applyVersion, fetchVersion, hasVersions, isSunset, parseRequestedVersion, splitVersionPrefix, versionHeaders, type ServedVersion } from "./versioning.ts"
+import { isValidSessionKey, openMockSession, readSessionKey, schemaScope, sessionHeaders, type MockSession, type SchemaScope } from "./sessions.ts"
+import { activeSequence, advanceSequence, type SequenceStep } from "./sequences.ts"
+import { createEventStream, lastEventId, resumePosition, validateStreamConfig } from "./streaming.ts"
+import { deliverWebhooksInBackground } from "../_shared/webhooks.ts"
+import { DEFAULT_CATCHER_STATUS, describeCapture, storeCapture, validateCatcherConfig } from "./catcher.ts"
+import type { ApiDataRow, ProxyEndpoint, ResponseRule, SchemaField } from "./types.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key, x-mock-scenario, x-key-id, x-signature, x-signature-timestamp, if-none-match, if-modified-since, accept-version, x-mock-session, last-event-id',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+  'Access-Control-Expose-Headers': 'x-total-count, link, x-next-cursor, x-mock-rule, x-mock-scenario, x-ratelimit-limit, x-ratelimit-remaining, x-ratelimit-reset, retry-after, www-authenticate, etag, x-upstream, x-recording-id, x-api-version, deprecation, sunset, x-mock-session, x-mock-session-expires, x-mock-sequence-step',
 }
 
 // Optimized cache with automatic cleanup
@@ -62,6 +86,8 @@ function cleanupCache() {
     toDelete.forEach(([key]) => dataVersionCache.delete(key))
   }
   
+  pruneRateLimits(now)
+
   if (cleanedCount > 0) {
     console.log(`Cache cleanup: removed ${cleanedCount} stale entries`)
   }
@@ -75,11 +101,12 @@ function getCacheKey(route: string, apiKey?: string) {
   return `${route}:${apiKey || 'public'}`
 }
 
+// Keyed per endpoint as well, since each endpoint's own configuration is part of the check
 function getDataVersionKey(endpointId: string, dataType: string, relatedId?: string) {
   if (dataType === 'schema' && relatedId) {
-    return `schema:${relatedId}`
+    return `schema:${relatedId}:${endpointId}`
   } else if (dataType === 'template' && relatedId) {
-    return `template:${relatedId}`
+    return `template:${relatedId}:${endpointId}`
   }
   return `endpoint:${endpointId}`
 }
@@ -103,47 +130,52 @@ async function isCacheValid(cacheEntry: any, supabaseClient: any) {
       setTimeout(() => reject(new Error('Validation timeout')), 5000)
     )
     
+    // The endpoint's own updated_at covers its configuration - rules, sequences, chaos, response
+    // settings and the rest - for every data type
+    const endpointTimestamp = async () => {
+      const { data } = await supabaseClient
+        .from('api_endpoints')
+        .select('updated_at')
+        .eq('id', endpointId)
+        .single()
+      return data?.updated_at as string | undefined
+    }
+
     const validationPromise = (async () => {
       if (dataType === 'schema' && relatedId) {
-        // Optimized query: get max updated_at from both tables
-        const { data: schemaTime } = await supabaseClient
-          .from('api_schemas')
-          .select('updated_at')
-          .eq('id', relatedId)
-          .single()
-        
-        const { data: dataTime } = await supabaseClient
-          .from('api_data')
-          .select('updated_at')
-          .eq('schema_id', relatedId)
-          .order('updated_at', { ascending: false })
-          .limit(1)
-          .maybeSingle()
-        
-        const schemaTimestamp = schemaTime?.updated_at
-        const dataTimestamp = dataTime?.updated_at
-        
-        if (schemaTimestamp && dataTimestamp) {
-          lastModified = schemaTimestamp > dataTimestamp ? schemaTimestamp : dataTimestamp
-        } else {
-          lastModified = schemaTimestamp || dataTimestamp
-        }
+        // Optimized query: get max updated_at from the schema, its data and the endpoint
+        const [{ data: schemaTime }, { data: dataTime }, endpointTime] = await Promise.all([
+          supabaseClient
+            .from('api_schemas')
+            .select('updated_at')
+            .eq('id', relatedId)
+            .single(),
+          supabaseClient
+            .from('api_data')
+            .select('updated_at')
+            .eq('schema_id', relatedId)
+            .order('updated_at', { ascending: false })
+            .limit(1)
+            .maybeSingle(),
+          endpointTimestamp()
+        ])
+
+        lastModified = schemaTime?.updated_at || dataTime?.updated_at
+          ? latestTimestamp(schemaTime?.updated_at, dataTime?.updated_at, endpointTime)
+          : null
       } else if (dataType === 'template' && relatedId) {
-        const { data } = await supabaseClient
-          .from('json_templates')
-          .select('updated_at')
-          .eq('id', relatedId)
-          .single()
-        
-        lastModified = data?.updated_at
+        const [{ data }, endpointTime] = await Promise.all([
+          supabaseClient
+            .from('json_templates')
+            .select('updated_at')
+            .eq('id', relatedId)
+            .single(),
+          endpointTimestamp()
+        ])
+
+        lastModified = data?.updated_at ? latestTimestamp(data.updated_at, endpointTime) : null
       } else {
-        const { data } = await supabaseClient
-          .from('api_endpoints')
-          .select('updated_at')
-          .eq('id', endpointId)
-          .single()
-        
-        lastModified = data?.updated_at
+        lastModified = (await endpointTimestamp()) ?? null
       }
       
       return lastModified
@@ -189,15 +221,1073 @@ function addToCache(key: string, data: any, metadata: any) {
   })
 }
 
+// Drop every cached response built from a schema's data after a write
+function invalidateSchemaCache(schemaId: string) {
+  for (const [key, entry] of endpointCache.entries()) {
+    if (entry.metadata.dataType === 'schema' && entry.metadata.relatedId === schemaId) {
+      endpointCache.delete(key)
+    }
+  }
+  for (const key of dataVersionCache.keys()) {
+    if (key.startsWith(`schema:${schemaId}:`)) dataVersionCache.delete(key)
+  }
+}
+
+// Parameterised routes are few, so their compiled patterns are kept in memory briefly
+const ROUTE_PATTERN_TTL = 30 * 1000
+let routePatternCache: { loadedAt: number; candidates: Array<{ pattern: RoutePattern; value: string }> } = {
+  loadedAt: 0,
+  candidates: []
+}
+
+async function getRoutePatterns(supabaseClient: SupabaseClient) {
+  if (Date.now() - routePatternCache.loadedAt < ROUTE_PATTERN_TTL) {
+    return routePatternCache.candidates
+  }
+
+  const { data, error } = await supabaseClient
+    .from('api_endpoints')
+    .select('id, route')
+    .eq('has_route_params', true)
+
+  if (error) throw error
+
+  routePatternCache = {
+    loadedAt: Date.now(),
+    candidates: (data || []).map((row: { id: string; route: string }) => ({
+      pattern: compileRoutePattern(row.route),
+      value: row.id
+    }))
+  }
+  return routePatternCache.candidates
+}
+
+// Race against a database query so a slow query fails the request instead of hanging it
+function dbQueryTimeout() {
+  return new Promise<never>((_, reject) =>
+    setTimeout(() => reject(new Error('Database query timeout')), 10000)
+  )
+}
+
+// Columns the proxy reads for an endpoint, including its template, schema and response rules
+const ENDPOINT_COLUMNS = `
+    id,
+    name,
+    route,
+    json_data,
+    is_public,
+    api_key,
+    data_type,
+    schema_id,
+    template_id,
+    updated_at,
+    user_id,
+    project_id,
+    item_key_field,
+    chaos_config,
+    response_status,
+    response_headers,
+    content_type,
+    cache_control,
+    response_formats,
+    rate_limits,
+    auth_mode,
+    jwt_config,
+    signing_config,
+    access_policy,
+    upstream_config,
+    stream_config,
+    catcher_config,
+    current_version,
+    session_ttl_minutes,
+    response_sequence,
+    projects!project_id(access_policy),
+    json_templates!template_id(id, json_data, updated_at),
+    api_schemas!schema_id(id, fields, updated_at),
+    api_response_rules(id, name, position, enabled, match_mode, conditions, status_code, headers, response_type, body, template_id, json_templates!template_id(json_data))
+  `
+
+// Find the endpoint serving a route: an exact route first, then a parameterised route, then an
+// item of a schema-backed collection. Also returns the captured route parameters and item id.
+async function resolveEndpoint<T>(
+  supabaseClient: SupabaseClient,
+  route: string,
+  columns: string
+): Promise<{ endpoints: T[] | null; routeParams: Record<string, string>; itemId: string | null }> {
+  // Optimized query with timeout
+  const queryTimeout = dbQueryTimeout()
+
+  // IMPROVED LOGIC: First check if the route exists at all (regardless of access level)
+  const routeCheckPromise = supabaseClient
+    .from('api_endpoints')
+    .select(columns)
+    .eq('route', route)
+    .limit(1)
+
+  let { data: allEndpoints, error: queryError } = await Promise.race([routeCheckPromise, queryTimeout])
+
+  if (queryError) {
+    console.error('Database query error:', queryError)
+    throw queryError
+  }
+
+  // Parameterised routes: /shop/products/:id, /files/*
+  let routeParams: Record<string, string> = {}
+  if (!allEndpoints || allEndpoints.length === 0) {
+    const match = matchRoute(await getRoutePatterns(supabaseClient), route)
+
+    if (match) {
+      const { data: matchedEndpoints, error: matchedError } = await Promise.race([
+        supabaseClient
+          .from('api_endpoints')
+          .select(columns)
+          .eq('id', match.value)
+          .limit(1),
+        queryTimeout
+      ])
+
+      if (matchedError) {
+        console.error('Database query error:', matchedError)
+        throw matchedError
+      }
+
+      allEndpoints = matchedEndpoints
+      routeParams = match.params
+    }
+  }
+
+  // Item routes: /collection/<id> resolves to a single row of a schema-backed collection
+  let itemId: string | null = null
+  const lastSlash = route.lastIndexOf('/')
+  if ((!allEndpoints || allEndpoints.length === 0) && lastSlash > 0 && lastSlash < route.length - 1) {
+    const collectionRoute = route.substring(0, lastSlash)
+    const { data: collectionEndpoints, error: collectionError } = await Promise.race([
+      supabaseClient
+        .from('api_endpoints')
+        .select(columns)
+        .eq('route', collectionRoute)
+        .eq('data_type', 'schema')
+        .limit(1),
+      queryTimeout
+    ])
+
+    if (collectionError) {
+      console.error('Database query error:', collectionError)
+      throw collectionError
+    }
+
+    if (collectionEndpoints && collectionEndpoints.length > 0) {
+      allEndpoints = collectionEndpoints
+      itemId = decodeURIComponent(route.substring(lastSlash + 1))
+    }
+  }
+
+  return { endpoints: allEndpoints as T[] | null, routeParams, itemId }
+}
+
+// Resolve the path as requested, falling back to reading a leading /vN as a version prefix only
+// when nothing serves the path and the rest of it resolves to an endpoint with published versions,
+// so projects whose slug looks like a version keep their routes
+async function resolveRequestedEndpoint<T extends { id: string }>(
+  supabaseClient: SupabaseClient,
+  requestPath: string,
+  columns: string
+): Promise<{ endpoints: T[] | null; routeParams: Record<string, string>; itemId: string | null; route: string; prefixVersion: number | null }> {
+  const resolved = await resolveEndpoint<T>(supabaseClient, requestPath, columns)
+  const prefix = splitVersionPrefix(requestPath)
+  if ((resolved.endpoints && resolved.endpoints.length > 0) || !prefix) {
+    return { ...resolved, route: requestPath, prefixVersion: null }
+  }
+
+  const versioned = await resolveEndpoint<T>(supabaseClient, prefix.route, columns)
+  const endpoint = versioned.endpoints?.[0]
+  if (!endpoint || !(await hasVersions(supabaseClient, endpoint.id))) {
+    return { ...resolved, route: requestPath, prefixVersion: null }
+  }
+  return { ...versioned, route: prefix.route, prefixVersion: prefix.version }
+}
+
+function jsonResponse(body: unknown, status: number, startTime: number, extraHeaders: Record<string, string> = {}) {
+  return new Response(
+    body === null ? null : JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'X-Cache': 'MISS',
+        'X-Response-Time': `${Date.now() - startTime}ms`,
+        ...extraHeaders
+      },
+    }
+  )
+}
+
+// Expose the api_data row id alongside the stored data so clients can address items
+function toApiItem(row: ApiDataRow) {
+  return { id: row.id, ...row.data }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+interface CachedResponseData {
+  responseData: unknown
+  // The route as served, without any version prefix; entries are keyed by the path as requested
+  route: string
+  apiType: string
+  apiName: string
+  // Set for schema collections, which are cached whole and shaped per request
+  collectionFields?: SchemaField[]
+  // Set for templated responses, which are cached unrendered and rendered per request
+  templateParams?: Record<string, string>
+  chaosConfig?: ChaosConfig | null
+  // Declared by the endpoint owner for successful reads
+  responseStatus: number
+  contentType: string
+  responseHeaders: Record<string, string>
+  cacheControl: string
+  responseFormats: ResponseFormat[] | null
+  // Newest timestamp of the data behind the response; null for templates rendered per request
+  lastModified: string | null
+  projectId: string | null
+  // Set when the response was authorized by a managed key, which is rechecked on cache hits
+  managedKeyId?: string
+  // Set for JWT endpoints; every cache hit must present a token that verifies against it
+  jwtConfig?: JwtConfig | null
+  // Set for endpoints that require signed requests; every cache hit must be signed
+  signingEndpoint?: SigningEndpoint | null
+  // Origin and address rules are checked against every request, cached or not
+  accessPolicy: AccessPolicy | null
+  // Rate limits also apply to cache hits, which are logged against this endpoint when exceeded
+  rateLimits: RateLimitConfig | null
+  // Set when a published version served the response; its headers are sent with every hit
+  version: ServedVersion | null
+  endpoint: AnalyticsEndpoint
+}
+
+// Endpoint fields recorded with each analytics row
+type AnalyticsEndpoint = Pick<ProxyEndpoint, 'id' | 'user_id' | 'project_id' | 'route'>
+
+type ShapedResponse =
+  | { isValid: true; responseData: unknown; headers: Record<string, string> }
+  | { isValid: false; errors: string[] }
+
+function buildTemplateRequest(req: Request, url: URL, route: string, body: unknown = null): TemplateRequest {
+  return {
+    method: req.method,
+    path: route,
+    query: Object.fromEntries(url.searchParams),
+    headers: Object.fromEntries(req.headers),
+    body
+  }
+}
+
+// Verified token claims are only visible to templates when the endpoint opts in
+function templateClaims(req: Request, jwtConfig: JwtConfig | null | undefined): JwtClaims | undefined {
+  return jwtConfig?.expose_claims ? verifiedClaims.get(req) : undefined
+}
+
+function getBearerToken(req: Request) {
+  const match = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)
+  return match ? match[1].trim() : null
+}
+
+// Read a JSON request body without consuming it for later handlers
+async function readJsonBody(req: Request): Promise<unknown> {
+  try {
+    return await req.clone().json()
+  } catch {
+    return null
+  }
+}
+
+// Build the response for a matched rule; rule bodies may use the same placeholders as templates
+async function respondWithRule(
+  supabaseClient: SupabaseClient,
+  endpoint: ProxyEndpoint,
+  req: Request,
+  rule: ResponseRule,
+  context: { url: URL; route: string; params: Record<string, string>; body: unknown; startTime: number }
+) {
+  let body = ruleResponseBody(rule)
+  if (hasPlaceholders(body)) {
+    body = renderTemplate(body, {
+      params: context.params,
+      request: buildTemplateRequest(req, context.url, context.route, context.body),
+      claims: templateClaims(req, endpoint.jwt_config)
+    })
+  }
+
+  const headers: Record<string, string> = {
+    ...corsHeaders,
+    'Content-Type': 'application/json',
+    'X-API-Type': endpoint.is_public ? 'public' : 'private',
+    'X-API-Name': endpoint.name,
+    'X-Mock-Rule': rule.name || rule.id,
+    'X-Cache': 'MISS',
+    'X-Response-Time': `${Date.now() - context.startTime}ms`,
+    ...(rule.headers || {})
+  }
+
+  // Plain strings are sent as-is when the rule overrides the content type
+  const contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1] || ''
+  const noBody = body === null || rule.status_code === 204 || rule.status_code === 304
+  const responseString = noBody
+    ? null
+    : typeof body === 'string' && !contentType.includes('json') ? body : JSON.stringify(body)
+
+  const errorMessage = rule.status_code >= 400 ? `Matched rule: ${rule.name || rule.id}` : undefined
+  await logAnalytics(supabaseClient, endpoint, req, rule.status_code, Date.now() - context.startTime, responseString?.length || 0, errorMessage)
+
+  return new Response(responseString, { status: rule.status_code, headers })
+}
+
+// Who a response sequence is tracked for: the request's mock session, otherwise whoever
+// authenticated it. Public endpoints share one position between all anonymous callers.
+function sequenceClientKey(endpoint: ProxyEndpoint, req: Request, managedKey: ManagedApiKey | null) {
+  const sessionKey = readSessionKey(req)
+  if (sessionKey && isValidSessionKey(sessionKey)) return `session:${sessionKey}`
+  if (managedKey) return `key:${managedKey.id}`
+
+  const subject = verifiedClaims.get(req)?.sub
+  if (typeof subject === 'string') return `sub:${subject}`
+  return endpoint.is_public || endpoint.auth_mode === 'jwt' ? 'anonymous' : 'key:endpoint'
+}
+
+async function respondWithStep(
+  supabaseClient: SupabaseClient,
+  endpoint: ProxyEndpoint,
+  req: Request,
+  step: SequenceStep,
+  position: { index: number; count: number },
+  context: { url: URL; route: string; params: Record<string, string>; startTime: number }
+) {
+  let body: unknown = step.body ?? null
+  if (hasPlaceholders(body)) {
+    body = renderTemplate(body, {
+      params: context.params,
+      request: buildTemplateRequest(req, context.url, context.route),
+      claims: templateClaims(req, endpoint.jwt_config)
+    })
+  }
+
+  const headers: Record<string, string> = {
+    ...corsHeaders,
+    'Content-Type': 'application/json',
+    'X-API-Type': endpoint.is_public ? 'public' : 'private',
+    'X-API-Name': endpoint.name,
+    'X-Mock-Sequence-Step': `${position.index + 1}/${position.count}`,
+    'X-Cache': 'MISS',
+    'X-Response-Time': `${Date.now() - context.startTime}ms`,
+    ...(step.headers || {})
+  }
+
+  // Plain strings are sent as-is when the step overrides the content type
+  const contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1] || ''
+  const noBody = body === null || NO_BODY_STATUSES.includes(step.status)
+  const responseString = noBody
+    ? null
+    : typeof body === 'string' && !contentType.includes('json') ? body : JSON.stringify(body)
+
+  const errorMessage = step.status >= 400 ? `Sequence step ${position.index + 1}${step.label ? `: ${step.label}` : ''}` : undefined
+  await logAnalytics(supabaseClient, endpoint, req, step.status, Date.now() - context.startTime, responseString?.length || 0, errorMessage)
+
+  return new Response(responseString, { status: step.status, headers })
+}
+
+// Render templated responses for this request, and apply ?limit/offset/cursor/sort
+// and field filters to a cached schema collection
+function shapeResponseData(cachedData: CachedResponseData, req: Request, url: URL, route: string): ShapedResponse {
+  if (cachedData.templateParams) {
+    const responseData = renderTemplate(cachedData.responseData, {
+      params: cachedData.templateParams,
+      request: buildTemplateRequest(req, url, route),
+      claims: templateClaims(req, cachedData.jwtConfig)
+    })
+    return { isValid: true, responseData, headers: {} }
+  }
+
+  if (!cachedData.collectionFields || !Array.isArray(cachedData.responseData)) {
+    return { isValid: true, responseData: cachedData.responseData, headers: {} }
+  }
+
+  const result = queryCollection(cachedData.responseData, cachedData.collectionFields, url)
+  if (!result.isValid) {
+    return result
+  }
+  return { isValid: true, responseData: result.items, headers: result.headers }
+}
+
+function chaosFailureResponse(failure: ChaosFailure, startTime: number, extraHeaders: Record<string, string> = {}) {
+  return jsonResponse(failure.body, failure.status, startTime, {
+    'X-Mock-Scenario': failure.body.scenario,
+    ...failure.headers,
+    ...extraHeaders
+  })
+}
+
+// Serve a cached response, shaped for this request and subject to the endpoint's chaos profile
+async function serveCached(
+  cached: { data: CachedResponseData; cachedAt: number },
+  req: Request,
+  url: URL,
+  startTime: number,
+  cacheStatus: string
+) {
+  const chaos = resolveChaos(cached.data.chaosConfig, req.headers.get('x-mock-scenario'))
+  if (chaos) {
+    const failure = await injectChaos(chaos)
+    if (failure) {
+      return chaosFailureResponse(failure, startTime, { 'X-Cache': cacheStatus })
+    }
+  }
+
+  const negotiated = resolveFormat(cached.data, req, url)
+  if (!negotiated.ok) {
+    return jsonResponse(unavailableFormatBody(negotiated), negotiated.status, startTime, { 'X-Cache': cacheStatus })
+  }
+
+  const shaped = shapeResponseData(cached.data, req, url, cached.data.route)
+  if (!shaped.isValid) {
+    return jsonResponse(invalidQueryBody(shaped.errors), 400, startTime, { 'X-Cache': cacheStatus })
+  }
+
+  return await buildDataResponse(cached.data, shaped, chaos, req, negotiated.format, {
+    'X-Cache': cacheStatus,
+    'X-Cache-Age': Math.floor((Date.now() - cached.cachedAt) / 1000).toString(),
+    'X-Response-Time': `${Date.now() - startTime}ms`
+  })
+}
+
+const NO_BODY_STATUSES = [204, 205, 304]
+
+function isJsonContentType(contentType: string) {
+  return /[/+]json\b/i.test(contentType)
+}
+
+// JSON data can be served in other formats; data declared with another content type is sent as-is
+function resolveFormat(cachedData: CachedResponseData, req: Request, url: URL): FormatNegotiation {
+  if (!isJsonContentType(cachedData.contentType)) return { ok: true, format: 'json' }
+  return negotiateFormat(url, req.headers.get('accept'), cachedData.responseFormats)
+}
+
+function unavailableFormatBody(negotiated: Extract<FormatNegotiation, { ok: false }>) {
+  return {
+    error: negotiated.status === 406 ? 'Not acceptable' : 'Invalid format',
+    message: negotiated.message
+  }
+}
+
+function serializeBody(data: unknown, format: ResponseFormat, cachedData: CachedResponseData) {
+  switch (format) {
+    case 'xml': return toXml(data)
+    case 'csv': return toCsv(data, cachedData.collectionFields)
+    case 'yaml': return toYaml(data)
+    case 'ndjson': return JSON.stringify(data) + '\n'
+    default:
+      // Non-JSON content types send string data as-is
+      return typeof data === 'string' && !isJsonContentType(cachedData.contentType) ? data : JSON.stringify(data)
+  }
+}
+
+// Build a successful read response with the endpoint's declared status, content type and headers,
+// or a bodiless 304 when the client's copy is still current. Large collections and ?format=ndjson
+// are streamed, other formats are serialised from the same data, and bodies are compressed when
+// the client accepts it. onSent gets the status and
+// the bytes actually sent, once the last byte is out for streamed responses.
+async function buildDataResponse(
+  cachedData: CachedResponseData,
+  shaped: { responseData: unknown; headers: Record<string, string> },
+  chaos: ActiveChaos | null,
+  req: Request,
+  format: ResponseFormat,
+  diagnosticHeaders: Record<string, string>,
+  onSent?: (status: number, size: number) => Promise<void>
+): Promise<Response> {
+  const status = cachedData.responseStatus
+  const hasBody = !NO_BODY_STATUSES.includes(status)
+  const negotiable = isJsonContentType(cachedData.contentType)
+
+  // Rolled once per response, so the streaming, truncation and validator decisions agree.
+  // Truncated chaos bodies are cut from the serialised string, so they are never streamed
+  const truncate = shouldTruncate(chaos)
+  const items = Array.isArray(shaped.responseData) ? shaped.responseData : null
+  const streamed = hasBody && items !== null && negotiable && !truncate &&
+    (format === 'ndjson' || (format === 'json' && items.length > STREAM_THRESHOLD_ITEMS))
+
+  let body: string | null = null
+  if (hasBody && !streamed) {
+    body = serializeBody(shaped.responseData, format, cachedData)
+    if (truncate) {
+      body = truncateBody(body)
+    }
+  }
+  let bytes = body === null ? null : new TextEncoder().encode(body)
+
+  const encoding = hasBody && (streamed || (bytes?.byteLength || 0) >= MIN_COMPRESS_BYTES)
+    ? negotiateEncoding(req.headers.get('accept-encoding'), streamed ? ['gzip'] : ['br', 'gzip'])
+    : null
+
+  // Only plain buffered 200s are validated; truncated chaos bodies must never be revalidated as
+  // current. Each encoding is a different representation, so it gets its own strong ETag.
+  const validators: Record<string, string> = {}
+  if (status === 200 && !streamed && !truncate) {
+    const etag = await computeEtag(body)
+    validators['ETag'] = encoding ? etag.replace(/"$/, `-${encoding}"`) : etag
+    if (cachedData.lastModified) {
+      validators['Last-Modified'] = httpDate(cachedData.lastModified)
+    }
+  }
+
+  // Declared headers are exposed so browser clients can read them too, and override the computed validators
+  const declaredNames = Object.keys(cachedData.responseHeaders)
+  const headers = new Headers({
+    ...corsHeaders,
+    ...(declaredNames.length > 0
+      ? { 'Access-Control-Expose-Headers': [corsHeaders['Access-Control-Expose-Headers'], ...declaredNames].join(', ') }
+      : {}),
+    'Content-Type': format === 'json' ? cachedData.contentType : FORMAT_CONTENT_TYPES[format],
+    'Cache-Control': cachedData.cacheControl,
+    ...(hasBody ? { 'Vary': negotiable ? 'Accept, Accept-Encoding' : 'Accept-Encoding' } : {}),
+    ...validators
+  })
+  for (const [name, value] of Object.entries({
+    ...cachedData.responseHeaders,
+    'X-API-Type': cachedData.apiType,
+    'X-API-Name': cachedData.apiName,
+    ...(chaos ? { 'X-Mock-Scenario': chaos.scenario } : {}),
+    ...diagnosticHeaders,
+    ...shaped.headers
+  })) {
+    headers.set(name, value)
+  }
+
+  if (status === 200 && !streamed && isNotModified(req, headers.get('ETag'), cachedData.lastModified)) {
+    await onSent?.(304, 0)
+    return new Response(null, { status: 304, headers })
+  }
+
+  if (encoding) {
+    headers.set('Content-Encoding', encoding)
+  }
+
+  if (streamed && items) {
+    let stream = streamCollection(items, format === 'ndjson' ? 'ndjson' : 'json')
+    if (encoding) stream = stream.pipeThrough(new CompressionStream('gzip'))
+    if (onSent) stream = stream.pipeThrough(countBytes(size => onSent(status, size)))
+    return new Response(stream, { status, headers })
+  }
+
+  if (bytes && encoding) {
+    bytes = await compressBody(bytes, encoding)
+  }
+  await onSent?.(status, bytes?.byteLength || 0)
+  return new Response(bytes, { status, headers })
+}
+
+// Custom headers come from the endpoint owner; the content type has its own column
+function declaredHeaders(headers: Record<string, string> | null): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers || {}).filter(([name]) => name.toLowerCase() !== 'content-type')
+  )
+}
+
+function invalidQueryBody(errors: string[]) {
+  return {
+    error: 'Invalid query',
+    message: 'The query string could not be applied to this collection.',
+    details: errors
+  }
+}
+
+// The id an item is addressed by in its URL: its key field's value when the endpoint has one
+function itemRouteId(row: ApiDataRow, keyField?: string | null): string {
+  const key = keyField ? row.data[keyField] : undefined
+  return key === undefined || key === null ? row.id : String(key)
+}
+
+// Resolve a single data row by the endpoint's key field, or by its row id
+// falling back to an `id` field inside the data
+async function findSchemaItem(supabaseClient: SupabaseClient, scope: SchemaScope, itemId: string, keyField?: string | null): Promise<ApiDataRow | null> {
+  if (keyField && keyField !== 'id') {
+    const { data, error } = await supabaseClient
+      .from(scope.table)
+      .select('id, data, updated_at')
+      .match(scope.match)
+      .eq(`data->>${keyField}`, itemId)
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  if (UUID_PATTERN.test(itemId)) {
+    const { data, error } = await supabaseClient
+      .from(scope.table)
+      .select('id, data, updated_at')
+      .match(scope.match)
+      .eq('id', itemId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (data) return data
+  }
+
+  const { data, error } = await supabaseClient
+    .from(scope.table)
+    .select('id, data, updated_at')
+    .match(scope.match)
+    .eq('data->>id', itemId)
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Forward to the upstream or answer from its recordings. Never cached: record mode must see every
+// exchange, and recordings can be replaced or deleted at any time.
+async function handleUpstream(
+  supabaseClient: SupabaseClient,
+  endpoint: ProxyEndpoint,
+  req: Request,
+  url: URL,
+  route: string,
+  routeParams: Record<string, string>,
+  startTime: number
+) {
+  const config = endpoint.upstream_config
+  const configError = validateUpstreamConfig(config)
+  if (!config || configError) {
+    const errorResponse = { error: 'Upstream not configured', message: configError, route: route }
+    await logAnalytics(supabaseClient, endpoint, req, 502, Date.now() - startTime, JSON.stringify(errorResponse).length, configError ?? undefined, 'upstream_error')
+    return jsonResponse(errorResponse, 502, startTime)
+  }
+
+  const request = await describeRequest(req, route, url.search, config)
+
+  if (config.mode === 'replay') {
+    const recording = await findRecording(supabaseClient, endpoint.id, request)
+    if (!recording) {
+      const errorResponse = {
+        error: 'No recording',
+        message: `No recorded response for ${req.method} ${route}`,
+        route: route,
+        hint: 'Switch the endpoint to record mode and send this request once to capture it.'
+      }
+      await logAnalytics(supabaseClient, endpoint, req, 404, Date.now() - startTime, JSON.stringify(errorResponse).length, 'No recording', 'no_recording')
+      return jsonResponse(errorResponse, 404, startTime, { 'X-Upstream': 'replay' })
+    }
+
+    const body = NO_BODY_STATUSES.includes(recording.response_status) ? null : recording.response_body
+    await logAnalytics(supabaseClient, endpoint, req, recording.response_status, Date.now() - startTime, body ? new TextEncoder().encode(body).byteLength : 0)
+    return new Response(body, {
+      status: recording.response_status,
+      headers: {
+        ...recording.response_headers,
+        ...corsHeaders,
+        'X-Upstream': 'replay',
+        'X-Recording-Id': recording.id,
+        'X-Cache': 'MISS',
+        'X-Response-Time': `${Date.now() - startTime}ms`
+      }
+    })
+  }
+
+  const target = upstreamUrl(config, routeParams, url.search)
+  const targetError = await checkOutboundTarget(target)
+  if (targetError) {
+    const errorResponse = { error: 'Upstream not allowed', message: targetError, route: route }
+    await logAnalytics(supabaseClient, endpoint, req, 502, Date.now() - startTime, JSON.stringify(errorResponse).length, targetError, 'upstream_error')
+    return jsonResponse(errorResponse, 502, startTime, { 'X-Upstream': 'record' })
+  }
+
+  const upstreamHeaders = await loadUpstreamHeaders(supabaseClient, endpoint.id)
+  const result = await forwardRequest(config, target, request, upstreamHeaders)
+  if (!result.ok) {
+    const errorResponse = { error: 'Upstream unavailable', message: result.message, route: route }
+    console.log(`API Proxy: ${result.message} for route: ${route}`)
+    await logAnalytics(supabaseClient, endpoint, req, result.status, Date.now() - startTime, JSON.stringify(errorResponse).length, result.message, result.errorType)
+    return jsonResponse(errorResponse, result.status, startTime, { 'X-Upstream': 'record' })
+  }
+
+  const { exchange } = result
+  if (exchange.recordable) {
+    await recordExchange(supabaseClient, endpoint, request, exchange)
+  }
+
+  await logAnalytics(supabaseClient, endpoint, req, exchange.status, Date.now() - startTime, exchange.bytes.byteLength)
+  return new Response(NO_BODY_STATUSES.includes(exchange.status) ? null : exchange.bytes, {
+    status: exchange.status,
+    headers: {
+      ...exchange.headers,
+      ...corsHeaders,
+      'X-Upstream': exchange.recordable ? 'record' : 'record-skipped',
+      'X-Cache': 'MISS',
+      'X-Response-Time': `${Date.now() - startTime}ms`
+    }
+  })
+}
+
+// Answer with a Server-Sent Events stream. Template and schema items are read once when the
+// stream opens; generator events are rendered as they are sent. Never cached.
+async function handleStream(
+  supabaseClient: SupabaseClient,
+  endpoint: ProxyEndpoint,
+  req: Request,
+  url: URL,
+  route: string,
+  routeParams: Record<string, string>,
+  startTime: number
+) {
+  if (req.method !== 'GET') {
+    const errorResponse = {
+      error: 'Method not allowed',
+      message: `${req.method} is not supported on streaming endpoints. Open the stream with GET.`,
+      route: route
+    }
+    await logAnalytics(supabaseClient, endpoint, req, 405, Date.now() - startTime, JSON.stringify(errorResponse).length, 'Method not allowed')
+    return jsonResponse(errorResponse, 405, startTime, { 'Allow': 'GET, OPTIONS' })
+  }
+
+  const config = endpoint.stream_config
+  const configError = validateStreamConfig(config)
+  if (!config || configError) {
+    const errorResponse = { error: 'Stream not configured', message: configError, route: route }
+    await logAnalytics(supabaseClient, endpoint, req, 500, Date.now() - startTime, JSON.stringify(errorResponse).length, configError ?? undefined)
+    return jsonResponse(errorResponse, 500, startTime)
+  }
+
+  const context = {
+    params: routeParams,
+    request: buildTemplateRequest(req, url, route),
+    claims: templateClaims(req, endpoint.jwt_config)
+  }
+
+  let items: unknown[] | null = null
+  if (config.source === 'template') {
+    const template = endpoint.json_templates?.json_data ?? endpoint.json_data
+    const rendered = hasPlaceholders(template) ? renderTemplate(template, context) : template
+    items = Array.isArray(rendered) ? rendered : [rendered]
+  } else if (config.source === 'schema' && endpoint.schema_id) {
+    const scope = schemaScope(endpoint.schema_id, endpoint.user_id, null)
+    const { data, error } = await Promise.race([
+      supabaseClient
+        .from(scope.table)
+        .select('id, data, updated_at')
+        .match(scope.match)
+        .order('created_at', { ascending: true }),
+      dbQueryTimeout()
+    ])
+
+    if (error) {
+      console.error('Schema data fetch error:', error)
+      const errorResponse = { error: 'Schema data fetch error', message: error.message }
+      await logAnalytics(supabaseClient, endpoint, req, 500, Date.now() - startTime, JSON.stringify(errorResponse).length, 'Schema data fetch error')
+      return jsonResponse(errorResponse, 500, startTime)
+    }
+    items = (data || []).map(toApiItem)
+  } else if (config.source === 'schema') {
+    items = []
+  }
+
+  const after = resumePosition(req, url)
+  const last = lastEventId(config, items ? items.length : null)
+
+  // 204 tells EventSource the stream is over, so it stops reconnecting
+  if (last !== null && after >= last) {
+    await logAnalytics(supabaseClient, endpoint, req, 204, Date.now() - startTime, 0)
+    return jsonResponse(null, 204, startTime)
+  }
+
+  const produce = items
+    ? (id: number) => items[(id - 1) % items.length]
+    : (id: number) => renderTemplate(config.generator, { ...context, index: id - 1 })
+
+  console.log(`API Proxy: Streaming ${config.source} events from id ${after + 1} for route: ${route}`)
+
+  // Logged once the stream is over, so the entry covers the whole stream and the bytes it carried
+  const onClose = (bytes: number) => logAnalytics(supabaseClient, endpoint, req, 200, Date.now() - startTime, bytes)
+
+  return new Response(createEventStream({ after, last, intervalMs: config.interval_ms, event: config.event, produce, onClose }), {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      // Keeps reverse proxies from buffering events until the stream ends
+      'X-Accel-Buffering': 'no',
+      'X-Cache': 'MISS',
+      'X-Response-Time': `${Date.now() - startTime}ms`
+    }
+  })
+}
+
+// Store the request for the request inspector and answer with the configured response. Catcher
+// bodies may use the same placeholders as templates. Never cached.
+async function handleCatcher(
+  supabaseClient: SupabaseClient,
+  endpoint: ProxyEndpoint,
+  req: Request,
+  url: URL,
+  route: string,
+  routeParams: Record<string, string>,
+  startTime: number
+) {
+  const config = endpoint.catcher_config
+  const configError = validateCatcherConfig(config)
+  if (configError) {
+    const errorResponse = { error: 'Catcher not configured', message: configError, route: route }
+    await logAnalytics(supabaseClient, endpoint, req, 500, Date.now() - startTime, JSON.stringify(errorResponse).length, configError)
+    return jsonResponse(errorResponse, 500, startTime)
+  }
+
+  const status = config?.status ?? DEFAULT_CATCHER_STATUS
+  const ip = getClientIp(req)
+  const capture = await describeCapture(req, url, route, ip === 'unknown' ? null : ip)
+  const captureId = await storeCapture(supabaseClient, endpoint, capture, status)
+  console.log(`API Proxy: Captured ${req.method} ${route} as ${captureId ?? 'unsaved capture'}`)
+
+  let body: unknown = config?.body === undefined ? { received: true, capture_id: captureId } : config.body
+  if (hasPlaceholders(body)) {
+    body = renderTemplate(body, {
+      params: routeParams,
+      request: buildTemplateRequest(req, url, route, await readJsonBody(req)),
+      claims: templateClaims(req, endpoint.jwt_config)
+    })
+  }
+
+  const headers: Record<string, string> = {
+    ...corsHeaders,
+    'Content-Type': 'application/json',
+    'X-API-Type': endpoint.is_public ? 'public' : 'private',
+    'X-API-Name': endpoint.name,
+    ...(captureId ? { 'X-Capture-Id': captureId } : {}),
+    'X-Cache': 'MISS',
+    'X-Response-Time': `${Date.now() - startTime}ms`,
+    ...(config?.headers || {})
+  }
+
+  // Plain strings are sent as-is when the response overrides the content type
+  const contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1] || ''
+  const noBody = body === null || NO_BODY_STATUSES.includes(status) || req.method === 'HEAD'
+  const responseString = noBody
+    ? null
+    : typeof body === 'string' && !contentType.includes('json') ? body : JSON.stringify(body)
+
+  await logAnalytics(supabaseClient, endpoint, req, status, Date.now() - startTime, responseString?.length || 0)
+  return new Response(responseString, { status, headers })
+}
+
+// Handle POST/PUT/PATCH/DELETE against a schema-backed endpoint
+async function handleSchemaWrite(supabaseClient: SupabaseClient, endpoint: ProxyEndpoint, req: Request, itemId: string | null, startTime: number) {
+  const method = req.method
+  const schemaId = endpoint.schema_id as string
+  const scope = schemaScope(schemaId, endpoint.user_id, mockSessions.get(req) ?? null)
+
+  if (method === 'POST' && itemId) {
+    return jsonResponse({
+      error: 'Method not allowed',
+      message: 'POST is only supported on the collection route. Use PUT or PATCH to update an item.'
+    }, 405, startTime, { 'Allow': 'GET, PUT, PATCH, DELETE, OPTIONS' })
+  }
+
+  if (method !== 'POST' && !itemId) {
+    return jsonResponse({
+      error: 'Method not allowed',
+      message: `${method} requires an item id, e.g. ${endpoint.route}/<id>`
+    }, 405, startTime, { 'Allow': 'GET, POST, OPTIONS' })
+  }
+
+  let existing: ApiDataRow | null = null
+  if (itemId) {
+    existing = await findSchemaItem(supabaseClient, scope, itemId, endpoint.item_key_field)
+    if (!existing) {
+      const errorResponse = {
+        error: 'Item not found',
+        message: `No item with id "${itemId}" exists for ${endpoint.route}`
+      }
+      await logAnalytics(supabaseClient, endpoint, req, 404, Date.now() - startTime, JSON.stringify(errorResponse).length, 'Item not found')
+      return jsonResponse(errorResponse, 404, startTime)
+    }
+  }
+
+  if (method === 'DELETE') {
+    const { error: deleteError } = await supabaseClient
+      .from(scope.table)
+      .delete()
+      .match(scope.match)
+      .eq('id', existing!.id)
+
+    if (deleteError) throw deleteError
+
+    if (!scope.session) {
+      invalidateSchemaCache(schemaId)
+      if (endpoint.project_id) deliverWebhooksInBackground(supabaseClient, endpoint.project_id)
+    }
+    await logAnalytics(supabaseClient, endpoint, req, 204, Date.now() - startTime, 0)
+    return jsonResponse(null, 204, startTime)
+  }
+
+  let payload: unknown
+  try {
+    payload = await req.json()
+  } catch {
+    const errorResponse = {
+      error: 'Invalid JSON',
+      message: 'Request body must be valid JSON.'
+    }
+    await logAnalytics(supabaseClient, endpoint, req, 400, Date.now() - startTime, JSON.stringify(errorResponse).length, 'Invalid JSON')
+    return jsonResponse(errorResponse, 400, startTime)
+  }
+
+  const fields = endpoint.api_schemas?.fields || []
+
+  // Clients echo back the id they received from GET; it is not part of the stored data
+  if (payload && typeof payload === 'object' && !Array.isArray(payload) && !fields.some(field => field.name === 'id')) {
+    delete (payload as Record<string, unknown>).id
+  }
+
+  const validation = validateSchemaData(fields, payload, { partial: method === 'PATCH' })
+
+  if (!validation.isValid) {
+    const errorResponse = {
+      error: 'Validation failed',
+      message: 'The request body does not match the schema.',
+      details: validation.errors
+    }
+    await logAnalytics(supabaseClient, endpoint, req, 400, Date.now() - startTime, JSON.stringify(errorResponse).length, 'Validation failed')
+    return jsonResponse(errorResponse, 400, startTime)
+  }
+
+  const body = payload as Record<string, unknown>
+  const nextData = method === 'PATCH' ? { ...existing!.data, ...body } : body
+
+  let row: ApiDataRow
+  if (method === 'POST') {
+    const { data, error: insertError } = await supabaseClient
+      .from(scope.table)
+      .insert([{ ...scope.owner, data: nextData }])
+      .select('id, data, updated_at')
+      .single()
+
+    if (insertError) throw insertError
+    row = data
+  } else {
+    const { data, error: updateError } = await supabaseClient
+      .from(scope.table)
+      .update({ data: nextData })
+      .match(scope.match)
+      .eq('id', existing!.id)
+      .select('id, data, updated_at')
+      .single()
+
+    if (updateError) throw updateError
+    row = data
+  }
+
+  // Session copies are private to one client, so only shared data changes reach webhooks
+  if (!scope.session) {
+    invalidateSchemaCache(schemaId)
+    if (endpoint.project_id) deliverWebhooksInBackground(supabaseClient, endpoint.project_id)
+  }
+
+  const status = method === 'POST' ? 201 : 200
+  const item = toApiItem(row)
+  await logAnalytics(supabaseClient, endpoint, req, status, Date.now() - startTime, JSON.stringify(item).length)
+
+  return jsonResponse(
+    item,
+    status,
+    startTime,
+    method === 'POST' ? { 'Location': `/functions/v1/api-proxy${endpoint.route}/${encodeURIComponent(itemRouteId(row, endpoint.item_key_field))}` } : {}
+  )
+}
+
 // Analytics logging function
-async function logAnalytics(supabaseClient: any, endpoint: any, request: Request, responseStatus: number, responseTime: number, responseSize: number = 0, error?: string) {
+// Managed key that authenticated each request, recorded with its analytics row
+const authenticatedKeys = new WeakMap<Request, string>()
+
+// Claims of the bearer token that authenticated each request on JWT endpoints
+const verifiedClaims = new WeakMap<Request, JwtClaims>()
+
+// Rate limit state of each request, reported in X-RateLimit-* headers on whatever response it gets
+const rateLimitResults = new WeakMap<Request, RateLimitResult>()
+
+// Access policy of each request's endpoint, applied to the CORS headers of whatever response it gets
+const corsPolicies = new WeakMap<Request, AccessPolicy>()
+
+// Published version that served each request, for its version headers and analytics
+const servedVersions = new WeakMap<Request, ServedVersion>()
+
+// Mock session whose data each request read or wrote, echoed back in X-Mock-Session headers
+const mockSessions = new WeakMap<Request, MockSession>()
+
+// Count the request against the endpoint's limits and build the 429 response once one is exceeded
+async function enforceRateLimit(
+  supabaseClient: SupabaseClient,
+  endpoint: AnalyticsEndpoint,
+  config: RateLimitConfig | null,
+  req: Request,
+  startTime: number
+): Promise<Response | null> {
+  // Requests that fall through from the cache path were already counted
+  if (rateLimitResults.has(req)) return null
+
+  // Clients are told apart by credentials that were checked: the managed key that authenticated the
+  // request, then the JWT subject. Anything else, including unchecked x-api-key headers on public
+  // endpoints, is counted against the client's address, so made-up keys can't dodge the limit.
+  const keyId = authenticatedKeys.get(req)
+  const subject = verifiedClaims.get(req)?.sub
+  const clientId = keyId ? `key:${keyId}` : typeof subject === 'string' ? `sub:${subject}` : `ip:${getClientIp(req)}`
+  const result = checkRateLimit(config, endpoint.id, clientId)
+  if (!result) return null
+  rateLimitResults.set(req, result)
+  if (result.allowed) return null
+
+  const errorResponse = {
+    error: 'Too many requests',
+    message: `Rate limit of ${result.limit} requests per ${result.window} exceeded for ${result.scope === 'key' ? 'this API key' : 'this endpoint'}.`,
+    retry_after: result.retryAfterSeconds
+  }
+
+  // Only the first rejection in each window is logged, so a flooding client can't flood analytics too
+  if (result.firstRejection) {
+    await logAnalytics(supabaseClient, endpoint, req, 429, Date.now() - startTime, JSON.stringify(errorResponse).length, 'Rate limit exceeded', 'rate_limited')
+  }
+  return jsonResponse(errorResponse, 429, startTime)
+}
+
+// Check the client's address and origin against the endpoint's policy and build the 403 response
+// when either is blocked
+async function enforceAccessPolicy(
+  supabaseClient: SupabaseClient,
+  endpoint: AnalyticsEndpoint,
+  policy: AccessPolicy | null,
+  req: Request,
+  startTime: number
+): Promise<Response | null> {
+  if (!policy) return null
+  corsPolicies.set(req, policy)
+
+  const access = checkAccess(policy, getClientIp(req), req.headers.get('origin'))
+  if (access.allowed) return null
+
+  const errorResponse = {
+    error: access.errorType === 'ip_blocked' ? 'Client address not allowed' : 'Origin not allowed',
+    message: access.reason,
+    route: endpoint.route
+  }
+  console.log(`Blocked request - ${access.reason}`)
+  await logAnalytics(supabaseClient, endpoint, req, 403, Date.now() - startTime, JSON.stringify(errorResponse).length, access.reason, access.errorType)
+  return jsonResponse(errorResponse, 403, startTime)
+}
+
+async function logAnalytics(supabaseClient: any, endpoint: any, request: Request, responseStatus: number, responseTime: number, responseSize: number = 0, error?: string, errorType?: string) {
   try {
     const url = new URL(request.url)
     const userAgent = request.headers.get('user-agent') || ''
-    const clientIP = request.headers.get('x-forwarded-for') || 
-                    request.headers.get('x-real-ip') || 
-                    request.headers.get('cf-connecting-ip') || 
-                    'unknown'
+    const clientIP = getClientIp(request)
 
     // Basic geographic data (you could enhance this with a GeoIP service)
     let geoData = {
@@ -216,7 +1306,7 @@ async function logAnalytics(supabaseClient: any, endpoint: any, request: Request
       api_endpoint_id: endpoint.id,
       user_id: endpoint.user_id,
       project_id: endpoint.project_id,
-      request_method: 'GET',
+      request_method: request.method,
       request_path: endpoint.route,
       request_ip: clientIP,
       request_user_agent: userAgent,
@@ -231,7 +1321,9 @@ async function logAnalytics(supabaseClient: any, endpoint: any, request: Request
       region: geoData.region,
       city: geoData.city,
       error_message: error || null,
-      error_type: error ? (responseStatus >= 500 ? 'server_error' : 'client_error') : null
+      error_type: error ? (errorType || (responseStatus >= 500 ? 'server_error' : 'client_error')) : null,
+      api_key_id: authenticatedKeys.get(request) || null,
+      api_version: servedVersions.get(request)?.version ?? null
     }
 
     console.log('Logging analytics data:', analyticsData)
@@ -260,77 +1352,189 @@ async function logAnalytics(supabaseClient: any, endpoint: any, request: Request
 }
 
 Deno.serve(async (req) => {
-  // Handle CORS preflight requests immediately
-  if (req.method === 'OPTIONS') {
+  const response = await handleRequest(req)
+
+  const accessPolicy = corsPolicies.get(req)
+  if (accessPolicy) {
+    applyCorsPolicy(response.headers, accessPolicy, req.headers.get('origin'))
+  }
+
+  const rateLimit = rateLimitResults.get(req)
+  if (rateLimit) {
+    for (const [name, value] of Object.entries(rateLimitHeaders(rateLimit))) {
+      response.headers.set(name, value)
+    }
+  }
+
+  const version = servedVersions.get(req)
+  if (version) {
+    for (const [name, value] of Object.entries(versionHeaders(version))) {
+      response.headers.set(name, value)
+    }
+    response.headers.append('Vary', 'Accept-Version')
+  }
+
+  const session = mockSessions.get(req)
+  if (session) {
+    for (const [name, value] of Object.entries(sessionHeaders(session))) {
+      response.headers.set(name, value)
+    }
+    response.headers.append('Vary', 'X-Mock-Session')
+  }
+
+  // HEAD gets the headers GET would, without the body
+  if (req.method === 'HEAD' && response.body) {
+    await response.body.cancel()
+    return new Response(null, { status: response.status, statusText: response.statusText, headers: response.headers })
+  }
+  return response
+})
+
+// Extract the endpoint route from the function URL
+function getRoute(url: URL) {
+  let route = url.pathname
+  if (route.startsWith('/functions/v1/api-proxy')) {
+    route = route.substring('/functions/v1/api-proxy'.length) || '/'
+  } else if (route.startsWith('/api-proxy')) {
+    route = route.substring('/api-proxy'.length) || '/'
+  }
+
+  if (!route.startsWith('/')) {
+    route = '/' + route
+  }
+  return route
+}
+
+// Endpoint fields needed to answer a preflight request
+const PREFLIGHT_COLUMNS = 'id, user_id, project_id, route, access_policy, projects!project_id(access_policy)'
+const PREFLIGHT_TTL = 30 * 1000
+
+type PreflightEndpoint = AnalyticsEndpoint & PolicyEndpoint
+
+// Preflights arrive before most browser requests, so resolved policies are kept briefly per route
+const preflightCache = new Map<string, { endpoint: PreflightEndpoint | null; cachedAt: number }>()
+
+async function handlePreflight(req: Request, route: string): Promise<Response> {
+  const startTime = Date.now()
+  const origin = req.headers.get('origin')
+
+  try {
+    let entry = preflightCache.get(route)
+    if (!entry || Date.now() - entry.cachedAt > PREFLIGHT_TTL) {
+      if (preflightCache.size >= MAX_CACHE_SIZE) preflightCache.clear()
+      const resolved = await resolveRequestedEndpoint<PreflightEndpoint>(getSupabaseClient(), route, PREFLIGHT_COLUMNS)
+      entry = { endpoint: resolved.endpoints?.[0] || null, cachedAt: Date.now() }
+      preflightCache.set(route, entry)
+    }
+
+    const policy = entry.endpoint ? resolveAccessPolicy(entry.endpoint) : null
+    if (entry.endpoint && policy) {
+      const access = checkAccess(policy, getClientIp(req), origin)
+      if (!access.allowed) {
+        console.log(`Blocked preflight - ${access.reason}`)
+        await logAnalytics(getSupabaseClient(), entry.endpoint, req, 403, Date.now() - startTime, 0, access.reason, access.errorType)
+        return new Response(null, { status: 403, headers: preflightHeaders(corsHeaders, policy, origin) })
+      }
+    }
+
+    return new Response(null, { status: 204, headers: preflightHeaders(corsHeaders, policy, origin) })
+  } catch (error) {
+    // Fall back to the permissive defaults; the actual request is still checked
+    console.error('Preflight error:', error)
     return new Response('ok', { headers: corsHeaders })
   }
+}
+
+async function handleRequest(req: Request): Promise<Response> {
+  const url = new URL(req.url)
+  // Signatures cover the path as sent; once the endpoint is resolved, everything else works on the
+  // route without any version prefix
+  const requestPath = getRoute(url)
+  const acceptVersion = req.headers.get('accept-version')
+
+  // Preflights are answered from the endpoint's access policy, before any authentication
+  if (req.method === 'OPTIONS') {
+    return await handlePreflight(req, requestPath)
+  }
 
   const startTime = Date.now()
   
   try {
-    const url = new URL(req.url)
+    const apiKeyHeader = req.headers.get('x-api-key')
+    // Whether a /vN prefix is a version is only known once the endpoint is resolved, so cached
+    // responses are keyed by the path as requested
+    const headerVersion = parseRequestedVersion(null, acceptVersion)
+    const cacheKey = getCacheKey(headerVersion.ok && headerVersion.version ? `${requestPath}@v${headerVersion.version}` : requestPath, apiKeyHeader)
     
-    // Extract route efficiently
-    let route = url.pathname
-    if (route.startsWith('/functions/v1/api-proxy')) {
-      route = route.substring('/functions/v1/api-proxy'.length) || '/'
-    } else if (route.startsWith('/api-proxy')) {
-      route = route.substring('/api-proxy'.length) || '/'
+    // Check cache first (fastest path) - only reads are cached, and never those naming a mock session
+    const sessionKey = readSessionKey(req)
+    const isRead = req.method === 'GET' || req.method === 'HEAD'
+    let cached = isRead && headerVersion.ok && sessionKey === null ? endpointCache.get(cacheKey) : undefined
+
+    // Sunset versions answer 410, which only the uncached path produces
+    if (cached?.data.version && isSunset(cached.data.version)) {
+      endpointCache.delete(cacheKey)
+      cached = undefined
     }
-    
-    if (!route.startsWith('/')) {
-      route = '/' + route
+
+    // Managed keys can be revoked or expire while responses they authorized are still cached
+    if (cached?.data.managedKeyId && apiKeyHeader) {
+      const keyCheck = await checkManagedKey(
+        getSupabaseClient(),
+        { id: cached.metadata.endpointId, project_id: cached.data.projectId },
+        apiKeyHeader
+      )
+      if (keyCheck.status !== 'valid' || !hasScope(keyCheck.key, 'read')) {
+        endpointCache.delete(cacheKey)
+        cached = undefined
+      } else {
+        authenticatedKeys.set(req, keyCheck.key.id)
+      }
+    }
+
+    // Cached JWT responses stay cached; requests without a valid token fall through to get their 401
+    if (cached?.data.jwtConfig) {
+      const verification = await verifyJwt(getBearerToken(req), cached.data.jwtConfig)
+      if (verification.valid) {
+        verifiedClaims.set(req, verification.claims)
+      } else {
+        cached = undefined
+      }
+    }
+
+    if (cached?.data.signingEndpoint) {
+      const signed = await verifySignedRequest(getSupabaseClient(), cached.data.signingEndpoint, req, requestPath + url.search)
+      if (!signed.valid || (signed.key && !hasScope(signed.key, 'read'))) {
+        cached = undefined
+      } else if (signed.key) {
+        authenticatedKeys.set(req, signed.key.id)
+      }
     }
 
-    const apiKeyHeader = req.headers.get('x-api-key')
-    const cacheKey = getCacheKey(route, apiKeyHeader)
-    
-    // Check cache first (fastest path)
-    const cached = endpointCache.get(cacheKey)
     if (cached) {
+      if (cached.data.version) servedVersions.set(req, cached.data.version)
+
+      const blocked = await enforceAccessPolicy(getSupabaseClient(), cached.data.endpoint, cached.data.accessPolicy, req, startTime)
+      if (blocked) return blocked
+
+      const limited = await enforceRateLimit(getSupabaseClient(), cached.data.endpoint, cached.data.rateLimits, req, startTime)
+      if (limited) return limited
+
       // Quick TTL check
       if (Date.now() - cached.cachedAt < CACHE_TTL) {
         // For frequently accessed endpoints, skip validation for a short time
         const timeSinceCache = Date.now() - cached.cachedAt
         if (timeSinceCache < 10000) { // 10 seconds of guaranteed fresh cache
-          console.log(`API Proxy: Fast cache hit for route: ${route}`)
-          return new Response(
-            JSON.stringify(cached.data.responseData),
-            {
-              status: 200,
-              headers: { 
-                ...corsHeaders,
-                'Content-Type': 'application/json',
-                'X-API-Type': cached.data.apiType,
-                'X-API-Name': cached.data.apiName,
-                'X-Cache': 'HIT-FAST',
-                'X-Cache-Age': Math.floor(timeSinceCache / 1000).toString(),
-                'X-Response-Time': `${Date.now() - startTime}ms`
-              },
-            }
-          )
+          console.log(`API Proxy: Fast cache hit for route: ${cached.data.route}`)
+          return await serveCached(cached, req, url, startTime, 'HIT-FAST')
         }
         
         // Validate cache in background for older entries
         const supabaseClient = getSupabaseClient()
         const isValid = await isCacheValid(cached, supabaseClient)
         if (isValid) {
-          console.log(`API Proxy: Validated cache hit for route: ${route}`)
-          return new Response(
-            JSON.stringify(cached.data.responseData),
-            {
-              status: 200,
-              headers: { 
-                ...corsHeaders,
-                'Content-Type': 'application/json',
-                'X-API-Type': cached.data.apiType,
-                'X-API-Name': cached.data.apiName,
-                'X-Cache': 'HIT',
-                'X-Cache-Age': Math.floor(timeSinceCache / 1000).toString(),
-                'X-Response-Time': `${Date.now() - startTime}ms`
-              },
-            }
-          )
+          console.log(`API Proxy: Validated cache hit for route: ${cached.data.route}`)
+          return await serveCached(cached, req, url, startTime, 'HIT')
         } else {
           endpointCache.delete(cacheKey)
         }
@@ -343,40 +1547,14 @@ Deno.serve(async (req) => {
     // Cache miss - fetch from database
     const supabaseClient = getSupabaseClient()
     
-    console.log(`API Proxy: Cache miss, fetching data for route: "${route}"`)
+    console.log(`API Proxy: Cache miss, fetching data for route: "${requestPath}"`)
     
-    // Optimized query with timeout
-    const queryTimeout = new Promise((_, reject) => 
-      setTimeout(() => reject(new Error('Database query timeout')), 10000)
-    )
-    
-    // IMPROVED LOGIC: First check if the route exists at all (regardless of access level)
-    const routeCheckPromise = supabaseClient
-      .from('api_endpoints')
-      .select(`
-        id,
-        name,
-        route,
-        json_data,
-        is_public,
-        api_key,
-        data_type,
-        schema_id,
-        template_id,
-        updated_at,
-        user_id,
-        project_id,
-        json_templates!template_id(id, json_data, updated_at)
-      `)
-      .eq('route', route)
-      .limit(1)
-
-    let { data: allEndpoints, error: queryError } = await Promise.race([routeCheckPromise, queryTimeout])
-
-    if (queryError) {
-      console.error('Database query error:', queryError)
-      throw queryError
-    }
+    const resolved = await resolveRequestedEndpoint<ProxyEndpoint>(supabaseClient, requestPath, ENDPOINT_COLUMNS)
+    const route = resolved.route
+    const requested = parseRequestedVersion(resolved.prefixVersion, acceptVersion)
+    const allEndpoints = resolved.endpoints
+    const routeParams = resolved.routeParams
+    let itemId = resolved.itemId
 
     const responseTime = Date.now() - startTime
 
@@ -404,11 +1582,51 @@ Deno.serve(async (req) => {
       )
     }
 
-    const endpoint = allEndpoints[0]
+    let endpoint = allEndpoints[0]
     console.log(`Found endpoint for route ${route}:`, { id: endpoint.id, name: endpoint.name, is_public: endpoint.is_public })
 
+    // Address and origin rules apply before authentication, so blocked clients learn nothing more
+    const accessPolicy = resolveAccessPolicy(endpoint)
+    const blocked = await enforceAccessPolicy(supabaseClient, endpoint, accessPolicy, req, startTime)
+    if (blocked) return blocked
+
     // IMPROVED ACCESS CONTROL: Now we know the route exists, handle authentication properly
-    if (!endpoint.is_public) {
+    let managedKey: ManagedApiKey | null = null
+    if (!endpoint.is_public && endpoint.auth_mode === 'jwt') {
+      // JWT endpoints accept a bearer token signed by the configured issuer instead of API keys
+      const verification = await verifyJwt(getBearerToken(req), endpoint.jwt_config)
+      if (!verification.valid) {
+        const errorResponse = {
+          error: 'Invalid bearer token',
+          message: verification.reason,
+          route: route,
+          hint: 'Send a signed JWT in the Authorization header: Authorization: Bearer <token>'
+        }
+
+        console.log(`Unauthorized access attempt - ${verification.reason}`)
+        await logAnalytics(supabaseClient, endpoint, req, 401, responseTime, JSON.stringify(errorResponse).length, verification.reason, 'invalid_token')
+        return jsonResponse(errorResponse, 401, startTime, {
+          'WWW-Authenticate': `Bearer error="invalid_token", error_description="${verification.reason.replace(/"/g, "'")}"`
+        })
+      }
+      verifiedClaims.set(req, verification.claims)
+    } else if (!endpoint.is_public && endpoint.auth_mode === 'hmac') {
+      // Signed endpoints never see the secret; the request carries an HMAC made with it instead
+      const signed = await verifySignedRequest(supabaseClient, endpoint, req, requestPath + url.search)
+      if (!signed.valid) {
+        const errorResponse = {
+          error: 'Invalid signature',
+          message: signed.reason,
+          route: route,
+          hint: 'Sign METHOD, path, timestamp and body with HMAC-SHA256 and send X-Key-Id, X-Signature-Timestamp and X-Signature headers.'
+        }
+
+        console.log(`Unauthorized access attempt - ${signed.reason}`)
+        await logAnalytics(supabaseClient, endpoint, req, 401, responseTime, JSON.stringify(errorResponse).length, signed.reason, 'invalid_signature')
+        return jsonResponse(errorResponse, 401, startTime)
+      }
+      managedKey = signed.key
+    } else if (!endpoint.is_public) {
       // This is a private endpoint
       if (!apiKeyHeader) {
         const errorResponse = {
@@ -435,17 +1653,29 @@ Deno.serve(async (req) => {
         )
       }
 
-      if (endpoint.api_key !== apiKeyHeader) {
-        const errorResponse = {
-          error: 'Invalid API key',
-          message: 'The provided API key is not valid for this endpoint.',
-          route: route,
-          hint: 'Please check your API key and ensure it matches the one configured for this endpoint.'
-        }
+      // The endpoint's own key is checked first, then named keys for the endpoint or its project
+      const keyCheck = endpoint.api_key === apiKeyHeader
+        ? null
+        : await checkManagedKey(supabaseClient, endpoint, apiKeyHeader)
+
+      if (keyCheck && keyCheck.status !== 'valid') {
+        const errorResponse = keyCheck.status === 'unknown'
+          ? {
+              error: 'Invalid API key',
+              message: 'The provided API key is not valid for this endpoint.',
+              route: route,
+              hint: 'Please check your API key and ensure it matches the one configured for this endpoint.'
+            }
+          : {
+              error: keyCheck.status === 'expired' ? 'API key expired' : 'API key revoked',
+              message: `The API key "${keyCheck.key.name}" has been ${keyCheck.status} and can no longer be used.`,
+              route: route,
+              hint: 'Use the key that replaced it or create a new one.'
+            }
 
         // Log analytics for invalid API key
-        console.log('Unauthorized access attempt - invalid API key')
-        await logAnalytics(supabaseClient, endpoint, req, 401, responseTime, JSON.stringify(errorResponse).length, 'Invalid API key')
+        console.log(`Unauthorized access attempt - ${errorResponse.error}`)
+        await logAnalytics(supabaseClient, endpoint, req, 401, responseTime, JSON.stringify(errorResponse).length, errorResponse.error)
         
         return new Response(
           JSON.stringify(errorResponse),
@@ -460,26 +1690,190 @@ Deno.serve(async (req) => {
           }
         )
       }
+
+      managedKey = keyCheck?.status === 'valid' ? keyCheck.key : null
+    }
+
+    // Named keys carry scopes, whether sent or used for signing; the endpoint's own key grants everything
+    if (managedKey) {
+      authenticatedKeys.set(req, managedKey.id)
+
+      const scope = requiredScope(req.method)
+      if (!hasScope(managedKey, scope)) {
+        const errorResponse = {
+          error: 'Insufficient scope',
+          message: `The API key "${managedKey.name}" does not have the ${scope} scope required for ${req.method} requests.`,
+          route: route
+        }
+        await logAnalytics(supabaseClient, endpoint, req, 403, responseTime, JSON.stringify(errorResponse).length, 'Insufficient scope')
+        return jsonResponse(errorResponse, 403, startTime)
+      }
+    }
+
+    // A published version replaces the response configuration; the authentication above stays live
+    if (!requested.ok) {
+      const errorResponse = { error: 'Invalid version', message: requested.message, route: route }
+      await logAnalytics(supabaseClient, endpoint, req, 400, responseTime, JSON.stringify(errorResponse).length, 'Invalid version', 'unknown_version')
+      return jsonResponse(errorResponse, 400, startTime)
+    }
+    const versionNumber = requested.version ?? endpoint.current_version
+    if (versionNumber !== null) {
+      const version = await fetchVersion(supabaseClient, endpoint.id, versionNumber)
+      if (version) {
+        servedVersions.set(req, { version: version.version, deprecated_at: version.deprecated_at, sunset_at: version.sunset_at })
+        if (isSunset(version)) {
+          const errorResponse = {
+            error: 'Version retired',
+            message: `Version ${version.version} of ${endpoint.route} was retired on ${new Date(version.sunset_at as string).toUTCString()}`,
+            route: route,
+            ...(endpoint.current_version && endpoint.current_version !== version.version
+              ? { hint: `Use version ${endpoint.current_version} instead.` }
+              : {})
+          }
+          await logAnalytics(supabaseClient, endpoint, req, 410, responseTime, JSON.stringify(errorResponse).length, 'Version retired', 'version_sunset')
+          return jsonResponse(errorResponse, 410, startTime)
+        }
+        endpoint = applyVersion(endpoint, version)
+      } else if (requested.version !== null) {
+        const errorResponse = {
+          error: 'Version not found',
+          message: `${endpoint.route} has no version ${requested.version}`,
+          route: route
+        }
+        await logAnalytics(supabaseClient, endpoint, req, 404, responseTime, JSON.stringify(errorResponse).length, 'Version not found', 'unknown_version')
+        return jsonResponse(errorResponse, 404, startTime)
+      }
+    }
+
+    // A route declaring the key parameter (:id by default) addresses a single item
+    const keyParam = endpoint.item_key_field || 'id'
+    if (!itemId && endpoint.data_type === 'schema' && routeParams[keyParam] !== undefined) {
+      itemId = routeParams[keyParam]
+    }
+
+    const limited = await enforceRateLimit(supabaseClient, endpoint, endpoint.rate_limits, req, startTime)
+    if (limited) return limited
+
+    // Catchers record every request that gets this far, whatever its method
+    if (endpoint.data_type === 'catcher') {
+      return await handleCatcher(supabaseClient, endpoint, req, url, route, routeParams, startTime)
+    }
+
+    // Simulated latency and failures apply before any response is produced
+    const chaos = resolveChaos(endpoint.chaos_config, req.headers.get('x-mock-scenario'))
+    if (chaos) {
+      const failure = await injectChaos(chaos)
+      if (failure) {
+        console.log(`API Proxy: Chaos scenario "${chaos.scenario}" injected ${failure.status} for route: ${route}`)
+        await logAnalytics(supabaseClient, endpoint, req, failure.status, Date.now() - startTime, JSON.stringify(failure.body).length, failure.reason, 'chaos')
+        return chaosFailureResponse(failure, startTime)
+      }
+    }
+
+    // Conditional response rules take precedence over the default response for every method
+    const rules = activeRules(endpoint.api_response_rules)
+    if (rules.length > 0) {
+      const requestBody = rulesReadBody(rules) ? await readJsonBody(req) : null
+      const rule = findMatchingRule(rules, {
+        headers: req.headers,
+        query: url.searchParams,
+        body: requestBody,
+        params: routeParams,
+        apiKey: apiKeyHeader
+      })
+      if (rule) {
+        console.log(`API Proxy: Rule "${rule.name}" matched for route: ${route}`)
+        return await respondWithRule(supabaseClient, endpoint, req, rule, {
+          url, route, params: routeParams, body: requestBody, startTime
+        })
+      }
+    }
+
+    // A response sequence replaces the default response for every method
+    const sequence = activeSequence(endpoint.response_sequence)
+    if (sequence) {
+      const { index, step } = await advanceSequence(supabaseClient, endpoint.id, sequenceClientKey(endpoint, req, managedKey), sequence)
+      console.log(`API Proxy: Sequence step ${index + 1}/${sequence.steps.length} for route: ${route}`)
+      return await respondWithStep(supabaseClient, endpoint, req, step, { index, count: sequence.steps.length }, {
+        url, route, params: routeParams, startTime
+      })
+    }
+
+    if (endpoint.data_type === 'upstream') {
+      return await handleUpstream(supabaseClient, endpoint, req, url, route, routeParams, startTime)
+    }
+
+    if (endpoint.data_type === 'stream') {
+      return await handleStream(supabaseClient, endpoint, req, url, route, routeParams, startTime)
+    }
+
+    // In session mode a request naming a session gets its own copy of the schema's data
+    if (endpoint.data_type === 'schema' && endpoint.schema_id && endpoint.session_ttl_minutes && sessionKey !== null) {
+      if (!isValidSessionKey(sessionKey)) {
+        const errorResponse = {
+          error: 'Invalid mock session',
+          message: 'X-Mock-Session must be 1-128 letters, digits, dots, colons, dashes or underscores.',
+          route: route
+        }
+        await logAnalytics(supabaseClient, endpoint, req, 400, responseTime, JSON.stringify(errorResponse).length, 'Invalid mock session')
+        return jsonResponse(errorResponse, 400, startTime)
+      }
+      mockSessions.set(req, await openMockSession(supabaseClient, endpoint.schema_id, sessionKey, endpoint.session_ttl_minutes))
+    }
+
+    // Writes are only supported on schema-backed endpoints; HEAD is a read without the body
+    if (!isRead) {
+      if (endpoint.data_type !== 'schema' || !endpoint.schema_id) {
+        const errorResponse = {
+          error: 'Method not allowed',
+          message: `${req.method} is only supported on schema-based endpoints. Template endpoints are read-only.`,
+          route: route
+        }
+        await logAnalytics(supabaseClient, endpoint, req, 405, responseTime, JSON.stringify(errorResponse).length, 'Method not allowed')
+        return jsonResponse(errorResponse, 405, startTime, { 'Allow': 'GET, OPTIONS' })
+      }
+
+      return await handleSchemaWrite(supabaseClient, endpoint, req, itemId, startTime)
     }
 
     let responseData = endpoint.json_data
     const apiType = endpoint.is_public ? 'public' : 'private'
     const apiName = endpoint.name
-    let relatedId = null
+    let relatedId: string | null = null
+    let lastModified: string | null = endpoint.updated_at
+    let collectionFields: SchemaField[] | undefined
+    const session = mockSessions.get(req) ?? null
 
     // Handle different data types
     if (endpoint.data_type === 'template' && endpoint.json_templates) {
       responseData = endpoint.json_templates.json_data
       relatedId = endpoint.template_id
+      lastModified = latestTimestamp(endpoint.updated_at, endpoint.json_templates.updated_at)
+    } else if (endpoint.data_type === 'schema' && endpoint.schema_id && itemId) {
+      const item = await findSchemaItem(supabaseClient, schemaScope(endpoint.schema_id, endpoint.user_id, session), itemId, endpoint.item_key_field)
+
+      if (!item) {
+        const errorResponse = {
+          error: 'Item not found',
+          message: `No item with id "${itemId}" exists for ${endpoint.route}`
+        }
+        await logAnalytics(supabaseClient, endpoint, req, 404, responseTime, JSON.stringify(errorResponse).length, 'Item not found')
+        return jsonResponse(errorResponse, 404, startTime)
+      }
+
+      responseData = toApiItem(item)
+      relatedId = endpoint.schema_id
+      lastModified = latestTimestamp(endpoint.updated_at, endpoint.api_schemas?.updated_at, item.updated_at)
     } else if (endpoint.data_type === 'schema' && endpoint.schema_id) {
       // Schema data query with timeout
+      const scope = schemaScope(endpoint.schema_id, endpoint.user_id, session)
       const schemaQueryPromise = supabaseClient
-        .from('api_data')
-        .select('data, updated_at')
-        .eq('schema_id', endpoint.schema_id)
+        .from(scope.table)
+        .select('id, data, updated_at')
+        .match(scope.match)
         .order('created_at', { ascending: false })
 
-      const { data: schemaData, error: schemaError } = await Promise.race([schemaQueryPromise, queryTimeout])
+      const { data: schemaData, error: schemaError } = await Promise.race([schemaQueryPromise, dbQueryTimeout()])
 
       if (schemaError) {
         console.error('Schema data fetch error:', schemaError)
@@ -505,10 +1899,28 @@ Deno.serve(async (req) => {
         )
       }
       
-      responseData = schemaData?.map(item => item.data) || []
+      responseData = schemaData?.map(toApiItem) || []
       relatedId = endpoint.schema_id
+      // Deleted rows don't advance this, which the body-derived ETag still catches
+      lastModified = latestTimestamp(endpoint.updated_at, endpoint.api_schemas?.updated_at, ...(schemaData || []).map(row => row.updated_at))
+      collectionFields = endpoint.api_schemas?.fields || []
+
+      // Other route parameters that name a schema field narrow the collection, e.g. /shop/:category/products
+      const fieldParams = Object.entries(routeParams)
+        .filter(([name]) => collectionFields!.some(field => field.name === name))
+      if (fieldParams.length > 0) {
+        responseData = (responseData as Record<string, unknown>[]).filter(item =>
+          fieldParams.every(([name, value]) => String(item[name]) === value)
+        )
+      }
     }
 
+    // Templates may use request variables, route parameters and fake data, so they are
+    // cached unrendered and rendered for every request
+    const templateParams = endpoint.data_type !== 'schema' && hasPlaceholders(responseData)
+      ? routeParams
+      : undefined
+
     // Cache the response
     const cacheMetadata = {
       endpointId: endpoint.id,
@@ -517,36 +1929,67 @@ Deno.serve(async (req) => {
       lastModified: endpoint.updated_at
     }
 
-    addToCache(cacheKey, {
+    const cachedData: CachedResponseData = {
       responseData,
+      route,
       apiType,
-      apiName
-    }, cacheMetadata)
+      apiName,
+      collectionFields,
+      templateParams,
+      chaosConfig: endpoint.chaos_config,
+      responseStatus: endpoint.response_status || 200,
+      contentType: endpoint.content_type || 'application/json',
+      responseHeaders: declaredHeaders(endpoint.response_headers),
+      // A session's data belongs to one client, so no cache along the way may keep it
+      cacheControl: session ? 'no-store' : endpoint.cache_control?.trim() || defaultCacheControl(endpoint.is_public),
+      responseFormats: endpoint.response_formats,
+      lastModified: templateParams ? null : lastModified,
+      projectId: endpoint.project_id,
+      managedKeyId: !endpoint.is_public && endpoint.auth_mode === 'api_key' ? managedKey?.id : undefined,
+      jwtConfig: !endpoint.is_public && endpoint.auth_mode === 'jwt' ? endpoint.jwt_config : null,
+      signingEndpoint: !endpoint.is_public && endpoint.auth_mode === 'hmac'
+        ? { id: endpoint.id, project_id: endpoint.project_id, api_key: endpoint.api_key, signing_config: endpoint.signing_config }
+        : null,
+      accessPolicy,
+      rateLimits: endpoint.rate_limits,
+      version: servedVersions.get(req) ?? null,
+      endpoint: { id: endpoint.id, user_id: endpoint.user_id, project_id: endpoint.project_id, route: endpoint.route }
+    }
+
+    // Responses of endpoints with rules depend on the request, so they are never cached, and
+    // endpoints may opt out with Cache-Control: no-store (as session responses do)
+    if (rules.length === 0 && !forbidsStorage(cachedData.cacheControl)) {
+      addToCache(cacheKey, cachedData, cacheMetadata)
+    }
+
+    const negotiated = resolveFormat(cachedData, req, url)
+    if (!negotiated.ok) {
+      const errorResponse = unavailableFormatBody(negotiated)
+      await logAnalytics(supabaseClient, endpoint, req, negotiated.status, Date.now() - startTime, JSON.stringify(errorResponse).length, errorResponse.error)
+      return jsonResponse(errorResponse, negotiated.status, startTime)
+    }
+
+    const shaped = shapeResponseData(cachedData, req, url, route)
+    if (!shaped.isValid) {
+      const errorResponse = invalidQueryBody(shaped.errors)
+      await logAnalytics(supabaseClient, endpoint, req, 400, Date.now() - startTime, JSON.stringify(errorResponse).length, 'Invalid query')
+      return jsonResponse(errorResponse, 400, startTime)
+    }
 
     const finalResponseTime = Date.now() - startTime
-    const responseString = JSON.stringify(responseData)
-    
-    // Log successful analytics
-    console.log('Logging successful API call analytics')
-    await logAnalytics(supabaseClient, endpoint, req, 200, finalResponseTime, responseString.length)
+    const response = await buildDataResponse(cachedData, shaped, chaos, req, negotiated.format, {
+      'X-Cache': 'MISS',
+      'X-Cache-Fresh': 'true',
+      'X-Response-Time': `${finalResponseTime}ms`
+    }, async (status, size) => {
+      // Log successful analytics with the size on the wire, after compression
+      console.log('Logging successful API call analytics')
+      await logAnalytics(supabaseClient, endpoint, req, status, finalResponseTime, size)
+    })
     
     console.log(`API Proxy: Fresh data served for route: ${route} in ${finalResponseTime}ms`)
 
-    return new Response(
-      responseString,
-      {
-        status: 200,
-        headers: { 
-          ...corsHeaders,
-          'Content-Type': 'application/json',
-          'X-API-Type': apiType,
-          'X-API-Name': apiName,
-          'X-Cache': 'MISS',
-          'X-Cache-Fresh': 'true',
-          'X-Response-Time': `${finalResponseTime}ms`
-        },
-      }
-    )
+    return response
 
   } catch (error) {
     const responseTime = Date.now() - startTime
@@ -570,4 +2013,4 @@ Deno.serve(async (req) => {
       }
     )
   }
-})
\ No newline at end of file
+}
@@ -0,0 +1,179 @@
+// Fixed-window rate limits per endpoint and per API key. Counters live in memory, so each
+// function instance enforces its limits separately, like the response cache.
+
+export type RateLimitWindow = 'second' | 'minute' | 'day'
+
+export interface RateLimitWindows {
+  per_second?: number | null
+  per_minute?: number | null
+  per_day?: number | null
+}
+
+export interface RateLimitConfig {
+  // Shared by every client of the endpoint
+  endpoint?: RateLimitWindows | null
+  // Applied to each validated API key or JWT subject separately; other requests are grouped by
+  // client IP
+  per_key?: RateLimitWindows | null
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Unix time in seconds when the reported window resets
+  resetAt: number
+  retryAfterSeconds: number
+  scope: 'endpoint' | 'key'
+  window: RateLimitWindow
+  // True for the first rejection in a window, so violations can be logged without flooding analytics
+  firstRejection: boolean
+}
+
+const WINDOW_MS: Record<RateLimitWindow, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+}
+
+const WINDOW_FIELDS: [RateLimitWindow, keyof RateLimitWindows][] = [
+  ['second', 'per_second'],
+  ['minute', 'per_minute'],
+  ['day', 'per_day']
+]
+
+const MAX_COUNTERS = 10000
+// Share of the oldest counters dropped when the cap is still reached after pruning
+const EVICT_FRACTION = 0.25
+
+interface Counter {
+  windowStart: number
+  count: number
+  rejected: boolean
+}
+
+const counters = new Map<string, Counter>()
+
+interface Bucket {
+  key: string
+  scope: 'endpoint' | 'key'
+  window: RateLimitWindow
+  limit: number
+  windowStart: number
+  resetAt: number
+}
+
+function bucketsFor(config: RateLimitConfig, endpointId: string, clientId: string, now: number): Bucket[] {
+  const buckets: Bucket[] = []
+  const scopes: ['endpoint' | 'key', RateLimitWindows | null | undefined, string][] = [
+    ['endpoint', config.endpoint, endpointId],
+    ['key', config.per_key, `${endpointId}:${clientId}`]
+  ]
+
+  for (const [scope, windows, id] of scopes) {
+    if (!windows) continue
+    for (const [window, field] of WINDOW_FIELDS) {
+      const limit = Number(windows[field])
+      if (!Number.isInteger(limit) || limit <= 0) continue
+      const windowStart = Math.floor(now / WINDOW_MS[window]) * WINDOW_MS[window]
+      buckets.push({
+        key: `${scope}:${id}:${window}`,
+        scope,
+        window,
+        limit,
+        windowStart,
+        resetAt: windowStart + WINDOW_MS[window]
+      })
+    }
+  }
+  return buckets
+}
+
+function currentCount(bucket: Bucket): Counter {
+  const counter = counters.get(bucket.key)
+  if (counter && counter.windowStart === bucket.windowStart) return counter
+  return { windowStart: bucket.windowStart, count: 0, rejected: false }
+}
+
+function toResult(bucket: Bucket, remaining: number, allowed: boolean, firstRejection: boolean, now: number): RateLimitResult {
+  return {
+    allowed,
+    limit: bucket.limit,
+    remaining: Math.max(remaining, 0),
+    resetAt: Math.ceil(bucket.resetAt / 1000),
+    retryAfterSeconds: Math.max(Math.ceil((bucket.resetAt - now) / 1000), 1),
+    scope: bucket.scope,
+    window: bucket.window,
+    firstRejection
+  }
+}
+
+// Count a request against every configured window. Returns null when the endpoint has no limits;
+// otherwise the exceeded window, or the one closest to running out when the request is allowed.
+export function checkRateLimit(
+  config: RateLimitConfig | null | undefined,
+  endpointId: string,
+  clientId: string,
+  now: number = Date.now()
+): RateLimitResult | null {
+  if (!config) return null
+  const buckets = bucketsFor(config, endpointId, clientId, now)
+  if (buckets.length === 0) return null
+
+  const exceeded = buckets.find(bucket => currentCount(bucket).count >= bucket.limit)
+  if (exceeded) {
+    const counter = currentCount(exceeded)
+    const firstRejection = !counter.rejected
+    counters.set(exceeded.key, { ...counter, rejected: true })
+    return toResult(exceeded, 0, false, firstRejection, now)
+  }
+
+  if (counters.size >= MAX_COUNTERS) {
+    pruneRateLimits(now)
+  }
+  if (counters.size >= MAX_COUNTERS) {
+    evictOldest()
+  }
+
+  let tightest: RateLimitResult | null = null
+  for (const bucket of buckets) {
+    const counter = currentCount(bucket)
+    const count = counter.count + 1
+    counters.set(bucket.key, { ...counter, count })
+
+    const result = toResult(bucket, bucket.limit - count, true, false, now)
+    if (!tightest || result.remaining < tightest.remaining) {
+      tightest = result
+    }
+  }
+  return tightest
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.resetAt),
+    ...(result.allowed ? {} : { 'Retry-After': String(result.retryAfterSeconds) })
+  }
+}
+
+// Drop the counters created first, so a flood of new clients can't grow memory without bound.
+// Their clients start over with a fresh count, which only ever lets a few extra requests through.
+function evictOldest() {
+  let remaining = Math.ceil(MAX_COUNTERS * EVICT_FRACTION)
+  for (const key of counters.keys()) {
+    if (remaining-- <= 0) break
+    counters.delete(key)
+  }
+}
+
+// Drop counters whose window has ended
+export function pruneRateLimits(now: number = Date.now()) {
+  for (const [key, counter] of counters.entries()) {
+    const window = key.substring(key.lastIndexOf(':') + 1) as RateLimitWindow
+    if (counter.windowStart + WINDOW_MS[window] <= now) {
+      counters.delete(key)
+    }
+  }
+}
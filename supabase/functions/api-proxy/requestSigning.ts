@@ -0,0 +1,48 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2"
+import { checkSignature, ENDPOINT_KEY_ID, KEY_ID_HEADER, SIGNATURE_HEADER, TIMESTAMP_HEADER } from "../_shared/signing.ts"
+import { checkSigningKey, type ManagedApiKey } from "../_shared/apiKeys.ts"
+import type { ProxyEndpoint } from "./types.ts"
+
+// Endpoint fields needed to verify a signed request, kept with cached responses too
+export type SigningEndpoint = Pick<ProxyEndpoint, 'id' | 'project_id' | 'api_key' | 'signing_config'>
+
+export type SignedRequestCheck =
+  | { valid: true; key: ManagedApiKey | null }
+  | { valid: false; reason: string }
+
+// Verify an HMAC-signed request. The X-Key-Id header names a named key, whose signing secret is
+// used, or "endpoint" for the endpoint's own API key. path is the route plus query string.
+export async function verifySignedRequest(
+  supabaseClient: SupabaseClient,
+  endpoint: SigningEndpoint,
+  req: Request,
+  path: string
+): Promise<SignedRequestCheck> {
+  const keyId = req.headers.get(KEY_ID_HEADER)
+  if (!keyId) return { valid: false, reason: 'Missing X-Key-Id header' }
+
+  let key: ManagedApiKey | null = null
+  let secret: string | null
+  if (keyId === ENDPOINT_KEY_ID) {
+    secret = endpoint.api_key
+  } else {
+    const keyCheck = await checkSigningKey(supabaseClient, endpoint, keyId)
+    if (keyCheck.status === 'unknown') return { valid: false, reason: 'Unknown signing key' }
+    if (keyCheck.status !== 'valid') {
+      return { valid: false, reason: `The signing key "${keyCheck.key.name}" has been ${keyCheck.status}` }
+    }
+    key = keyCheck.key
+    secret = key.signing_secret
+  }
+  if (!secret) return { valid: false, reason: 'The signing key has no secret' }
+
+  const reason = await checkSignature({
+    method: req.method,
+    path,
+    body: await req.clone().text(),
+    timestamp: req.headers.get(TIMESTAMP_HEADER),
+    signature: req.headers.get(SIGNATURE_HEADER)
+  }, secret, endpoint.signing_config)
+
+  return reason ? { valid: false, reason } : { valid: true, key }
+}
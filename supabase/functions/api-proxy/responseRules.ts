@@ -0,0 +1,100 @@
+// Conditional response rules: the first enabled rule whose conditions match the request
+// replaces the endpoint's default response.
+
+import type { ResponseRule, RuleCondition } from './types.ts'
+
+export interface RuleRequest {
+  headers: Headers
+  query: URLSearchParams
+  body: unknown
+  params: Record<string, string>
+  apiKey: string | null
+}
+
+function readPath(value: unknown, path: string): unknown {
+  let current = value
+  for (const segment of path.split('.').filter(Boolean)) {
+    if (!current || typeof current !== 'object') return undefined
+    current = (current as Record<string, unknown>)[segment]
+  }
+  return current
+}
+
+function readSource(condition: RuleCondition, request: RuleRequest): unknown {
+  switch (condition.source) {
+    case 'header':
+      return request.headers.get(condition.key) ?? undefined
+    case 'query':
+      return request.query.get(condition.key) ?? undefined
+    case 'body':
+      return condition.key ? readPath(request.body, condition.key) : request.body
+    case 'param':
+      return request.params[condition.key]
+    case 'api_key':
+      return request.apiKey ?? undefined
+  }
+}
+
+function asText(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function matchesCondition(condition: RuleCondition, request: RuleRequest): boolean {
+  const actual = readSource(condition, request)
+  const present = actual !== undefined && actual !== null
+
+  switch (condition.operator) {
+    case 'exists':
+      return present
+    case 'not_exists':
+      return !present
+    case 'equals':
+      return present && asText(actual) === condition.value
+    case 'not_equals':
+      return !present || asText(actual) !== condition.value
+    case 'contains':
+      if (!present) return false
+      return Array.isArray(actual)
+        ? actual.some(item => asText(item) === condition.value)
+        : asText(actual).includes(condition.value)
+    case 'matches':
+      if (!present) return false
+      try {
+        return new RegExp(condition.value).test(asText(actual))
+      } catch {
+        return false
+      }
+  }
+  return false
+}
+
+function matchesRule(rule: ResponseRule, request: RuleRequest): boolean {
+  const conditions = rule.conditions || []
+  // A rule without conditions always matches, which makes it a catch-all override
+  if (conditions.length === 0) return true
+  return rule.match_mode === 'any'
+    ? conditions.some(condition => matchesCondition(condition, request))
+    : conditions.every(condition => matchesCondition(condition, request))
+}
+
+export function activeRules(rules: ResponseRule[] | null | undefined): ResponseRule[] {
+  return (rules || [])
+    .filter(rule => rule.enabled)
+    .sort((a, b) => a.position - b.position)
+}
+
+// Request bodies are only read when a rule inspects them
+export function rulesReadBody(rules: ResponseRule[]): boolean {
+  return rules.some(rule => (rule.conditions || []).some(condition => condition.source === 'body'))
+}
+
+export function findMatchingRule(rules: ResponseRule[], request: RuleRequest): ResponseRule | null {
+  return rules.find(rule => matchesRule(rule, request)) || null
+}
+
+export function ruleResponseBody(rule: ResponseRule): unknown {
+  if (rule.response_type === 'template') {
+    return rule.json_templates?.json_data ?? null
+  }
+  return rule.body ?? null
+}
@@ -0,0 +1,74 @@
+// Parameterised routes: `:name` captures one path segment and `*` captures the rest of the path.
+// e.g. /shop/products/:id matches /shop/products/42 with { id: '42' }
+//      /files/*           matches /files/a/b.txt   with { '*': 'a/b.txt' }
+
+export interface RoutePattern {
+  route: string
+  regex: RegExp
+  paramNames: string[]
+  // Higher scores win when several patterns match the same path
+  specificity: number
+}
+
+export interface RouteMatch<T> {
+  value: T
+  params: Record<string, string>
+}
+
+export function hasRouteParams(route: string) {
+  return /(^|\/)(:[^/]+|\*)(\/|$)/.test(route)
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+export function compileRoutePattern(route: string): RoutePattern {
+  const paramNames: string[] = []
+  let specificity = 0
+
+  const segments = route.split('/').filter(Boolean).map(segment => {
+    if (segment === '*') {
+      paramNames.push('*')
+      return '(.+)'
+    }
+    if (segment.startsWith(':')) {
+      paramNames.push(segment.substring(1))
+      specificity += 1
+      return '([^/]+)'
+    }
+    specificity += 2
+    return escapeRegex(segment)
+  })
+
+  return {
+    route,
+    regex: new RegExp(`^/${segments.join('/')}/?$`),
+    paramNames,
+    specificity
+  }
+}
+
+// Find the most specific pattern matching a concrete path
+export function matchRoute<T>(candidates: Array<{ pattern: RoutePattern; value: T }>, path: string): RouteMatch<T> | null {
+  let best: { specificity: number; match: RouteMatch<T> } | null = null
+
+  for (const { pattern, value } of candidates) {
+    const result = pattern.regex.exec(path)
+    if (!result) continue
+
+    if (!best || pattern.specificity > best.specificity) {
+      const params: Record<string, string> = {}
+      pattern.paramNames.forEach((name, index) => {
+        try {
+          params[name] = decodeURIComponent(result[index + 1])
+        } catch {
+          params[name] = result[index + 1]
+        }
+      })
+      best = { specificity: pattern.specificity, match: { value, params } }
+    }
+  }
+
+  return best?.match ?? null
+}
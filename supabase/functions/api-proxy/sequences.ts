@@ -0,0 +1,53 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2"
+
+// Response sequences: successive calls from the same client walk through an ordered list of
+// responses, e.g. pending, pending, done. Positions are kept in the database so every instance of
+// the function agrees on them.
+
+export type SequenceMode = 'loop' | 'stick' | 'reset'
+
+export interface SequenceStep {
+  label?: string
+  status: number
+  body: unknown
+  headers?: Record<string, string>
+}
+
+export interface ResponseSequence {
+  enabled: boolean
+  mode: SequenceMode
+  // Only used by reset mode: the sequence starts over this long after its first call
+  reset_after_seconds?: number
+  steps: SequenceStep[]
+}
+
+export const MAX_SEQUENCE_STEPS = 20
+
+export function activeSequence(sequence: ResponseSequence | null | undefined): ResponseSequence | null {
+  if (!sequence?.enabled || !Array.isArray(sequence.steps) || sequence.steps.length === 0) return null
+  return { ...sequence, steps: sequence.steps.slice(0, MAX_SEQUENCE_STEPS) }
+}
+
+// Which step answers the call made after `previousCalls` others
+export function stepIndex(sequence: ResponseSequence, previousCalls: number) {
+  const count = sequence.steps.length
+  return sequence.mode === 'loop' ? previousCalls % count : Math.min(previousCalls, count - 1)
+}
+
+export async function advanceSequence(
+  supabaseClient: SupabaseClient,
+  endpointId: string,
+  clientKey: string,
+  sequence: ResponseSequence
+): Promise<{ index: number; step: SequenceStep }> {
+  const resetAfter = sequence.mode === 'reset' && sequence.reset_after_seconds ? sequence.reset_after_seconds : null
+  const { data, error } = await supabaseClient.rpc('advance_response_sequence', {
+    p_endpoint_id: endpointId,
+    p_client_key: clientKey,
+    p_reset_after_seconds: resetAfter
+  })
+
+  if (error) throw error
+  const index = stepIndex(sequence, typeof data === 'number' ? data : 0)
+  return { index, step: sequence.steps[index] }
+}
@@ -0,0 +1,89 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2"
+
+// Mock sessions: on endpoints in session mode, a request naming a session reads and writes that
+// session's own copy of the schema's data, so clients testing against the same schema don't see
+// each other's changes. Sessions are created on first use and discarded once idle for the TTL.
+
+export const SESSION_HEADER = 'x-mock-session'
+export const SESSION_COOKIE = 'mock_session'
+
+const SESSION_KEY_PATTERN = /^[\w.:-]{1,128}$/
+
+export interface MockSession {
+  id: string
+  session_key: string
+  expires_at: string
+}
+
+// Where a request's schema reads and writes go: the shared api_data rows or a session's copy
+export interface SchemaScope {
+  table: 'api_data' | 'mock_session_data'
+  // Filter selecting the scope's rows
+  match: Record<string, string>
+  // Columns set on rows inserted into the scope
+  owner: Record<string, string>
+  session: MockSession | null
+}
+
+// The header takes precedence over the cookie
+export function readSessionKey(req: Request): string | null {
+  const header = req.headers.get(SESSION_HEADER)
+  if (header !== null) return header.trim()
+
+  for (const part of (req.headers.get('cookie') || '').split(';')) {
+    const [name, ...value] = part.split('=')
+    if (name.trim() === SESSION_COOKIE) {
+      try {
+        return decodeURIComponent(value.join('=').trim())
+      } catch {
+        return value.join('=').trim()
+      }
+    }
+  }
+  return null
+}
+
+export function isValidSessionKey(key: string) {
+  return SESSION_KEY_PATTERN.test(key)
+}
+
+// Open the session, or extend it; a new or expired session starts from a copy of the schema's data
+export async function openMockSession(
+  supabaseClient: SupabaseClient,
+  schemaId: string,
+  sessionKey: string,
+  ttlMinutes: number
+): Promise<MockSession> {
+  const { data, error } = await supabaseClient.rpc('ensure_mock_session', {
+    p_schema_id: schemaId,
+    p_session_key: sessionKey,
+    p_ttl_minutes: ttlMinutes
+  })
+
+  if (error) throw error
+  return { id: data.id, session_key: data.session_key, expires_at: data.expires_at }
+}
+
+export function schemaScope(schemaId: string, userId: string, session: MockSession | null): SchemaScope {
+  if (session) {
+    return {
+      table: 'mock_session_data',
+      match: { session_id: session.id },
+      owner: { session_id: session.id, schema_id: schemaId },
+      session
+    }
+  }
+  return {
+    table: 'api_data',
+    match: { schema_id: schemaId },
+    owner: { schema_id: schemaId, user_id: userId },
+    session: null
+  }
+}
+
+export function sessionHeaders(session: MockSession): Record<string, string> {
+  return {
+    'X-Mock-Session': session.session_key,
+    'X-Mock-Session-Expires': new Date(session.expires_at).toUTCString()
+  }
+}
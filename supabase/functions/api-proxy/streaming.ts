@@ -0,0 +1,150 @@
+// Streaming endpoints answer GET with a Server-Sent Events stream instead of a JSON body. Events
+// come from the endpoint's template (one per array element), its schema's rows, or a generator
+// template rendered for every event. Event ids count from 1, so a client reconnecting with
+// Last-Event-ID continues with the next event.
+
+// Mirrors the stream settings edited in the frontend (src/utils/streaming.ts)
+export interface StreamConfig {
+  source: 'template' | 'schema' | 'generator'
+  interval_ms: number
+  // SSE event name; clients get plain `message` events without one
+  event?: string | null
+  // Generator sources: the body rendered for every event
+  generator?: unknown
+  // Template and schema sources: start again after the last item instead of ending the stream
+  loop?: boolean
+  // End the stream after this many events, counted from the first event rather than from a resume
+  max_events?: number | null
+}
+
+export const MIN_STREAM_INTERVAL_MS = 100
+export const MAX_STREAM_INTERVAL_MS = 60000
+
+// Edge functions are stopped after a wall-clock limit, so streams end before it and let
+// EventSource reconnect with Last-Event-ID
+export const MAX_STREAM_MS = 120000
+
+// Sent as the stream's retry field: how long EventSource waits before reconnecting
+export const STREAM_RETRY_MS = 1000
+
+const EVENT_NAME_PATTERN = /^[^\r\n:]+$/
+
+export function validateStreamConfig(config: StreamConfig | null): string | null {
+  if (!config) return 'Streaming endpoint has no stream settings'
+  if (!['template', 'schema', 'generator'].includes(config.source)) return 'Stream source must be template, schema or generator'
+  if (!Number.isInteger(config.interval_ms) || config.interval_ms < MIN_STREAM_INTERVAL_MS || config.interval_ms > MAX_STREAM_INTERVAL_MS) {
+    return `Stream interval must be between ${MIN_STREAM_INTERVAL_MS} and ${MAX_STREAM_INTERVAL_MS} ms`
+  }
+  if (config.event && !EVENT_NAME_PATTERN.test(config.event)) return 'Event name must be one line without colons'
+  if (config.source === 'generator' && config.generator === undefined) return 'Generator streams need an event template'
+  if (config.max_events !== undefined && config.max_events !== null && (!Number.isInteger(config.max_events) || config.max_events < 1)) {
+    return 'Maximum events must be a positive whole number'
+  }
+  return null
+}
+
+// The id of the last event the client saw: Last-Event-ID on reconnects, or ?lastEventId= for
+// clients that cannot set headers. 0 starts from the first event.
+export function resumePosition(req: Request, url: URL) {
+  const raw = req.headers.get('last-event-id') ?? url.searchParams.get('lastEventId')
+  const id = Number(raw)
+  return raw && Number.isInteger(id) && id > 0 ? id : 0
+}
+
+// One event in the wire format; strings are sent as they are and other values as JSON
+export function formatEvent(id: number, event: string | null | undefined, value: unknown) {
+  const data = typeof value === 'string' ? value : JSON.stringify(value ?? null)
+  const lines = [`id: ${id}`]
+  if (event) lines.push(`event: ${event}`)
+  for (const line of data.split(/\r\n|\r|\n/)) lines.push(`data: ${line}`)
+  return `${lines.join('\n')}\n\n`
+}
+
+// The last event id the stream can reach, or null when it goes on until the client disconnects
+export function lastEventId(config: StreamConfig, itemCount: number | null) {
+  const limits: number[] = []
+  if (config.max_events) limits.push(config.max_events)
+  // An empty source has nothing to loop over
+  if (itemCount !== null && (!config.loop || itemCount === 0)) limits.push(itemCount)
+  return limits.length > 0 ? Math.min(...limits) : null
+}
+
+export interface EventStreamOptions {
+  // Id of the last event the client already has
+  after: number
+  // Highest id to send, from lastEventId
+  last: number | null
+  intervalMs: number
+  event?: string | null
+  // The value of the event with the given id
+  produce: (id: number) => unknown
+  // Called once with the bytes sent, when the stream ends or the client goes away
+  onClose?: (bytes: number) => Promise<void>
+}
+
+// Emits the first event at once and the rest at the interval, then closes after the last event
+// or MAX_STREAM_MS. Cancelling the response body, as a disconnecting client does, stops the timer.
+export function createEventStream(options: EventStreamOptions): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const deadline = Date.now() + MAX_STREAM_MS
+  const firstId = options.after + 1
+  let nextId = firstId
+  let sentBytes = 0
+  let closed = false
+  let cancelled = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let wake: (() => void) | undefined
+
+  const wait = (ms: number) => new Promise<void>(resolve => {
+    wake = resolve
+    timer = setTimeout(resolve, ms)
+  })
+
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, text: string) => {
+    const chunk = encoder.encode(text)
+    sentBytes += chunk.byteLength
+    controller.enqueue(chunk)
+  }
+
+  const finish = async () => {
+    if (closed) return
+    closed = true
+    await options.onClose?.(sentBytes)
+  }
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      send(controller, `retry: ${STREAM_RETRY_MS}\n\n`)
+    },
+    async pull(controller) {
+      if (options.last !== null && nextId > options.last) {
+        await finish()
+        controller.close()
+        return
+      }
+      if (nextId > firstId) {
+        await wait(options.intervalMs)
+        if (cancelled) return
+        if (Date.now() >= deadline) {
+          await finish()
+          controller.close()
+          return
+        }
+      }
+
+      try {
+        send(controller, formatEvent(nextId, options.event, options.produce(nextId)))
+        nextId++
+      } catch (error) {
+        await finish()
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      cancelled = true
+      clearTimeout(timer)
+      wake?.()
+      await finish()
+    }
+  })
+}
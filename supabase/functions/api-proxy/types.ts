@@ -0,0 +1,94 @@
+import type { ChaosConfig } from './chaos.ts'
+import type { RateLimitConfig } from './rateLimiter.ts'
+import type { JwtConfig } from '../_shared/jwt.ts'
+import type { SigningConfig } from '../_shared/signing.ts'
+import type { AccessPolicy } from '../_shared/accessPolicy.ts'
+import type { ResponseFormat } from './formats.ts'
+import type { UpstreamConfig } from './upstream.ts'
+import type { StreamConfig } from './streaming.ts'
+import type { CatcherConfig } from './catcher.ts'
+import type { ResponseSequence } from './sequences.ts'
+import type { SchemaField } from '../_shared/schemaFields.ts'
+
+export type { SchemaField }
+
+// Mirrors the rule definitions used by the frontend (src/hooks/useResponseRules.ts)
+export interface RuleCondition {
+  source: 'header' | 'query' | 'body' | 'param' | 'api_key'
+  // Header name, query parameter, dotted body path or route parameter; unused for api_key
+  key: string
+  operator: 'equals' | 'not_equals' | 'contains' | 'matches' | 'exists' | 'not_exists'
+  value: string
+}
+
+export interface ResponseRule {
+  id: string
+  name: string
+  position: number
+  enabled: boolean
+  match_mode: 'all' | 'any'
+  conditions: RuleCondition[]
+  status_code: number
+  headers: Record<string, string>
+  response_type: 'body' | 'template'
+  body: unknown
+  template_id: string | null
+  json_templates: { json_data: unknown } | null
+}
+
+// Row shape of api_endpoints as selected by the proxy, including joined template and schema
+export interface ProxyEndpoint {
+  id: string
+  name: string
+  route: string
+  json_data: unknown
+  is_public: boolean
+  api_key: string | null
+  data_type: 'template' | 'schema' | 'upstream' | 'stream' | 'catcher' | null
+  schema_id: string | null
+  template_id: string | null
+  updated_at: string
+  user_id: string
+  project_id: string | null
+  // Data field used to look up single items; defaults to the row id
+  item_key_field: string | null
+  chaos_config: ChaosConfig | null
+  // Declared status, content type and headers for successful reads
+  response_status: number | null
+  content_type: string | null
+  response_headers: Record<string, string> | null
+  // Cache-Control for successful reads; responses carry an ETag and Last-Modified to revalidate with
+  cache_control: string | null
+  // Formats JSON data may be served in; null serves every format
+  response_formats: ResponseFormat[] | null
+  rate_limits: RateLimitConfig | null
+  // How private endpoints authenticate: API keys, bearer tokens verified against jwt_config,
+  // or requests signed with a key's secret
+  auth_mode: 'api_key' | 'jwt' | 'hmac'
+  jwt_config: JwtConfig | null
+  signing_config: SigningConfig | null
+  // Allowed origins, CORS headers and client address ranges, merged over the project's policy
+  access_policy: AccessPolicy | null
+  // Published version served when a request names none; null serves this configuration
+  current_version: number | null
+  // Upstream URL and record/replay mode for upstream endpoints
+  upstream_config: UpstreamConfig | null
+  // Event source and timing for streaming endpoints, which answer with Server-Sent Events
+  stream_config: StreamConfig | null
+  // Response for catcher endpoints, which store every request they receive for inspection
+  catcher_config: CatcherConfig | null
+  // Minutes an idle mock session lives; null serves every client the schema's shared data
+  session_ttl_minutes: number | null
+  // Responses returned in turn on successive calls from the same client
+  response_sequence: ResponseSequence | null
+  projects: { access_policy: AccessPolicy | null } | null
+  json_templates: { id: string; json_data: unknown; updated_at: string } | null
+  api_schemas: { id: string; fields: SchemaField[]; updated_at: string } | null
+  api_response_rules: ResponseRule[] | null
+}
+
+export interface ApiDataRow {
+  id: string
+  data: Record<string, unknown>
+  updated_at: string
+}
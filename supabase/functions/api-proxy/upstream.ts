@@ -0,0 +1,227 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2"
+
+// Upstream endpoints forward requests to a real API. In record mode every exchange is stored in
+// api_recordings; in replay mode the stored exchanges answer without contacting the upstream.
+// Headers added for the upstream, usually its credentials, live in api_upstream_secrets, which only
+// the owner and the service role can read, rather than in the endpoint row public endpoints expose.
+
+// Mirrors the upstream settings edited in the frontend (src/utils/upstream.ts)
+export interface UpstreamConfig {
+  url: string
+  mode: 'record' | 'replay'
+  forward_headers?: string[]
+  timeout_ms?: number
+}
+
+export const DEFAULT_UPSTREAM_TIMEOUT_MS = 10000
+
+// Sent when forward_headers is not set
+const DEFAULT_FORWARD_HEADERS = ['accept', 'accept-language', 'content-type']
+
+// Larger responses are still forwarded but not recorded
+const MAX_RECORDED_BYTES = 1024 * 1024
+
+// Connection-level headers and the ones fetch has already undone or the proxy sets itself
+const DROPPED_RESPONSE_HEADERS = [
+  'connection', 'keep-alive', 'transfer-encoding', 'upgrade', 'proxy-authenticate', 'trailer',
+  'content-encoding', 'content-length', 'set-cookie', 'date'
+]
+
+export interface UpstreamExchange {
+  status: number
+  headers: Record<string, string>
+  bytes: Uint8Array
+  // The body as stored; null when it was empty, too large or not text
+  body: string | null
+  durationMs: number
+  // False when the body was too large or not text, so the exchange can't be stored
+  recordable: boolean
+}
+
+export type UpstreamResult =
+  | { ok: true; exchange: UpstreamExchange }
+  | { ok: false; status: 502 | 504; message: string; errorType: 'upstream_error' | 'upstream_timeout' }
+
+export interface RecordedRequest {
+  method: string
+  path: string
+  query: string
+  headers: Record<string, string>
+  body: string | null
+}
+
+export interface Recording {
+  id: string
+  response_status: number
+  response_headers: Record<string, string>
+  response_body: string | null
+}
+
+// Fill :name placeholders from the route parameters and append the request's query string
+export function upstreamUrl(config: UpstreamConfig, params: Record<string, string>, search: string) {
+  // Names must start with a letter, so scheme separators and ports are left alone
+  const base = config.url.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (placeholder, name) =>
+    params[name] !== undefined ? encodeURIComponent(params[name]) : placeholder
+  )
+  if (!search) return base
+  return base + (base.includes('?') ? '&' + search.slice(1) : search)
+}
+
+export function validateUpstreamConfig(config: UpstreamConfig | null): string | null {
+  if (!config?.url) return 'Upstream endpoint has no upstream URL configured'
+  try {
+    const parsed = new URL(config.url)
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return 'Upstream URL must use http or https'
+  } catch {
+    return 'Upstream URL is not a valid URL'
+  }
+  return null
+}
+
+// The headers added to every forwarded request; the client must be the service role client
+export async function loadUpstreamHeaders(supabaseClient: SupabaseClient, endpointId: string): Promise<Record<string, string>> {
+  const { data, error } = await supabaseClient
+    .from('api_upstream_secrets')
+    .select('headers')
+    .eq('endpoint_id', endpointId)
+    .maybeSingle()
+  if (error) throw error
+  return (data?.headers as Record<string, string> | undefined) ?? {}
+}
+
+// The request as recorded: only forwarded headers are kept, never the configured upstream credentials
+export async function describeRequest(req: Request, path: string, search: string, config: UpstreamConfig): Promise<RecordedRequest> {
+  const forwarded = (config.forward_headers ?? DEFAULT_FORWARD_HEADERS).map(name => name.toLowerCase())
+  const headers: Record<string, string> = {}
+  for (const [name, value] of req.headers) {
+    if (forwarded.includes(name)) headers[name] = value
+  }
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD'
+  const body = hasBody ? await req.clone().text() : ''
+
+  return {
+    method: req.method,
+    path,
+    query: search.replace(/^\?/, ''),
+    headers,
+    body: body === '' ? null : body
+  }
+}
+
+export async function forwardRequest(
+  config: UpstreamConfig,
+  target: string,
+  request: RecordedRequest,
+  upstreamHeaders: Record<string, string>
+): Promise<UpstreamResult> {
+  const started = Date.now()
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), config.timeout_ms ?? DEFAULT_UPSTREAM_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(target, {
+      method: request.method,
+      headers: { ...request.headers, ...upstreamHeaders },
+      body: request.body,
+      redirect: 'manual',
+      signal: controller.signal
+    })
+    const bytes = new Uint8Array(await response.arrayBuffer())
+
+    const headers: Record<string, string> = {}
+    for (const [name, value] of response.headers) {
+      if (!DROPPED_RESPONSE_HEADERS.includes(name) && !name.startsWith('access-control-')) headers[name] = value
+    }
+
+    let body: string | null = null
+    let recordable = bytes.byteLength <= MAX_RECORDED_BYTES
+    try {
+      body = bytes.byteLength > 0 ? new TextDecoder('utf-8', { fatal: true }).decode(bytes) : null
+    } catch {
+      // Binary bodies are passed through as-is but can't be stored as text
+      recordable = false
+    }
+
+    return {
+      ok: true,
+      exchange: {
+        status: response.status,
+        headers,
+        bytes,
+        body: recordable ? body : null,
+        durationMs: Date.now() - started,
+        recordable
+      }
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return { ok: false, status: 504, message: `Upstream did not respond within ${config.timeout_ms ?? DEFAULT_UPSTREAM_TIMEOUT_MS}ms`, errorType: 'upstream_timeout' }
+    }
+    return { ok: false, status: 502, message: `Upstream request failed: ${(error as Error).message}`, errorType: 'upstream_error' }
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+// Identifies a request for replay; recording it again replaces the stored exchange
+export async function requestKey(request: RecordedRequest): Promise<string> {
+  const canonical = [request.method, request.path, request.query, request.body ?? ''].join('\n')
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export async function recordExchange(
+  supabaseClient: SupabaseClient,
+  endpoint: { id: string; user_id: string },
+  request: RecordedRequest,
+  exchange: UpstreamExchange
+) {
+  const { error } = await supabaseClient
+    .from('api_recordings')
+    .upsert({
+      endpoint_id: endpoint.id,
+      user_id: endpoint.user_id,
+      request_key: await requestKey(request),
+      method: request.method,
+      path: request.path,
+      query: request.query,
+      request_headers: request.headers,
+      request_body: request.body,
+      response_status: exchange.status,
+      response_headers: exchange.headers,
+      response_body: exchange.body,
+      duration_ms: exchange.durationMs,
+      created_at: new Date().toISOString()
+    }, { onConflict: 'endpoint_id,request_key' })
+
+  if (error) {
+    console.error('Failed to store recording:', error)
+  }
+}
+
+// The exact request if it was recorded, otherwise the newest recording for the same method and path
+export async function findRecording(
+  supabaseClient: SupabaseClient,
+  endpointId: string,
+  request: RecordedRequest
+): Promise<Recording | null> {
+  const columns = 'id, response_status, response_headers, response_body'
+
+  const { data: exact } = await supabaseClient
+    .from('api_recordings')
+    .select(columns)
+    .eq('endpoint_id', endpointId)
+    .eq('request_key', await requestKey(request))
+    .maybeSingle()
+  if (exact) return exact as Recording
+
+  const { data: similar } = await supabaseClient
+    .from('api_recordings')
+    .select(columns)
+    .eq('endpoint_id', endpointId)
+    .eq('method', request.method)
+    .eq('path', request.path)
+    .order('created_at', { ascending: false })
+    .limit(1)
+  return (similar?.[0] as Recording | undefined) ?? null
+}
@@ -0,0 +1,124 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2"
+import type { ProxyEndpoint } from "./types.ts"
+
+// Published endpoint versions: immutable snapshots of the response configuration, chosen with a
+// /v2 route prefix or an Accept-Version header. Authentication, access policy and rate limits are
+// not versioned and always come from the live endpoint.
+
+export const VERSIONED_FIELDS = [
+  'json_data',
+  'data_type',
+  'schema_id',
+  'template_id',
+  'item_key_field',
+  'chaos_config',
+  'response_status',
+  'response_headers',
+  'content_type',
+  'cache_control',
+  'response_formats',
+  'upstream_config',
+  'stream_config',
+  'catcher_config',
+  'response_sequence',
+  'json_templates',
+  'api_schemas',
+  'api_response_rules'
+] as const
+
+export type VersionConfig = Pick<ProxyEndpoint, typeof VERSIONED_FIELDS[number]>
+
+export interface EndpointVersion {
+  id: string
+  version: number
+  config: VersionConfig
+  deprecated_at: string | null
+  sunset_at: string | null
+}
+
+// What a response needs to carry its version headers, kept with cached responses too
+export type ServedVersion = Pick<EndpointVersion, 'version' | 'deprecated_at' | 'sunset_at'>
+
+const VERSION_PREFIX = /^\/v(\d+)(\/.*)$/
+const VERSION_HEADER_VALUE = /^v?(\d+)$/i
+
+export type RequestedVersion =
+  | { ok: true; version: number | null }
+  | { ok: false; message: string }
+
+// A leading /vN and the route it would version. Project slugs such as v2 look the same, so the
+// proxy only reads it as a version when the path as requested serves nothing and the rest of it
+// resolves to an endpoint that has published versions.
+export function splitVersionPrefix(path: string): { route: string; version: number } | null {
+  const prefixed = path.match(VERSION_PREFIX)
+  return prefixed ? { route: prefixed[2], version: Number(prefixed[1]) } : null
+}
+
+// A version prefix the route was resolved with takes precedence over Accept-Version
+export function parseRequestedVersion(prefixVersion: number | null, acceptVersion: string | null): RequestedVersion {
+  if (prefixVersion !== null) {
+    return { ok: true, version: prefixVersion }
+  }
+
+  if (acceptVersion === null || acceptVersion.trim() === '') {
+    return { ok: true, version: null }
+  }
+  const requested = acceptVersion.trim().match(VERSION_HEADER_VALUE)
+  if (!requested || Number(requested[1]) === 0) {
+    return { ok: false, message: `Invalid Accept-Version "${acceptVersion}". Use a version number such as 2 or v2.` }
+  }
+  return { ok: true, version: Number(requested[1]) }
+}
+
+export async function hasVersions(supabaseClient: SupabaseClient, endpointId: string): Promise<boolean> {
+  const { data, error } = await supabaseClient
+    .from('api_endpoint_versions')
+    .select('id')
+    .eq('endpoint_id', endpointId)
+    .limit(1)
+
+  if (error) {
+    console.error('Failed to check endpoint versions:', error)
+  }
+  return (data?.length ?? 0) > 0
+}
+
+export async function fetchVersion(supabaseClient: SupabaseClient, endpointId: string, version: number): Promise<EndpointVersion | null> {
+  const { data, error } = await supabaseClient
+    .from('api_endpoint_versions')
+    .select('id, version, config, deprecated_at, sunset_at')
+    .eq('endpoint_id', endpointId)
+    .eq('version', version)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Failed to load endpoint version:', error)
+  }
+  return (data as EndpointVersion | null) ?? null
+}
+
+// The endpoint as it was when the version was published, with today's authentication settings
+export function applyVersion(endpoint: ProxyEndpoint, version: EndpointVersion): ProxyEndpoint {
+  const config: Partial<VersionConfig> = {}
+  for (const field of VERSIONED_FIELDS) {
+    if (field in version.config) (config as Record<string, unknown>)[field] = version.config[field]
+  }
+  return { ...endpoint, ...config }
+}
+
+export function isSunset(version: ServedVersion, now = Date.now()) {
+  return version.sunset_at !== null && new Date(version.sunset_at).getTime() <= now
+}
+
+// Deprecation (RFC 9745) is a structured date in epoch seconds; Sunset (RFC 8594) an HTTP date.
+// Both may lie in the future to announce a schedule.
+export function versionHeaders(version: ServedVersion): Record<string, string> {
+  const headers: Record<string, string> = { 'X-Api-Version': String(version.version) }
+  if (version.deprecated_at) {
+    headers['Deprecation'] = `@${Math.floor(new Date(version.deprecated_at).getTime() / 1000)}`
+  }
+  if (version.sunset_at) {
+    headers['Sunset'] = new Date(version.sunset_at).toUTCString()
+  }
+  return headers
+}
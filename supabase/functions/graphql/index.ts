@@ -0,0 +1,336 @@
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2"
+import { buildSchema, execute, getOperationAST, GraphQLError, parse, validate, type DocumentNode, type GraphQLSchema } from "npm:graphql@16"
+import { buildGraphqlModel, type GraphqlCollection } from "../_shared/graphqlSchema.ts"
+import { checkProjectKey, hasScope, type ApiKeyScope, type ManagedApiKey } from "../_shared/apiKeys.ts"
+import { applyCorsPolicy, checkAccess, getClientIp, preflightHeaders, resolveAccessPolicy, type AccessPolicy } from "../_shared/accessPolicy.ts"
+import type { SchemaField } from "../_shared/schemaFields.ts"
+import { deliverWebhooksInBackground } from "../_shared/webhooks.ts"
+import { buildRootValue } from "./resolvers.ts"
+
+// A GraphQL API over each project's schemas, at /functions/v1/graphql/<project id>. POST runs
+// queries and mutations; GET runs queries passed as ?query= and, without one, returns the schema
+// SDL. Introspection is available to every client allowed to query.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+// Mirrors the project setting edited in the dashboard (src/utils/graphql.ts)
+interface GraphqlConfig {
+  enabled: boolean
+  // Private projects take a project key granting every endpoint: queries need read, mutations write.
+  // Public projects answer queries without one, but mutations still need a key with write.
+  is_public: boolean
+}
+
+interface GraphqlProject {
+  id: string
+  graphql_config: GraphqlConfig | null
+  access_policy: AccessPolicy | null
+}
+
+interface SchemaRow {
+  id: string
+  name: string
+  description: string | null
+  fields: SchemaField[]
+  user_id: string
+  updated_at: string
+}
+
+interface GraphqlRequest {
+  query: string
+  variables?: Record<string, unknown> | null
+  operationName?: string | null
+}
+
+// Built schemas are reused until one of the project's schemas is added, changed or removed
+const builtSchemas = new Map<string, { signature: string; schema: GraphQLSchema; sdl: string; collections: GraphqlCollection[] }>()
+const MAX_BUILT_SCHEMAS = 100
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+let globalSupabaseClient: SupabaseClient | null = null
+
+function getSupabaseClient() {
+  if (!globalSupabaseClient) {
+    globalSupabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    )
+  }
+  return globalSupabaseClient
+}
+
+// Access policy of each request's project, applied to the CORS headers of whatever response it gets
+const corsPolicies = new WeakMap<Request, AccessPolicy>()
+
+function jsonResponse(body: unknown, status: number, startTime: number, extraHeaders: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      'X-Response-Time': `${Date.now() - startTime}ms`,
+      ...extraHeaders
+    },
+  })
+}
+
+// Errors before execution are reported in the GraphQL response shape, as clients expect
+function requestError(message: string, status: number, startTime: number, extraHeaders: Record<string, string> = {}) {
+  return jsonResponse({ errors: [{ message }] }, status, startTime, extraHeaders)
+}
+
+// Extract the project id from the function URL
+function getProjectId(url: URL) {
+  let path = url.pathname
+  if (path.startsWith('/functions/v1/graphql')) {
+    path = path.substring('/functions/v1/graphql'.length)
+  } else if (path.startsWith('/graphql')) {
+    path = path.substring('/graphql'.length)
+  }
+
+  const projectId = path.split('/').filter(Boolean)[0]
+  return projectId && UUID_PATTERN.test(projectId) ? projectId : null
+}
+
+async function loadProject(supabaseClient: SupabaseClient, projectId: string): Promise<GraphqlProject | null> {
+  const { data, error } = await supabaseClient
+    .from('projects')
+    .select('id, graphql_config, access_policy')
+    .eq('id', projectId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+async function loadSchema(supabaseClient: SupabaseClient, projectId: string) {
+  const { data, error } = await supabaseClient
+    .from('api_schemas')
+    .select('id, name, description, fields, user_id, updated_at')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  const rows = (data || []) as SchemaRow[]
+  const owners = new Map(rows.map(row => [row.id, row.user_id]))
+  if (rows.length === 0) return { built: null, owners }
+
+  const signature = rows.map(row => `${row.id}@${row.updated_at}`).join(',')
+  let built = builtSchemas.get(projectId)
+  if (!built || built.signature !== signature) {
+    const model = buildGraphqlModel(rows)
+    built = { signature, schema: buildSchema(model.sdl), sdl: model.sdl, collections: model.collections }
+    if (builtSchemas.size >= MAX_BUILT_SCHEMAS) builtSchemas.clear()
+    builtSchemas.set(projectId, built)
+  }
+  return { built, owners }
+}
+
+function parseVariables(raw: string | null): Record<string, unknown> | null | undefined {
+  if (raw === null) return null
+  const parsed = JSON.parse(raw)
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined
+}
+
+// Read the query, variables and operation name from the query string or a JSON body
+async function readGraphqlRequest(req: Request, url: URL): Promise<GraphqlRequest | string | null> {
+  if (req.method === 'GET') {
+    const query = url.searchParams.get('query')
+    if (!query) return null
+    try {
+      const variables = parseVariables(url.searchParams.get('variables'))
+      if (variables === undefined) return 'variables must be a JSON object'
+      return { query, variables, operationName: url.searchParams.get('operationName') }
+    } catch {
+      return 'variables must be valid JSON'
+    }
+  }
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return 'Request body must be valid JSON'
+  }
+
+  const { query, variables, operationName } = (body || {}) as Record<string, unknown>
+  if (typeof query !== 'string' || !query.trim()) return 'Request body must include a query'
+  if (variables !== undefined && variables !== null && (typeof variables !== 'object' || Array.isArray(variables))) {
+    return 'variables must be a JSON object'
+  }
+  return {
+    query,
+    variables: variables as Record<string, unknown> | null | undefined,
+    operationName: typeof operationName === 'string' ? operationName : null
+  }
+}
+
+async function authenticate(
+  supabaseClient: SupabaseClient,
+  project: GraphqlProject,
+  req: Request,
+  startTime: number
+): Promise<{ key: ManagedApiKey | null } | Response> {
+  const apiKey = req.headers.get('x-api-key')
+  // Anonymous clients of public projects get as far as queries; mutations check for a key later
+  if (!apiKey && project.graphql_config?.is_public) return { key: null }
+  if (!apiKey) {
+    return requestError('This GraphQL endpoint requires an API key. Include x-api-key header in your request.', 401, startTime)
+  }
+
+  const keyCheck = await checkProjectKey(supabaseClient, project.id, apiKey)
+  if (keyCheck.status === 'unknown') {
+    return requestError('The provided API key is not valid for this project. Use a project key that grants every endpoint.', 401, startTime)
+  }
+  if (keyCheck.status !== 'valid') {
+    return requestError(`The API key "${keyCheck.key.name}" has been ${keyCheck.status} and can no longer be used.`, 401, startTime)
+  }
+  return { key: keyCheck.key }
+}
+
+function scopeError(key: ManagedApiKey, scope: ApiKeyScope, action: string, startTime: number) {
+  return requestError(`The API key "${key.name}" does not have the ${scope} scope required for ${action}.`, 403, startTime)
+}
+
+async function handleRequest(req: Request): Promise<Response> {
+  const startTime = Date.now()
+  const url = new URL(req.url)
+  const origin = req.headers.get('origin')
+  const projectId = getProjectId(url)
+
+  if (req.method === 'OPTIONS') {
+    try {
+      const project = projectId ? await loadProject(getSupabaseClient(), projectId) : null
+      const policy = project ? resolveAccessPolicy({ access_policy: null, projects: { access_policy: project.access_policy } }) : null
+      return new Response(null, { status: 204, headers: preflightHeaders(corsHeaders, policy, origin) })
+    } catch (error) {
+      // Fall back to the permissive defaults; the actual request is still checked
+      console.error('Preflight error:', error)
+      return new Response('ok', { headers: corsHeaders })
+    }
+  }
+
+  if (!projectId) {
+    return requestError('Use /functions/v1/graphql/<project id>', 404, startTime)
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return requestError(`${req.method} is not supported. Use GET or POST.`, 405, startTime, { 'Allow': 'GET, POST, OPTIONS' })
+  }
+
+  try {
+    const supabaseClient = getSupabaseClient()
+    const project = await loadProject(supabaseClient, projectId)
+    if (!project?.graphql_config?.enabled) {
+      return requestError('GraphQL is not enabled for this project', 404, startTime)
+    }
+
+    const policy = resolveAccessPolicy({ access_policy: null, projects: { access_policy: project.access_policy } })
+    if (policy) {
+      corsPolicies.set(req, policy)
+      const access = checkAccess(policy, getClientIp(req), origin)
+      if (!access.allowed) {
+        console.log(`Blocked GraphQL request - ${access.reason}`)
+        return requestError(access.reason, 403, startTime)
+      }
+    }
+
+    const auth = await authenticate(supabaseClient, project, req, startTime)
+    if (auth instanceof Response) return auth
+
+    const { built, owners } = await loadSchema(supabaseClient, projectId)
+    if (!built) {
+      return requestError('This project has no schemas to serve over GraphQL', 404, startTime)
+    }
+
+    const graphqlRequest = await readGraphqlRequest(req, url)
+    if (typeof graphqlRequest === 'string') return requestError(graphqlRequest, 400, startTime)
+
+    // Reading the schema, like introspecting it, is a query
+    if (!graphqlRequest) {
+      if (auth.key && !hasScope(auth.key, 'read')) return scopeError(auth.key, 'read', 'queries', startTime)
+      return new Response(built.sdl, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/plain; charset=utf-8',
+          'X-Response-Time': `${Date.now() - startTime}ms`
+        }
+      })
+    }
+
+    let document: DocumentNode
+    try {
+      document = parse(graphqlRequest.query)
+    } catch (error) {
+      return jsonResponse({ errors: [(error as GraphQLError).toJSON()] }, 400, startTime)
+    }
+
+    const validationErrors = validate(built.schema, document)
+    if (validationErrors.length > 0) {
+      return jsonResponse({ errors: validationErrors.map(error => error.toJSON()) }, 400, startTime)
+    }
+
+    const operation = getOperationAST(document, graphqlRequest.operationName)
+    if (!operation) {
+      return requestError(
+        graphqlRequest.operationName
+          ? `Unknown operation "${graphqlRequest.operationName}"`
+          : 'Documents with several operations need an operationName',
+        400,
+        startTime
+      )
+    }
+
+    if (operation.operation === 'subscription') {
+      return requestError('Subscriptions are not supported', 400, startTime)
+    }
+
+    if (operation.operation === 'mutation') {
+      // Mutations must not be triggered by links or prefetching
+      if (req.method === 'GET') {
+        return requestError('Mutations must be sent with POST', 405, startTime, { 'Allow': 'POST, OPTIONS' })
+      }
+      if (!auth.key) {
+        return requestError('Mutations require an API key, also on public projects. Include x-api-key header with a project key that has the write scope.', 401, startTime)
+      }
+      if (!hasScope(auth.key, 'write')) return scopeError(auth.key, 'write', 'mutations', startTime)
+    } else if (auth.key && !hasScope(auth.key, 'read')) {
+      return scopeError(auth.key, 'read', 'queries', startTime)
+    }
+
+    const result = await execute({
+      schema: built.schema,
+      document,
+      rootValue: buildRootValue(supabaseClient, built.collections, owners, url),
+      variableValues: graphqlRequest.variables,
+      operationName: graphqlRequest.operationName
+    })
+
+    if (result.errors) {
+      console.error('GraphQL execution errors:', result.errors.map(error => error.message))
+    }
+    if (operation.operation === 'mutation') {
+      deliverWebhooksInBackground(supabaseClient, projectId)
+    }
+    return jsonResponse(result, 200, startTime)
+  } catch (error) {
+    console.error('GraphQL Error:', error)
+    return requestError(`Internal server error: ${(error as Error).message}`, 500, startTime)
+  }
+}
+
+Deno.serve(async (req) => {
+  const response = await handleRequest(req)
+
+  const accessPolicy = corsPolicies.get(req)
+  if (accessPolicy) {
+    applyCorsPolicy(response.headers, accessPolicy, req.headers.get('origin'))
+  }
+  return response
+})
@@ -0,0 +1,185 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2"
+import { GraphQLError } from "npm:graphql@16"
+import { DEFAULT_MAX_LIMIT, queryCollection } from "../_shared/collectionQuery.ts"
+import { validateSchemaData } from "../_shared/schemaValidator.ts"
+import type { GraphqlCollection } from "../_shared/graphqlSchema.ts"
+import type { SchemaField } from "../_shared/schemaFields.ts"
+
+// Root resolvers for the generated schema. Lists are answered by the same collection query as the
+// api-proxy's ?filter / ?sort / ?limit parameters, so both APIs filter and paginate alike; mutations
+// validate against the schema like REST writes do.
+
+interface ListArgs {
+  filter?: Record<string, unknown> | null
+  orderBy?: Array<{ field: string; direction: 'ASC' | 'DESC' }> | null
+  limit?: number | null
+  offset?: number | null
+  after?: string | null
+}
+
+interface DataRow {
+  id: string
+  data: Record<string, unknown>
+}
+
+type Resolver = (args: Record<string, unknown>) => Promise<unknown>
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Unlike REST items, the row id wins over a stored id field so every item can be looked up by its id
+function toItem(row: DataRow) {
+  return { ...row.data, id: row.id }
+}
+
+// { price: { gte: 10 }, address: { city: { eq: "Oslo" } } } becomes ?price[gte]=10&address.city=Oslo
+function appendFilters(params: URLSearchParams, fields: SchemaField[], filter: Record<string, unknown>, prefix = '') {
+  for (const [name, value] of Object.entries(filter)) {
+    if (value === null || value === undefined) continue
+    const path = `${prefix}${name}`
+    const field = fields.find(candidate => candidate.name === name)
+
+    if (field?.type === 'object') {
+      appendFilters(params, field.objectFields || [], value as Record<string, unknown>, `${path}.`)
+      continue
+    }
+
+    for (const [operator, operand] of Object.entries(value as Record<string, unknown>)) {
+      if (operand === null || operand === undefined) continue
+      params.append(
+        operator === 'eq' ? path : `${path}[${operator}]`,
+        Array.isArray(operand) ? operand.join(',') : String(operand)
+      )
+    }
+  }
+}
+
+export function collectionParams(fields: SchemaField[], args: ListArgs) {
+  const params = new URLSearchParams()
+  if (args.filter) appendFilters(params, fields, args.filter)
+  if (args.orderBy?.length) {
+    params.set('sort', args.orderBy.map(key => `${key.field}:${key.direction === 'DESC' ? 'desc' : 'asc'}`).join(','))
+  }
+  params.set('limit', String(args.limit ?? DEFAULT_MAX_LIMIT))
+  if (args.offset !== null && args.offset !== undefined) params.set('offset', String(args.offset))
+  if (args.after !== null && args.after !== undefined) params.set('cursor', args.after)
+  return params
+}
+
+function validationError(errors: string[]) {
+  return new GraphQLError(`Validation failed: ${errors.join('; ')}`, {
+    extensions: { code: 'BAD_USER_INPUT', details: errors }
+  })
+}
+
+async function findRow(supabaseClient: SupabaseClient, schemaId: string, id: string): Promise<DataRow | null> {
+  if (!UUID_PATTERN.test(id)) return null
+
+  const { data, error } = await supabaseClient
+    .from('api_data')
+    .select('id, data')
+    .eq('schema_id', schemaId)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw new Error(error.message)
+  return data
+}
+
+// Resolvers for every collection's query and mutation fields. `owners` maps schema ids to the user
+// new rows belong to, and `url` is the request URL the collection query builds its links from.
+export function buildRootValue(
+  supabaseClient: SupabaseClient,
+  collections: GraphqlCollection[],
+  owners: Map<string, string>,
+  url: URL
+): Record<string, Resolver> {
+  const root: Record<string, Resolver> = {}
+
+  for (const collection of collections) {
+    const { schemaId, fields } = collection
+
+    root[collection.listField] = async (args: ListArgs) => {
+      const { data, error } = await supabaseClient
+        .from('api_data')
+        .select('id, data')
+        .eq('schema_id', schemaId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw new Error(error.message)
+
+      const queryUrl = new URL(url.toString())
+      queryUrl.search = collectionParams(fields, args).toString()
+      const result = queryCollection((data || []).map(toItem), fields, queryUrl)
+      if (!result.isValid) {
+        throw new GraphQLError(`Invalid query: ${result.errors.join('; ')}`, {
+          extensions: { code: 'BAD_USER_INPUT', details: result.errors }
+        })
+      }
+
+      return {
+        items: result.items,
+        totalCount: Number(result.headers['X-Total-Count']),
+        hasNextPage: 'X-Next-Cursor' in result.headers,
+        nextCursor: result.headers['X-Next-Cursor'] ?? null
+      }
+    }
+
+    root[collection.itemField] = async ({ id }) => {
+      const row = await findRow(supabaseClient, schemaId, String(id))
+      return row ? toItem(row) : null
+    }
+
+    if (collection.createField) {
+      root[collection.createField] = async ({ input }) => {
+        const validation = validateSchemaData(fields, input)
+        if (!validation.isValid) throw validationError(validation.errors)
+
+        const { data, error } = await supabaseClient
+          .from('api_data')
+          .insert([{ schema_id: schemaId, user_id: owners.get(schemaId), data: input }])
+          .select('id, data')
+          .single()
+
+        if (error) throw new Error(error.message)
+        return toItem(data)
+      }
+    }
+
+    if (collection.updateField) {
+      root[collection.updateField] = async ({ id, input }) => {
+        const existing = await findRow(supabaseClient, schemaId, String(id))
+        if (!existing) return null
+
+        const validation = validateSchemaData(fields, input, { partial: true })
+        if (!validation.isValid) throw validationError(validation.errors)
+
+        const { data, error } = await supabaseClient
+          .from('api_data')
+          .update({ data: { ...existing.data, ...(input as Record<string, unknown>) } })
+          .eq('schema_id', schemaId)
+          .eq('id', existing.id)
+          .select('id, data')
+          .single()
+
+        if (error) throw new Error(error.message)
+        return toItem(data)
+      }
+    }
+
+    root[collection.deleteField] = async ({ id }) => {
+      const existing = await findRow(supabaseClient, schemaId, String(id))
+      if (!existing) return null
+
+      const { error } = await supabaseClient
+        .from('api_data')
+        .delete()
+        .eq('schema_id', schemaId)
+        .eq('id', existing.id)
+
+      if (error) throw new Error(error.message)
+      return toItem(existing)
+    }
+  }
+
+  return root
+}
@@ -0,0 +1,183 @@
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2"
+import { deliverDueWebhooks, deliverNow, type Webhook } from "../_shared/webhooks.ts"
+import { replayCapture, validateReplayUrl, type StoredCapture } from "./replay.ts"
+
+// Sends outbound webhook deliveries and replays for the dashboard, at /functions/v1/webhooks/<action>:
+//   POST deliver    { project_id? }      send the caller's due deliveries, first attempts and retries
+//   POST test       { webhook_id }       send a signed "ping" delivery to the webhook now
+//   POST redeliver  { delivery_id }      send a copy of a logged delivery now
+//   POST replay     { capture_id, url }  resend a request a catcher endpoint stored to url
+// Callers authenticate with their dashboard session token. The deliver-due-webhooks cron job
+// (see the signal_hook migration) calls deliver with the service role key every minute, which
+// sends every project's retries while no dashboard is open.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const WEBHOOK_COLUMNS = 'id, project_id, user_id, name, url, secret, enabled'
+
+let globalSupabaseClient: SupabaseClient | null = null
+
+function getSupabaseClient() {
+  if (!globalSupabaseClient) {
+    globalSupabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    )
+  }
+  return globalSupabaseClient
+}
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+function getAction(url: URL) {
+  let path = url.pathname
+  if (path.startsWith('/functions/v1/webhooks')) {
+    path = path.substring('/functions/v1/webhooks'.length)
+  } else if (path.startsWith('/webhooks')) {
+    path = path.substring('/webhooks'.length)
+  }
+  return path.split('/').filter(Boolean).join('/')
+}
+
+// The user the request acts for; null for the service role, which acts for everyone
+async function authenticate(supabaseClient: SupabaseClient, req: Request): Promise<{ userId: string | null } | Response> {
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) {
+    return jsonResponse({ error: 'Unauthorized', message: 'Sign in to the dashboard to send webhooks.' }, 401)
+  }
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) return { userId: null }
+
+  const { data, error } = await supabaseClient.auth.getUser(token)
+  if (error || !data.user) {
+    return jsonResponse({ error: 'Unauthorized', message: 'Your session has expired. Sign in again.' }, 401)
+  }
+  return { userId: data.user.id }
+}
+
+async function loadWebhook(supabaseClient: SupabaseClient, id: unknown, userId: string | null): Promise<Webhook | null> {
+  if (typeof id !== 'string') return null
+  let query = supabaseClient.from('webhooks').select(WEBHOOK_COLUMNS).eq('id', id)
+  if (userId) query = query.eq('user_id', userId)
+
+  const { data, error } = await query.maybeSingle()
+  if (error) throw error
+  return data as Webhook | null
+}
+
+async function handleTest(supabaseClient: SupabaseClient, body: Record<string, unknown>, userId: string | null) {
+  const webhook = await loadWebhook(supabaseClient, body.webhook_id, userId)
+  if (!webhook) return jsonResponse({ error: 'Webhook not found' }, 404)
+
+  const eventId = crypto.randomUUID()
+  const delivery = await deliverNow(supabaseClient, webhook, {
+    event: 'ping',
+    event_id: eventId,
+    payload: {
+      id: eventId,
+      event: 'ping',
+      occurred_at: new Date().toISOString(),
+      project_id: webhook.project_id,
+      webhook: { id: webhook.id, name: webhook.name },
+      message: 'Test delivery from the dashboard. Data changes are sent as data.created, data.updated and data.deleted.'
+    }
+  })
+  return jsonResponse(delivery, 200)
+}
+
+async function handleRedeliver(supabaseClient: SupabaseClient, body: Record<string, unknown>, userId: string | null) {
+  if (typeof body.delivery_id !== 'string') return jsonResponse({ error: 'delivery_id is required' }, 400)
+
+  const { data: original, error } = await supabaseClient
+    .from('webhook_deliveries')
+    .select('id, webhook_id, event, event_id, payload')
+    .eq('id', body.delivery_id)
+    .maybeSingle()
+  if (error) throw error
+
+  const webhook = original ? await loadWebhook(supabaseClient, original.webhook_id, userId) : null
+  if (!original || !webhook) return jsonResponse({ error: 'Delivery not found' }, 404)
+
+  // The copy keeps the event id, so receivers can tell it apart from a new change
+  const delivery = await deliverNow(supabaseClient, webhook, {
+    event: original.event,
+    event_id: original.event_id,
+    payload: original.payload,
+    redelivery_of: original.id
+  })
+  return jsonResponse(delivery, 200)
+}
+
+async function handleReplay(supabaseClient: SupabaseClient, body: Record<string, unknown>, userId: string | null) {
+  if (typeof body.capture_id !== 'string') return jsonResponse({ error: 'capture_id is required' }, 400)
+  const urlError = validateReplayUrl(body.url)
+  if (urlError) return jsonResponse({ error: 'Invalid URL', message: urlError }, 400)
+
+  let query = supabaseClient
+    .from('api_captures')
+    .select('method, query, headers, body, body_encoding')
+    .eq('id', body.capture_id)
+  if (userId) query = query.eq('user_id', userId)
+
+  const { data: capture, error } = await query.maybeSingle()
+  if (error) throw error
+  if (!capture) return jsonResponse({ error: 'Capture not found' }, 404)
+
+  return jsonResponse(await replayCapture(capture as StoredCapture, body.url as string), 200)
+}
+
+async function handleRequest(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseClient = getSupabaseClient()
+    const auth = await authenticate(supabaseClient, req)
+    if (auth instanceof Response) return auth
+
+    let body: Record<string, unknown>
+    try {
+      const parsed = await req.json()
+      body = parsed && typeof parsed === 'object' ? parsed : {}
+    } catch {
+      body = {}
+    }
+
+    const action = getAction(new URL(req.url))
+    switch (action) {
+      case 'deliver': {
+        const attempted = await deliverDueWebhooks(supabaseClient, {
+          userId: auth.userId ?? undefined,
+          projectId: typeof body.project_id === 'string' ? body.project_id : undefined
+        })
+        return jsonResponse({ attempted }, 200)
+      }
+      case 'test':
+        return await handleTest(supabaseClient, body, auth.userId)
+      case 'redeliver':
+        return await handleRedeliver(supabaseClient, body, auth.userId)
+      case 'replay':
+        return await handleReplay(supabaseClient, body, auth.userId)
+      default:
+        return jsonResponse({ error: 'Not found', message: 'Use /functions/v1/webhooks/deliver, /test, /redeliver or /replay' }, 404)
+    }
+  } catch (error) {
+    console.error('Webhooks Error:', error)
+    return jsonResponse({ error: 'Internal server error', message: (error as Error).message }, 500)
+  }
+}
+
+Deno.serve(handleRequest)
@@ -0,0 +1,37 @@
+import { SIGNATURE_HEADER, signPayload, TIMESTAMP_HEADER } from "../_shared/webhooks.ts"
+
+// Stand-in webhook receiver for trying deliveries locally. It prints every delivery, checks its
+// signature and answers with RECEIVER_STATUS, so failures and retries can be tried too:
+//   WEBHOOK_SECRET=<secret> deno run --allow-net --allow-env supabase/functions/webhooks/receiver.ts
+// Point a webhook at http://host.docker.internal:8787 when the functions run in `supabase start`
+// with ALLOW_PRIVATE_TARGETS=true in their env file; private addresses are refused otherwise.
+// Not deployed: it is not a function entrypoint.
+
+const port = Number(Deno.env.get('PORT') ?? 8787)
+const secret = Deno.env.get('WEBHOOK_SECRET') ?? ''
+const status = Number(Deno.env.get('RECEIVER_STATUS') ?? 200)
+
+Deno.serve({ port }, async (req) => {
+  const body = await req.text()
+  const timestamp = req.headers.get(TIMESTAMP_HEADER) ?? ''
+  const signature = req.headers.get(SIGNATURE_HEADER)
+
+  let verdict = 'not checked (set WEBHOOK_SECRET)'
+  if (secret) {
+    verdict = signature === await signPayload(secret, timestamp, body) ? 'valid' : 'INVALID'
+  }
+
+  console.log(`\n${new Date().toISOString()} ${req.method} ${new URL(req.url).pathname}`)
+  console.log(`  event: ${req.headers.get('x-webhook-event')}  delivery: ${req.headers.get('x-webhook-delivery')}`)
+  console.log(`  signature: ${verdict}`)
+  try {
+    console.log(JSON.stringify(JSON.parse(body), null, 2))
+  } catch {
+    console.log(body)
+  }
+
+  return new Response(JSON.stringify({ received: true, signature: verdict }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+})
@@ -0,0 +1,103 @@
+import { checkOutboundTarget } from "../_shared/targets.ts"
+
+// Replays a request stored by a catcher endpoint against another URL, e.g. a webhook handler
+// under development. Runs server-side so the target does not need to allow the dashboard's
+// origin; private and local targets are refused like upstreams (see _shared/targets.ts).
+
+// Mirrors the api_captures columns replay needs (supabase/functions/api-proxy/catcher.ts)
+export interface StoredCapture {
+  method: string
+  query: Record<string, string | string[]>
+  headers: Record<string, string>
+  body: string | null
+  body_encoding: 'text' | 'base64'
+}
+
+export interface ReplayResult {
+  url: string
+  status: number | null
+  headers: Record<string, string>
+  body: string | null
+  error: string | null
+  duration_ms: number
+}
+
+// Targets must answer within this long
+const REPLAY_TIMEOUT_MS = 10000
+
+// Longer response bodies are cut before they are returned
+const MAX_RETURNED_BODY_CHARS = 65536
+
+// Set by fetch for the new connection, or describing the proxy hop rather than the sender
+const SKIPPED_HEADERS = [
+  'host', 'content-length', 'connection', 'keep-alive', 'transfer-encoding', 'upgrade',
+  'te', 'trailer', 'proxy-authorization', 'proxy-connection', 'x-api-key'
+]
+
+const METHODS_WITHOUT_BODY = ['GET', 'HEAD']
+
+export function validateReplayUrl(value: unknown): string | null {
+  if (typeof value !== 'string') return 'url is required'
+  try {
+    const url = new URL(value)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'The URL must start with http:// or https://'
+  } catch {
+    return 'Enter a valid URL, e.g. https://example.com/hooks'
+  }
+  return null
+}
+
+// The captured query is appended to any query the target URL already has
+function replayUrl(target: string, query: StoredCapture['query']) {
+  const url = new URL(target)
+  for (const [name, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      url.searchParams.append(name, item)
+    }
+  }
+  return url.toString()
+}
+
+function decodeBody(capture: StoredCapture): BodyInit | null {
+  if (capture.body === null || METHODS_WITHOUT_BODY.includes(capture.method)) return null
+  if (capture.body_encoding === 'text') return capture.body
+  return Uint8Array.from(atob(capture.body), char => char.charCodeAt(0))
+}
+
+export async function replayCapture(capture: StoredCapture, target: string): Promise<ReplayResult> {
+  const url = replayUrl(target, capture.query)
+  const refusal = await checkOutboundTarget(url)
+  if (refusal) {
+    return { url, status: null, headers: {}, body: null, error: refusal, duration_ms: 0 }
+  }
+
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(capture.headers)) {
+    if (!SKIPPED_HEADERS.includes(name.toLowerCase())) headers.set(name, value)
+  }
+
+  const startTime = Date.now()
+  try {
+    const response = await fetch(url, {
+      method: capture.method,
+      headers,
+      body: decodeBody(capture),
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REPLAY_TIMEOUT_MS)
+    })
+    const body = await response.text()
+    return {
+      url,
+      status: response.status,
+      headers: Object.fromEntries(response.headers),
+      body: body.length > MAX_RETURNED_BODY_CHARS ? body.slice(0, MAX_RETURNED_BODY_CHARS) : body,
+      error: null,
+      duration_ms: Date.now() - startTime
+    }
+  } catch (error) {
+    const message = (error as Error).name === 'TimeoutError'
+      ? `No response within ${REPLAY_TIMEOUT_MS / 1000} seconds`
+      : (error as Error).message
+    return { url, status: null, headers: {}, body: null, error: message, duration_ms: Date.now() - startTime }
+  }
+}
@@ -0,0 +1,100 @@
+import { renderTemplate, type TemplateContext } from "../_shared/template.ts"
+
+// Channel behaviour: the scripted messages every connection receives, the rules answering client
+// messages, and what happens to messages no rule matches.
+
+// Mirrors the channel rows edited in the dashboard (src/utils/channels.ts)
+export interface ScriptStep {
+  // Wait after the previous step, or after connecting for the first step
+  delay_ms: number
+  message: unknown
+}
+
+export type RuleOperator = 'equals' | 'contains' | 'matches' | 'exists'
+
+export interface ChannelRule {
+  name: string
+  enabled: boolean
+  // Dotted path into a JSON message, e.g. "type" or "payload.room"; empty compares the whole message
+  path?: string
+  operator: RuleOperator
+  value?: string
+  reply: unknown
+  target: 'sender' | 'broadcast'
+  delay_ms?: number
+}
+
+export type ChannelFallback = 'echo' | 'broadcast' | 'none'
+
+export interface Channel {
+  id: string
+  project_id: string
+  name: string
+  is_public: boolean
+  script: ScriptStep[]
+  script_loop: boolean
+  rules: ChannelRule[]
+  fallback: ChannelFallback
+}
+
+// Text frames larger than this are refused; binary frames are not supported
+export const MAX_MESSAGE_BYTES = 64 * 1024
+
+// Client messages are matched as JSON when they parse, and as text otherwise
+export function parseMessage(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+function readPath(value: unknown, path: string): unknown {
+  let current = value
+  for (const segment of path.split('.').filter(Boolean)) {
+    if (!current || typeof current !== 'object') return undefined
+    current = (current as Record<string, unknown>)[segment]
+  }
+  return current
+}
+
+function asText(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function matchesRule(rule: ChannelRule, message: unknown, text: string): boolean {
+  const actual = rule.path ? readPath(message, rule.path) : text
+  const present = actual !== undefined && actual !== null
+  const expected = rule.value ?? ''
+
+  switch (rule.operator) {
+    case 'exists':
+      return present
+    case 'equals':
+      return present && asText(actual) === expected
+    case 'contains':
+      if (!present) return false
+      return Array.isArray(actual)
+        ? actual.some(item => asText(item) === expected)
+        : asText(actual).includes(expected)
+    case 'matches':
+      if (!present) return false
+      try {
+        return new RegExp(expected).test(asText(actual))
+      } catch {
+        return false
+      }
+  }
+  return false
+}
+
+// The first enabled rule matching the message, in the channel's order
+export function findChannelRule(channel: Channel, message: unknown, text: string): ChannelRule | null {
+  return (channel.rules || []).find(rule => rule.enabled && matchesRule(rule, message, text)) ?? null
+}
+
+// Messages are rendered like response templates; strings are sent as they are and other values as JSON
+export function renderMessage(message: unknown, context: TemplateContext): string {
+  const rendered = renderTemplate(message, context)
+  return typeof rendered === 'string' ? rendered : JSON.stringify(rendered)
+}
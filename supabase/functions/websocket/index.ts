@@ -0,0 +1,308 @@
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2"
+import { checkProjectKey, hasScope, type ManagedApiKey } from "../_shared/apiKeys.ts"
+import { checkAccess, getClientIp, resolveAccessPolicy, type AccessPolicy } from "../_shared/accessPolicy.ts"
+import type { TemplateContext } from "../_shared/template.ts"
+import { findChannelRule, MAX_MESSAGE_BYTES, parseMessage, renderMessage, type Channel } from "./channels.ts"
+
+// Mock WebSocket backends at /functions/v1/websocket/<project id>/<channel name>. A channel's
+// settings are read when a client connects, so edits apply to new connections.
+// Browsers cannot set headers on WebSocket requests, so private channels also take the API key
+// as ?api_key=. Connections are tracked per function instance: broadcasts reach the clients
+// connected to the same instance.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
+}
+
+interface ChannelRow extends Channel {
+  projects: { access_policy: AccessPolicy | null } | null
+}
+
+interface Connection {
+  id: string
+  socket: WebSocket
+  channel: Channel
+  key: ManagedApiKey | null
+  context: TemplateContext
+  timers: Set<ReturnType<typeof setTimeout>>
+}
+
+// A looping script waits at least this long before starting again
+const MIN_LOOP_DELAY_MS = 100
+
+// Request values hidden from message templates
+const SECRET_PARAMS = ['api_key']
+const SECRET_HEADERS = ['x-api-key', 'authorization', 'apikey', 'cookie']
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Open connections of each channel on this instance
+const rooms = new Map<string, Set<Connection>>()
+
+let globalSupabaseClient: SupabaseClient | null = null
+
+function getSupabaseClient() {
+  if (!globalSupabaseClient) {
+    globalSupabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    )
+  }
+  return globalSupabaseClient
+}
+
+function jsonResponse(body: unknown, status: number, extraHeaders: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...extraHeaders },
+  })
+}
+
+// Extract the project id and channel name from the function URL
+function getChannelPath(url: URL) {
+  let path = url.pathname
+  if (path.startsWith('/functions/v1/websocket')) {
+    path = path.substring('/functions/v1/websocket'.length)
+  } else if (path.startsWith('/websocket')) {
+    path = path.substring('/websocket'.length)
+  }
+
+  const [projectId, name, ...rest] = path.split('/').filter(Boolean)
+  if (!projectId || !UUID_PATTERN.test(projectId) || !name || rest.length > 0) return null
+  return { projectId, name: decodeURIComponent(name) }
+}
+
+async function loadChannel(supabaseClient: SupabaseClient, projectId: string, name: string): Promise<ChannelRow | null> {
+  const { data, error } = await supabaseClient
+    .from('ws_channels')
+    .select('id, project_id, name, is_public, script, script_loop, rules, fallback, projects!project_id(access_policy)')
+    .eq('project_id', projectId)
+    .eq('name', name)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as ChannelRow | null
+}
+
+async function authenticate(
+  supabaseClient: SupabaseClient,
+  channel: ChannelRow,
+  req: Request,
+  url: URL
+): Promise<{ key: ManagedApiKey | null } | Response> {
+  if (channel.is_public) return { key: null }
+
+  const apiKey = req.headers.get('x-api-key') ?? url.searchParams.get('api_key')
+  if (!apiKey) {
+    return jsonResponse({
+      error: 'API key required',
+      message: 'This channel requires an API key. Include an x-api-key header or an api_key query parameter.'
+    }, 401)
+  }
+
+  const keyCheck = await checkProjectKey(supabaseClient, channel.project_id, apiKey)
+  if (keyCheck.status === 'unknown') {
+    return jsonResponse({
+      error: 'Invalid API key',
+      message: 'The provided API key is not valid for this project. Use a project key that grants every endpoint.'
+    }, 401)
+  }
+  if (keyCheck.status !== 'valid') {
+    return jsonResponse({
+      error: `API key ${keyCheck.status}`,
+      message: `The API key "${keyCheck.key.name}" has been ${keyCheck.status} and can no longer be used.`
+    }, 401)
+  }
+  if (!hasScope(keyCheck.key, 'read')) {
+    return jsonResponse({
+      error: 'Insufficient scope',
+      message: `The API key "${keyCheck.key.name}" does not have the read scope required to connect.`
+    }, 403)
+  }
+  return { key: keyCheck.key }
+}
+
+// What message templates can use: the channel name as {{params.channel}} and the connecting request
+function templateContext(req: Request, url: URL, channel: Channel): TemplateContext {
+  return {
+    params: { channel: channel.name },
+    request: {
+      method: req.method,
+      path: url.pathname,
+      query: Object.fromEntries([...url.searchParams].filter(([name]) => !SECRET_PARAMS.includes(name))),
+      headers: Object.fromEntries([...req.headers].filter(([name]) => !SECRET_HEADERS.includes(name))),
+      body: null
+    }
+  }
+}
+
+function send(connection: Connection, text: string) {
+  if (connection.socket.readyState === WebSocket.OPEN) {
+    connection.socket.send(text)
+  }
+}
+
+function sendError(connection: Connection, message: string) {
+  send(connection, JSON.stringify({ type: 'error', message }))
+}
+
+function broadcast(channelId: string, text: string) {
+  for (const connection of rooms.get(channelId) || []) {
+    send(connection, text)
+  }
+}
+
+// Timers belong to the connection so closing it cancels everything still pending
+function schedule(connection: Connection, delayMs: number | undefined, task: () => void) {
+  const timer = setTimeout(() => {
+    connection.timers.delete(timer)
+    task()
+  }, Math.max(delayMs || 0, 0))
+  connection.timers.add(timer)
+}
+
+function runScript(connection: Connection) {
+  const steps = connection.channel.script || []
+  if (steps.length === 0) return
+
+  const play = (index: number) => {
+    if (index >= steps.length && !connection.channel.script_loop) return
+    const restarting = index >= steps.length
+    const step = steps[restarting ? 0 : index]
+    const delay = restarting ? Math.max(step.delay_ms || 0, MIN_LOOP_DELAY_MS) : step.delay_ms
+
+    schedule(connection, delay, () => {
+      const position = restarting ? 0 : index
+      send(connection, renderMessage(step.message, { ...connection.context, index: position }))
+      play(position + 1)
+    })
+  }
+  play(0)
+}
+
+function handleMessage(connection: Connection, data: unknown) {
+  if (typeof data !== 'string') {
+    sendError(connection, 'Binary messages are not supported. Send text or JSON.')
+    return
+  }
+  if (new TextEncoder().encode(data).byteLength > MAX_MESSAGE_BYTES) {
+    sendError(connection, `Messages are limited to ${MAX_MESSAGE_BYTES / 1024} KB.`)
+    return
+  }
+  if (connection.key && !hasScope(connection.key, 'write')) {
+    sendError(connection, `The API key "${connection.key.name}" does not have the write scope required to send messages.`)
+    return
+  }
+
+  const { channel } = connection
+  const message = parseMessage(data)
+  const rule = findChannelRule(channel, message, data)
+
+  if (rule) {
+    const reply = renderMessage(rule.reply, { ...connection.context, message })
+    schedule(connection, rule.delay_ms, () => {
+      if (rule.target === 'broadcast') {
+        broadcast(channel.id, reply)
+      } else {
+        send(connection, reply)
+      }
+    })
+    return
+  }
+
+  if (channel.fallback === 'echo') {
+    send(connection, data)
+  } else if (channel.fallback === 'broadcast') {
+    broadcast(channel.id, data)
+  }
+}
+
+function openConnection(req: Request, url: URL, channel: Channel, key: ManagedApiKey | null) {
+  const { socket, response } = Deno.upgradeWebSocket(req)
+  const connection: Connection = {
+    id: crypto.randomUUID(),
+    socket,
+    channel,
+    key,
+    context: templateContext(req, url, channel),
+    timers: new Set()
+  }
+
+  socket.onopen = () => {
+    let room = rooms.get(channel.id)
+    if (!room) {
+      room = new Set()
+      rooms.set(channel.id, room)
+    }
+    room.add(connection)
+    console.log(`WebSocket: ${connection.id} joined ${channel.name} (${room.size} connected)`)
+    runScript(connection)
+  }
+
+  socket.onmessage = (event) => handleMessage(connection, event.data)
+
+  socket.onclose = () => {
+    for (const timer of connection.timers) clearTimeout(timer)
+    connection.timers.clear()
+    const room = rooms.get(channel.id)
+    room?.delete(connection)
+    if (room && room.size === 0) rooms.delete(channel.id)
+    console.log(`WebSocket: ${connection.id} left ${channel.name}`)
+  }
+
+  socket.onerror = (event) => {
+    console.error(`WebSocket error on ${channel.name}:`, event instanceof ErrorEvent ? event.message : event.type)
+  }
+
+  return response
+}
+
+async function handleRequest(req: Request): Promise<Response> {
+  const url = new URL(req.url)
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const channelPath = getChannelPath(url)
+  if (!channelPath) {
+    return jsonResponse({ error: 'Not found', message: 'Use /functions/v1/websocket/<project id>/<channel name>' }, 404)
+  }
+
+  if (req.headers.get('upgrade')?.toLowerCase() !== 'websocket') {
+    return jsonResponse({
+      error: 'Upgrade required',
+      message: 'Channels only accept WebSocket connections. Connect with a WebSocket client using wss://.'
+    }, 426, { 'Upgrade': 'websocket' })
+  }
+
+  try {
+    const supabaseClient = getSupabaseClient()
+    const channel = await loadChannel(supabaseClient, channelPath.projectId, channelPath.name)
+    if (!channel) {
+      return jsonResponse({ error: 'Channel not found', message: `No channel named "${channelPath.name}" exists in this project` }, 404)
+    }
+
+    // Browsers send an Origin with every WebSocket handshake, which the project's policy can restrict
+    const policy = resolveAccessPolicy({ access_policy: null, projects: { access_policy: channel.projects?.access_policy ?? null } })
+    if (policy) {
+      const access = checkAccess(policy, getClientIp(req), req.headers.get('origin'))
+      if (!access.allowed) {
+        console.log(`Blocked WebSocket connection - ${access.reason}`)
+        return jsonResponse({ error: 'Forbidden', message: access.reason }, 403)
+      }
+    }
+
+    const auth = await authenticate(supabaseClient, channel, req, url)
+    if (auth instanceof Response) return auth
+
+    return openConnection(req, url, channel, auth.key)
+  } catch (error) {
+    console.error('WebSocket Error:', error)
+    return jsonResponse({ error: 'Internal server error', message: (error as Error).message }, 500)
+  }
+}
+
+Deno.serve(handleRequest)
@@ -0,0 +1,35 @@
+/*
+  # Add Path Parameter Support to API Endpoints
+
+  1. Schema Changes
+    - Add `item_key_field` to api_endpoints - data field used to resolve single items
+      on schema-based routes (defaults to the api_data row id when null)
+    - Add generated `has_route_params` flag for routes containing `:param` or `*` segments
+
+  2. Performance
+    - Partial index so the proxy can load parameterised routes without scanning every endpoint
+*/
+
+-- Add item key field to api_endpoints
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'item_key_field'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN item_key_field text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'has_route_params'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN has_route_params boolean
+      GENERATED ALWAYS AS (route ~ '(^|/)(:[^/]+|\*)(/|$)') STORED;
+  END IF;
+END $$;
+
+-- Index for parameterised route lookups
+CREATE INDEX IF NOT EXISTS idx_api_endpoints_route_params
+ON api_endpoints(id, route)
+WHERE has_route_params = true;
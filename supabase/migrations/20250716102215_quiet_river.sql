@@ -0,0 +1,99 @@
+/*
+  # Add Conditional Response Rules
+
+  1. New Tables
+    - `api_response_rules` - Ordered rules evaluated by the proxy before an endpoint's default response
+      - `conditions` - array of { source, key, operator, value } where source is one of
+        header, query, body, param or api_key
+      - `match_mode` - whether all or any of the conditions must match
+      - `status_code`, `headers` - response returned when the rule matches
+      - `response_type` - return the inline `body` or the referenced `template_id`
+
+  2. Security
+    - Enable RLS and restrict rules to the endpoint owner
+    - Rules can only be added to the owner's own endpoints and return the owner's own templates
+
+  3. Caching
+    - Changing a rule touches the parent endpoint's updated_at so cached responses are revalidated
+*/
+
+CREATE TABLE IF NOT EXISTS api_response_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id uuid NOT NULL REFERENCES api_endpoints(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL DEFAULT '',
+  position integer NOT NULL DEFAULT 0,
+  enabled boolean NOT NULL DEFAULT true,
+  match_mode text NOT NULL DEFAULT 'all' CHECK (match_mode IN ('all', 'any')),
+  conditions jsonb NOT NULL DEFAULT '[]',
+  status_code integer NOT NULL DEFAULT 200 CHECK (status_code BETWEEN 100 AND 599),
+  headers jsonb NOT NULL DEFAULT '{}',
+  response_type text NOT NULL DEFAULT 'body' CHECK (response_type IN ('body', 'template')),
+  body jsonb,
+  template_id uuid REFERENCES json_templates(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE api_response_rules ENABLE ROW LEVEL SECURITY;
+
+-- Policies for api_response_rules
+CREATE POLICY "Users can read own response rules"
+  ON api_response_rules FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own response rules"
+  ON api_response_rules FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM api_endpoints e WHERE e.id = api_response_rules.endpoint_id AND e.user_id = auth.uid()
+    )
+    AND (api_response_rules.template_id IS NULL OR EXISTS (
+      SELECT 1 FROM json_templates t WHERE t.id = api_response_rules.template_id AND t.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can update own response rules"
+  ON api_response_rules FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM api_endpoints e WHERE e.id = api_response_rules.endpoint_id AND e.user_id = auth.uid()
+    )
+    AND (api_response_rules.template_id IS NULL OR EXISTS (
+      SELECT 1 FROM json_templates t WHERE t.id = api_response_rules.template_id AND t.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can delete own response rules"
+  ON api_response_rules FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_api_response_rules_endpoint_position ON api_response_rules(endpoint_id, position);
+CREATE INDEX IF NOT EXISTS idx_api_response_rules_user_id ON api_response_rules(user_id);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_api_response_rules_updated_at
+  BEFORE UPDATE ON api_response_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Touch the parent endpoint whenever its rules change
+CREATE OR REPLACE FUNCTION touch_endpoint_on_rule_change()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE api_endpoints
+  SET updated_at = now()
+  WHERE id = COALESCE(NEW.endpoint_id, OLD.endpoint_id);
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS api_response_rules_touch_endpoint ON api_response_rules;
+CREATE TRIGGER api_response_rules_touch_endpoint
+  AFTER INSERT OR UPDATE OR DELETE ON api_response_rules
+  FOR EACH ROW EXECUTE FUNCTION touch_endpoint_on_rule_change();
@@ -0,0 +1,24 @@
+/*
+  # Add Chaos Profiles to API Endpoints
+
+  1. Schema Changes
+    - Add `chaos_config` jsonb to api_endpoints (null when never configured)
+      - `enabled` - apply the profile to every request
+      - `latency_min_ms` / `latency_max_ms` - fixed (equal) or random latency range
+      - `failure_rate` / `failure_status_codes` - percentage of requests failing with one of the codes
+      - `truncate_rate` - percentage of successful responses with a truncated body
+      - `timeout_rate` / `timeout_ms` - percentage of requests that hang, then return 504
+
+  2. Notes
+    - Requests can switch scenarios with the `X-Mock-Scenario` header regardless of `enabled`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'chaos_config'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN chaos_config jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,33 @@
+/*
+  # Add Declared Response Status, Headers and Content Type
+
+  1. Schema Changes
+    - Add `response_status` to api_endpoints - status code for successful reads (default 200)
+    - Add `response_headers` to api_endpoints - custom headers such as Cache-Control or Location
+    - Add `content_type` to api_endpoints - Content-Type of successful reads (default application/json)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'response_status'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN response_status integer NOT NULL DEFAULT 200
+      CHECK (response_status BETWEEN 200 AND 399);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'response_headers'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN response_headers jsonb NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'content_type'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN content_type text NOT NULL DEFAULT 'application/json';
+  END IF;
+END $$;
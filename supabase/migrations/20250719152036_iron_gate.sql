@@ -0,0 +1,76 @@
+/*
+  # Add Managed API Keys
+
+  1. New Tables
+    - `api_keys` - Named keys accepted by the proxy in addition to an endpoint's own api_key
+      - Scoped to a single endpoint (`endpoint_id`) or every endpoint of a project (`project_id`)
+      - `key_hash` - SHA-256 hex digest of the key; the plaintext is only shown once when created
+      - `key_prefix` - first characters of the key so owners can tell keys apart
+      - `expires_at` - optional expiry; rotating a key sets it on the old key for a grace period
+      - `revoked_at` - set when a key is revoked, after which it is rejected immediately
+      - `replaced_by` - the key that replaced this one on rotation
+      - `last_used_at` - updated by the proxy when the key is used
+
+  2. Security
+    - Enable RLS and restrict keys to their owner
+    - Keys can only be created for, or moved to, an endpoint or project the owner also owns;
+      public endpoint rows are readable by anyone, so their ids are no secret
+*/
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint_id uuid REFERENCES api_endpoints(id) ON DELETE CASCADE,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  key_prefix text NOT NULL,
+  key_hash text NOT NULL UNIQUE,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  replaced_by uuid REFERENCES api_keys(id) ON DELETE SET NULL,
+  last_used_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((endpoint_id IS NULL) <> (project_id IS NULL))
+);
+
+-- Enable RLS
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Policies for api_keys
+CREATE POLICY "Users can read own API keys"
+  ON api_keys FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own API keys"
+  ON api_keys FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (api_keys.endpoint_id IS NULL OR EXISTS (
+      SELECT 1 FROM api_endpoints e WHERE e.id = api_keys.endpoint_id AND e.user_id = auth.uid()
+    ))
+    AND (api_keys.project_id IS NULL OR EXISTS (
+      SELECT 1 FROM projects p WHERE p.id = api_keys.project_id AND p.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can update own API keys"
+  ON api_keys FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (api_keys.endpoint_id IS NULL OR EXISTS (
+      SELECT 1 FROM api_endpoints e WHERE e.id = api_keys.endpoint_id AND e.user_id = auth.uid()
+    ))
+    AND (api_keys.project_id IS NULL OR EXISTS (
+      SELECT 1 FROM projects p WHERE p.id = api_keys.project_id AND p.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can delete own API keys"
+  ON api_keys FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_api_keys_endpoint_id ON api_keys(endpoint_id);
+CREATE INDEX IF NOT EXISTS idx_api_keys_project_id ON api_keys(project_id);
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
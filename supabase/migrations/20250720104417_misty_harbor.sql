@@ -0,0 +1,86 @@
+/*
+  # Add API Key Scopes
+
+  1. Schema Changes
+    - Add `scopes` to api_keys - any of read (GET), write (POST, PUT, PATCH, DELETE) and admin (everything)
+    - Add `endpoint_ids` to api_keys - limits a project key to some of the project's endpoints;
+      NULL grants every endpoint in the project
+    - Add `api_key_id` to api_analytics - the managed key used for a request, for per-key usage counts
+
+  2. Data Migration
+    - Existing keys were accepted for every method, so they are given all scopes
+
+  3. Security
+    - Replace the api_keys create and update policies so every entry of `endpoint_ids` must be an
+      endpoint of the key's own project, alongside the endpoint and project ownership checks
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'scopes'
+  ) THEN
+    ALTER TABLE api_keys ADD COLUMN scopes text[] NOT NULL DEFAULT '{read}'
+      CHECK (scopes <@ ARRAY['read', 'write', 'admin']::text[] AND cardinality(scopes) > 0);
+
+    UPDATE api_keys SET scopes = ARRAY['read', 'write', 'admin'];
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'endpoint_ids'
+  ) THEN
+    ALTER TABLE api_keys ADD COLUMN endpoint_ids uuid[];
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_analytics' AND column_name = 'api_key_id'
+  ) THEN
+    ALTER TABLE api_analytics ADD COLUMN api_key_id uuid REFERENCES api_keys(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Index for per-key usage counts
+CREATE INDEX IF NOT EXISTS idx_api_analytics_api_key_id ON api_analytics(api_key_id);
+
+-- Policies for api_keys, replacing those of the managed keys migration
+DROP POLICY IF EXISTS "Users can create own API keys" ON api_keys;
+CREATE POLICY "Users can create own API keys"
+  ON api_keys FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (api_keys.endpoint_id IS NULL OR EXISTS (
+      SELECT 1 FROM api_endpoints e WHERE e.id = api_keys.endpoint_id AND e.user_id = auth.uid()
+    ))
+    AND (api_keys.project_id IS NULL OR EXISTS (
+      SELECT 1 FROM projects p WHERE p.id = api_keys.project_id AND p.user_id = auth.uid()
+    ))
+    AND (api_keys.endpoint_ids IS NULL OR NOT EXISTS (
+      SELECT 1 FROM unnest(api_keys.endpoint_ids) AS listed(id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM api_endpoints e WHERE e.id = listed.id AND e.project_id = api_keys.project_id
+      )
+    ))
+  );
+
+DROP POLICY IF EXISTS "Users can update own API keys" ON api_keys;
+CREATE POLICY "Users can update own API keys"
+  ON api_keys FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (api_keys.endpoint_id IS NULL OR EXISTS (
+      SELECT 1 FROM api_endpoints e WHERE e.id = api_keys.endpoint_id AND e.user_id = auth.uid()
+    ))
+    AND (api_keys.project_id IS NULL OR EXISTS (
+      SELECT 1 FROM projects p WHERE p.id = api_keys.project_id AND p.user_id = auth.uid()
+    ))
+    AND (api_keys.endpoint_ids IS NULL OR NOT EXISTS (
+      SELECT 1 FROM unnest(api_keys.endpoint_ids) AS listed(id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM api_endpoints e WHERE e.id = listed.id AND e.project_id = api_keys.project_id
+      )
+    ))
+  );
@@ -0,0 +1,21 @@
+/*
+  # Add Rate Limits
+
+  1. Schema Changes
+    - Add `rate_limits` to api_endpoints - requests allowed per second, minute and day
+      - `endpoint` - limits shared by every client of the endpoint
+      - `per_key` - limits applied to each API key (or client IP when no key is sent)
+
+  2. Analytics
+    - Requests rejected by a rate limit are logged with error_type `rate_limited`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'rate_limits'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN rate_limits jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,36 @@
+/*
+  # Add JWT Authentication Mode
+
+  1. Schema Changes
+    - Add `auth_mode` to api_endpoints - how private endpoints authenticate requests
+      - `api_key` (default) - the endpoint's key or a named key in the x-api-key header
+      - `jwt` - a bearer token in the Authorization header, verified against `jwt_config`
+    - Add `jwt_config` to api_endpoints
+      - `algorithm` - HS256, RS256 or ES256
+      - `secret` - shared secret for HS256
+      - `public_key` - PEM public key, JWK or JWKS document for RS256/ES256
+      - `issuer`, `audience` - required iss and aud claims, when set
+      - `clock_skew_seconds` - tolerance for exp and nbf checks
+      - `expose_claims` - make verified claims available to templates as {{claims.*}}
+
+  2. Analytics
+    - Requests rejected for a missing or invalid token are logged with error_type `invalid_token`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'auth_mode'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN auth_mode text NOT NULL DEFAULT 'api_key'
+      CONSTRAINT api_endpoints_auth_mode_check CHECK (auth_mode IN ('api_key', 'jwt'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'jwt_config'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN jwt_config jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,41 @@
+/*
+  # Add HMAC Request Signing
+
+  1. Schema Changes
+    - Allow `hmac` as an api_endpoints `auth_mode` - requests are signed with HMAC-SHA256 over
+      method, path, timestamp and body instead of sending a key
+    - Add `signing_config` to api_endpoints
+      - `clock_skew_seconds` - how far a signature timestamp may drift before it is rejected as a replay
+    - Add `signing_secret` to api_keys - the per-key secret used to sign requests; named keys are
+      identified by id in the X-Key-Id header, and "endpoint" selects the endpoint's own key
+
+  2. Data Migration
+    - Existing keys are given a random signing secret
+
+  3. Analytics
+    - Requests with a missing, stale or wrong signature are logged with error_type `invalid_signature`
+*/
+
+ALTER TABLE api_endpoints DROP CONSTRAINT IF EXISTS api_endpoints_auth_mode_check;
+ALTER TABLE api_endpoints ADD CONSTRAINT api_endpoints_auth_mode_check
+  CHECK (auth_mode IN ('api_key', 'jwt', 'hmac'));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'signing_config'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN signing_config jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_keys' AND column_name = 'signing_secret'
+  ) THEN
+    ALTER TABLE api_keys ADD COLUMN signing_secret text;
+
+    UPDATE api_keys
+    SET signing_secret = replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+  END IF;
+END $$;
@@ -0,0 +1,33 @@
+/*
+  # Add Access Policies
+
+  1. Schema Changes
+    - Add `access_policy` to projects and api_endpoints - who may call an endpoint; endpoint fields
+      override the project's field by field
+      - `allowed_origins` - browser origins allowed to call the endpoint, `*` wildcards a host part;
+        empty allows any origin
+      - `allowed_headers` - request headers accepted in addition to the proxy's defaults
+      - `allow_credentials` - echo the caller's origin and send Access-Control-Allow-Credentials
+      - `ip_allowlist` / `ip_denylist` - IPv4 or IPv6 CIDR ranges or single addresses
+
+  2. Analytics
+    - Requests from a denied or unlisted address are logged with error_type `ip_blocked`
+    - Requests from an origin that is not allowed are logged with error_type `origin_blocked`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'access_policy'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN access_policy jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'access_policy'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN access_policy jsonb;
+  END IF;
+END $$;
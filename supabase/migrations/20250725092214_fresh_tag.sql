@@ -0,0 +1,27 @@
+/*
+  # Add Conditional Requests and Cache-Control
+
+  1. Schema Changes
+    - Add `cache_control` to api_endpoints - the Cache-Control header of successful reads. When
+      unset, public endpoints send `no-cache` and private ones `private, no-cache`, so clients
+      revalidate with If-None-Match or If-Modified-Since and get `304 Not Modified` when unchanged.
+      `no-store` also keeps responses out of the proxy's own cache.
+
+  2. Data Migration
+    - A Cache-Control header declared in `response_headers` moves to the new column
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'cache_control'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN cache_control text;
+
+    UPDATE api_endpoints
+    SET cache_control = response_headers->>'Cache-Control',
+        response_headers = response_headers - 'Cache-Control'
+    WHERE response_headers ? 'Cache-Control';
+  END IF;
+END $$;
@@ -0,0 +1,24 @@
+/*
+  # Add Response Formats
+
+  1. Schema Changes
+    - Add `response_formats` to api_endpoints - the formats JSON data may be served in, chosen by
+      the client with `?format=` or the Accept header: `json`, `ndjson`, `xml`, `csv` (nested
+      objects flattened into dotted columns) and `yaml`. NULL serves every format. Clients without
+      a preference get the first served format in that order, so JSON whenever it is served.
+
+  2. Analytics
+    - Requests for a format the endpoint does not serve get `406 Not Acceptable`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'response_formats'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN response_formats text[]
+      CONSTRAINT api_endpoints_response_formats_check
+      CHECK (response_formats <@ ARRAY['json', 'ndjson', 'xml', 'csv', 'yaml']::text[]);
+  END IF;
+END $$;
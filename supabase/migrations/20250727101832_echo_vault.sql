@@ -0,0 +1,115 @@
+/*
+  # Add Upstream Record and Replay
+
+  1. Schema Changes
+    - Allow `upstream` as an api_endpoints data_type - requests are forwarded to a real API
+      instead of being answered from a template or schema
+    - Add `upstream_config` to api_endpoints
+      - `url` - upstream URL; `:name` placeholders are filled from the endpoint's route parameters
+        and the request's query string is forwarded
+      - `mode` - `record` forwards every request and stores the exchange, `replay` answers from
+        stored exchanges without contacting the upstream
+      - `forward_headers` - request headers passed on to the upstream
+      - `timeout_ms` - how long to wait for the upstream before answering 504
+
+  2. New Tables
+    - `api_upstream_secrets` - headers added to every upstream request, e.g. the upstream's own
+      credentials, one row per endpoint
+      - Kept out of `upstream_config` because public endpoints can be read by anyone
+    - `api_recordings` - request/response pairs captured in record mode
+      - `request_key` - SHA-256 of method, path, query and body; recording the same request again
+        replaces the earlier exchange
+      - Replay looks for the exact request first, then the newest recording for the same method
+        and path
+
+  3. Security
+    - Enable RLS and restrict recordings to their owner; the proxy writes them with the service role
+    - Enable RLS and restrict upstream secrets to their owner; the proxy reads them with the service role
+*/
+
+ALTER TABLE api_endpoints DROP CONSTRAINT IF EXISTS api_endpoints_data_type_check;
+
+ALTER TABLE api_endpoints ADD CONSTRAINT api_endpoints_data_type_check
+CHECK (data_type = ANY (ARRAY['template'::text, 'schema'::text, 'upstream'::text]));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'upstream_config'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN upstream_config jsonb;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS api_recordings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id uuid NOT NULL REFERENCES api_endpoints(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  request_key text NOT NULL,
+  method text NOT NULL,
+  path text NOT NULL,
+  query text NOT NULL DEFAULT '',
+  request_headers jsonb NOT NULL DEFAULT '{}'::jsonb,
+  request_body text,
+  response_status integer NOT NULL,
+  response_headers jsonb NOT NULL DEFAULT '{}'::jsonb,
+  response_body text,
+  duration_ms integer,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (endpoint_id, request_key)
+);
+
+CREATE TABLE IF NOT EXISTS api_upstream_secrets (
+  endpoint_id uuid PRIMARY KEY REFERENCES api_endpoints(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  headers jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE api_recordings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_upstream_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Policies for api_recordings
+CREATE POLICY "Users can read own recordings"
+  ON api_recordings FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own recordings"
+  ON api_recordings FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Policies for api_upstream_secrets; nothing grants anon access, whether or not the endpoint is public
+CREATE POLICY "Users can read own upstream secrets"
+  ON api_upstream_secrets FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own upstream secrets"
+  ON api_upstream_secrets FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM api_endpoints e WHERE e.id = endpoint_id AND e.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own upstream secrets"
+  ON api_upstream_secrets FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own upstream secrets"
+  ON api_upstream_secrets FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_api_upstream_secrets_updated_at ON api_upstream_secrets;
+CREATE TRIGGER update_api_upstream_secrets_updated_at
+  BEFORE UPDATE ON api_upstream_secrets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_api_recordings_endpoint_request ON api_recordings(endpoint_id, method, path, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_api_recordings_user_id ON api_recordings(user_id);
+CREATE INDEX IF NOT EXISTS idx_api_upstream_secrets_user_id ON api_upstream_secrets(user_id);
@@ -0,0 +1,105 @@
+/*
+  # Add Endpoint Versions
+
+  1. New Tables
+    - `api_endpoint_versions` - immutable snapshots of an endpoint's response configuration
+      - `version` - 1, 2, 3... per endpoint; clients ask for one with a `/v2` route prefix or an
+        `Accept-Version: 2` header
+      - `config` - the response-related endpoint fields at publish time, including the template,
+        schema fields and response rules. Authentication, access policy and rate limits are not
+        versioned and always come from the endpoint. Schema-backed versions still serve live data.
+      - `deprecated_at` - sent as the `Deprecation` header; `sunset_at` - sent as `Sunset`, after
+        which the version answers `410 Gone`
+
+  2. Schema Changes
+    - Add `current_version` to api_endpoints - the version served when a request names none.
+      NULL serves the endpoint's live configuration, as before versioning.
+    - Add `api_version` to api_analytics - the version that served the request, for per-version traffic
+
+  3. Security
+    - Enable RLS and restrict versions to their owner
+    - Versions can only be published for the owner's own endpoints
+    - A trigger rejects changes to a published version's number or config
+*/
+
+CREATE TABLE IF NOT EXISTS api_endpoint_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id uuid NOT NULL REFERENCES api_endpoints(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  version integer NOT NULL CHECK (version > 0),
+  config jsonb NOT NULL,
+  notes text,
+  deprecated_at timestamptz,
+  sunset_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (endpoint_id, version)
+);
+
+-- Enable RLS
+ALTER TABLE api_endpoint_versions ENABLE ROW LEVEL SECURITY;
+
+-- Policies for api_endpoint_versions
+CREATE POLICY "Users can read own endpoint versions"
+  ON api_endpoint_versions FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own endpoint versions"
+  ON api_endpoint_versions FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM api_endpoints e WHERE e.id = api_endpoint_versions.endpoint_id AND e.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own endpoint versions"
+  ON api_endpoint_versions FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM api_endpoints e WHERE e.id = api_endpoint_versions.endpoint_id AND e.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own endpoint versions"
+  ON api_endpoint_versions FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Only notes and the deprecation schedule may change after publishing
+CREATE OR REPLACE FUNCTION prevent_endpoint_version_changes()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.version <> OLD.version OR NEW.config <> OLD.config OR NEW.endpoint_id <> OLD.endpoint_id THEN
+    RAISE EXCEPTION 'Published endpoint versions cannot be changed; publish a new version instead';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS api_endpoint_versions_immutable ON api_endpoint_versions;
+CREATE TRIGGER api_endpoint_versions_immutable
+  BEFORE UPDATE ON api_endpoint_versions
+  FOR EACH ROW EXECUTE FUNCTION prevent_endpoint_version_changes();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'current_version'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN current_version integer;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_analytics' AND column_name = 'api_version'
+  ) THEN
+    ALTER TABLE api_analytics ADD COLUMN api_version integer;
+  END IF;
+END $$;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_api_endpoint_versions_endpoint_id ON api_endpoint_versions(endpoint_id, version DESC);
+CREATE INDEX IF NOT EXISTS idx_api_endpoint_versions_user_id ON api_endpoint_versions(user_id);
+CREATE INDEX IF NOT EXISTS idx_api_analytics_endpoint_version ON api_analytics(api_endpoint_id, api_version) WHERE api_version IS NOT NULL;
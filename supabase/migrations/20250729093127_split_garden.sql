@@ -0,0 +1,133 @@
+/*
+  # Add Mock Sessions
+
+  1. Schema Changes
+    - Add `session_ttl_minutes` to api_endpoints - turns on session mode for a schema endpoint.
+      Requests carrying an `X-Mock-Session` header (or `mock_session` cookie) read and write their
+      own copy of the schema's data instead of the shared rows. NULL keeps every client on the
+      shared data, as before.
+
+  2. New Tables
+    - `mock_sessions` - one per schema and session key
+      - `expires_at` - pushed back by every request; an expired session is discarded and starts
+        again from the schema's data on its next request
+    - `mock_session_data` - a session's copy of the schema's `api_data` rows. Copied rows keep
+      their original ids, so item URLs work the same inside and outside a session.
+
+  3. Functions
+    - `ensure_mock_session` - opens or extends a session, copying the schema's data on first use and
+      discarding the schema's expired sessions. Only the api-proxy function (service role) calls it.
+
+  4. Security
+    - Enable RLS; schema owners can list, inspect and delete (reset) their sessions
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'session_ttl_minutes'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN session_ttl_minutes integer
+      CHECK (session_ttl_minutes BETWEEN 1 AND 10080);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS mock_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schema_id uuid NOT NULL REFERENCES api_schemas(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_key text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  UNIQUE (schema_id, session_key)
+);
+
+CREATE TABLE IF NOT EXISTS mock_session_data (
+  session_id uuid NOT NULL REFERENCES mock_sessions(id) ON DELETE CASCADE,
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  schema_id uuid NOT NULL REFERENCES api_schemas(id) ON DELETE CASCADE,
+  data jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (session_id, id)
+);
+
+-- Enable RLS
+ALTER TABLE mock_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mock_session_data ENABLE ROW LEVEL SECURITY;
+
+-- Policies for mock_sessions
+CREATE POLICY "Users can read own mock sessions"
+  ON mock_sessions FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own mock sessions"
+  ON mock_sessions FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Policies for mock_session_data
+CREATE POLICY "Users can read own mock session data"
+  ON mock_session_data FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM mock_sessions ms
+      WHERE ms.id = mock_session_data.session_id
+        AND ms.user_id = auth.uid()
+    )
+  );
+
+-- Open or extend a session. A new (or expired) session starts from a copy of the schema's data.
+CREATE OR REPLACE FUNCTION ensure_mock_session(p_schema_id uuid, p_session_key text, p_ttl_minutes integer)
+RETURNS mock_sessions AS $$
+DECLARE
+  opened mock_sessions;
+BEGIN
+  DELETE FROM mock_sessions
+  WHERE schema_id = p_schema_id AND expires_at <= now();
+
+  UPDATE mock_sessions
+  SET last_used_at = now(), expires_at = now() + make_interval(mins => p_ttl_minutes)
+  WHERE schema_id = p_schema_id AND session_key = p_session_key
+  RETURNING * INTO opened;
+
+  IF FOUND THEN
+    RETURN opened;
+  END IF;
+
+  INSERT INTO mock_sessions (schema_id, user_id, session_key, expires_at)
+  SELECT s.id, s.user_id, p_session_key, now() + make_interval(mins => p_ttl_minutes)
+  FROM api_schemas s
+  WHERE s.id = p_schema_id
+  ON CONFLICT (schema_id, session_key) DO NOTHING
+  RETURNING * INTO opened;
+
+  IF FOUND THEN
+    INSERT INTO mock_session_data (session_id, id, schema_id, data, created_at, updated_at)
+    SELECT opened.id, d.id, d.schema_id, d.data, d.created_at, d.updated_at
+    FROM api_data d
+    WHERE d.schema_id = p_schema_id;
+    RETURN opened;
+  END IF;
+
+  -- A concurrent request opened the same session first
+  SELECT * INTO opened FROM mock_sessions
+  WHERE schema_id = p_schema_id AND session_key = p_session_key;
+  RETURN opened;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION ensure_mock_session(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+
+-- Add trigger for updated_at
+DROP TRIGGER IF EXISTS update_mock_session_data_updated_at ON mock_session_data;
+CREATE TRIGGER update_mock_session_data_updated_at
+  BEFORE UPDATE ON mock_session_data
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_mock_sessions_schema_id ON mock_sessions(schema_id, last_used_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mock_sessions_user_id ON mock_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_mock_session_data_session_created ON mock_session_data(session_id, created_at DESC);
@@ -0,0 +1,88 @@
+/*
+  # Add Response Sequences
+
+  1. Schema Changes
+    - Add `response_sequence` to api_endpoints - an ordered list of responses returned on
+      successive calls, e.g. pending, pending, done for polling clients
+      - `steps` - each with a status, body and optional headers and label
+      - `mode` - `loop` starts over after the last step, `stick` keeps returning the last step,
+        `reset` keeps returning the last step until `reset_after_seconds` have passed since the
+        first call, then starts over
+      - The sequence is published with endpoint versions like the rest of the response settings
+
+  2. New Tables
+    - `api_sequence_positions` - how far each client has got through an endpoint's sequence
+      - `client_key` - `session:<name>` for requests with an X-Mock-Session header, otherwise the
+        API key that authenticated the request (`key:<id>`, or `key:endpoint` for the endpoint's own
+        key), the JWT subject (`sub:<subject>`), or `anonymous` on public endpoints
+
+  3. Functions
+    - `advance_response_sequence` - counts a call and returns how many calls came before it.
+      Only the api-proxy function (service role) calls it.
+
+  4. Security
+    - Enable RLS; endpoint owners can read positions and delete them to reset a client's sequence
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'response_sequence'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN response_sequence jsonb;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS api_sequence_positions (
+  endpoint_id uuid NOT NULL REFERENCES api_endpoints(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  client_key text NOT NULL,
+  calls integer NOT NULL DEFAULT 0,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  last_called_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (endpoint_id, client_key)
+);
+
+-- Enable RLS
+ALTER TABLE api_sequence_positions ENABLE ROW LEVEL SECURITY;
+
+-- Policies for api_sequence_positions
+CREATE POLICY "Users can read own sequence positions"
+  ON api_sequence_positions FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own sequence positions"
+  ON api_sequence_positions FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Count a call; a run older than the reset window starts again from the first call
+CREATE OR REPLACE FUNCTION advance_response_sequence(p_endpoint_id uuid, p_client_key text, p_reset_after_seconds integer)
+RETURNS integer AS $$
+DECLARE
+  previous_calls integer;
+BEGIN
+  INSERT INTO api_sequence_positions AS p (endpoint_id, user_id, client_key, calls)
+  SELECT e.id, e.user_id, p_client_key, 1
+  FROM api_endpoints e
+  WHERE e.id = p_endpoint_id
+  ON CONFLICT (endpoint_id, client_key) DO UPDATE SET
+    calls = CASE
+      WHEN p_reset_after_seconds IS NOT NULL AND p.started_at <= now() - make_interval(secs => p_reset_after_seconds) THEN 1
+      ELSE p.calls + 1
+    END,
+    started_at = CASE
+      WHEN p_reset_after_seconds IS NOT NULL AND p.started_at <= now() - make_interval(secs => p_reset_after_seconds) THEN now()
+      ELSE p.started_at
+    END,
+    last_called_at = now()
+  RETURNING calls - 1 INTO previous_calls;
+
+  RETURN COALESCE(previous_calls, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION advance_response_sequence(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_api_sequence_positions_user_id ON api_sequence_positions(user_id);
@@ -0,0 +1,24 @@
+/*
+  # Add GraphQL Endpoints
+
+  1. Schema Changes
+    - Add `graphql_config` to projects - serves the project's schemas over GraphQL at
+      /functions/v1/graphql/<project id>
+      - `enabled` - NULL or false leaves the endpoint switched off
+      - `is_public` - when false, requests need a project API key that grants every endpoint;
+        queries need its read scope and mutations its write scope
+
+  2. Security
+    - No new policies; the graphql function reads and writes api_data with the service role, as
+      api-proxy does for schema endpoints, and applies the project's access policy
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'graphql_config'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN graphql_config jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,33 @@
+/*
+  # Add Streaming Endpoints
+
+  1. Schema Changes
+    - Allow `stream` as an api_endpoints data_type - GET requests get a Server-Sent Events stream
+      (text/event-stream) instead of a JSON body
+    - Add `stream_config` to api_endpoints
+      - `source` - `template` sends one event per element of the endpoint's template (template_id),
+        `schema` one per row of its schema (schema_id), `generator` renders `generator` per event
+      - `interval_ms` - delay between events; the first event is sent at once
+      - `event` - SSE event name; events without one are `message` events
+      - `loop` - start again after the last template element or schema row
+      - `max_events` - end the stream after this many events
+    - Event ids count from 1; a reconnecting client's Last-Event-ID resumes with the next event
+
+  2. Security
+    - No new policies; stream settings are part of the endpoint row and covered by its policies
+*/
+
+ALTER TABLE api_endpoints DROP CONSTRAINT IF EXISTS api_endpoints_data_type_check;
+
+ALTER TABLE api_endpoints ADD CONSTRAINT api_endpoints_data_type_check
+CHECK (data_type = ANY (ARRAY['template'::text, 'schema'::text, 'upstream'::text, 'stream'::text]));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'stream_config'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN stream_config jsonb;
+  END IF;
+END $$;
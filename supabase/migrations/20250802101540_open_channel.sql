@@ -0,0 +1,77 @@
+/*
+  # Add WebSocket Channels
+
+  1. New Tables
+    - `ws_channels` - mock WebSocket backends, served by the websocket function at
+      /functions/v1/websocket/<project id>/<name>
+      - `name` - URL segment, unique within the project
+      - `is_public` - when false, clients connect with a project API key that grants every endpoint
+        (read scope to connect, write scope to send)
+      - `script` - messages sent to every new connection, each `{ delay_ms, message }` after the
+        one before it; `script_loop` starts the script again after its last message
+      - `rules` - checked in order against every client message; the first enabled rule that
+        matches sends its reply to the sender or to every connection on the channel
+      - `fallback` - what happens to messages no rule matches: `echo` back to the sender,
+        `broadcast` to every connection, or `none`
+
+  2. Security
+    - Enable RLS and restrict channels to their owner; the websocket function reads them with the
+      service role
+    - Channels can only be created in, or moved to, the owner's own projects
+*/
+
+CREATE TABLE IF NOT EXISTS ws_channels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (name ~ '^[A-Za-z0-9._-]{1,64}$'),
+  description text,
+  is_public boolean NOT NULL DEFAULT true,
+  script jsonb NOT NULL DEFAULT '[]'::jsonb,
+  script_loop boolean NOT NULL DEFAULT false,
+  rules jsonb NOT NULL DEFAULT '[]'::jsonb,
+  fallback text NOT NULL DEFAULT 'echo' CHECK (fallback = ANY (ARRAY['echo'::text, 'broadcast'::text, 'none'::text])),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (project_id, name)
+);
+
+-- Enable RLS
+ALTER TABLE ws_channels ENABLE ROW LEVEL SECURITY;
+
+-- Policies for ws_channels
+CREATE POLICY "Users can read own channels"
+  ON ws_channels FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own channels"
+  ON ws_channels FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM projects p WHERE p.id = ws_channels.project_id AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own channels"
+  ON ws_channels FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM projects p WHERE p.id = ws_channels.project_id AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own channels"
+  ON ws_channels FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_ws_channels_user_id ON ws_channels(user_id);
+
+DROP TRIGGER IF EXISTS update_ws_channels_updated_at ON ws_channels;
+CREATE TRIGGER update_ws_channels_updated_at
+  BEFORE UPDATE ON ws_channels
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
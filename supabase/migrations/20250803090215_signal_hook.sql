@@ -0,0 +1,228 @@
+/*
+  # Add Outbound Webhooks
+
+  1. New Tables
+    - `webhooks` - URLs notified when a project's schema data changes
+      - `secret` - signs every delivery; receivers check the X-Webhook-Signature header with it
+      - `events` - which of `created`, `updated` and `deleted` to send
+      - `schema_ids` - schemas whose rows are sent, NULL for every schema in the project
+    - `webhook_deliveries` - one row per payload sent to a webhook, kept as the delivery log
+      - `event_id` - shared by every delivery of the same change, redeliveries included, so
+        receivers can drop duplicates
+      - `status` - `pending` until sent, `delivering` while an attempt is in flight, then
+        `succeeded` or `failed` once the last attempt is used
+      - `attempts` / `next_attempt_at` - failed attempts are retried with exponential backoff
+      - `response_status`, `response_body`, `error`, `duration_ms` - outcome of the latest attempt
+      - `redelivery_of` - the delivery a manual redelivery was copied from
+
+  2. Triggers
+    - `queue_webhook_deliveries` - queues a delivery for every matching webhook when an `api_data`
+      row is inserted, updated or deleted, whether by the dashboard, the api-proxy or GraphQL;
+      the webhooks function sends them. Mock session data is never sent.
+
+  3. Scheduled Jobs
+    - `deliver-due-webhooks` - every minute, pg_cron has pg_net call the webhooks function's
+      `deliver` action with the service role key, so retries are sent while no dashboard is open.
+      It reads the project URL and key from Vault and does nothing until both are stored:
+        SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+        SELECT vault.create_secret('<service role key>', 'service_role_key');
+      Under `supabase start` the project URL is http://host.docker.internal:54321
+
+  4. Security
+    - Enable RLS and restrict webhooks and their deliveries to their owner; deliveries are created
+      by the trigger and sent by the webhooks function with the service role
+    - Webhooks can only be registered on the owner's own projects; the queueing trigger matches
+      on project alone, so a webhook elsewhere would receive another owner's data
+*/
+
+CREATE TABLE IF NOT EXISTS webhooks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  url text NOT NULL CHECK (url ~ '^https?://'),
+  secret text NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  events text[] NOT NULL DEFAULT ARRAY['created', 'updated', 'deleted']
+    CHECK (events <@ ARRAY['created'::text, 'updated'::text, 'deleted'::text]),
+  schema_ids uuid[],
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id uuid NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  event text NOT NULL,
+  event_id uuid NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status = ANY (ARRAY['pending'::text, 'delivering'::text, 'succeeded'::text, 'failed'::text])),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  response_status integer,
+  response_body text,
+  error text,
+  duration_ms integer,
+  redelivery_of uuid REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+-- Enable RLS
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Policies for webhooks
+CREATE POLICY "Users can read own webhooks"
+  ON webhooks FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own webhooks"
+  ON webhooks FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM projects p WHERE p.id = webhooks.project_id AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own webhooks"
+  ON webhooks FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM projects p WHERE p.id = webhooks.project_id AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own webhooks"
+  ON webhooks FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Policies for webhook_deliveries; the log is written by the trigger and the webhooks function only
+CREATE POLICY "Users can read own webhook deliveries"
+  ON webhook_deliveries FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own webhook deliveries"
+  ON webhook_deliveries FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_webhooks_project_id ON webhooks(project_id);
+CREATE INDEX IF NOT EXISTS idx_webhooks_user_id ON webhooks(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_created ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at)
+  WHERE status = ANY (ARRAY['pending'::text, 'delivering'::text]);
+
+DROP TRIGGER IF EXISTS update_webhooks_updated_at ON webhooks;
+CREATE TRIGGER update_webhooks_updated_at
+  BEFORE UPDATE ON webhooks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Queue a delivery of the change for every enabled webhook that wants it
+CREATE OR REPLACE FUNCTION queue_webhook_deliveries()
+RETURNS trigger AS $$
+DECLARE
+  change text;
+  change_id uuid := gen_random_uuid();
+  schema_row record;
+  change_payload jsonb;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.data IS NOT DISTINCT FROM OLD.data THEN
+    RETURN NEW;
+  END IF;
+
+  -- Rows removed along with their schema have no schema left to describe
+  SELECT id, name, project_id INTO schema_row
+  FROM api_schemas
+  WHERE id = COALESCE(NEW.schema_id, OLD.schema_id);
+
+  IF schema_row.project_id IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  change := CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END;
+
+  change_payload := jsonb_build_object(
+    'id', change_id,
+    'event', 'data.' || change,
+    'occurred_at', now(),
+    'project_id', schema_row.project_id,
+    'schema', jsonb_build_object('id', schema_row.id, 'name', schema_row.name),
+    'record', CASE
+      WHEN TG_OP = 'DELETE' THEN jsonb_build_object('id', OLD.id, 'data', OLD.data)
+      ELSE jsonb_build_object('id', NEW.id, 'data', NEW.data)
+    END,
+    'previous', CASE WHEN TG_OP = 'UPDATE' THEN OLD.data ELSE NULL END
+  );
+
+  INSERT INTO webhook_deliveries (webhook_id, user_id, event, event_id, payload)
+  SELECT id, user_id, 'data.' || change, change_id, change_payload
+  FROM webhooks
+  WHERE project_id = schema_row.project_id
+    -- Only the project owner's webhooks receive its data
+    AND user_id = (SELECT p.user_id FROM projects p WHERE p.id = schema_row.project_id)
+    AND enabled
+    AND change = ANY (events)
+    AND (schema_ids IS NULL OR schema_row.id = ANY (schema_ids));
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS queue_webhook_deliveries_api_data ON api_data;
+CREATE TRIGGER queue_webhook_deliveries_api_data
+  AFTER INSERT OR UPDATE OR DELETE ON api_data
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_webhook_deliveries();
+
+-- Ask the webhooks function to send every project's due deliveries. Skips the request when
+-- nothing is due or the Vault secrets it needs are missing.
+CREATE OR REPLACE FUNCTION request_due_webhook_deliveries()
+RETURNS void AS $$
+DECLARE
+  project_url text;
+  service_role_key text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM webhook_deliveries
+    WHERE status = ANY (ARRAY['pending'::text, 'delivering'::text])
+      AND next_attempt_at <= now()
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := rtrim(project_url, '/') || '/functions/v1/webhooks/deliver',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Only the scheduler runs it
+REVOKE EXECUTE ON FUNCTION request_due_webhook_deliveries() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Scheduling an existing job name replaces it, so rerunning the migration keeps one job
+SELECT cron.schedule(
+  'deliver-due-webhooks',
+  '* * * * *',
+  'SELECT request_due_webhook_deliveries()'
+);
@@ -0,0 +1,85 @@
+/*
+  # Add Webhook Catcher Endpoints
+
+  1. Schema Changes
+    - Allow `catcher` as an api_endpoints data_type - requests with any method are stored for
+      inspection and answered with a configured response
+    - Add `catcher_config` to api_endpoints
+      - `status` - response status, 200 when unset
+      - `headers` - response headers
+      - `body` - response body; supports the same placeholders as templates. When unset the
+        response is `{ "received": true, "capture_id": "<id>" }`
+
+  2. New Tables
+    - `api_captures` - every request a catcher endpoint received
+      - `headers`, `query`, `body`, `ip` - the request as sent; the x-api-key header of private
+        endpoints is stored redacted
+      - `body_encoding` - `text`, or `base64` for bodies that are not UTF-8 text
+      - `body_size` - bytes received; bodies over 1 MB are counted but not stored
+
+  3. Realtime
+    - Publish api_captures inserts so the request inspector shows captures as they arrive
+
+  4. Security
+    - Enable RLS and restrict captures to their owner; the proxy writes them with the service role
+*/
+
+ALTER TABLE api_endpoints DROP CONSTRAINT IF EXISTS api_endpoints_data_type_check;
+
+ALTER TABLE api_endpoints ADD CONSTRAINT api_endpoints_data_type_check
+CHECK (data_type = ANY (ARRAY['template'::text, 'schema'::text, 'upstream'::text, 'stream'::text, 'catcher'::text]));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'api_endpoints' AND column_name = 'catcher_config'
+  ) THEN
+    ALTER TABLE api_endpoints ADD COLUMN catcher_config jsonb;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS api_captures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id uuid NOT NULL REFERENCES api_endpoints(id) ON DELETE CASCADE,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  method text NOT NULL,
+  path text NOT NULL,
+  query jsonb NOT NULL DEFAULT '{}'::jsonb,
+  headers jsonb NOT NULL DEFAULT '{}'::jsonb,
+  body text,
+  body_encoding text NOT NULL DEFAULT 'text' CHECK (body_encoding = ANY (ARRAY['text'::text, 'base64'::text])),
+  body_size integer NOT NULL DEFAULT 0,
+  ip text,
+  response_status integer NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE api_captures ENABLE ROW LEVEL SECURITY;
+
+-- Policies for api_captures
+CREATE POLICY "Users can read own captures"
+  ON api_captures FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own captures"
+  ON api_captures FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_api_captures_endpoint_created ON api_captures(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_api_captures_project_created ON api_captures(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_api_captures_user_id ON api_captures(user_id);
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = 'api_captures'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE api_captures;
+  END IF;
+END $$;